@@ -29,7 +29,9 @@ module.exports = {
     '^@ui$': '<rootDir>/src/ui',
     '^@ui/(.*)$': '<rootDir>/src/ui/$1',
     '^@utils$': '<rootDir>/src/utils',
-    '^@utils/(.*)$': '<rootDir>/src/utils/$1'
+    '^@utils/(.*)$': '<rootDir>/src/utils/$1',
+    '^@actions$': '<rootDir>/src/actions',
+    '^@actions/(.*)$': '<rootDir>/src/actions/$1'
   },
   globals: {
     'ts-jest': {
@@ -21,6 +21,21 @@ export class PluginSettingTab {}
 export class Setting {}
 export class Component {}
 export class MarkdownRenderer {}
+export class AbstractInputSuggest<T> {
+    app: any;
+    limit = 100;
+    constructor(app?: any, _inputEl?: HTMLElement) {
+        this.app = app;
+    }
+    close(): void {}
+    onSelect(_callback: (value: T) => void): this {
+        return this;
+    }
+}
+export const getAllTags = jest.fn((cache: any) => (cache?.tags ?? []) as string[]);
+export const moment = jest.requireActual('moment');
+export const normalizePath = (path: string) =>
+    path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
 
 // Mock HTMLElement 扩展方法（Obsidian API）
 declare global {
@@ -0,0 +1,123 @@
+import type { Plugin } from 'obsidian';
+import { OperationJournal } from '@core/OperationJournal';
+import { revertBatchUpdate } from '@actions/batch-apply-preset';
+
+jest.mock('@actions/batch-apply-preset', () => ({
+  revertBatchUpdate: jest.fn(),
+}));
+
+jest.mock('@utils/notify', () => ({
+  notify: jest.fn(),
+  notifyInfo: jest.fn(),
+  notifySuccess: jest.fn(),
+  notifyWarning: jest.fn(),
+}));
+
+const mockRevertBatchUpdate = revertBatchUpdate as jest.Mock;
+
+const createPlugin = (files: Map<string, string>) =>
+  ({
+    app: {
+      vault: {
+        configDir: '.obsidian',
+        adapter: {
+          exists: jest.fn(async (path: string) => files.has(path)),
+          read: jest.fn(async (path: string) => files.get(path) ?? ''),
+          write: jest.fn(async (path: string, data: string) => {
+            files.set(path, data);
+          }),
+        },
+      },
+    },
+    manifest: { id: 'note-architect', dir: '.obsidian/plugins/note-architect' },
+  }) as unknown as Plugin;
+
+const HISTORY_PATH = '.obsidian/plugins/note-architect/operation-history.json';
+
+describe('OperationJournal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records changed files only and keeps the newest records within the limit', async () => {
+    const files = new Map<string, string>();
+    const journal = new OperationJournal(createPlugin(files), () => 2);
+
+    expect(
+      await journal.record('update-frontmatter', 'noop', [{ path: 'a.md', before: 'x', after: 'x' }]),
+    ).toBeNull();
+
+    await journal.record('insert-template', 'first', [{ path: 'a.md', before: '1', after: '2' }]);
+    await journal.record('bind-preset', 'second', [
+      { path: 'b.md', before: '1', after: '2' },
+      { path: 'c.md', before: 'same', after: 'same' },
+    ]);
+    await journal.record('batch-apply', 'third', [{ path: 'c.md', before: '1', after: '2' }]);
+
+    expect(journal.getRecords().map((record) => record.description)).toEqual(['third', 'second']);
+    expect(journal.getRecords()[1].entries.map((entry) => entry.path)).toEqual(['b.md']);
+    expect(journal.getLatest('bind-preset')?.description).toBe('second');
+    expect(journal.getLatest('insert-template')).toBeNull();
+  });
+
+  it('does not record when the limit is 0', async () => {
+    const journal = new OperationJournal(createPlugin(new Map()), () => 0);
+
+    expect(await journal.record('insert-template', 'x', [{ path: 'a.md', before: '1', after: '2' }])).toBeNull();
+    expect(journal.getRecords()).toEqual([]);
+  });
+
+  it('persists records to the plugin folder and restores them on load', async () => {
+    const files = new Map<string, string>();
+    const journal = new OperationJournal(createPlugin(files), () => 10);
+    await journal.record('clear-preset-binding', 'clear', [{ path: 'T.md', before: 'a', after: 'b' }]);
+
+    expect(files.has(HISTORY_PATH)).toBe(true);
+
+    files.set(
+      HISTORY_PATH,
+      JSON.stringify([...JSON.parse(files.get(HISTORY_PATH) ?? '[]'), { id: 'broken', type: 'unknown' }]),
+    );
+    const restored = new OperationJournal(createPlugin(files), () => 10);
+    await restored.load();
+
+    expect(restored.getRecords()).toEqual(journal.getRecords());
+  });
+
+  it('keeps the created flag of new notes across reloads', async () => {
+    const files = new Map<string, string>();
+    const journal = new OperationJournal(createPlugin(files), () => 10);
+    await journal.record('create-note', 'create', [{ path: 'New.md', before: '', after: '# New', created: true }]);
+
+    const restored = new OperationJournal(createPlugin(files), () => 10);
+    await restored.load();
+
+    expect(restored.getRecords()[0].entries).toEqual([{ path: 'New.md', before: '', after: '# New', created: true }]);
+  });
+
+  it('keeps conflicting files in the record until they are reverted', async () => {
+    const journal = new OperationJournal(createPlugin(new Map()), () => 10);
+    const listener = jest.fn();
+    journal.onChange(listener);
+    const record = await journal.record('batch-apply', 'batch', [
+      { path: 'a.md', before: '1', after: '2' },
+      { path: 'b.md', before: '1', after: '2' },
+    ]);
+
+    mockRevertBatchUpdate.mockResolvedValueOnce({ reverted: 1, skipped: ['b.md'], failed: [] });
+    await journal.revert(record!.id);
+
+    expect(journal.getRecords()[0].entries.map((entry) => entry.path)).toEqual(['b.md']);
+
+    mockRevertBatchUpdate.mockResolvedValueOnce({ reverted: 1, skipped: [], failed: [] });
+    await journal.revert(record!.id, { force: true });
+
+    expect(mockRevertBatchUpdate).toHaveBeenLastCalledWith(
+      expect.anything(),
+      [{ path: 'b.md', before: '1', after: '2' }],
+      { force: true },
+    );
+    expect(journal.getRecords()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
@@ -44,6 +44,7 @@ describe('UiRegistrar note-architect-config 綁定流程', () => {
       addRibbonIcon: jest.fn().mockReturnValue({ addClass: jest.fn() }),
       addCommand: jest.fn(),
       addSettingTab: jest.fn(),
+      operationJournal: { record: jest.fn().mockResolvedValue(null) },
     } as unknown as Plugin & {
       templateManager: { reloadTemplates: jest.Mock };
     };
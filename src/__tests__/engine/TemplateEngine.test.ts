@@ -1,4 +1,11 @@
-import { mergeFrontmatters } from '@engine/TemplateEngine';
+import type { App } from 'obsidian';
+import type NoteArchitect from '@core/plugin';
+import type { FrontmatterPreset, Template } from '@types';
+import { expandPartials } from '@engine/partials';
+import {
+  mergeFrontmatters,
+  prepareTemplateWithUserInput,
+} from '@engine/TemplateEngine';
 
 describe('TemplateEngine.mergeFrontmatters', () => {
   it('會將 tags 欄位合併並去重', () => {
@@ -18,4 +25,75 @@ describe('TemplateEngine.mergeFrontmatters', () => {
     expect(merged.tags).toEqual(['draft', 'ready']);
     expect(merged.owner).toBe('Alex');
   });
+
+  it('兩側 tags 皆為單一字串時仍會合併', () => {
+    const merged = mergeFrontmatters({ tags: 'foo' }, { tags: 'bar' });
+    expect(merged.tags).toEqual(['foo', 'bar']);
+  });
+});
+
+describe('TemplateEngine.prepareTemplateWithUserInput', () => {
+  const preset: FrontmatterPreset = { id: 'meeting', name: '会议', fields: [] };
+
+  const createPlugin = (templates: Template[]) =>
+    ({
+      settings: { enableTemplaterIntegration: false },
+      presetManager: { getPresets: () => [] },
+      templateManager: {
+        expandTemplate: (template: Template) =>
+          expandPartials(
+            template,
+            (path) => templates.find((item) => item.path === path),
+            'Templates'
+          ),
+      },
+    }) as unknown as NoteArchitect;
+
+  const buildTemplate = (path: string, content: string): Template => ({
+    id: path,
+    name: path,
+    path,
+    content,
+  });
+
+  const prepare = (template: Template, templates: Template[]) =>
+    prepareTemplateWithUserInput(
+      {} as App,
+      createPlugin(templates),
+      template,
+      preset,
+      {},
+      { includeNoteFrontmatter: false, title: 'Note' }
+    );
+
+  it('块错误的行号对应模板文件中的行', async () => {
+    const template = buildTemplate(
+      'Templates/meeting.md',
+      '---\nstatus: active\n---\n\n# {{title}}\n{{#if status}}\n'
+    );
+
+    await expect(prepare(template, [template])).rejects.toThrow(
+      '第 6 行：{{#if}} 缺少结束标记 {{/if}}'
+    );
+  });
+
+  it('展开片段后仍按模板文件报告行号', async () => {
+    const partial = buildTemplate('Templates/steps.md', '- a\n- b\n- c\n');
+    const template = buildTemplate(
+      'Templates/meeting.md',
+      '---\nstatus: active\n---\n{{> steps}}\n{{/each}}\n'
+    );
+
+    await expect(prepare(template, [template, partial])).rejects.toThrow(
+      '第 5 行：{{/each}} 没有对应的 {{#each}}'
+    );
+  });
+
+  it('返回无法展开的片段说明', async () => {
+    const template = buildTemplate('Templates/meeting.md', '{{> missing}}\n');
+
+    const result = await prepare(template, [template]);
+    expect(result.partialErrors).toHaveLength(1);
+    expect(result.templateBody).toContain('{{> missing}}');
+  });
 });
@@ -2,6 +2,8 @@ import type { FrontmatterField, FrontmatterPreset } from '@types';
 import {
   upgradeTagsToMultiSelect,
   mergeTagsOptions,
+} from '@utils/frontmatter/tags';
+import {
   mergeTagsFields,
   resolveFieldConflicts,
   mergeNonTagsFields,
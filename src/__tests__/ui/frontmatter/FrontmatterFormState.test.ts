@@ -132,6 +132,41 @@ describe('FrontmatterFormState', () => {
 
 			expect(mockPresetManager.validateFormData).not.toHaveBeenCalled();
 		});
+
+		it('父字段变化后应清除失效的级联取值', () => {
+			const cascadingPreset: FrontmatterPreset = {
+				...mockPreset,
+				fields: [
+					mockPreset.fields[3],
+					{
+						key: 'series',
+						type: 'select' as const,
+						label: 'Series',
+						default: '',
+						dependsOn: 'category',
+						optionsByParent: { blog: ['tech', 'life'], journal: ['daily'] }
+					},
+					{
+						key: 'topics',
+						type: 'multi-select' as const,
+						label: 'Topics',
+						default: [],
+						dependsOn: 'series',
+						optionsByParent: { tech: ['ts', 'rust'], life: ['food'] }
+					}
+				]
+			};
+			formState.switchPreset(cascadingPreset);
+			formState.setFieldValue('category', 'blog', false);
+			formState.setFieldValue('series', 'tech', false);
+			formState.setFieldValue('topics', ['ts', 'rust'], false);
+
+			formState.setFieldValue('category', 'journal', false);
+
+			const data = formState.getData();
+			expect(data.series).toBe('');
+			expect(data.topics).toEqual([]);
+		});
 	});
 
 	describe('setFieldTouched', () => {
@@ -190,6 +225,51 @@ describe('FrontmatterFormState', () => {
 			expect(result).toEqual(mockResult);
 		});
 
+		it('未填写的字段应回退到解析后的默认值再验证', () => {
+			mockPresetManager.validateFormData.mockReturnValue({
+				isValid: true,
+				errors: [],
+				fieldErrors: {}
+			});
+			formState.setResolvedDefaults(new Map([['title', 'Default Title'], ['date', '2025-01-01']]), new Set());
+			formState.setFieldValue('date', '2025-02-02', false);
+
+			formState.validate();
+
+			expect(mockPresetManager.validateFormData).toHaveBeenCalledWith(mockPreset, {
+				title: 'Default Title',
+				date: '2025-02-02'
+			});
+		});
+
+		it('隐藏字段不参与验证', () => {
+			mockPresetManager.validateFormData.mockReturnValue({
+				isValid: true,
+				errors: [],
+				fieldErrors: {}
+			});
+			const conditionalPreset: FrontmatterPreset = {
+				...mockPreset,
+				fields: [
+					mockPreset.fields[0],
+					{
+						...mockPreset.fields[1],
+						showIf: [{ field: 'title', operator: 'is-not-empty' }]
+					}
+				]
+			};
+			formState.switchPreset(conditionalPreset);
+
+			formState.validate();
+
+			const [validatedPreset] = mockPresetManager.validateFormData.mock.calls[0];
+			expect(validatedPreset.fields.map(field => field.key)).toEqual(['title']);
+			expect(formState.isFieldVisible('date')).toBe(false);
+
+			formState.setFieldValue('title', 'Hello', false);
+			expect(formState.isFieldVisible('date')).toBe(true);
+		});
+
 		it('应该更新内部错误状态', () => {
 			const mockResult: FormValidationResult = {
 				isValid: false,
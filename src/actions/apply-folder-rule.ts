@@ -0,0 +1,79 @@
+import { App, TFile } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import { EMPTY_PRESET } from "@core/constants";
+import type { FrontmatterPreset, NoteProvenance, Template } from "@types";
+import { prepareTemplateWithUserInput } from "@engine/TemplateEngine";
+import {
+  collectMergeStrategies,
+  mergeFrontmatters,
+} from "@utils/frontmatter/merge";
+import { composeContent, parseFrontmatter } from "@utils/frontmatter/text";
+import { notifySuccess, notifyWarning } from "@utils/notify";
+
+/**
+ * 将模板应用到文件夹规则命中的新笔记
+ * 笔记中已有的 frontmatter 会保留，模板正文插入到已有正文之前。
+ * @param app Obsidian 应用实例
+ * @param plugin NoteArchitect 插件实例
+ * @param file 新建的笔记
+ * @param template 规则指定的模板
+ * @param preset 合并后的预设，未绑定预设时传 null
+ * @param userFrontmatter 用户输入的 frontmatter 数据，静默应用时为空
+ * @param provenance 写入笔记的来源记录，未启用时为 null
+ */
+export async function executeFolderRuleApplication(
+  app: App,
+  plugin: NoteArchitect,
+  file: TFile,
+  template: Template,
+  preset: FrontmatterPreset | null,
+  userFrontmatter: Record<string, unknown> = {},
+  provenance: NoteProvenance | null = null
+): Promise<void> {
+  const preparation = await prepareTemplateWithUserInput(
+    app,
+    plugin,
+    template,
+    preset ?? EMPTY_PRESET,
+    userFrontmatter,
+    { title: file.basename, includeNoteFrontmatter: false, provenance }
+  );
+
+  // 在写入时读取最新内容，避免覆盖打开表单期间用户输入的文字
+  const state = { before: "", after: "" };
+  await app.vault.process(file, (current) => {
+    state.before = current;
+    const parsed = parseFrontmatter(current);
+    const existingBody = parsed.body.trim();
+    const body = [preparation.templateBody.trim(), existingBody]
+      .filter(Boolean)
+      .join("\n\n");
+    state.after = composeContent(
+      mergeFrontmatters(
+        parsed.frontmatter,
+        preparation.mergedFrontmatter,
+        collectMergeStrategies(preset?.fields ?? [])
+      ),
+      { ...parsed, body: body ? `${body}\n` : "", hasFrontmatter: false }
+    );
+    return state.after;
+  });
+  await plugin.operationJournal.record(
+    "apply-folder-rule",
+    `为 "${file.basename}" 应用模板 "${template.name}"`,
+    [{ path: file.path, before: state.before, after: state.after }]
+  );
+
+  if (preparation.templaterError) {
+    notifyWarning(`${preparation.templaterError}，已使用原始模板内容`);
+  }
+  if (preparation.unknownPlaceholders.length > 0) {
+    notifyWarning(
+      `以下占位符无法识别，已保留原文：${preparation.unknownPlaceholders.join("、")}`
+    );
+  }
+  if (preparation.partialErrors.length > 0) {
+    notifyWarning(`部分片段未能展开：${preparation.partialErrors.join("；")}`);
+  }
+  notifySuccess(`已为 "${file.basename}" 应用模板 "${template.name}"。`);
+}
@@ -0,0 +1,184 @@
+import { App, TFile } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import { auditFrontmatter, applyComplianceFixes } from "@presets/compliance";
+import type {
+  BatchJournalEntry,
+  CompliancePresetSource,
+  ComplianceViolation,
+  FrontmatterPreset,
+  NoteComplianceReport,
+} from "@types";
+import { createMergedPreset } from "@ui/frontmatter/preset-field-merger";
+import { parseTemplateContent } from "@engine/TemplateEngine";
+import { updateFrontmatter } from "@utils/frontmatter-editor";
+import { findMatchingFolderRule } from "@utils/folder-rules";
+import {
+  collectMatchingPresets,
+  resolvePresetConfigIds,
+} from "@utils/note-architect-config";
+import { isInsideTemplateFolder } from "@utils/path";
+import { readNoteProvenance } from "@utils/provenance";
+import { isFileInFolder } from "@utils/vault";
+
+export interface ComplianceAuditOptions {
+  /** 指定预设时检查范围内的所有笔记，否则按记录的预设与文件夹规则自动匹配 */
+  presetId?: string;
+  /** 检查范围，留空表示整个库 */
+  folder?: string;
+}
+
+export interface ComplianceAuditResult {
+  /** 找到对应预设并参与检查的笔记数 */
+  audited: number;
+  /** 存在违规项的笔记 */
+  reports: NoteComplianceReport[];
+}
+
+export interface NotePresetMatch {
+  preset: FrontmatterPreset;
+  source: CompliancePresetSource;
+}
+
+/**
+ * 创建笔记预设匹配函数：优先使用笔记记录的预设，其次按文件夹规则匹配。
+ * 多个预设会合并为一个，同一模板的绑定只解析一次。
+ * @param plugin NoteArchitect 插件实例
+ */
+export function createNotePresetResolver(
+  plugin: NoteArchitect
+): (file: TFile, frontmatter: Record<string, unknown>) => NotePresetMatch | null {
+  const presets = plugin.presetManager.getPresets();
+  const templatePresetIds = new Map<string, string[]>();
+  const resolvePresetsByIds = (ids: string[]): FrontmatterPreset | null => {
+    const { matched } = collectMatchingPresets(ids, presets);
+    return matched.length > 0
+      ? createMergedPreset(plugin.presetManager.resolvePresets(matched))
+          .mergedPreset
+      : null;
+  };
+
+  return (file, frontmatter) => {
+    const configIds = resolvePresetConfigIds(frontmatter).ids;
+    const recorded = resolvePresetsByIds(
+      configIds.length > 0
+        ? configIds
+        : readNoteProvenance(frontmatter)?.presets ?? []
+    );
+    if (recorded) {
+      return { preset: recorded, source: "recorded" };
+    }
+
+    const rule = findMatchingFolderRule(
+      plugin.settings.folderTemplateRules,
+      file.path
+    );
+    if (!rule) {
+      return null;
+    }
+    let ruleIds = rule.presetIds;
+    if (ruleIds.length === 0) {
+      if (!templatePresetIds.has(rule.templatePath)) {
+        const template = plugin.templateManager.getTemplateById(
+          rule.templatePath
+        );
+        templatePresetIds.set(
+          rule.templatePath,
+          template
+            ? resolvePresetConfigIds(
+                parseTemplateContent(template.content).frontmatter
+              ).ids
+            : []
+        );
+      }
+      ruleIds = templatePresetIds.get(rule.templatePath) ?? [];
+    }
+    const rulePreset = resolvePresetsByIds(ruleIds);
+    return rulePreset ? { preset: rulePreset, source: "folder-rule" } : null;
+  };
+}
+
+/**
+ * 检查库中笔记是否符合其对应的预设
+ * @param app Obsidian 应用实例
+ * @param plugin NoteArchitect 插件实例
+ * @param options 检查范围与预设选择
+ */
+export function auditVaultCompliance(
+  app: App,
+  plugin: NoteArchitect,
+  options: ComplianceAuditOptions = {}
+): ComplianceAuditResult {
+  const presets = plugin.presetManager.getPresets();
+  const templateFolder = plugin.settings.templateFolderPath?.trim() ?? "";
+  const folder = options.folder?.trim() ?? "";
+  const selectedPreset = options.presetId
+    ? presets.find((preset) => preset.id === options.presetId)
+    : undefined;
+  if (options.presetId && !selectedPreset) {
+    throw new Error(`未找到 ID 为 "${options.presetId}" 的预设`);
+  }
+  const manualPreset =
+    selectedPreset && plugin.presetManager.resolvePreset(selectedPreset);
+
+  const resolveNotePreset = createNotePresetResolver(plugin);
+
+  let audited = 0;
+  const reports: NoteComplianceReport[] = [];
+  app.vault
+    .getMarkdownFiles()
+    .filter((file) => !folder || isFileInFolder(file, folder))
+    .filter(
+      (file) =>
+        !(templateFolder && isInsideTemplateFolder(file.path, templateFolder))
+    )
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .forEach((file) => {
+      const frontmatter = {
+        ...(app.metadataCache.getFileCache(file)?.frontmatter ?? {}),
+      } as Record<string, unknown>;
+      const match: NotePresetMatch | null = manualPreset
+        ? { preset: manualPreset, source: "manual" }
+        : resolveNotePreset(file, frontmatter);
+      if (!match) {
+        return;
+      }
+
+      audited++;
+      const violations = auditFrontmatter(
+        match.preset,
+        frontmatter,
+        (preset, data) => plugin.presetManager.validateFormData(preset, data)
+      );
+      if (violations.length > 0) {
+        reports.push({ path: file.path, ...match, violations });
+      }
+    });
+
+  return { audited, reports };
+}
+
+/**
+ * 通过 updateFrontmatter 写入违规项的修复
+ * @returns 写入前后的内容，供操作历史记录
+ */
+export async function fixNoteViolations(
+  app: App,
+  path: string,
+  violations: ComplianceViolation[]
+): Promise<BatchJournalEntry> {
+  const file = app.vault.getAbstractFileByPath(path);
+  if (!(file instanceof TFile)) {
+    throw new Error(`找不到笔记 "${path}"`);
+  }
+
+  const entry: BatchJournalEntry = { path, before: "", after: "" };
+  await app.vault.process(file, (current) => {
+    const result = updateFrontmatter(current, (frontmatter) =>
+      applyComplianceFixes(frontmatter, violations)
+    );
+    entry.before = current;
+    entry.after = result.content;
+    return result.content;
+  });
+  return entry;
+}
@@ -0,0 +1,293 @@
+import { App, Editor, MarkdownView, TFile } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import type {
+  BatchApplyResult,
+  BatchFilePlan,
+  BatchJournalEntry,
+  BatchRevertResult,
+  FrontmatterUpdateMode,
+  RevertOptions,
+  SearchViewWithResults,
+} from "@types";
+import {
+  applyFrontmatterPatch,
+  planFrontmatterTransform,
+  summarizeBatchPlans,
+} from "@utils/frontmatter/batch";
+import type { FieldMergeStrategies } from "@utils/frontmatter/merge";
+import { notifyInfo } from "@utils/notify";
+import { isInsideTemplateFolder } from "@utils/path";
+import { fileHasTag, isFileInFolder } from "@utils/vault";
+
+export type BatchTargetQuery =
+  | { type: "folder"; folder: string }
+  | { type: "tag"; tag: string }
+  | { type: "search" };
+
+/**
+ * 根据选择方式收集要批量处理的笔记，模板文件夹内的文件会被排除
+ * @param app Obsidian 应用实例
+ * @param query 文件夹、标签或当前搜索结果
+ * @param templateFolder 模板文件夹路径
+ */
+export function collectBatchTargets(
+  app: App,
+  query: BatchTargetQuery,
+  templateFolder: string
+): TFile[] {
+  let files: TFile[];
+  switch (query.type) {
+    case "folder":
+      files = app.vault
+        .getMarkdownFiles()
+        .filter((file) => isFileInFolder(file, query.folder));
+      break;
+    case "tag":
+      files = query.tag.trim()
+        ? app.vault
+            .getMarkdownFiles()
+            .filter((file) => fileHasTag(app, file, query.tag.trim()))
+        : [];
+      break;
+    case "search":
+      files = getSearchResultFiles(app);
+      break;
+    default:
+      files = [];
+  }
+  return filterBatchTargets(files, templateFolder);
+}
+
+/**
+ * 去重并排除非 Markdown 文件与模板文件夹中的文件
+ */
+export function filterBatchTargets(
+  files: TFile[],
+  templateFolder: string
+): TFile[] {
+  const seen = new Set<string>();
+  return files
+    .filter((file) => {
+      if (file.extension !== "md" || seen.has(file.path)) {
+        return false;
+      }
+      seen.add(file.path);
+      return !(
+        templateFolder.trim() && isInsideTemplateFolder(file.path, templateFolder)
+      );
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * 读取搜索面板中的当前结果（依赖非公开 API，不可用时返回空列表）
+ */
+function getSearchResultFiles(app: App): TFile[] {
+  const [leaf] = app.workspace.getLeavesOfType("search");
+  const lookup = (leaf?.view as SearchViewWithResults | undefined)?.dom
+    ?.resultDomLookup;
+  if (!lookup) {
+    return [];
+  }
+  return Array.from(lookup.keys()).filter(
+    (file): file is TFile => file instanceof TFile
+  );
+}
+
+type FrontmatterTransform = (
+  frontmatter: Record<string, unknown>
+) => Record<string, unknown>;
+
+/**
+ * 试运行：计算每个文件的变更但不写入
+ * @param app Obsidian 应用实例
+ * @param files 目标笔记
+ * @param patch 所有笔记共用的表单数据（含预设默认值）
+ * @param mode 更新模式
+ * @param strategies 字段声明的合并方式
+ */
+export async function previewBatchUpdate(
+  app: App,
+  files: TFile[],
+  patch: Record<string, unknown>,
+  mode: FrontmatterUpdateMode,
+  strategies: FieldMergeStrategies = {}
+): Promise<BatchFilePlan[]> {
+  return previewFrontmatterTransform(app, files, (frontmatter) =>
+    applyFrontmatterPatch(frontmatter, patch, mode, strategies)
+  );
+}
+
+/**
+ * 将表单数据写入每个文件，并记录写入前后的内容以便整体撤销
+ * 写入时基于文件的最新内容重新计算，预览后被修改的文件也能得到正确结果
+ */
+export async function applyBatchUpdate(
+  app: App,
+  files: TFile[],
+  patch: Record<string, unknown>,
+  mode: FrontmatterUpdateMode,
+  presetName: string,
+  strategies: FieldMergeStrategies = {}
+): Promise<BatchApplyResult> {
+  const { plans, entries } = await applyFrontmatterTransform(
+    app,
+    files,
+    (frontmatter) => applyFrontmatterPatch(frontmatter, patch, mode, strategies)
+  );
+
+  return {
+    summary: summarizeBatchPlans(plans),
+    plans,
+    journal: { presetName, updateMode: mode, createdAt: Date.now(), entries },
+  };
+}
+
+/**
+ * 按转换函数计算每个文件的变更但不写入
+ */
+export async function previewFrontmatterTransform(
+  app: App,
+  files: TFile[],
+  transform: FrontmatterTransform
+): Promise<BatchFilePlan[]> {
+  const plans: BatchFilePlan[] = [];
+  for (const file of files) {
+    try {
+      const content = await app.vault.cachedRead(file);
+      plans.push(planFrontmatterTransform(file.path, content, transform).plan);
+    } catch (error) {
+      plans.push(createFailedPlan(file.path, error));
+    }
+  }
+  return plans;
+}
+
+/**
+ * 按转换函数写入每个文件，返回逐文件结果与可用于撤销的写入记录
+ */
+export async function applyFrontmatterTransform(
+  app: App,
+  files: TFile[],
+  transform: FrontmatterTransform
+): Promise<{ plans: BatchFilePlan[]; entries: BatchJournalEntry[] }> {
+  const plans: BatchFilePlan[] = [];
+  const entries: BatchJournalEntry[] = [];
+
+  for (const file of files) {
+    try {
+      const captured: { plan?: BatchFilePlan; before: string } = {
+        before: "",
+      };
+      const after = await app.vault.process(file, (current) => {
+        const planned = planFrontmatterTransform(file.path, current, transform);
+        captured.plan = planned.plan;
+        captured.before = current;
+        return planned.result.content;
+      });
+      const plan =
+        captured.plan ?? createFailedPlan(file.path, "文件未被处理");
+      plans.push(plan);
+      if (plan.status === "changed") {
+        entries.push({ path: file.path, before: captured.before, after });
+      }
+    } catch (error) {
+      plans.push(createFailedPlan(file.path, error));
+    }
+  }
+
+  return { plans, entries };
+}
+
+/**
+ * 查找已在编辑器中打开该文件的视图，未保存的修改只存在于编辑器中
+ */
+function findOpenEditor(app: App, path: string): Editor | null {
+  for (const leaf of app.workspace.getLeavesOfType("markdown")) {
+    const view = leaf.view;
+    if (view instanceof MarkdownView && view.file?.path === path) {
+      return view.editor;
+    }
+  }
+  return null;
+}
+
+/**
+ * 将文件还原为写入前的内容，新建的文件移到回收站；写入后又被修改的文件默认保持不变
+ * @param app Obsidian 应用实例
+ * @param entries 每个文件写入前后的内容
+ * @param options force 为 true 时忽略写入后的修改直接还原
+ */
+export async function revertBatchUpdate(
+  app: App,
+  entries: BatchJournalEntry[],
+  options: RevertOptions = {}
+): Promise<BatchRevertResult> {
+  const result: BatchRevertResult = { reverted: 0, skipped: [], failed: [] };
+
+  for (const entry of entries) {
+    const file = app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) {
+      result.failed.push(entry.path);
+      continue;
+    }
+    try {
+      const state = { reverted: false };
+      const editor = findOpenEditor(app, entry.path);
+      if (entry.created) {
+        const current = editor ? editor.getValue() : await app.vault.read(file);
+        if (options.force || current === entry.after) {
+          await app.fileManager.trashFile(file);
+          state.reverted = true;
+        }
+      } else if (editor) {
+        if (options.force || editor.getValue() === entry.after) {
+          editor.setValue(entry.before);
+          state.reverted = true;
+        }
+      } else {
+        await app.vault.process(file, (current) => {
+          if (current !== entry.after && !options.force) {
+            return current;
+          }
+          state.reverted = true;
+          return entry.before;
+        });
+      }
+      if (state.reverted) {
+        result.reverted++;
+      } else {
+        result.skipped.push(entry.path);
+      }
+    } catch (error) {
+      console.warn(`Note Architect: 撤销 ${entry.path} 失败`, error);
+      result.failed.push(entry.path);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 撤销操作历史中最近一次批量写入并提示结果
+ * @returns 撤销结果，没有可撤销的记录时返回 null
+ */
+export async function revertLastBatchUpdate(
+  plugin: NoteArchitect
+): Promise<BatchRevertResult | null> {
+  const record = plugin.operationJournal.getLatest("batch-apply");
+  if (!record) {
+    notifyInfo("没有可撤销的批量操作。");
+    return null;
+  }
+  return plugin.operationJournal.revertWithNotice(record.id);
+}
+
+function createFailedPlan(path: string, error: unknown): BatchFilePlan {
+  return {
+    path,
+    status: "failed",
+    diff: [],
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
@@ -0,0 +1,127 @@
+import { App } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import { EMPTY_PRESET } from "@core/constants";
+import type {
+  FrontmatterPreset,
+  NoteCreationResult,
+  NoteProvenance,
+  Template,
+} from "@types";
+import {
+  parseTemplateContent,
+  prepareTemplateWithUserInput,
+} from "@engine/TemplateEngine";
+import { readNoteTargetConfig, resolveNoteTarget } from "@engine/note-target";
+import { composeContent } from "@utils/frontmatter/text";
+import { notifySuccess, notifyWarning } from "@utils/notify";
+import { ensureFolder } from "@utils/vault";
+
+/**
+ * 根据模板新建笔记并打开
+ * 目标位置由模板 frontmatter 中的 note-architect-folder / note-architect-filename 决定，
+ * 这两个键与预设绑定键不会写入新笔记。
+ * @param app Obsidian 应用实例
+ * @param plugin NoteArchitect 插件实例
+ * @param template 使用的模板
+ * @param preset 合并后的预设，未绑定预设时传 null
+ * @param userFrontmatter 用户输入的 frontmatter 数据
+ * @param provenance 写入笔记的来源记录，未启用时为 null
+ * @returns Promise<NoteCreationResult> 创建结果
+ */
+export async function executeNoteCreation(
+  app: App,
+  plugin: NoteArchitect,
+  template: Template,
+  preset: FrontmatterPreset | null,
+  userFrontmatter: Record<string, unknown> = {},
+  provenance: NoteProvenance | null = null
+): Promise<NoteCreationResult> {
+  const effectivePreset = preset ?? EMPTY_PRESET;
+  const expandedContent = plugin.templateManager.expandTemplate(template).content;
+  const target = resolveNoteTarget(
+    readNoteTargetConfig(parseTemplateContent(expandedContent).frontmatter),
+    {
+      title: "",
+      fields: userFrontmatter,
+      knownFieldKeys: effectivePreset.fields.map((field) => field.key),
+    },
+    app.fileManager.getNewFileParent("").path,
+    (path) => app.vault.getAbstractFileByPath(path) !== null
+  );
+
+  const preparation = await prepareTemplateWithUserInput(
+    app,
+    plugin,
+    template,
+    effectivePreset,
+    userFrontmatter,
+    { title: target.basename, includeNoteFrontmatter: false, provenance }
+  );
+
+  const content = composeContent(preparation.mergedFrontmatter, {
+    frontmatter: {},
+    body: preparation.templateBody,
+    hasFrontmatter: false,
+    newline: "\n",
+  });
+
+  const folderPath = target.path.includes("/")
+    ? target.path.slice(0, target.path.lastIndexOf("/"))
+    : "";
+  await ensureFolder(app, folderPath);
+  const file = await app.vault.create(target.path, content);
+  await plugin.operationJournal.record(
+    "create-note",
+    `使用模板 "${template.name ?? "未命名模板"}" 新建 "${file.path}"`,
+    [{ path: file.path, before: "", after: content, created: true }]
+  );
+  await app.workspace.getLeaf(false).openFile(file);
+
+  const result: NoteCreationResult = {
+    path: file.path,
+    usedTemplater: preparation.usedTemplater,
+    templaterError: preparation.templaterError,
+    mergedFrontmatter: preparation.mergedFrontmatter,
+    renamedForCollision: target.renamedForCollision,
+    unknownPlaceholders: Array.from(
+      new Set([
+        ...target.unknownPlaceholders,
+        ...preparation.unknownPlaceholders,
+      ])
+    ),
+    partialErrors: preparation.partialErrors,
+  };
+
+  handleCreationNotices(result, template);
+  await plugin.addRecentTemplate(template.id);
+
+  return result;
+}
+
+/**
+ * 处理新建笔记的通知
+ * @param result 创建结果
+ * @param template 模板对象
+ */
+function handleCreationNotices(
+  result: NoteCreationResult,
+  template: Template
+): void {
+  if (result.templaterError) {
+    notifyWarning(`${result.templaterError}，已使用原始模板内容`);
+  }
+  if (result.renamedForCollision) {
+    notifyWarning(`目标文件已存在，新笔记已保存为 "${result.path}"`);
+  }
+  if (result.unknownPlaceholders.length > 0) {
+    notifyWarning(
+      `以下占位符无法识别，已保留原文：${result.unknownPlaceholders.join("、")}`
+    );
+  }
+  if (result.partialErrors.length > 0) {
+    notifyWarning(`部分片段未能展开：${result.partialErrors.join("；")}`);
+  }
+
+  const templateName = template.name ?? "未命名模板";
+  notifySuccess(`已使用模板 "${templateName}" 新建笔记 "${result.path}"。`);
+}
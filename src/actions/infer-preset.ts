@@ -0,0 +1,34 @@
+import type { App } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import type { PresetInferenceOptions, PresetInferenceResult } from "@types";
+import { inferPresetFields } from "@presets/inference";
+import { collectBatchTargets } from "./batch-apply-preset";
+
+export type PresetInferenceSource =
+  | { type: "folder"; folder: string }
+  | { type: "tag"; tag: string };
+
+/**
+ * 扫描文件夹或标签下笔记的 frontmatter，为常见的键推断预设字段
+ * @param app Obsidian 应用实例
+ * @param plugin NoteArchitect 插件实例
+ * @param source 参与推断的笔记范围
+ * @param options 推断参数
+ */
+export function inferPresetFromNotes(
+  app: App,
+  plugin: NoteArchitect,
+  source: PresetInferenceSource,
+  options?: PresetInferenceOptions
+): PresetInferenceResult {
+  const templateFolder = plugin.settings.templateFolderPath?.trim() ?? "";
+  const files = collectBatchTargets(app, source, templateFolder);
+  const frontmatters = files.map(
+    (file) =>
+      (app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<
+        string,
+        unknown
+      >
+  );
+  return inferPresetFields(frontmatters, options);
+}
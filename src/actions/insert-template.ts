@@ -4,6 +4,7 @@ import type NoteArchitect from "@core/plugin";
 import type {
   Template,
   FrontmatterPreset,
+  NoteProvenance,
   TemplateInsertionResult,
 } from "@types";
 import { prepareTemplateWithUserInput } from "@engine/TemplateEngine";
@@ -18,6 +19,7 @@ import { copyToClipboard } from "@utils/ui";
  * @param template 要插入的模板
  * @param preset 合并后的预设
  * @param userFrontmatter 用户输入的 frontmatter 数据
+ * @param provenance 写入笔记的来源记录，未启用时为 null
  * @returns Promise<TemplateInsertionResult> 插入结果
  */
 export async function executeTemplateInsertion(
@@ -25,14 +27,16 @@ export async function executeTemplateInsertion(
   plugin: NoteArchitect,
   template: Template,
   preset: FrontmatterPreset,
-  userFrontmatter: Record<string, unknown>
+  userFrontmatter: Record<string, unknown>,
+  provenance: NoteProvenance | null = null
 ): Promise<TemplateInsertionResult> {
   const preparation = await prepareTemplateWithUserInput(
     app,
     plugin,
     template,
     preset,
-    userFrontmatter
+    userFrontmatter,
+    { provenance }
   );
 
   const activeView = app.workspace.getActiveViewOfType(MarkdownView);
@@ -41,6 +45,22 @@ export async function executeTemplateInsertion(
   }
 
   const editor = activeView.editor;
+  const contentBefore = editor.getValue();
+  const recordInsertion = async () => {
+    if (activeView.file) {
+      await plugin.operationJournal.record(
+        "insert-template",
+        `插入模板 "${template.name ?? "未命名模板"}"`,
+        [
+          {
+            path: activeView.file.path,
+            before: contentBefore,
+            after: editor.getValue(),
+          },
+        ]
+      );
+    }
+  };
   let templateBodyInserted = false;
 
   try {
@@ -91,10 +111,13 @@ export async function executeTemplateInsertion(
       frontmatterUpdated: true,
       templateBodyInserted,
       fallbackToBodyOnly: false,
+      unknownPlaceholders: preparation.unknownPlaceholders,
+      partialErrors: preparation.partialErrors,
     };
 
     // 处理成功通知
     handleInsertionSuccess(result, template);
+    await recordInsertion();
 
     // 添加到最近使用的模板
     await plugin.addRecentTemplate(template.id);
@@ -124,10 +147,13 @@ export async function executeTemplateInsertion(
         frontmatterUpdated: false,
         templateBodyInserted,
         fallbackToBodyOnly: true,
+        unknownPlaceholders: preparation.unknownPlaceholders,
+        partialErrors: preparation.partialErrors,
       };
 
       // 处理回退通知
       handleInsertionFallback(fallbackResult, template);
+      await recordInsertion();
 
       // 添加到最近使用的模板
       await plugin.addRecentTemplate(template.id);
@@ -158,6 +184,9 @@ function handleInsertionSuccess(
     return;
   }
 
+  notifyUnknownPlaceholders(result);
+  notifyPartialErrors(result);
+
   const details: string[] = [];
   if (result.usedTemplater) {
     details.push("并使用 Templater 处理");
@@ -192,6 +221,30 @@ function handleInsertionFallback(
   }
 }
 
+/**
+ * 提示未能识别的占位符
+ * @param result 插入结果
+ */
+function notifyUnknownPlaceholders(result: TemplateInsertionResult): void {
+  if (result.unknownPlaceholders.length === 0) {
+    return;
+  }
+  notifyWarning(
+    `以下占位符无法识别，已保留原文：${result.unknownPlaceholders.join("、")}`
+  );
+}
+
+/**
+ * 提示未能展开的片段引用
+ * @param result 插入结果
+ */
+function notifyPartialErrors(result: TemplateInsertionResult): void {
+  if (result.partialErrors.length === 0) {
+    return;
+  }
+  notifyWarning(`部分片段未能展开：${result.partialErrors.join("；")}`);
+}
+
 /**
  * 将 frontmatter 对象转换为 YAML 格式字符串
  * @param frontmatter frontmatter 对象
@@ -0,0 +1,79 @@
+import { App, TFile } from "obsidian";
+import type {
+  BatchFilePlan,
+  BatchRevertResult,
+  FrontmatterPreset,
+  PresetMigrationResult,
+} from "@types";
+import {
+  migrateNoteFrontmatter,
+  needsPresetMigration,
+} from "@presets/schema-migration";
+import { summarizeBatchPlans } from "@utils/frontmatter/batch";
+import {
+  applyFrontmatterTransform,
+  filterBatchTargets,
+  previewFrontmatterTransform,
+  revertBatchUpdate,
+} from "@actions/batch-apply-preset";
+
+/**
+ * 收集来源记录中使用了该预设旧版本的笔记，模板文件夹内的文件会被排除
+ * @param app Obsidian 应用实例
+ * @param preset 当前版本的预设
+ * @param templateFolder 模板文件夹路径
+ */
+export function collectPresetMigrationTargets(
+  app: App,
+  preset: FrontmatterPreset,
+  templateFolder: string
+): TFile[] {
+  const files = app.vault
+    .getMarkdownFiles()
+    .filter((file) =>
+      needsPresetMigration(
+        preset,
+        app.metadataCache.getFileCache(file)?.frontmatter ?? {}
+      )
+    );
+  return filterBatchTargets(files, templateFolder);
+}
+
+/**
+ * 试运行迁移：计算每篇笔记的变更但不写入
+ */
+export async function previewPresetMigration(
+  app: App,
+  preset: FrontmatterPreset,
+  files: TFile[]
+): Promise<BatchFilePlan[]> {
+  return previewFrontmatterTransform(app, files, (frontmatter) =>
+    migrateNoteFrontmatter(preset, frontmatter)
+  );
+}
+
+/**
+ * 将笔记迁移到预设的当前版本，写入时按每篇笔记记录的版本重新计算
+ */
+export async function applyPresetMigration(
+  app: App,
+  preset: FrontmatterPreset,
+  files: TFile[]
+): Promise<PresetMigrationResult> {
+  const { plans, entries } = await applyFrontmatterTransform(
+    app,
+    files,
+    (frontmatter) => migrateNoteFrontmatter(preset, frontmatter)
+  );
+  return { summary: summarizeBatchPlans(plans), plans, entries };
+}
+
+/**
+ * 回滚一次迁移，迁移后又被修改的笔记保持不变
+ */
+export async function rollbackPresetMigration(
+  app: App,
+  result: PresetMigrationResult
+): Promise<BatchRevertResult> {
+  return revertBatchUpdate(app, result.entries);
+}
@@ -0,0 +1,76 @@
+import { App, TFile } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import type {
+  FrontmatterPreset,
+  NoteProvenance,
+  NoteProvenanceQuery,
+  Template,
+} from "@types";
+import {
+  buildNoteProvenance,
+  matchesNoteProvenance,
+  readNoteProvenance,
+} from "@utils/provenance";
+
+export interface ProvenanceNoteEntry {
+  file: TFile;
+  provenance: NoteProvenance;
+}
+
+/**
+ * 生成本次操作要写入笔记的来源记录，未启用来源记录时返回 null
+ * @param plugin NoteArchitect 插件实例
+ * @param template 使用的模板，更新 frontmatter 时不传
+ * @param presets 参与生成的预设
+ */
+export function resolveNoteProvenance(
+  plugin: NoteArchitect,
+  template: Template | undefined,
+  presets: FrontmatterPreset[]
+): NoteProvenance | null {
+  if (!plugin.settings.recordNoteProvenance) {
+    return null;
+  }
+  return buildNoteProvenance(template?.path, presets);
+}
+
+/**
+ * 列出来源记录符合查询条件的笔记（基于 metadataCache，按路径排序）
+ * @param app Obsidian 应用实例
+ * @param query 模板路径和/或预设 ID
+ */
+export function listNotesByProvenance(
+  app: App,
+  query: NoteProvenanceQuery
+): ProvenanceNoteEntry[] {
+  const entries: ProvenanceNoteEntry[] = [];
+  app.vault.getMarkdownFiles().forEach((file) => {
+    const provenance = readNoteProvenance(
+      app.metadataCache.getFileCache(file)?.frontmatter
+    );
+    if (provenance && matchesNoteProvenance(provenance, query)) {
+      entries.push({ file, provenance });
+    }
+  });
+  return entries.sort((a, b) => a.file.path.localeCompare(b.file.path));
+}
+
+/**
+ * 列出由指定模板生成的笔记
+ */
+export function listNotesByTemplate(
+  app: App,
+  templatePath: string
+): ProvenanceNoteEntry[] {
+  return listNotesByProvenance(app, { templatePath });
+}
+
+/**
+ * 列出使用过指定预设的笔记
+ */
+export function listNotesByPreset(
+  app: App,
+  presetId: string
+): ProvenanceNoteEntry[] {
+  return listNotesByProvenance(app, { presetId });
+}
@@ -1,10 +1,10 @@
 import { App, Editor, MarkdownView } from 'obsidian';
-import type { FrontmatterPreset } from '@types';
+import type { FrontmatterPreset, FrontmatterUpdateMode, NoteProvenance } from '@types';
 import { getNoteMetadata, updateNoteFrontmatter } from '@utils/frontmatter-editor';
-import { mergeFrontmatters } from '@utils/frontmatter/merge';
+import { applyFrontmatterPatch } from '@utils/frontmatter/batch';
+import { collectMergeStrategies } from '@utils/frontmatter/merge';
 import { notifySuccess } from '@utils/notify';
-
-type FrontmatterUpdateMode = 'merge' | 'overwrite';
+import { readNoteProvenance, withNoteProvenance } from '@utils/provenance';
 
 /**
  * 执行 frontmatter 更新操作
@@ -13,6 +13,7 @@ type FrontmatterUpdateMode = 'merge' | 'overwrite';
  * @param preset 预设
  * @param userFrontmatter 用户输入的 frontmatter 数据
  * @param updateMode 更新模式：'merge' 或 'overwrite'
+ * @param provenance 写入笔记的来源记录，未启用时为 null
  * @returns Promise<void>
  */
 export async function executeUpdateFrontmatter(
@@ -21,12 +22,20 @@ export async function executeUpdateFrontmatter(
 	preset: FrontmatterPreset,
 	userFrontmatter: Record<string, unknown>,
 	updateMode: FrontmatterUpdateMode,
+	provenance: NoteProvenance | null = null,
 ): Promise<void> {
 	const metadata = getNoteMetadata(app);
 	const currentFrontmatter = metadata.frontmatter ?? {};
-	const nextFrontmatter = updateMode === 'overwrite'
-		? { ...userFrontmatter }
-		: mergeFrontmatters(currentFrontmatter, userFrontmatter);
+	const patchedFrontmatter = applyFrontmatterPatch(
+		currentFrontmatter,
+		userFrontmatter,
+		updateMode,
+		collectMergeStrategies(preset.fields),
+	);
+	// 覆盖模式也保留已有的来源记录，只追加本次使用的预设
+	const nextFrontmatter = provenance
+		? withNoteProvenance(patchedFrontmatter, provenance, readNoteProvenance(currentFrontmatter))
+		: patchedFrontmatter;
 
 	updateNoteFrontmatter(editor, nextFrontmatter, metadata.position);
 	const modeHint = updateMode === 'merge' ? '合并' : '覆盖';
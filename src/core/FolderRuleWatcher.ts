@@ -0,0 +1,131 @@
+import { TAbstractFile, TFile } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import type { PresetManager } from "@presets";
+import type { FolderTemplateRule, FrontmatterPreset, Template } from "@types";
+import { FrontmatterManagerModal } from "@ui";
+import { createMergedPreset } from "@ui/frontmatter/preset-field-merger";
+import { executeFolderRuleApplication } from "@actions/apply-folder-rule";
+import { resolveNoteProvenance } from "@actions/note-provenance";
+import { parseTemplateContent } from "@engine/TemplateEngine";
+import { handleError } from "@core/error";
+import { findMatchingFolderRule } from "@utils/folder-rules";
+import {
+  collectMatchingPresets,
+  resolvePresetConfigIds,
+} from "@utils/note-architect-config";
+import { notifyWarning } from "@utils/notify";
+import { isInsideTemplateFolder } from "@utils/path";
+
+/**
+ * 监听库中新建的笔记，按文件夹规则自动应用模板
+ */
+export class FolderRuleWatcher {
+  constructor(
+    private readonly plugin: NoteArchitect,
+    private readonly presetManager: PresetManager
+  ) {}
+
+  /**
+   * 注册 vault create 事件
+   * 在布局就绪后注册，避免库加载时为已有文件触发 create 事件
+   */
+  register(): void {
+    const { app } = this.plugin;
+    app.workspace.onLayoutReady(() => {
+      this.plugin.registerEvent(
+        app.vault.on("create", (file) => {
+          void this.handleFileCreated(file);
+        })
+      );
+    });
+  }
+
+  private async handleFileCreated(file: TAbstractFile): Promise<void> {
+    if (!(file instanceof TFile) || file.extension !== "md") {
+      return;
+    }
+
+    const settings = this.plugin.settings;
+    const templateFolder = settings.templateFolderPath?.trim();
+    if (templateFolder && isInsideTemplateFolder(file.path, templateFolder)) {
+      return;
+    }
+
+    const rule = findMatchingFolderRule(settings.folderTemplateRules, file.path);
+    if (!rule) {
+      return;
+    }
+
+    try {
+      // 仅处理空白的新笔记，避免覆盖同步、导入或其他插件写入的内容
+      const content = await this.plugin.app.vault.read(file);
+      if (content.trim()) {
+        return;
+      }
+
+      const template = this.plugin.templateManager.getTemplateById(
+        rule.templatePath
+      );
+      if (!template) {
+        notifyWarning(
+          `文件夹规则 "${rule.folder}" 引用的模板 "${rule.templatePath}" 不存在，已跳过。`
+        );
+        return;
+      }
+
+      const presets = this.resolveRulePresets(rule, template);
+      if (rule.mode === "form" && presets.length > 0) {
+        FrontmatterManagerModal.forTemplateInsertion(
+          this.plugin.app,
+          this.plugin,
+          template,
+          presets,
+          { targetFile: file }
+        ).open();
+        return;
+      }
+
+      const preset =
+        presets.length > 0
+          ? createMergedPreset(this.presetManager.resolvePresets(presets))
+              .mergedPreset
+          : null;
+      await executeFolderRuleApplication(
+        this.plugin.app,
+        this.plugin,
+        file,
+        template,
+        preset,
+        {},
+        resolveNoteProvenance(this.plugin, template, presets)
+      );
+    } catch (error) {
+      handleError(error, {
+        context: "FolderRuleWatcher.handleFileCreated",
+        userMessage: `为 "${file.basename}" 自动应用模板失败。`,
+      });
+    }
+  }
+
+  /**
+   * 规则指定了预设时使用规则的预设，否则使用模板绑定的预设
+   */
+  private resolveRulePresets(
+    rule: FolderTemplateRule,
+    template: Template
+  ): FrontmatterPreset[] {
+    const configIds =
+      rule.presetIds.length > 0
+        ? rule.presetIds
+        : resolvePresetConfigIds(parseTemplateContent(template.content).frontmatter)
+            .ids;
+    const { matched, missing } = collectMatchingPresets(
+      configIds,
+      this.presetManager.getPresets()
+    );
+    if (missing.length > 0) {
+      notifyWarning(`以下预设不存在：${missing.join("、")}，将略过这些预设。`);
+    }
+    return matched;
+  }
+}
@@ -0,0 +1,239 @@
+import { normalizePath, type Plugin } from "obsidian";
+import type {
+  BatchJournalEntry,
+  BatchRevertResult,
+  OperationRecord,
+  OperationType,
+  RevertOptions,
+} from "@types";
+import { revertBatchUpdate } from "@actions/batch-apply-preset";
+import { handleError } from "@core/error";
+import { notifyInfo, notifySuccess, notifyWarning } from "@utils/notify";
+
+const HISTORY_FILE_NAME = "operation-history.json";
+
+export const OPERATION_TYPE_LABELS: Record<OperationType, string> = {
+  "insert-template": "插入模板",
+  "update-frontmatter": "更新 Frontmatter",
+  "batch-apply": "批量应用预设",
+  "bind-preset": "绑定预设",
+  "clear-preset-binding": "解除预设绑定",
+  "compliance-fix": "修复合规项",
+  "apply-folder-rule": "应用文件夹规则",
+  "create-note": "新建笔记",
+};
+
+function isJournalEntry(value: unknown): value is BatchJournalEntry {
+  const entry = value as Partial<BatchJournalEntry> | null;
+  return Boolean(
+    entry &&
+      typeof entry.path === "string" &&
+      typeof entry.before === "string" &&
+      typeof entry.after === "string" &&
+      (entry.created === undefined || typeof entry.created === "boolean")
+  );
+}
+
+function isOperationRecord(value: unknown): value is OperationRecord {
+  const record = value as Partial<OperationRecord> | null;
+  return Boolean(
+    record &&
+      typeof record.id === "string" &&
+      typeof record.type === "string" &&
+      record.type in OPERATION_TYPE_LABELS &&
+      typeof record.description === "string" &&
+      typeof record.createdAt === "number" &&
+      Array.isArray(record.entries) &&
+      record.entries.every(isJournalEntry)
+  );
+}
+
+/**
+ * 操作历史：记录每次写入前后的文件内容，保存在插件目录中，关闭文件或重启后仍可撤销。
+ */
+export class OperationJournal {
+  // 按时间倒序，最新的记录在前
+  private records: OperationRecord[] = [];
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    private readonly plugin: Plugin,
+    private readonly getLimit: () => number
+  ) {}
+
+  private getHistoryPath(): string {
+    const { app, manifest } = this.plugin;
+    const dir =
+      manifest.dir ?? `${app.vault.configDir}/plugins/${manifest.id}`;
+    return normalizePath(`${dir}/${HISTORY_FILE_NAME}`);
+  }
+
+  async load(): Promise<void> {
+    const adapter = this.plugin.app.vault.adapter;
+    const path = this.getHistoryPath();
+    try {
+      if (!(await adapter.exists(path))) {
+        this.records = [];
+        return;
+      }
+      const data: unknown = JSON.parse(await adapter.read(path));
+      this.records = Array.isArray(data) ? data.filter(isOperationRecord) : [];
+      this.trimToLimit();
+    } catch (error) {
+      this.records = [];
+      handleError(error, { context: "OperationJournal.load" });
+    }
+  }
+
+  getRecords(): OperationRecord[] {
+    return [...this.records];
+  }
+
+  getLatest(type?: OperationType): OperationRecord | null {
+    return (
+      this.records.find((record) => !type || record.type === type) ?? null
+    );
+  }
+
+  /**
+   * 订阅历史变化，返回取消订阅的函数
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * 记录一次写入操作，内容未变化的文件不记录；超过保留上限时丢弃最旧的记录
+   * @returns 新记录，没有需要记录的变更或已关闭记录时返回 null
+   */
+  async record(
+    type: OperationType,
+    description: string,
+    entries: BatchJournalEntry[]
+  ): Promise<OperationRecord | null> {
+    const changedEntries = entries.filter(
+      (entry) => entry.before !== entry.after
+    );
+    if (changedEntries.length === 0 || this.getLimit() <= 0) {
+      return null;
+    }
+
+    const createdAt = Date.now();
+    const record: OperationRecord = {
+      id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      type,
+      description,
+      createdAt,
+      entries: changedEntries.map((entry) => ({ ...entry })),
+    };
+    this.records.unshift(record);
+    this.trimToLimit();
+    await this.persist();
+    return record;
+  }
+
+  /**
+   * 还原一条记录。写入后又被修改的文件默认跳过并保留在记录中，全部还原后删除记录
+   */
+  async revert(
+    id: string,
+    options: RevertOptions = {}
+  ): Promise<BatchRevertResult> {
+    const record = this.records.find((item) => item.id === id);
+    if (!record) {
+      throw new Error("找不到该操作记录，可能已被撤销或清理");
+    }
+
+    const result = await revertBatchUpdate(
+      this.plugin.app,
+      record.entries,
+      options
+    );
+    const remaining = record.entries.filter((entry) =>
+      result.skipped.includes(entry.path)
+    );
+    if (remaining.length > 0) {
+      record.entries = remaining;
+    } else {
+      this.records = this.records.filter((item) => item !== record);
+    }
+    await this.persist();
+    return result;
+  }
+
+  /**
+   * 还原一条记录并提示结果
+   */
+  async revertWithNotice(
+    id: string,
+    options: RevertOptions = {}
+  ): Promise<BatchRevertResult | null> {
+    try {
+      const result = await this.revert(id, options);
+      if (result.skipped.length > 0) {
+        notifyWarning(
+          `以下文件在操作后被再次修改，未撤销：${result.skipped.join("、")}`
+        );
+      }
+      if (result.failed.length > 0) {
+        notifyWarning(`以下文件撤销失败：${result.failed.join("、")}`);
+      }
+      if (result.reverted > 0) {
+        notifySuccess(`已撤销 ${result.reverted} 个文件的修改。`);
+      } else if (result.skipped.length === 0 && result.failed.length === 0) {
+        notifyInfo("没有需要撤销的修改。");
+      }
+      return result;
+    } catch (error) {
+      handleError(error, {
+        context: "OperationJournal.revertWithNotice",
+        userMessage: (normalized) => `撤销失败：${normalized.message}`,
+      });
+      return null;
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    this.records = this.records.filter((record) => record.id !== id);
+    await this.persist();
+  }
+
+  async clear(): Promise<void> {
+    this.records = [];
+    await this.persist();
+  }
+
+  /**
+   * 保留上限调低后立即丢弃多余的记录
+   */
+  async applyLimit(): Promise<void> {
+    if (this.trimToLimit()) {
+      await this.persist();
+    }
+  }
+
+  private trimToLimit(): boolean {
+    const limit = Math.max(0, this.getLimit());
+    if (this.records.length <= limit) {
+      return false;
+    }
+    this.records = this.records.slice(0, limit);
+    return true;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.plugin.app.vault.adapter.write(
+        this.getHistoryPath(),
+        JSON.stringify(this.records)
+      );
+    } catch (error) {
+      handleError(error, {
+        context: "OperationJournal.persist",
+        userMessage: "保存操作历史失败。",
+      });
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+}
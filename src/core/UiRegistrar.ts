@@ -1,17 +1,34 @@
-import { MarkdownView, TFile } from "obsidian";
+import { MarkdownView, TFile, TFolder } from "obsidian";
 import type { Plugin } from "obsidian";
 import type NoteArchitect from "@core/plugin";
 import type { PresetManager } from "@presets";
 import type { SettingsManager } from "@settings";
 import type { FrontmatterPreset, Template } from "@types";
 import {
+  BatchApplyModal,
+  ComplianceAuditModal,
+  CreatePresetModal,
+  FieldConfigModal,
   FrontmatterManagerModal,
+  FrontmatterPanelView,
+  FRONTMATTER_PANEL_VIEW_TYPE,
+  InferPresetModal,
   NoteArchitectSettingTab,
+  OperationHistoryModal,
+  PresetMigrationModal,
+  ProvenanceNotesModal,
   UniversalPresetSelectorModal,
   TemplateSelectorModal,
+  revertOperationWithConfirm,
 } from "@ui";
 import { handleError } from "@core/error";
-import { parseFrontmatter, updateFrontmatter } from "@utils/frontmatter-editor";
+import { revertLastBatchUpdate } from "@actions/batch-apply-preset";
+import {
+  getNoteMetadata,
+  parseFrontmatter,
+  updateFrontmatter,
+} from "@utils/frontmatter-editor";
+import { buildFieldsFromFrontmatter } from "@presets/inference";
 import { notifyInfo, notifySuccess, notifyWarning } from "@utils/notify";
 import { isInsideTemplateFolder } from "@utils/path";
 import { PRESET_CONFIG_KEY } from "@core/constants";
@@ -32,11 +49,20 @@ export class UiRegistrar {
   }
 
   registerAll(): void {
+    this.registerViews();
     this.registerRibbon();
     this.registerCommands();
+    this.registerFileMenus();
     this.registerSettingTab();
   }
 
+  private registerViews(): void {
+    this.plugin.registerView(
+      FRONTMATTER_PANEL_VIEW_TYPE,
+      (leaf) => new FrontmatterPanelView(leaf, this.noteArchitect)
+    );
+  }
+
   private registerRibbon(): void {
     const ribbonIconEl = this.plugin.addRibbonIcon(
       "layout-template",
@@ -101,6 +127,166 @@ export class UiRegistrar {
       checkCallback: (checking) =>
         this.handleUpdateFrontmatterCommand(checking),
     });
+
+    this.plugin.addCommand({
+      id: "open-frontmatter-panel",
+      name: "打开 Frontmatter 面板",
+      icon: "panel-right",
+      callback: () => void this.openFrontmatterPanel(),
+    });
+
+    this.plugin.addCommand({
+      id: "batch-apply-preset",
+      name: "批量应用预设到多篇笔记",
+      icon: "files",
+      callback: () => {
+        new BatchApplyModal(this.plugin.app, this.noteArchitect).open();
+      },
+    });
+
+    this.plugin.addCommand({
+      id: "create-preset-from-notes",
+      name: "从现有笔记创建预设",
+      icon: "wand",
+      callback: () => {
+        new InferPresetModal(this.plugin.app, this.noteArchitect).open();
+      },
+    });
+
+    this.plugin.addCommand({
+      id: "create-preset-from-current-note",
+      name: "从当前笔记的 Frontmatter 创建预设",
+      icon: "file-plus",
+      checkCallback: (checking) =>
+        this.handleCreatePresetFromNoteCommand(checking),
+    });
+
+    this.plugin.addCommand({
+      id: "audit-preset-compliance",
+      name: "检查笔记是否符合预设",
+      icon: "list-checks",
+      callback: () => {
+        new ComplianceAuditModal(this.plugin.app, this.noteArchitect).open();
+      },
+    });
+
+    this.plugin.addCommand({
+      id: "list-notes-by-provenance",
+      name: "查找由模板或预设生成的笔记",
+      icon: "git-fork",
+      callback: () => {
+        new ProvenanceNotesModal(this.plugin.app, this.noteArchitect).open();
+      },
+    });
+
+    this.plugin.addCommand({
+      id: "migrate-preset-notes",
+      name: "将笔记迁移到预设的最新版本",
+      icon: "arrow-up-circle",
+      callback: () => this.openPresetMigration(),
+    });
+
+    this.plugin.addCommand({
+      id: "revert-last-batch-apply",
+      name: "撤销上次批量应用预设",
+      icon: "undo-2",
+      checkCallback: (checking) => {
+        if (!this.noteArchitect.operationJournal.getLatest("batch-apply")) {
+          return false;
+        }
+        if (!checking) {
+          void revertLastBatchUpdate(this.noteArchitect);
+        }
+        return true;
+      },
+    });
+
+    this.plugin.addCommand({
+      id: "undo-last-operation",
+      name: "撤销上次操作",
+      icon: "undo",
+      checkCallback: (checking) => {
+        const record = this.noteArchitect.operationJournal.getLatest();
+        if (!record) {
+          return false;
+        }
+        if (!checking) {
+          void revertOperationWithConfirm(
+            this.plugin.app,
+            this.noteArchitect,
+            record
+          );
+        }
+        return true;
+      },
+    });
+
+    this.plugin.addCommand({
+      id: "open-operation-history",
+      name: "查看操作历史",
+      icon: "history",
+      callback: () => {
+        new OperationHistoryModal(this.plugin.app, this.noteArchitect).open();
+      },
+    });
+  }
+
+  /**
+   * 在文件夹右键菜单与文件列表多选菜单中提供批量应用与创建预设入口
+   */
+  private registerFileMenus(): void {
+    const { workspace } = this.plugin.app;
+
+    this.plugin.registerEvent(
+      workspace.on("file-menu", (menu, file) => {
+        if (!(file instanceof TFolder)) {
+          return;
+        }
+        menu.addItem((item) =>
+          item
+            .setTitle("批量应用预设")
+            .setIcon("files")
+            .onClick(() => {
+              new BatchApplyModal(this.plugin.app, this.noteArchitect, {
+                folder: file.path,
+              }).open();
+            })
+        );
+        menu.addItem((item) =>
+          item
+            .setTitle("从此文件夹的笔记创建预设")
+            .setIcon("wand")
+            .onClick(() => {
+              new InferPresetModal(
+                this.plugin.app,
+                this.noteArchitect,
+                file.path
+              ).open();
+            })
+        );
+      })
+    );
+
+    this.plugin.registerEvent(
+      workspace.on("files-menu", (menu, files) => {
+        const notes = files.filter(
+          (file): file is TFile => file instanceof TFile && file.extension === "md"
+        );
+        if (notes.length === 0) {
+          return;
+        }
+        menu.addItem((item) =>
+          item
+            .setTitle(`批量应用预设（${notes.length} 篇笔记）`)
+            .setIcon("files")
+            .onClick(() => {
+              new BatchApplyModal(this.plugin.app, this.noteArchitect, {
+                files: notes,
+              }).open();
+            })
+        );
+      })
+    );
   }
 
   private registerSettingTab(): void {
@@ -145,6 +331,40 @@ export class UiRegistrar {
     return true;
   }
 
+  /**
+   * 以当前笔记的 frontmatter 为样本创建预设，创建后打开字段配置继续调整
+   */
+  private handleCreatePresetFromNoteCommand(checking: boolean): boolean {
+    const { app } = this.plugin;
+    const activeFile = app.workspace.getActiveFile();
+    if (!activeFile || activeFile.extension !== "md") {
+      return false;
+    }
+    const fields = buildFieldsFromFrontmatter(
+      getNoteMetadata(app).frontmatter
+    );
+    if (fields.length === 0) {
+      return false;
+    }
+    if (checking) {
+      return true;
+    }
+
+    new CreatePresetModal(app, this.presetManager, undefined, {
+      initialName: activeFile.basename,
+      fields,
+      onCreated: (preset) => {
+        new FieldConfigModal(
+          app,
+          this.presetManager,
+          this.settingsManager,
+          preset
+        ).open();
+      },
+    }).open();
+    return true;
+  }
+
   private handleUpdateFrontmatterCommand(checking: boolean): boolean {
     const markdownView =
       this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
@@ -185,6 +405,56 @@ export class UiRegistrar {
     return true;
   }
 
+  /**
+   * 在右侧边栏打开 Frontmatter 面板，已打开时直接定位
+   */
+  private async openFrontmatterPanel(): Promise<void> {
+    const { workspace } = this.plugin.app;
+    const existing = workspace.getLeavesOfType(FRONTMATTER_PANEL_VIEW_TYPE)[0];
+    const leaf = existing ?? workspace.getRightLeaf(false);
+    if (!leaf) {
+      return;
+    }
+    if (!existing) {
+      await leaf.setViewState({
+        type: FRONTMATTER_PANEL_VIEW_TYPE,
+        active: true,
+      });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * 选择有字段变更记录的预设，迁移记录了旧版本的笔记
+   */
+  private openPresetMigration(): void {
+    const presets = this.presetManager
+      .getPresets()
+      .filter((preset) => (preset.changelog ?? []).length > 0);
+    if (presets.length === 0) {
+      notifyInfo("没有发生过字段结构变更的预设。");
+      return;
+    }
+
+    new UniversalPresetSelectorModal(this.plugin.app, {
+      title: "迁移笔记",
+      subtitle: "选择一个预设，将记录了其旧版本的笔记迁移到最新版本",
+      presets,
+      onSelect: (preset) => {
+        const templateFolder =
+          this.noteArchitect.settings.templateFolderPath?.trim() ?? "";
+        const opened = new PresetMigrationModal(
+          this.plugin.app,
+          preset,
+          templateFolder
+        ).openIfNeeded();
+        if (!opened) {
+          notifyInfo(`没有记录了 "${preset.name}" 旧版本的笔记。`);
+        }
+      },
+    }).open();
+  }
+
   private async openTemplatePresetBindingModal(file: TFile): Promise<void> {
     const presets = this.presetManager.getPresets();
     if (!presets || presets.length === 0) {
@@ -258,6 +528,11 @@ export class UiRegistrar {
       }
 
       await vault.modify(file, result.content);
+      await this.noteArchitect.operationJournal.record(
+        "bind-preset",
+        `模板 "${file.basename}" 绑定预设 "${preset.name}"`,
+        [{ path: file.path, before: content, after: result.content }]
+      );
       if (template) {
         template.content = result.content;
       }
@@ -289,6 +564,11 @@ export class UiRegistrar {
       }
 
       await vault.modify(file, result.content);
+      await this.noteArchitect.operationJournal.record(
+        "clear-preset-binding",
+        `模板 "${file.basename}" 解除预设绑定`,
+        [{ path: file.path, before: content, after: result.content }]
+      );
       notifySuccess(`模板 “${file.basename}” 已解除预设绑定。`);
       void this.noteArchitect.templateManager.reloadTemplates();
     } catch (error) {
@@ -1,2 +1,20 @@
+import type { FieldMergeStrategy, FrontmatterPreset } from '@types';
+
 export const TEMPLATER_DYNAMIC_MODE = 4; // DynamicProcessor 模式：动态处理模板内容
 export const PRESET_CONFIG_KEY = 'note-architect-config'; // 模板 frontmatter 中存储预设绑定的键
+export const NEW_NOTE_FOLDER_KEY = 'note-architect-folder'; // 模板 frontmatter 中指定新建笔记目标文件夹的键
+export const NEW_NOTE_FILENAME_KEY = 'note-architect-filename'; // 模板 frontmatter 中指定新建笔记文件名模式的键
+export const NOTE_PROVENANCE_KEY = 'note-architect-source'; // 笔记 frontmatter 中记录来源模板与预设的键
+export const EMPTY_PRESET: FrontmatterPreset = { id: '', name: '', fields: [] }; // 未绑定预设时使用的空预设，仅用于复用模板处理流程
+
+// 字段可声明的合并方式
+export const FIELD_MERGE_STRATEGIES: FieldMergeStrategy[] = [
+	'overwrite',
+	'keep-existing',
+	'append-unique',
+	'prepend',
+	'fill-if-empty',
+];
+
+// 只对列表值有意义的合并方式
+export const LIST_MERGE_STRATEGIES: FieldMergeStrategy[] = ['append-unique', 'prepend'];
@@ -1,10 +1,16 @@
-import { Plugin } from "obsidian";
+import { Plugin, TFile } from "obsidian";
 import { PresetManager } from "@presets";
 import { SettingsManager } from "@settings";
 import type { SaveSettingsOptions } from "@settings";
 import { TemplateManager } from "@templates";
 import type { AppWithSettings, NoteArchitectSettings } from "@types";
 import { UiRegistrar } from "./UiRegistrar";
+import { FolderRuleWatcher } from "./FolderRuleWatcher";
+import { OperationJournal } from "./OperationJournal";
+import {
+  listNotesByPreset,
+  listNotesByTemplate,
+} from "@actions/note-provenance";
 
 export default class NoteArchitect extends Plugin {
   settingsManager: SettingsManager;
@@ -12,6 +18,7 @@ export default class NoteArchitect extends Plugin {
   templateManager: TemplateManager;
   presetManager: PresetManager;
   updateStatusBar?: () => void;
+  operationJournal: OperationJournal;
 
   async onload() {
     await this.initializeManagers();
@@ -23,10 +30,12 @@ export default class NoteArchitect extends Plugin {
       this.settingsManager,
       this.presetManager
     ).registerAll();
+    new FolderRuleWatcher(this, this.presetManager).register();
   }
 
   onunload() {
     this.templateManager?.dispose();
+    this.settingsManager?.dispose();
   }
 
   async loadSettings() {
@@ -49,9 +58,22 @@ export default class NoteArchitect extends Plugin {
   private async initializeManagers(): Promise<void> {
     this.settingsManager = new SettingsManager(this);
     this.settings = await this.settingsManager.load();
+    // 预设文件被外部修改后同步插件持有的设置快照
+    this.settingsManager.onPresetsReloaded(() => {
+      this.settings = this.settingsManager.getSettings();
+    });
     this.templateManager = new TemplateManager(this.app, this.settingsManager);
     await this.templateManager.loadTemplates();
     this.presetManager = new PresetManager(this.settingsManager);
+    this.presetManager.setLinkResolver(
+      (linkpath) =>
+        this.app.metadataCache.getFirstLinkpathDest(linkpath, "") !== null
+    );
+    this.operationJournal = new OperationJournal(
+      this,
+      () => this.settings.operationHistoryLimit
+    );
+    await this.operationJournal.load();
   }
 
   private setupStatusBar(): void {
@@ -102,4 +124,22 @@ export default class NoteArchitect extends Plugin {
     );
     this.settings = this.settingsManager.getSettings();
   }
+
+  /**
+   * 列出由指定模板生成的笔记（依据笔记中的来源记录）
+   * @param templatePath 模板路径
+   */
+  getNotesFromTemplate(templatePath: string): TFile[] {
+    return listNotesByTemplate(this.app, templatePath).map(
+      (entry) => entry.file
+    );
+  }
+
+  /**
+   * 列出使用过指定预设的笔记（依据笔记中的来源记录）
+   * @param presetId 预设 ID
+   */
+  getNotesFromPreset(presetId: string): TFile[] {
+    return listNotesByPreset(this.app, presetId).map((entry) => entry.file);
+  }
 }
@@ -58,4 +58,34 @@ describe('mergeFrontmatterWithUserInput frontmatter 顺序控制', () => {
 		expect(result.custom).toBe('value');
 		expect(result.extra).toBe('after');
 	});
+
+	it('应按字段声明的合并方式处理当前笔记中的已有值', async () => {
+		const app = {
+			workspace: { getActiveFile: () => ({ path: 'note.md' }) },
+			metadataCache: {
+				getFileCache: () => ({
+					frontmatter: { tags: ['A'], status: '进行中', owner: '', reviewers: ['ann'] },
+				}),
+			},
+		} as unknown as App;
+		const strategyPreset: FrontmatterPreset = {
+			id: 'strategy',
+			name: '合并方式',
+			fields: [
+				{ key: 'tags', type: 'multi-select', label: '标签', default: [], mergeStrategy: 'overwrite' },
+				{ key: 'status', type: 'select', label: '状态', default: '未开始', mergeStrategy: 'keep-existing' },
+				{ key: 'owner', type: 'text', label: '负责人', default: '', mergeStrategy: 'fill-if-empty' },
+				{ key: 'reviewers', type: 'multi-select', label: '审阅人', default: [], mergeStrategy: 'prepend' },
+			],
+		};
+
+		const result = await mergeFrontmatterWithUserInput(app, {} as never, strategyPreset, {}, {
+			tags: ['B'],
+			status: '未开始',
+			owner: 'me',
+			reviewers: ['bob'],
+		});
+
+		expect(result).toEqual({ tags: ['B'], status: '进行中', owner: 'me', reviewers: ['bob', 'ann'] });
+	});
 });
@@ -1,23 +1,36 @@
 import { App } from "obsidian";
 import { parseFrontmatter, getNoteMetadata } from "@utils/frontmatter-editor";
+import { withNoteProvenance } from "@utils/provenance";
 import type NoteArchitect from "@core/plugin";
 import type {
   FrontmatterPreset,
   ParsedTemplateContent,
   Template,
   TemplateProcessingResult,
+  TemplatePreparationOptions,
   TemplatePreparationResult,
 } from "@types";
 import type { TemplaterPort } from "./TemplaterPort";
 import { ObsidianTemplaterAdapter } from "./ObsidianTemplaterAdapter";
 import { mergeFrontmatterWithUserInput } from "./merge-pipeline";
+import { renderTemplateBlocks } from "./blocks";
+import {
+  resolveFrontmatterPlaceholders,
+  resolvePlaceholders,
+  type PlaceholderContext,
+} from "./placeholders";
 
 export async function processTemplateContent(
   app: App,
   plugin: NoteArchitect,
   template: Template
 ): Promise<TemplateProcessingResult> {
-  let processedContent = template.content;
+  const {
+    template: expandedTemplate,
+    errors: partialErrors,
+    sourceLineAt,
+  } = expandTemplatePartials(plugin, template);
+  let processedContent = expandedTemplate.content;
   let usedTemplater = false;
   let error: string | undefined;
 
@@ -25,7 +38,7 @@ export async function processTemplateContent(
     const templater: TemplaterPort = new ObsidianTemplaterAdapter(app);
     if (templater.isAvailable()) {
       try {
-        processedContent = await templater.processTemplate(template);
+        processedContent = await templater.processTemplate(expandedTemplate);
         usedTemplater = true;
       } catch (templaterError) {
         console.warn(
@@ -37,7 +50,45 @@ export async function processTemplateContent(
     }
   }
 
-  return { content: processedContent, usedTemplater, error };
+  return {
+    content: processedContent,
+    usedTemplater,
+    error,
+    partialErrors,
+    sourceLineAt,
+  };
+}
+
+/**
+ * 展开模板中的 {{> path}} 片段引用。
+ * 引用了片段时清空 path，使 Templater 处理展开后的内容而不是重新读取原文件。
+ */
+export function expandTemplatePartials(
+  plugin: NoteArchitect,
+  template: Template
+): {
+  template: Template;
+  errors: string[];
+  sourceLineAt: (line: number) => number;
+} {
+  const expansion = plugin.templateManager.expandTemplate(template);
+  if (expansion.errors.length > 0) {
+    console.warn("Note Architect: 模板片段展开不完整", expansion.errors);
+  }
+
+  if (expansion.includedPaths.length === 0) {
+    return { template, errors: expansion.errors, sourceLineAt: (line) => line };
+  }
+
+  return {
+    template: { ...template, path: "", content: expansion.content },
+    errors: expansion.errors,
+    sourceLineAt: expansion.sourceLineAt,
+  };
+}
+
+function countLines(text: string): number {
+  return text.split("\n").length - 1;
 }
 
 export function parseTemplateContent(content: string): ParsedTemplateContent {
@@ -45,19 +96,26 @@ export function parseTemplateContent(content: string): ParsedTemplateContent {
     const parsed = parseFrontmatter(content);
 
     if (parsed.hasFrontmatter) {
+      const body = parsed.body.trim();
+      const headerLength = content.length - parsed.body.length;
+      const leadingTrimLength = parsed.body.length - parsed.body.trimStart().length;
       return {
         frontmatter: parsed.frontmatter,
-        body: parsed.body.trim(),
+        body,
+        bodyLineOffset: countLines(
+          content.slice(0, headerLength + leadingTrimLength)
+        ),
       };
     }
 
     return {
       frontmatter: {},
       body: parsed.body,
+      bodyLineOffset: 0,
     };
   } catch (error) {
     console.warn("Note Architect: Frontmatter 解析失败", error);
-    return { frontmatter: {}, body: content };
+    return { frontmatter: {}, body: content, bodyLineOffset: 0 };
   }
 }
 
@@ -66,25 +124,70 @@ export async function prepareTemplateWithUserInput(
   plugin: NoteArchitect,
   template: Template,
   preset: FrontmatterPreset,
-  userFrontmatter: Record<string, unknown>
+  userFrontmatter: Record<string, unknown>,
+  options: TemplatePreparationOptions = {}
 ): Promise<TemplatePreparationResult> {
+  const includeNoteFrontmatter = options.includeNoteFrontmatter !== false;
   const {
     content: processedContent,
     usedTemplater,
     error: templaterError,
+    partialErrors,
+    sourceLineAt,
   } = await processTemplateContent(app, plugin, template);
 
-  const { frontmatter: templateFM, body: templateBody } =
-    parseTemplateContent(processedContent);
-  const mergedFrontmatter = await mergeFrontmatterWithUserInput(
+  const {
+    frontmatter: rawTemplateFM,
+    body: rawTemplateBody,
+    bodyLineOffset,
+  } = parseTemplateContent(processedContent);
+
+  // 内置占位符在 Templater 之后解析，不依赖 Templater 是否可用
+  const placeholderContext: PlaceholderContext = {
+    title: options.title ?? app.workspace.getActiveFile()?.basename ?? "",
+    fields: userFrontmatter,
+    knownFieldKeys: preset.fields.map((field) => field.key),
+  };
+  const resolvedTemplateFM = resolveFrontmatterPlaceholders(
+    rawTemplateFM,
+    placeholderContext
+  );
+  const resolvedUserFM = resolveFrontmatterPlaceholders(
+    userFrontmatter,
+    placeholderContext
+  );
+  const userMergedFrontmatter = await mergeFrontmatterWithUserInput(
     app,
     plugin,
     preset,
-    templateFM,
-    userFrontmatter
+    resolvedTemplateFM.value,
+    resolvedUserFM.value,
+    { includeNoteFrontmatter, presets: plugin.presetManager.getPresets() }
+  );
+  const mergedFrontmatter = options.provenance
+    ? withNoteProvenance(userMergedFrontmatter, options.provenance)
+    : userMergedFrontmatter;
+
+  // 条件与循环块基于合并后的 frontmatter 求值，之后再替换正文中的占位符；
+  // 块错误的行号换算回模板文件中的行号
+  const renderedBody = renderTemplateBlocks(
+    rawTemplateBody,
+    mergedFrontmatter,
+    (line) => sourceLineAt(line + bodyLineOffset)
+  );
+  const resolvedBody = resolvePlaceholders(renderedBody, placeholderContext);
+  const templateBody = resolvedBody.value;
+  const unknownPlaceholders = Array.from(
+    new Set([
+      ...resolvedTemplateFM.unknownPlaceholders,
+      ...resolvedUserFM.unknownPlaceholders,
+      ...resolvedBody.unknownPlaceholders,
+    ])
   );
 
-  const noteMetadata = getNoteMetadata(app);
+  const noteMetadata = includeNoteFrontmatter
+    ? getNoteMetadata(app)
+    : { frontmatter: {}, position: null };
   const trimmedBody = templateBody.trim();
   const hasTemplateBody = trimmedBody.length > 0;
 
@@ -96,6 +199,8 @@ export async function prepareTemplateWithUserInput(
     hasTemplateBody,
     noteMetadata,
     mergeCount: Object.keys(mergedFrontmatter).length,
+    unknownPlaceholders,
+    partialErrors,
   };
 }
 
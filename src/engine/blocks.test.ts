@@ -0,0 +1,55 @@
+import { renderTemplateBlocks, TemplateBlockError } from './blocks';
+
+describe('模板条件与循环块', () => {
+	const data = { status: 'active', attendees: ['Ann', 'Bob'], tags: ['work'], priority: 2, done: false };
+
+	it('按条件选择分支，独立成行的标记不留下空行', () => {
+		const template = [
+			'# Meeting',
+			'{{#if status == "active"}}',
+			'进行中',
+			'{{else}}',
+			'已结束',
+			'{{/if}}',
+			'{{#if !done}}未完成{{/if}}|{{#if tags == "work"}}工作{{/if}}|{{#if priority != 2}}x{{/if}}',
+		].join('\n');
+
+		expect(renderTemplateBlocks(template, data)).toBe('# Meeting\n进行中\n未完成|工作|');
+	});
+
+	it('循环展开列表并替换 this 与 @index', () => {
+		expect(renderTemplateBlocks('{{#each attendees}}- [[{{this}}]]\n{{/each}}', data)).toBe(
+			'- [[Ann]]\n- [[Bob]]\n',
+		);
+		expect(
+			renderTemplateBlocks('{{#each attendees}}{{@index}}:{{this}}{{#if this == "Bob"}}!{{/if}} {{/each}}', data),
+		).toBe('0:Ann 1:Bob! ');
+		expect(renderTemplateBlocks('{{#each missing}}x{{/each}}{{this}}', data)).toBe('{{this}}');
+	});
+
+	it('块语法错误时报告行号', () => {
+		const expectError = (template: string, message: string) => {
+			let error: unknown;
+			try {
+				renderTemplateBlocks(template, data);
+			} catch (caught) {
+				error = caught;
+			}
+			expect(error).toBeInstanceOf(TemplateBlockError);
+			expect((error as Error).message).toBe(message);
+		};
+
+		expectError('a\n{{#if status}}\nb', '第 2 行：{{#if}} 缺少结束标记 {{/if}}');
+		expectError('{{#each attendees}}\n{{/if}}', '第 2 行：{{/if}} 与第 1 行的 {{#each}} 不匹配');
+		expectError('\n\n{{/each}}', '第 3 行：{{/each}} 没有对应的 {{#each}}');
+		expectError('{{else}}', '第 1 行：{{else}} 只能用于 {{#if}} 块内');
+		expectError('{{#if status = 1}}{{/if}}', '第 1 行：无法解析条件 "status = 1"');
+		expectError('{{#each}}{{/each}}', '第 1 行：{{#each}} 需要指定字段名');
+	});
+
+	it('按传入的换算函数报告行号', () => {
+		expect(() => renderTemplateBlocks('a\n{{/if}}', data, (line) => line + 4)).toThrow(
+			'第 6 行：{{/if}} 没有对应的 {{#if}}',
+		);
+	});
+});
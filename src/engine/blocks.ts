@@ -0,0 +1,336 @@
+/**
+ * 模板正文中的条件与循环块：
+ * - {{#if status == "active"}}…{{else}}…{{/if}}
+ * - {{#each attendees}}- [[{{this}}]]{{/each}}
+ *
+ * 基于合并后的 frontmatter 求值，不依赖 Templater。
+ */
+
+export class TemplateBlockError extends Error {
+	constructor(
+		message: string,
+		public readonly line: number,
+	) {
+		super(`第 ${line} 行：${message}`);
+		this.name = 'TemplateBlockError';
+	}
+}
+
+interface TextNode {
+	type: 'text';
+	value: string;
+}
+
+interface IfNode {
+	type: 'if';
+	line: number;
+	condition: BlockCondition;
+	consequent: BlockNode[];
+	alternate: BlockNode[] | null;
+}
+
+interface EachNode {
+	type: 'each';
+	line: number;
+	source: string;
+	body: BlockNode[];
+}
+
+type BlockNode = TextNode | IfNode | EachNode;
+
+type Operand = { kind: 'literal'; value: unknown } | { kind: 'path'; path: string };
+
+interface BlockCondition {
+	negate: boolean;
+	left: Operand;
+	operator?: '==' | '!=';
+	right?: Operand;
+}
+
+interface BlockScope {
+	data: Record<string, unknown>;
+	item?: unknown;
+	index?: number;
+}
+
+const TAG_PATTERN = /\{\{\s*(#if|#each|else|\/if|\/each)(?=[\s}])\s*([^{}]*?)\s*\}\}/g;
+const SCOPE_VARIABLE_PATTERN = /\{\{\s*(this(?:\.[\w-]+)*|@index)\s*\}\}/g;
+const CONDITION_PATTERN = /^(!?)\s*(\S+?)\s*(?:(==|!=)\s*(.+))?$/;
+const PATH_PATTERN = /^(?:@index|this(?:\.[\w-]+)*|[\w-]+(?:\.[\w-]+)*)$/;
+
+/**
+ * 判断模板中是否包含块语法，便于跳过不必要的解析
+ */
+export function hasTemplateBlocks(content: string): boolean {
+	TAG_PATTERN.lastIndex = 0;
+	return TAG_PATTERN.test(content);
+}
+
+/**
+ * 展开模板正文中的条件与循环块
+ * @param content 模板正文
+ * @param data 用于求值的数据（合并后的 frontmatter）
+ * @param mapLine 将正文中的行号换算为模板文件中的行号，默认不换算
+ * @throws TemplateBlockError 块语法不完整或条件无法解析时，消息中包含行号
+ */
+export function renderTemplateBlocks(
+	content: string,
+	data: Record<string, unknown>,
+	mapLine: (line: number) => number = (line) => line,
+): string {
+	if (!hasTemplateBlocks(content)) {
+		return content;
+	}
+	return renderNodes(parseBlocks(content, mapLine), { data });
+}
+
+function lineAt(content: string, offset: number): number {
+	let line = 1;
+	for (let i = 0; i < offset; i++) {
+		if (content.charCodeAt(i) === 10) {
+			line++;
+		}
+	}
+	return line;
+}
+
+function parseOperand(raw: string, line: number): Operand {
+	const text = raw.trim();
+	const quoted = text.match(/^(["'])(.*)\1$/);
+	if (quoted) {
+		return { kind: 'literal', value: quoted[2] };
+	}
+	if (text === 'true' || text === 'false') {
+		return { kind: 'literal', value: text === 'true' };
+	}
+	if (/^-?\d+(?:\.\d+)?$/.test(text)) {
+		return { kind: 'literal', value: Number(text) };
+	}
+	if (PATH_PATTERN.test(text)) {
+		return { kind: 'path', path: text };
+	}
+	throw new TemplateBlockError(`无法识别的值 "${text}"`, line);
+}
+
+function parseCondition(expression: string, line: number): BlockCondition {
+	if (!expression) {
+		throw new TemplateBlockError('{{#if}} 缺少条件表达式', line);
+	}
+	const match = expression.match(CONDITION_PATTERN);
+	if (!match) {
+		throw new TemplateBlockError(`无法解析条件 "${expression}"`, line);
+	}
+	const [, negation, left, operator, right] = match;
+	if (operator && negation) {
+		throw new TemplateBlockError(`条件 "${expression}" 不能同时使用 ! 与比较运算符`, line);
+	}
+	return {
+		negate: negation === '!',
+		left: parseOperand(left, line),
+		...(operator
+			? { operator: operator as '==' | '!=', right: parseOperand(right, line) }
+			: {}),
+	};
+}
+
+/**
+ * 将块标记所在的整行视为独立行：移除行首缩进与行尾换行，避免产生空行
+ */
+function expandStandaloneRange(content: string, start: number, end: number): [number, number] {
+	const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+	const newlineIndex = content.indexOf('\n', end);
+	const lineEnd = newlineIndex === -1 ? content.length : newlineIndex + 1;
+	const before = content.slice(lineStart, start);
+	const after = content.slice(end, newlineIndex === -1 ? content.length : newlineIndex);
+	if (before.trim() === '' && after.trim() === '') {
+		return [lineStart, lineEnd];
+	}
+	return [start, end];
+}
+
+function parseBlocks(content: string, mapLine: (line: number) => number): BlockNode[] {
+	const root: BlockNode[] = [];
+	const stack: Array<{ node: IfNode | EachNode; target: BlockNode[] }> = [];
+	let target = root;
+	let cursor = 0;
+
+	TAG_PATTERN.lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = TAG_PATTERN.exec(content)) !== null) {
+		const [raw, tag, argument] = match;
+		const line = mapLine(lineAt(content, match.index));
+		const [start, end] = expandStandaloneRange(content, match.index, match.index + raw.length);
+
+		if (start > cursor) {
+			target.push({ type: 'text', value: content.slice(cursor, start) });
+		}
+		cursor = Math.max(cursor, end);
+
+		switch (tag) {
+			case '#if': {
+				const node: IfNode = {
+					type: 'if',
+					line,
+					condition: parseCondition(argument, line),
+					consequent: [],
+					alternate: null,
+				};
+				target.push(node);
+				stack.push({ node, target });
+				target = node.consequent;
+				break;
+			}
+			case '#each': {
+				if (!argument || !PATH_PATTERN.test(argument)) {
+					throw new TemplateBlockError(
+						argument ? `{{#each}} 的字段名 "${argument}" 无效` : '{{#each}} 需要指定字段名',
+						line,
+					);
+				}
+				const node: EachNode = { type: 'each', line, source: argument, body: [] };
+				target.push(node);
+				stack.push({ node, target });
+				target = node.body;
+				break;
+			}
+			case 'else': {
+				const frame = stack[stack.length - 1];
+				if (!frame || frame.node.type !== 'if') {
+					throw new TemplateBlockError('{{else}} 只能用于 {{#if}} 块内', line);
+				}
+				if (frame.node.alternate) {
+					throw new TemplateBlockError(`第 ${frame.node.line} 行的 {{#if}} 块中出现了多个 {{else}}`, line);
+				}
+				frame.node.alternate = [];
+				target = frame.node.alternate;
+				break;
+			}
+			default: {
+				const closing = tag === '/if' ? 'if' : 'each';
+				const frame = stack.pop();
+				if (!frame) {
+					throw new TemplateBlockError(`{{/${closing}}} 没有对应的 {{#${closing}}}`, line);
+				}
+				if (frame.node.type !== closing) {
+					throw new TemplateBlockError(
+						`{{/${closing}}} 与第 ${frame.node.line} 行的 {{#${frame.node.type}}} 不匹配`,
+						line,
+					);
+				}
+				target = frame.target;
+				break;
+			}
+		}
+	}
+
+	const unclosed = stack.pop();
+	if (unclosed) {
+		throw new TemplateBlockError(
+			`{{#${unclosed.node.type}}} 缺少结束标记 {{/${unclosed.node.type}}}`,
+			unclosed.node.line,
+		);
+	}
+
+	if (cursor < content.length) {
+		target.push({ type: 'text', value: content.slice(cursor) });
+	}
+	return root;
+}
+
+function lookupPath(path: string, scope: BlockScope): unknown {
+	if (path === '@index') {
+		return scope.index;
+	}
+	const [head, ...rest] = path.split('.');
+	let value: unknown = head === 'this' ? scope.item : scope.data[head];
+	for (const segment of rest) {
+		if (!value || typeof value !== 'object') {
+			return undefined;
+		}
+		value = (value as Record<string, unknown>)[segment];
+	}
+	return value;
+}
+
+function resolveOperand(operand: Operand, scope: BlockScope): unknown {
+	return operand.kind === 'literal' ? operand.value : lookupPath(operand.path, scope);
+}
+
+function isTruthy(value: unknown): boolean {
+	if (Array.isArray(value)) {
+		return value.length > 0;
+	}
+	if (typeof value === 'string') {
+		return value.trim().length > 0;
+	}
+	return Boolean(value);
+}
+
+/**
+ * 比较两个值：列表与标量比较时检查是否包含该值，其余按字符串比较
+ */
+function matches(left: unknown, right: unknown): boolean {
+	if (Array.isArray(left) && !Array.isArray(right)) {
+		return left.some((item) => matches(item, right));
+	}
+	if (left === undefined || left === null) {
+		return right === undefined || right === null || right === '';
+	}
+	return String(left) === String(right);
+}
+
+function evaluateCondition(condition: BlockCondition, scope: BlockScope): boolean {
+	const left = resolveOperand(condition.left, scope);
+	if (!condition.operator || !condition.right) {
+		return condition.negate ? !isTruthy(left) : isTruthy(left);
+	}
+	const equal = matches(left, resolveOperand(condition.right, scope));
+	return condition.operator === '==' ? equal : !equal;
+}
+
+function stringifyScopeValue(value: unknown): string {
+	if (value === undefined || value === null) {
+		return '';
+	}
+	if (Array.isArray(value)) {
+		return value.map(stringifyScopeValue).join(', ');
+	}
+	return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function renderText(value: string, scope: BlockScope): string {
+	if (scope.index === undefined) {
+		return value;
+	}
+	return value.replace(SCOPE_VARIABLE_PATTERN, (_match: string, path: string) =>
+		stringifyScopeValue(lookupPath(path, scope)),
+	);
+}
+
+function toIterable(value: unknown): unknown[] {
+	if (Array.isArray(value)) {
+		return value;
+	}
+	return isTruthy(value) ? [value] : [];
+}
+
+function renderNodes(nodes: BlockNode[], scope: BlockScope): string {
+	return nodes
+		.map((node) => {
+			switch (node.type) {
+				case 'text':
+					return renderText(node.value, scope);
+				case 'if': {
+					const branch = evaluateCondition(node.condition, scope) ? node.consequent : node.alternate;
+					return branch ? renderNodes(branch, scope) : '';
+				}
+				case 'each':
+					return toIterable(lookupPath(node.source, scope))
+						.map((item, index) => renderNodes(node.body, { data: scope.data, item, index }))
+						.join('');
+				default:
+					return '';
+			}
+		})
+		.join('');
+}
@@ -1,3 +1,5 @@
 export * from './TemplateEngine';
 export * from './TemplaterPort';
 export * from './ObsidianTemplaterAdapter';
+export * from './placeholders';
+export * from './blocks';
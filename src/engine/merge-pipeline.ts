@@ -1,29 +1,53 @@
 import type { App } from 'obsidian';
-import { PRESET_CONFIG_KEY } from '@core/constants';
-import { LEGACY_PRESET_CONFIG_KEYS } from '@utils/note-architect-config';
-import { mergeFrontmatters } from '@utils/frontmatter/merge';
+import { stripTemplateConfigKeys } from '@utils/note-architect-config';
+import {
+	collectMergeStrategies,
+	mergeFrontmatters,
+	type FieldMergeStrategies,
+} from '@utils/frontmatter/merge';
 import { getNoteMetadata } from '@utils/frontmatter-editor';
 import { normalizeStringArray } from '@utils/data-transformer';
+import { parseBooleanValue, parseFiniteNumber } from '@utils/frontmatter/field';
+import { getFieldDateFormatFallback, resolveDateFormat, resolveDateInput } from '@utils/frontmatter/date';
+import { normalizeWikilinks } from '@utils/frontmatter/link';
+import { getAllFieldOptions } from '@utils/frontmatter/options';
+import { getVisibleFieldKeys } from '@utils/frontmatter/visibility';
+import { resolvePresetInheritance } from '@presets/inheritance';
 import type NoteArchitect from '@core/plugin';
 import type { FrontmatterPreset, FrontmatterField } from '@types';
 
+export interface MergeFrontmatterOptions {
+	/** 是否合并当前活动笔记的 frontmatter，新建笔记时应关闭 */
+	includeNoteFrontmatter?: boolean;
+	/** 用于展开 extends 的全部预设，未提供时按预设自身字段合并 */
+	presets?: FrontmatterPreset[];
+}
+
 export async function mergeFrontmatterWithUserInput(
 	app: App,
-	_plugin: NoteArchitect,
-	preset: FrontmatterPreset,
+	plugin: NoteArchitect,
+	sourcePreset: FrontmatterPreset,
 	templateFrontmatter: Record<string, unknown>,
 	userFrontmatter: Record<string, unknown>,
+	options: MergeFrontmatterOptions = {},
 ): Promise<Record<string, unknown>> {
-	const noteMetadata = getNoteMetadata(app);
-	const presetDefaults = await extractPresetDefaults(preset);
-	const noteOverridesPreset = mergeFrontmatters(presetDefaults, noteMetadata.frontmatter);
-	const templateOverridesNote = mergeFrontmatters(noteOverridesPreset, templateFrontmatter);
-	const finalResult = mergeFrontmatters(templateOverridesNote, userFrontmatter);
-
-	delete finalResult[PRESET_CONFIG_KEY];
-	for (const legacyKey of LEGACY_PRESET_CONFIG_KEYS) {
-		delete finalResult[legacyKey];
-	}
+	const preset = options.presets ? resolvePresetInheritance(sourcePreset, options.presets).preset : sourcePreset;
+	const noteFrontmatter = options.includeNoteFrontmatter === false ? {} : getNoteMetadata(app).frontmatter;
+	const presetDefaults = await extractPresetDefaults(preset, getFieldDateFormatFallback(plugin.settings));
+	// 显示条件不满足的字段不应通过预设默认值写入
+	const visibleKeys = getVisibleFieldKeys(preset.fields, { ...presetDefaults, ...userFrontmatter });
+	preset.fields.forEach((field) => {
+		if (!visibleKeys.has(field.key)) {
+			delete presetDefaults[field.key];
+		}
+	});
+	// 字段声明的合并方式只作用于笔记中已有的值；预设默认值仅在笔记与表单都未提供时生效
+	const strategies = collectMergeStrategies(preset.fields);
+	const incoming = mergeFrontmatters(templateFrontmatter, userFrontmatter);
+	const noteWithIncoming = mergeFrontmatters(noteFrontmatter, incoming, strategies);
+	const finalResult = stripTemplateConfigKeys(
+		mergeFrontmatters(presetDefaults, noteWithIncoming, overwriteStrategies(strategies)),
+	);
 
 	const orderedFrontmatter: Record<string, unknown> = {};
 	const presetKeys = preset.fields.map(field => field.key);
@@ -44,17 +68,28 @@ export async function mergeFrontmatterWithUserInput(
 	return orderedFrontmatter;
 }
 
-async function extractPresetDefaults(preset: FrontmatterPreset): Promise<Record<string, unknown>> {
+/**
+ * 已声明合并方式的字段在叠加预设默认值时直接采用上层结果，避免 tags 等默认规则再次合并
+ */
+function overwriteStrategies(strategies: FieldMergeStrategies): FieldMergeStrategies {
+	return Object.keys(strategies).reduce<FieldMergeStrategies>((result, key) => {
+		result[key] = 'overwrite';
+		return result;
+	}, {});
+}
+
+async function extractPresetDefaults(
+	preset: FrontmatterPreset,
+	fallbackDateFormat?: string,
+): Promise<Record<string, unknown>> {
 	const defaults: Record<string, unknown> = {};
 
 	for (const field of preset.fields) {
 		if (field.type === 'multi-select') {
-			const allowedOptions = Array.isArray(field.options)
-				? new Set(field.options.map(option => option.trim()).filter(Boolean))
-				: undefined;
+			const allowedOptions = new Set(getAllFieldOptions(field));
 			const values = normalizeStringArray(
 				field.default,
-				allowedOptions && allowedOptions.size > 0 ? allowedOptions : undefined,
+				allowedOptions.size > 0 ? allowedOptions : undefined,
 			);
 			if (values.length > 0) {
 				defaults[field.key] = values;
@@ -62,11 +97,39 @@ async function extractPresetDefaults(preset: FrontmatterPreset): Promise<Record<
 			continue;
 		}
 
+		if (field.type === 'number') {
+			const numericDefault = parseFiniteNumber(field.default);
+			if (numericDefault !== null) {
+				defaults[field.key] = numericDefault;
+			}
+			continue;
+		}
+
+		if (field.type === 'boolean') {
+			defaults[field.key] = parseBooleanValue(field.default) ?? false;
+			continue;
+		}
+
+		if (field.type === 'link') {
+			const links = normalizeWikilinks(field.default);
+			if (links.length > 0) {
+				defaults[field.key] = field.multiple ? links : links[0];
+			}
+			continue;
+		}
+
 		const stringDefault = coerceFieldDefaultToString(field.default);
 		if (stringDefault === '') {
 			continue;
 		}
 
+		// 日期字段的自然语言默认值（如 "tomorrow"）按字段格式解析为具体日期
+		if ((field.type === 'date' || field.type === 'datetime') && !stringDefault.includes('<%')) {
+			const format = resolveDateFormat(field, fallbackDateFormat);
+			defaults[field.key] = resolveDateInput(stringDefault, field.type, format) ?? stringDefault;
+			continue;
+		}
+
 		defaults[field.key] = stringDefault;
 	}
 
@@ -0,0 +1,52 @@
+import { readNoteTargetConfig, resolveNoteTarget, sanitizePathSegment } from './note-target';
+import type { PlaceholderContext } from './placeholders';
+
+describe('新建笔记目标路径', () => {
+	const context: PlaceholderContext = {
+		title: '',
+		fields: { title: 'Q3: 规划/复盘?' },
+		knownFieldKeys: ['title'],
+		now: new Date(2024, 6, 1),
+	};
+	const never = () => false;
+
+	it('读取模板中的位置配置', () => {
+		expect(
+			readNoteTargetConfig({ 'note-architect-folder': ' Meetings ', 'note-architect-filename': 3 }),
+		).toEqual({ folder: 'Meetings', filename: '' });
+	});
+
+	it('解析占位符并清理非法字符，字段值中的斜杠不产生子目录', () => {
+		const target = resolveNoteTarget(
+			{ folder: '', filename: 'Meetings/{{date:YYYY-MM-DD}} {{field:title}}' },
+			context,
+			'/',
+			never,
+		);
+		expect(target).toEqual({
+			path: 'Meetings/2024-07-01 Q3 规划-复盘.md',
+			basename: '2024-07-01 Q3 规划-复盘',
+			renamedForCollision: false,
+			unknownPlaceholders: [],
+		});
+	});
+
+	it('组合文件夹配置，缺省时使用默认位置与默认文件名', () => {
+		expect(resolveNoteTarget({ folder: 'Projects/{{date:YYYY}}', filename: 'Plan.md' }, context, '', never).path).toBe(
+			'Projects/2024/Plan.md',
+		);
+		expect(resolveNoteTarget({ folder: '', filename: '' }, context, 'Inbox', never).path).toBe('Inbox/未命名.md');
+	});
+
+	it('重名时追加序号', () => {
+		const taken = new Set(['Notes/Daily.md', 'Notes/Daily 1.md']);
+		const target = resolveNoteTarget({ folder: 'Notes', filename: 'Daily' }, context, '', (path) => taken.has(path));
+		expect(target.path).toBe('Notes/Daily 2.md');
+		expect(target.renamedForCollision).toBe(true);
+	});
+
+	it('清理路径片段', () => {
+		expect(sanitizePathSegment('  a:b*c?  ')).toBe('abc');
+		expect(sanitizePathSegment('..hidden.')).toBe('hidden');
+	});
+});
@@ -0,0 +1,100 @@
+import { NEW_NOTE_FILENAME_KEY, NEW_NOTE_FOLDER_KEY } from '@core/constants';
+import { normalizePath } from '@utils/path';
+import { resolvePlaceholders, type PlaceholderContext } from './placeholders';
+
+export const DEFAULT_NOTE_BASENAME = '未命名';
+
+// Obsidian 不允许出现在文件名中的字符
+const ILLEGAL_FILENAME_CHARS = /[\\:*?"<>|#^[\]]/g;
+const MAX_COLLISION_SUFFIX = 999;
+
+export interface NoteTargetConfig {
+	/** 目标文件夹模式，可包含占位符 */
+	folder: string;
+	/** 文件名模式，可包含占位符与子路径 */
+	filename: string;
+}
+
+export interface ResolvedNoteTarget {
+	path: string;
+	basename: string;
+	renamedForCollision: boolean;
+	unknownPlaceholders: string[];
+}
+
+/**
+ * 从模板 frontmatter 读取新建笔记的位置配置
+ */
+export function readNoteTargetConfig(frontmatter: Record<string, unknown>): NoteTargetConfig {
+	const readString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+	return {
+		folder: readString(frontmatter[NEW_NOTE_FOLDER_KEY]),
+		filename: readString(frontmatter[NEW_NOTE_FILENAME_KEY]),
+	};
+}
+
+/**
+ * 清理单段路径中的非法字符与首尾的点和空白
+ */
+export function sanitizePathSegment(segment: string): string {
+	return segment
+		.replace(ILLEGAL_FILENAME_CHARS, '')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.replace(/^\.+|\.+$/g, '')
+		.trim();
+}
+
+/**
+ * 计算新建笔记的路径：解析占位符、清理非法字符，并在重名时追加序号
+ * @param config 模板声明的位置配置
+ * @param context 占位符上下文（{{title}} 在此处不可用）
+ * @param defaultFolder 未声明文件夹时使用的位置
+ * @param exists 判断路径是否已被占用
+ */
+export function resolveNoteTarget(
+	config: NoteTargetConfig,
+	context: PlaceholderContext,
+	defaultFolder: string,
+	exists: (path: string) => boolean,
+): ResolvedNoteTarget {
+	// 字段值中的斜杠不应被当作目录分隔符
+	const pathContext: PlaceholderContext = {
+		...context,
+		fields: Object.fromEntries(
+			Object.entries(context.fields).map(([key, value]) => [
+				key,
+				typeof value === 'string' ? value.replace(/[\\/]/g, '-') : value,
+			]),
+		),
+	};
+	const folderResult = resolvePlaceholders(config.folder || defaultFolder, pathContext);
+	const filenameResult = resolvePlaceholders(config.filename || DEFAULT_NOTE_BASENAME, pathContext);
+
+	const segments = normalizePath(`${folderResult.value}/${filenameResult.value.replace(/\.md$/i, '')}`)
+		.split('/')
+		.map(sanitizePathSegment)
+		.filter(Boolean);
+	const basename = segments.pop() || DEFAULT_NOTE_BASENAME;
+	const folder = segments.join('/');
+
+	const buildPath = (name: string) => (folder ? `${folder}/${name}.md` : `${name}.md`);
+	let candidateName = basename;
+	let suffix = 0;
+	while (exists(buildPath(candidateName))) {
+		suffix++;
+		if (suffix > MAX_COLLISION_SUFFIX) {
+			throw new Error(`无法为笔记 "${basename}" 找到可用的文件名`);
+		}
+		candidateName = `${basename} ${suffix}`;
+	}
+
+	return {
+		path: buildPath(candidateName),
+		basename: candidateName,
+		renamedForCollision: suffix > 0,
+		unknownPlaceholders: Array.from(
+			new Set([...folderResult.unknownPlaceholders, ...filenameResult.unknownPlaceholders]),
+		),
+	};
+}
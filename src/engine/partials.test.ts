@@ -0,0 +1,79 @@
+import type { Template } from '@types';
+import { expandPartials, extractPartialReferences, resolvePartialPath } from './partials';
+
+const buildTemplate = (path: string, content: string): Template => ({
+	id: path,
+	name: path.split('/').pop()?.replace(/\.md$/, '') ?? path,
+	path,
+	content,
+});
+
+const createLookup = (templates: Template[]) => {
+	const byPath = new Map(templates.map((template) => [template.path, template]));
+	return (path: string) => byPath.get(path);
+};
+
+describe('模板片段引用', () => {
+	it('解析引用路径并提取引用', () => {
+		expect(resolvePartialPath('parts/related', 'Templates/')).toBe('Templates/parts/related.md');
+		expect(resolvePartialPath(' review.md ', 'Templates')).toBe('Templates/review.md');
+		expect(extractPartialReferences('{{> a}}\n{{>b }}\n{{> a}}')).toEqual(['a', 'b']);
+	});
+
+	it('递归展开片段并合并 frontmatter，引用方优先', () => {
+		const related = buildTemplate(
+			'Templates/parts/related.md',
+			'---\ntags: [related]\nstatus: draft\n---\n\n## Related\n{{> parts/links}}\n',
+		);
+		const links = buildTemplate('Templates/parts/links.md', '- [[Index]]\n');
+		const host = buildTemplate(
+			'Templates/meeting.md',
+			'---\ntags: [meeting]\nstatus: active\n---\n# {{title}}\n\n{{> parts/related}}\n',
+		);
+
+		const result = expandPartials(host, createLookup([related, links, host]), 'Templates');
+
+		expect(result.errors).toEqual([]);
+		expect(result.includedPaths.sort()).toEqual(['Templates/parts/links.md', 'Templates/parts/related.md']);
+		expect(result.content).toContain('# {{title}}\n\n## Related\n- [[Index]]\n');
+		// 引用方的 frontmatter 格式（流式列表）保持不变
+		expect(result.content).toMatch(/^---\ntags: \[ related, meeting \]\nstatus: active\n---\n/);
+	});
+
+	it('片段未改变 frontmatter 时保留原始头部文本', () => {
+		const partial = buildTemplate('T/review.md', '## Review\n');
+		const host = buildTemplate('T/host.md', '---\ncreated: <% tp.date.now() %>\n---\n{{> review}}');
+		const result = expandPartials(host, createLookup([partial, host]), 'T');
+		expect(result.content).toBe('---\ncreated: <% tp.date.now() %>\n---\n## Review');
+	});
+
+	it('报告缺失与循环引用并保留原文', () => {
+		const a = buildTemplate('T/a.md', 'A {{> b}}');
+		const b = buildTemplate('T/b.md', 'B {{> a}} {{> missing}}');
+		const result = expandPartials(a, createLookup([a, b]), 'T');
+
+		expect(result.content).toBe('A B {{> a}} {{> missing}}');
+		expect(result.errors).toHaveLength(2);
+		expect(result.errors[0]).toContain('循环引用');
+		expect(result.errors[1]).toContain('找不到片段 "missing"');
+	});
+
+	it('将展开后内容的行号换算为原模板中的行号', () => {
+		const partial = buildTemplate('T/steps.md', '1\n2\n3\n');
+		const host = buildTemplate('T/host.md', '---\nstatus: active\n---\n# Title\n{{> steps}}\n{{#if status}}\n');
+		const result = expandPartials(host, createLookup([partial, host]), 'T');
+
+		expect(result.content).toBe('---\nstatus: active\n---\n# Title\n1\n2\n3\n{{#if status}}\n');
+		expect(result.sourceLineAt(4)).toBe(4);
+		expect(result.sourceLineAt(6)).toBe(5);
+		expect(result.sourceLineAt(8)).toBe(6);
+	});
+
+	it('超过最大嵌套层数时停止展开', () => {
+		const chain = Array.from({ length: 15 }, (_, index) =>
+			buildTemplate(`T/p${index}.md`, `${index} {{> p${index + 1}}}`),
+		);
+		const result = expandPartials(chain[0], createLookup(chain), 'T');
+		expect(result.errors.some((error) => error.includes('最大嵌套层数'))).toBe(true);
+	});
+});
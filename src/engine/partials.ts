@@ -0,0 +1,157 @@
+import type { Template } from '@types';
+import { mergeFrontmatters } from '@utils/frontmatter/merge';
+import { areFrontmattersEqual, composeContent, parseFrontmatter } from '@utils/frontmatter/text';
+import { normalizePath } from '@utils/path';
+
+/** 片段引用允许的最大嵌套层数 */
+export const MAX_PARTIAL_DEPTH = 10;
+
+const PARTIAL_PATTERN = /\{\{>\s*([^{}]+?)\s*\}\}/g;
+
+export interface PartialExpansionResult {
+	/** 展开后的完整模板内容（含合并后的 frontmatter） */
+	content: string;
+	/** 直接或间接引用的片段路径 */
+	includedPaths: string[];
+	/** 缺失、循环引用或超出层数的片段说明，对应引用保留原文 */
+	errors: string[];
+	/** 将展开后内容的行号换算为原模板中的行号，片段插入的行对应引用所在的行 */
+	sourceLineAt: (line: number) => number;
+}
+
+/** 顶层正文中一次片段替换：引用所在行、引用本身跨越的换行数与插入内容的换行数 */
+interface LineShift {
+	line: number;
+	span: number;
+	inserted: number;
+}
+
+function countNewlines(text: string): number {
+	return text.split('\n').length - 1;
+}
+
+/**
+ * 按顶层片段替换记录，将展开后正文的行号换算为原正文的行号
+ */
+function mapBodyLine(line: number, shifts: LineShift[]): number {
+	let delta = 0;
+	for (const shift of shifts) {
+		const start = shift.line + delta;
+		if (line <= start) {
+			break;
+		}
+		const end = start + shift.inserted;
+		if (line <= end) {
+			// 插入内容的最后一行还包含引用之后的原文
+			return line === end ? shift.line + shift.span : shift.line;
+		}
+		delta += shift.inserted - shift.span;
+	}
+	return line - delta;
+}
+
+/**
+ * 提取内容中引用的片段（原始写法，去重）
+ */
+export function extractPartialReferences(content: string): string[] {
+	const references = new Set<string>();
+	content.replace(PARTIAL_PATTERN, (match: string, reference: string) => {
+		references.add(reference);
+		return match;
+	});
+	return Array.from(references);
+}
+
+/**
+ * 将片段引用解析为模板文件夹内的文件路径，省略扩展名时补全 .md
+ */
+export function resolvePartialPath(reference: string, templateFolder: string): string {
+	const relative = normalizePath(reference.trim());
+	const withExtension = /\.md$/i.test(relative) ? relative : `${relative}.md`;
+	const folder = normalizePath(templateFolder);
+	return folder ? `${folder}/${withExtension}` : withExtension;
+}
+
+/**
+ * 去掉片段正文首尾的空行，使其能嵌入到引用所在的位置
+ */
+function trimPartialBody(body: string): string {
+	return body.replace(/^(?:\r?\n)+/, '').replace(/(?:\r?\n)+$/, '');
+}
+
+/**
+ * 递归展开模板中的 {{> path}} 片段引用。
+ * 片段的 frontmatter 会先合并，再由引用方的 frontmatter 覆盖。
+ * @param template 要展开的模板
+ * @param findTemplate 按路径查找模板文件夹中的文件
+ * @param templateFolder 模板文件夹路径，片段路径相对于该文件夹
+ */
+export function expandPartials(
+	template: Template,
+	findTemplate: (path: string) => Template | undefined,
+	templateFolder: string,
+): PartialExpansionResult {
+	const includedPaths = new Set<string>();
+	const errors: string[] = [];
+
+	const shifts: LineShift[] = [];
+
+	const expand = (current: Template, stack: string[]): { frontmatter: Record<string, unknown>; body: string } => {
+		const parsed = parseFrontmatter(current.content);
+		let partialFrontmatter: Record<string, unknown> = {};
+		const isRoot = stack.length === 1;
+
+		const body = parsed.body.replace(PARTIAL_PATTERN, (match: string, reference: string, offset: number) => {
+			const path = resolvePartialPath(reference, templateFolder);
+			if (stack.includes(path)) {
+				errors.push(`片段 "${reference}" 存在循环引用（${[...stack, path].join(' → ')}）`);
+				return match;
+			}
+			if (stack.length > MAX_PARTIAL_DEPTH) {
+				errors.push(`片段 "${reference}" 超出最大嵌套层数 ${MAX_PARTIAL_DEPTH}`);
+				return match;
+			}
+			const partial = findTemplate(path);
+			if (!partial) {
+				errors.push(`找不到片段 "${reference}"`);
+				return match;
+			}
+
+			includedPaths.add(path);
+			const expanded = expand(partial, [...stack, path]);
+			partialFrontmatter = mergeFrontmatters(partialFrontmatter, expanded.frontmatter);
+			const replacement = trimPartialBody(expanded.body);
+			if (isRoot) {
+				shifts.push({
+					line: countNewlines(parsed.body.slice(0, offset)) + 1,
+					span: countNewlines(match),
+					inserted: countNewlines(replacement),
+				});
+			}
+			return replacement;
+		});
+
+		return { frontmatter: mergeFrontmatters(partialFrontmatter, parsed.frontmatter), body };
+	};
+
+	const parsed = parseFrontmatter(template.content);
+	const expanded = expand(template, [normalizePath(template.path)]);
+
+	let content: string;
+	if (areFrontmattersEqual(expanded.frontmatter, parsed.frontmatter)) {
+		// 片段未改变 frontmatter 时保留原始头部文本，避免改写格式
+		const header = template.content.slice(0, template.content.length - parsed.body.length);
+		content = `${header}${expanded.body}`;
+	} else {
+		content = composeContent(expanded.frontmatter, { ...parsed, body: expanded.body });
+	}
+
+	const sourceHeaderLines = countNewlines(template.content.slice(0, template.content.length - parsed.body.length));
+	const expandedHeaderLines = countNewlines(content.slice(0, content.length - expanded.body.length));
+	const sourceLineAt = (line: number): number =>
+		line <= expandedHeaderLines
+			? Math.min(line, sourceHeaderLines)
+			: sourceHeaderLines + mapBodyLine(line - expandedHeaderLines, shifts);
+
+	return { content, includedPaths: Array.from(includedPaths), errors, sourceLineAt };
+}
@@ -0,0 +1,38 @@
+import { resolveFrontmatterPlaceholders, resolvePlaceholders, type PlaceholderContext } from './placeholders';
+
+describe('内置占位符解析', () => {
+	const context: PlaceholderContext = {
+		title: '周会记录',
+		fields: { status: '进行中', tags: ['work', 'sync'] },
+		knownFieldKeys: ['status', 'tags', 'owner'],
+		now: new Date(2024, 2, 5, 9, 7),
+	};
+
+	it('解析标题、日期、时间与字段值', () => {
+		const result = resolvePlaceholders(
+			'# {{title}}\n{{date:YYYY/MM/DD}} {{ time }} {{date}}\n{{field:status}} - {{field:tags}}',
+			context,
+		);
+		expect(result.value).toBe('# 周会记录\n2024/03/05 09:07 2024-03-05\n进行中 - work, sync');
+		expect(result.unknownPlaceholders).toEqual([]);
+	});
+
+	it('预设中未填写的字段解析为空，未知占位符保留原文并去重报告', () => {
+		const result = resolvePlaceholders('{{field:owner}}|{{author}}|{{field:missing}}|{{author}}', context);
+		expect(result.value).toBe('|{{author}}|{{field:missing}}|{{author}}');
+		expect(result.unknownPlaceholders).toEqual(['{{author}}', '{{field:missing}}']);
+	});
+
+	it('递归替换 frontmatter 中的字符串值', () => {
+		const result = resolveFrontmatterPlaceholders(
+			{ title: '{{title}}', aliases: ['{{field:status}}'], meta: { created: '{{date:YYYY}}' }, count: 3 },
+			context,
+		);
+		expect(result.value).toEqual({
+			title: '周会记录',
+			aliases: ['进行中'],
+			meta: { created: '2024' },
+			count: 3,
+		});
+	});
+});
@@ -0,0 +1,123 @@
+import { moment } from 'obsidian';
+
+/**
+ * 内置占位符的解析上下文
+ */
+export interface PlaceholderContext {
+	/** 目标笔记标题（不含扩展名） */
+	title: string;
+	/** 用户在表单中填写的字段值 */
+	fields: Record<string, unknown>;
+	/** 预设中声明的字段键，未填写时解析为空字符串而非未知占位符 */
+	knownFieldKeys?: Iterable<string>;
+	/** 解析时使用的当前时间，默认为调用时刻 */
+	now?: Date;
+}
+
+export interface PlaceholderResolution<T> {
+	value: T;
+	/** 未识别的占位符（去重，保持首次出现顺序），原样保留在输出中 */
+	unknownPlaceholders: string[];
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_TIME_FORMAT = 'HH:mm';
+
+/**
+ * 将字段值转换为可嵌入文本的字符串
+ */
+function stringifyFieldValue(value: unknown): string {
+	if (value === undefined || value === null) {
+		return '';
+	}
+	if (Array.isArray(value)) {
+		return value.map(stringifyFieldValue).filter(Boolean).join(', ');
+	}
+	if (typeof value === 'object') {
+		return JSON.stringify(value);
+	}
+	return String(value);
+}
+
+/**
+ * 解析单个占位符表达式，无法识别时返回 null
+ */
+function resolveExpression(expression: string, context: PlaceholderContext, knownKeys: Set<string>): string | null {
+	const separatorIndex = expression.indexOf(':');
+	const name = (separatorIndex === -1 ? expression : expression.slice(0, separatorIndex)).trim();
+	const argument = separatorIndex === -1 ? '' : expression.slice(separatorIndex + 1).trim();
+	const now = context.now ?? new Date();
+
+	switch (name) {
+		case 'title':
+			return separatorIndex === -1 ? context.title : null;
+		case 'date':
+			return moment(now).format(argument || DEFAULT_DATE_FORMAT);
+		case 'time':
+			return moment(now).format(argument || DEFAULT_TIME_FORMAT);
+		case 'field': {
+			if (!argument) {
+				return null;
+			}
+			if (Object.prototype.hasOwnProperty.call(context.fields, argument)) {
+				return stringifyFieldValue(context.fields[argument]);
+			}
+			return knownKeys.has(argument) ? '' : null;
+		}
+		default:
+			return null;
+	}
+}
+
+function substitute(text: string, context: PlaceholderContext, knownKeys: Set<string>, unknown: Set<string>): string {
+	return text.replace(PLACEHOLDER_PATTERN, (match: string, expression: string) => {
+		const resolved = resolveExpression(expression, context, knownKeys);
+		if (resolved === null) {
+			unknown.add(match);
+			return match;
+		}
+		return resolved;
+	});
+}
+
+function substituteValue(value: unknown, context: PlaceholderContext, knownKeys: Set<string>, unknown: Set<string>): unknown {
+	if (typeof value === 'string') {
+		return substitute(value, context, knownKeys, unknown);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => substituteValue(item, context, knownKeys, unknown));
+	}
+	if (value && typeof value === 'object' && !(value instanceof Date)) {
+		const result: Record<string, unknown> = {};
+		Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+			result[key] = substituteValue(item, context, knownKeys, unknown);
+		});
+		return result;
+	}
+	return value;
+}
+
+/**
+ * 替换文本中的内置占位符：{{title}}、{{date:FORMAT}}、{{time}}、{{field:key}}
+ */
+export function resolvePlaceholders(text: string, context: PlaceholderContext): PlaceholderResolution<string> {
+	const unknown = new Set<string>();
+	const value = substitute(text, context, new Set(context.knownFieldKeys ?? []), unknown);
+	return { value, unknownPlaceholders: Array.from(unknown) };
+}
+
+/**
+ * 递归替换 frontmatter 中所有字符串值的内置占位符，返回新对象
+ */
+export function resolveFrontmatterPlaceholders(
+	frontmatter: Record<string, unknown>,
+	context: PlaceholderContext,
+): PlaceholderResolution<Record<string, unknown>> {
+	const unknown = new Set<string>();
+	const value = substituteValue(frontmatter, context, new Set(context.knownFieldKeys ?? []), unknown) as Record<
+		string,
+		unknown
+	>;
+	return { value, unknownPlaceholders: Array.from(unknown) };
+}
@@ -69,6 +69,14 @@ const createManager = (presets: FrontmatterPreset[] = []) => {
 			preset.fields = fields.map((field) => ({ ...field }));
 			await save(settings);
 		}),
+		updatePresetExtends: jest.fn(async (presetId: string, parentIds: string[]) => {
+			const preset = settings.frontmatterPresets.find((item) => item.id === presetId);
+			if (!preset) {
+				throw new Error(`未找到 ID 为 "${presetId}" 的预设`);
+			}
+			preset.extends = [...parentIds];
+			await save(settings);
+		}),
 	} as unknown as SettingsManager;
 
 	return {
@@ -300,3 +308,257 @@ describe('PresetManager 重命名', () => {
 		expect(conflictResult.isValid).toBe(false);
 	});
 });
+
+describe('PresetManager 数值字段验证', () => {
+	const preset: FrontmatterPreset = {
+		id: 'metrics',
+		name: 'Metrics',
+		fields: [
+			{
+				key: 'rating',
+				label: '评分',
+				type: 'number',
+				default: '',
+				min: 1,
+				max: 5,
+				step: 1,
+				integerOnly: true,
+			},
+		],
+	};
+
+	it('合法数值应通过验证，空值应跳过', () => {
+		const { manager } = createManager();
+		expect(manager.validateFormData(preset, { rating: 3 }).isValid).toBe(true);
+		expect(manager.validateFormData(preset, { rating: '' }).isValid).toBe(true);
+	});
+
+	it('应分别报告格式、整数与范围错误', () => {
+		const { manager } = createManager();
+		expect(manager.validateFormData(preset, { rating: 'abc' }).fieldErrors.rating).toEqual([
+			'请输入有效的数字',
+		]);
+		expect(manager.validateFormData(preset, { rating: 2.5 }).fieldErrors.rating).toContain('请输入整数');
+		expect(manager.validateFormData(preset, { rating: 0 }).fieldErrors.rating).toContain('不能小于 1');
+		expect(manager.validateFormData(preset, { rating: 8 }).fieldErrors.rating).toContain('不能大于 5');
+	});
+
+	it('exportAllPresets 应包含数值约束', () => {
+		const { manager } = createManager([preset]);
+		const payload = JSON.parse(manager.exportAllPresets());
+		expect(payload.presets[0].fields[0]).toMatchObject({ min: 1, max: 5, step: 1, integerOnly: true });
+	});
+});
+
+describe('PresetManager 链接字段验证', () => {
+	const preset: FrontmatterPreset = {
+		id: 'links',
+		name: 'Links',
+		fields: [{ key: 'people', label: '人员', type: 'link', default: [], multiple: true }],
+	};
+
+	it('未设置链接解析器时不产生警告', () => {
+		const { manager } = createManager();
+		const result = manager.validateFormData(preset, { people: ['Missing'] });
+		expect(result.isValid).toBe(true);
+		expect(result.warnings).toEqual([]);
+	});
+
+	it('链接的笔记不存在时返回警告但不阻止提交', () => {
+		const { manager } = createManager();
+		manager.setLinkResolver((linkpath) => linkpath === 'Ann');
+		const result = manager.validateFormData(preset, { people: ['[[Ann]]', '[[Ghost|幽灵]]'] });
+		expect(result.isValid).toBe(true);
+		expect(result.fieldWarnings?.people).toEqual(['笔记 "Ghost" 不存在']);
+	});
+});
+
+describe('PresetManager 必填与格式校验', () => {
+	const preset: FrontmatterPreset = {
+		id: 'rules',
+		name: 'Rules',
+		fields: [
+			{
+				key: 'code',
+				label: '编号',
+				type: 'text',
+				default: '',
+				required: true,
+				pattern: 'PRJ-\\d{4}',
+				patternMessage: '格式应为 PRJ-0000',
+				maxLength: 8,
+			},
+			{
+				key: 'tags',
+				label: '标签',
+				type: 'multi-select',
+				default: [],
+				options: ['a', 'b', 'c'],
+				minItems: 1,
+				maxItems: 2,
+			},
+			{ key: 'done', label: '完成', type: 'boolean', default: false, required: true },
+		],
+	};
+
+	it('必填字段为空时报告错误，布尔字段不受影响', () => {
+		const { manager } = createManager();
+		const result = manager.validateFormData(preset, { code: '  ', done: false });
+		expect(result.fieldErrors.code).toEqual(['此字段为必填项']);
+		expect(result.fieldErrors.done).toBeUndefined();
+	});
+
+	it('正则按整体匹配并使用自定义提示', () => {
+		const { manager } = createManager();
+		expect(manager.validateFormData(preset, { code: 'PRJ-1234' }).fieldErrors.code).toBeUndefined();
+		expect(manager.validateFormData(preset, { code: 'xPRJ-1234' }).fieldErrors.code).toEqual([
+			'最多允许 8 个字符',
+			'格式应为 PRJ-0000',
+		]);
+	});
+
+	it('多选字段校验条目数，空列表仅在必填时报错', () => {
+		const { manager } = createManager();
+		expect(manager.validateFormData(preset, { tags: [] }).fieldErrors.tags).toBeUndefined();
+		expect(manager.validateFormData(preset, { tags: ['a', 'b', 'c'] }).fieldErrors.tags).toEqual([
+			'最多选择 2 项',
+		]);
+	});
+
+	it('导出与导入保留校验规则', async () => {
+		const { manager } = createManager([preset]);
+		const exported = manager.exportAllPresets();
+		expect(JSON.parse(exported).presets[0].fields[0]).toMatchObject({
+			required: true,
+			pattern: 'PRJ-\\d{4}',
+			patternMessage: '格式应为 PRJ-0000',
+			maxLength: 8,
+		});
+
+		const target = createManager();
+		const result = await target.manager.importPresets(exported);
+		expect(result.appliedPresets[0].fields[1]).toMatchObject({ minItems: 1, maxItems: 2 });
+		expect(result.appliedPresets[0].fields[2].required).toBeUndefined();
+	});
+
+	it('导入时拒绝无法解析的正则表达式', async () => {
+		const { manager } = createManager();
+		const payload = JSON.stringify({
+			type: 'note-architect-presets',
+			version: 1,
+			exportedAt: new Date().toISOString(),
+			presets: [
+				{
+					id: 'broken',
+					name: 'Broken',
+					fields: [{ key: 'code', label: '编号', type: 'text', default: '', pattern: '(' }],
+				},
+			],
+		});
+		await expect(manager.importPresets(payload)).rejects.toThrow(PresetImportError);
+	});
+});
+
+describe('PresetManager 级联选项', () => {
+	const preset: FrontmatterPreset = {
+		id: 'cascade',
+		name: 'Cascade',
+		fields: [
+			{ key: 'area', label: '领域', type: 'select', default: '', options: ['work', 'life'] },
+			{
+				key: 'project',
+				label: '项目',
+				type: 'select',
+				default: '',
+				dependsOn: 'area',
+				optionsByParent: { work: ['alpha'], life: ['garden'] },
+			},
+		],
+	};
+
+	it('导出与导入保留级联映射', async () => {
+		const { manager } = createManager([preset]);
+		const exported = manager.exportAllPresets();
+
+		const target = createManager();
+		const result = await target.manager.importPresets(exported);
+		expect(result.appliedPresets[0].fields[1]).toMatchObject({
+			dependsOn: 'area',
+			optionsByParent: { work: ['alpha'], life: ['garden'] },
+		});
+	});
+
+	it('导入时拒绝映射到不存在父值的级联配置', async () => {
+		const { manager } = createManager();
+		const payload = JSON.stringify({
+			type: 'note-architect-presets',
+			version: 1,
+			exportedAt: new Date().toISOString(),
+			presets: [
+				{
+					...preset,
+					fields: [preset.fields[0], { ...preset.fields[1], optionsByParent: { travel: ['trip'] } }],
+				},
+			],
+		});
+		await expect(manager.importPresets(payload)).rejects.toThrow(PresetImportError);
+	});
+});
+
+describe('PresetManager 预设继承', () => {
+	const basePreset: FrontmatterPreset = {
+		id: 'base',
+		name: '基础',
+		fields: [{ key: 'created', type: 'date', label: '创建日期', default: '' }],
+	};
+	const taskPreset: FrontmatterPreset = {
+		id: 'task',
+		name: '任务',
+		extends: ['base'],
+		fields: [{ key: 'status', type: 'text', label: '状态', default: 'todo' }],
+	};
+
+	it('resolvePreset 展开父预设字段，getChildPresets 返回子预设', () => {
+		const { manager } = createManager([basePreset, taskPreset]);
+
+		expect(manager.resolvePreset(taskPreset).fields.map((field) => field.key)).toEqual(['created', 'status']);
+		expect(manager.getChildPresets('base').map((preset) => preset.id)).toEqual(['task']);
+	});
+
+	it('updatePresetExtends 拒绝形成循环或不存在的父预设', async () => {
+		const { manager } = createManager([basePreset, taskPreset]);
+
+		await expect(manager.updatePresetExtends('base', ['task'])).rejects.toThrow('base → task → base');
+		await expect(manager.updatePresetExtends('task', ['missing'])).rejects.toThrow('父预设不存在');
+	});
+
+	it('导出保留 extends，合并导入时随父预设改名更新引用', async () => {
+		const { manager, settings } = createManager([basePreset, taskPreset]);
+		const json = manager.exportAllPresets();
+		expect(JSON.parse(json).presets[1].extends).toEqual(['base']);
+
+		const result = await manager.importPresets(json, { strategy: 'merge' });
+		const renamedBase = result.renamedPresets.find((item) => item.originalId === 'base')?.newId;
+
+		expect(renamedBase).toBeDefined();
+		expect(settings.frontmatterPresets[3].extends).toEqual([renamedBase]);
+	});
+
+	it('导出时展开继承链缺失父预设的预设', () => {
+		const { manager } = createManager([{ ...taskPreset, extends: ['missing'] }]);
+		const [exported] = JSON.parse(manager.exportAllPresets()).presets;
+
+		expect(exported.extends).toBeUndefined();
+		expect(exported.fields).toHaveLength(1);
+	});
+
+	it('导入时拒绝循环继承', async () => {
+		const { manager } = createManager();
+		const json = JSON.stringify([
+			{ ...basePreset, extends: ['task'] },
+			taskPreset,
+		]);
+
+		await expect(manager.importPresets(json)).rejects.toThrow(PresetImportError);
+	});
+});
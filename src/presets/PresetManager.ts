@@ -3,16 +3,34 @@ import type {
 	NoteArchitectSettings,
 	FrontmatterField,
 	FrontmatterPreset,
+	PresetChangeOperation,
 } from '@types';
 import {
 	cloneFrontmatterField,
+	compileFieldPattern,
+	isListValuedField,
 	normalizeFieldDefault,
+	parseFiniteNumber,
 	sanitizeFrontmatterField,
+	supportsTextRules,
 } from '@utils/frontmatter/field';
+import { getFieldDateFormatFallback, isDateFieldType, parseDateValue, resolveDateFormat } from '@utils/frontmatter/date';
+import { extractLinkpath } from '@utils/frontmatter/link';
+import { normalizeStringArray } from '@utils/data-transformer';
 import {
 	generateUniquePresetId as generateUniquePresetIdUtil,
 	generateUniquePresetIdFromOriginalId,
 } from '@utils/preset-id';
+import { getPresetVersion } from '@utils/provenance';
+import { appendPresetChangelog, sanitizePresetChangelog } from './schema-migration';
+import { serializePreset } from './preset-file';
+import {
+	describeInheritanceCycle,
+	findChildPresets,
+	findInheritanceCycle,
+	getPresetParentIds,
+	resolvePresetInheritance,
+} from './inheritance';
 
 export type PresetImportStrategy = 'merge' | 'replace';
 
@@ -57,14 +75,45 @@ export interface RenamePresetOptions {
 	saveOptions?: SaveSettingsOptions;
 }
 
+export interface FormDataValidationResult {
+	isValid: boolean;
+	errors: string[];
+	fieldErrors: Record<string, string[]>;
+	// 警告不影响 isValid，仅用于提示（如链接的笔记不存在）
+	warnings?: string[];
+	fieldWarnings?: Record<string, string[]>;
+}
+
+/**
+ * 判断链接路径是否能解析到库中的笔记
+ */
+export type LinkResolver = (linkpath: string) => boolean;
+
 export interface RenamePresetResult {
 	preset: FrontmatterPreset;
 	previousId: string;
 	idChanged: boolean;
 }
 
+/**
+ * 判断表单值是否视为未填写（空字符串、空列表或缺失）
+ */
+export function isEmptyFormValue(value: unknown): boolean {
+	if (value === undefined || value === null) {
+		return true;
+	}
+	if (typeof value === 'string') {
+		return value.trim() === '';
+	}
+	if (Array.isArray(value)) {
+		return normalizeStringArray(value).length === 0;
+	}
+	return false;
+}
+
 export class PresetManager {
 	private saveOptionsFactory?: () => SaveSettingsOptions | undefined;
+	private linkResolver?: LinkResolver;
 
 	constructor(
 		private readonly settingsManager: SettingsManager,
@@ -73,6 +122,13 @@ export class PresetManager {
 		this.saveOptionsFactory = saveOptionsFactory;
 	}
 
+	/**
+	 * 设置链接解析器，用于在表单验证时检查链接字段指向的笔记是否存在
+	 */
+	setLinkResolver(resolver?: LinkResolver): void {
+		this.linkResolver = resolver;
+	}
+
 	private get settings(): NoteArchitectSettings {
 		return this.settingsManager.getSettings();
 	}
@@ -125,25 +181,65 @@ export class PresetManager {
 		return this.presets.find((preset) => preset.id === presetId);
 	}
 
+	/**
+	 * 展开预设的继承链，返回生效字段的预设；消费预设前都应先经过此方法
+	 */
+	resolvePreset(preset: FrontmatterPreset): FrontmatterPreset {
+		return resolvePresetInheritance(preset, this.presets).preset;
+	}
+
+	resolvePresets(presets: FrontmatterPreset[]): FrontmatterPreset[] {
+		return presets.map((preset) => this.resolvePreset(preset));
+	}
+
+	/**
+	 * 获取直接继承该预设的子预设
+	 */
+	getChildPresets(presetId: string): FrontmatterPreset[] {
+		return findChildPresets(presetId, this.presets);
+	}
+
+	/**
+	 * 设置预设继承的父预设，父预设不存在或会形成循环时抛出错误
+	 */
+	async updatePresetExtends(
+		presetId: string,
+		parentIds: string[],
+		options?: SaveSettingsOptions,
+	): Promise<FrontmatterPreset> {
+		const nextParentIds = getPresetParentIds({ id: presetId, extends: parentIds });
+		const missing = nextParentIds.filter((id) => !this.getPresetById(id));
+		if (missing.length > 0) {
+			throw new Error(`父预设不存在：${missing.join('、')}`);
+		}
+		const cycle = findInheritanceCycle(presetId, nextParentIds, this.presets);
+		if (cycle) {
+			throw new Error(`继承关系存在循环：${describeInheritanceCycle(cycle)}`);
+		}
+
+		await this.settingsManager.updatePresetExtends(presetId, nextParentIds, this.buildSaveOptions(options));
+
+		const updatedPreset = this.getPresetById(presetId);
+		if (!updatedPreset) {
+			throw new Error(`未找到 ID 为 "${presetId}" 的预设`);
+		}
+		return updatedPreset;
+	}
+
+	/**
+	 * 导出全部预设。继承关系以 extends 保留；继承链存在循环或缺失父预设的预设会展开为完整字段后导出，
+	 * 保证导出文件可独立导入。
+	 */
 	exportAllPresets(): string {
+		const exportable = this.presets.map((preset) => {
+			const { cycle, missing, preset: resolved } = resolvePresetInheritance(preset, this.presets);
+			return cycle || missing.length > 0 ? resolved : preset;
+		});
 		const payload: PresetCollectionExportPayload = {
 			type: 'note-architect-presets',
 			version: 1,
 			exportedAt: new Date().toISOString(),
-			presets: this.presets.map((preset) => ({
-				id: preset.id,
-				name: preset.name,
-				fields: preset.fields.map((field) => ({
-					key: field.key,
-					type: field.type,
-					label: field.label,
-					default: Array.isArray(field.default) ? [...field.default] : field.default,
-					...(Array.isArray(field.options) && field.options.length > 0
-						? { options: [...field.options] }
-						: {}),
-					...(field.useTemplaterTimestamp ? { useTemplaterTimestamp: true } : {}),
-				})),
-			})),
+			presets: exportable.map((preset) => serializePreset(preset)),
 		};
 
 		return JSON.stringify(payload, null, 2);
@@ -164,19 +260,11 @@ export class PresetManager {
 		const saveOptions = this.buildSaveOptions(options.saveOptions);
 
 		if (strategy === 'replace') {
-			const clonedPresets = sanitizedPresets.map((preset) => ({
-				id: preset.id,
-				name: preset.name,
-				fields: preset.fields.map((field) => cloneFrontmatterField(field)),
-			}));
+			const clonedPresets = sanitizedPresets.map((preset) => this.cloneImportedPreset(preset));
 
 			await this.settingsManager.replacePresets(clonedPresets, saveOptions);
 
-			appliedPresets = clonedPresets.map((preset) => ({
-				id: preset.id,
-				name: preset.name,
-				fields: preset.fields.map((field) => cloneFrontmatterField(field)),
-			}));
+			appliedPresets = clonedPresets.map((preset) => this.cloneImportedPreset(preset));
 		} else {
 			const newlyAdded: FrontmatterPreset[] = [];
 			const existingIds = new Set(this.presets.map((preset) => preset.id));
@@ -195,20 +283,22 @@ export class PresetManager {
 				}
 
 				const newPreset: FrontmatterPreset = {
+					...this.cloneImportedPreset(preset),
 					id: targetId,
-					name: preset.name,
-					fields: preset.fields.map((field) => cloneFrontmatterField(field)),
 				};
 
 				presetsToAppend.push(newPreset);
 				existingIds.add(targetId);
+			}
 
-				newlyAdded.push({
-					id: newPreset.id,
-					name: newPreset.name,
-					fields: newPreset.fields.map((field) => cloneFrontmatterField(field)),
-				});
-			}
+			// 同批导入的父预设被改名时，子预设的继承引用随之更新
+			const renamedIds = new Map(renamedPresets.map(({ originalId, newId }) => [originalId, newId]));
+			presetsToAppend.forEach((preset) => {
+				if (preset.extends) {
+					preset.extends = preset.extends.map((id) => renamedIds.get(id) ?? id);
+				}
+				newlyAdded.push(this.cloneImportedPreset(preset));
+			});
 
 			if (presetsToAppend.length > 0) {
 				await this.settingsManager.appendPresets(presetsToAppend, saveOptions);
@@ -227,9 +317,11 @@ export class PresetManager {
 	validateFormData(
 		preset: FrontmatterPreset,
 		formData: Record<string, unknown>,
-	): { isValid: boolean; errors: string[]; fieldErrors: Record<string, string[]> } {
+	): FormDataValidationResult {
 		const errors: string[] = [];
 		const fieldErrors: Record<string, string[]> = {};
+		const warnings: string[] = [];
+		const fieldWarnings: Record<string, string[]> = {};
 
 		const appendFieldError = (fieldKey: string, inlineMessage: string, summaryMessage: string): void => {
 			errors.push(summaryMessage);
@@ -239,25 +331,148 @@ export class PresetManager {
 			fieldErrors[fieldKey].push(inlineMessage);
 		};
 
+		const appendFieldWarning = (fieldKey: string, inlineMessage: string, summaryMessage: string): void => {
+			warnings.push(summaryMessage);
+			if (!fieldWarnings[fieldKey]) {
+				fieldWarnings[fieldKey] = [];
+			}
+			fieldWarnings[fieldKey].push(inlineMessage);
+		};
+
 		preset.fields.forEach((field, index) => {
 			const value = formData[field.key];
 			const fieldKey = field.key || `__index_${index}`;
 
-			if (field.type === 'date') {
+			if (isEmptyFormValue(value)) {
+				const isAutoFilled = isDateFieldType(field.type) && field.useTemplaterTimestamp === true;
+				if (field.required && field.type !== 'boolean' && !isAutoFilled) {
+					appendFieldError(
+						fieldKey,
+						'此字段为必填项',
+						`字段 "${field.label}" 为必填项`
+					);
+				}
+				return;
+			}
+
+			if (supportsTextRules(field) && typeof value === 'string') {
+				const text = value.trim();
+				if (typeof field.minLength === 'number' && text.length < field.minLength) {
+					appendFieldError(
+						fieldKey,
+						`至少需要 ${field.minLength} 个字符`,
+						`字段 "${field.label}" 至少需要 ${field.minLength} 个字符`
+					);
+				}
+				if (typeof field.maxLength === 'number' && text.length > field.maxLength) {
+					appendFieldError(
+						fieldKey,
+						`最多允许 ${field.maxLength} 个字符`,
+						`字段 "${field.label}" 最多允许 ${field.maxLength} 个字符`
+					);
+				}
+				const pattern = field.pattern ? compileFieldPattern(field.pattern) : null;
+				if (pattern && !pattern.test(text)) {
+					const message = field.patternMessage || `格式不符合要求：${field.pattern}`;
+					appendFieldError(fieldKey, message, `字段 "${field.label}" ${message}`);
+				}
+			}
+
+			if (isListValuedField(field)) {
+				const count = normalizeStringArray(value).length;
+				if (typeof field.minItems === 'number' && count < field.minItems) {
+					appendFieldError(
+						fieldKey,
+						`至少选择 ${field.minItems} 项`,
+						`字段 "${field.label}" 至少选择 ${field.minItems} 项`
+					);
+				}
+				if (typeof field.maxItems === 'number' && count > field.maxItems) {
+					appendFieldError(
+						fieldKey,
+						`最多选择 ${field.maxItems} 项`,
+						`字段 "${field.label}" 最多选择 ${field.maxItems} 项`
+					);
+				}
+			}
+
+			if (isDateFieldType(field.type)) {
 				if (field.useTemplaterTimestamp) {
 					return;
 				}
 
-				if (value && typeof value === 'string' && value.trim() !== '') {
-					const date = new Date(value as string);
-					if (isNaN(date.getTime())) {
+				const format = resolveDateFormat(field, getFieldDateFormatFallback(this.settings));
+				if (parseDateValue(value, field.type, format) === null) {
+					const kindLabel = field.type === 'time' ? '时间' : '日期';
+					appendFieldError(
+						fieldKey,
+						`请输入有效的${kindLabel}，格式为 ${format}`,
+						`字段 "${field.label}" 的${kindLabel}格式无效`
+					);
+				}
+			}
+
+			if (field.type === 'number') {
+				const numericValue = parseFiniteNumber(value);
+				if (numericValue === null) {
+					appendFieldError(
+						fieldKey,
+						'请输入有效的数字',
+						`字段 "${field.label}" 的数值格式无效`
+					);
+					return;
+				}
+
+				if (field.integerOnly && !Number.isInteger(numericValue)) {
+					appendFieldError(
+						fieldKey,
+						'请输入整数',
+						`字段 "${field.label}" 只允许整数`
+					);
+				}
+
+				if (typeof field.step === 'number' && field.step > 0) {
+					const base = typeof field.min === 'number' ? field.min : 0;
+					const ratio = (numericValue - base) / field.step;
+					if (Math.abs(ratio - Math.round(ratio)) > 1e-9) {
 						appendFieldError(
 							fieldKey,
-							'请输入有效的日期格式',
-							`字段 "${field.label}" 的日期格式无效`
+							`需要按 ${field.step} 递增`,
+							`字段 "${field.label}" 的值需要按 ${field.step} 递增`
 						);
 					}
 				}
+
+				if (typeof field.min === 'number' && numericValue < field.min) {
+					appendFieldError(
+						fieldKey,
+						`不能小于 ${field.min}`,
+						`字段 "${field.label}" 的值不能小于 ${field.min}`
+					);
+				}
+
+				if (typeof field.max === 'number' && numericValue > field.max) {
+					appendFieldError(
+						fieldKey,
+						`不能大于 ${field.max}`,
+						`字段 "${field.label}" 的值不能大于 ${field.max}`
+					);
+				}
+			}
+
+			if (field.type === 'link' && this.linkResolver) {
+				normalizeStringArray(value)
+					.map((link) => extractLinkpath(link))
+					.filter(Boolean)
+					.forEach((linkpath) => {
+						if (!this.linkResolver?.(linkpath)) {
+							appendFieldWarning(
+								fieldKey,
+								`笔记 "${linkpath}" 不存在`,
+								`字段 "${field.label}" 链接的笔记 "${linkpath}" 不存在`
+							);
+						}
+					});
 			}
 		});
 
@@ -265,6 +480,8 @@ export class PresetManager {
 			isValid: errors.length === 0,
 			errors,
 			fieldErrors,
+			warnings,
+			fieldWarnings,
 		};
 	}
 
@@ -395,6 +612,10 @@ export class PresetManager {
 
 		if (idChanged) {
 			preset.id = targetId;
+			// 子预设的继承引用随 ID 一起更新
+			findChildPresets(previousId, settingsSnapshot.frontmatterPresets).forEach((child) => {
+				child.extends = (child.extends ?? []).map((id) => (id === previousId ? targetId : id));
+			});
 		}
 
 		const saveOptions = this.buildSaveOptions(options?.saveOptions);
@@ -421,15 +642,23 @@ export class PresetManager {
 		await this.settingsManager.deletePreset(presetId, this.buildSaveOptions(options));
 	}
 
+	/**
+	 * 更新预设字段；传入结构变更时版本号加一并写入变更记录
+	 */
 	async updatePresetFields(
 		presetId: string,
 		fields: FrontmatterField[],
 		options?: SaveSettingsOptions,
+		changes: PresetChangeOperation[] = [],
 	): Promise<FrontmatterPreset> {
+		const currentPreset = this.getPresetById(presetId);
+		const schema =
+			currentPreset && changes.length > 0 ? appendPresetChangelog(currentPreset, changes) : undefined;
 		await this.settingsManager.updatePresetFields(
 			presetId,
 			fields.map((field) => cloneFrontmatterField(field)),
 			this.buildSaveOptions(options),
+			schema && { version: schema.version, changelog: schema.changelog },
 		);
 
 		const updatedPreset = this.getPresetById(presetId);
@@ -477,9 +706,30 @@ export class PresetManager {
 			seenIds.add(preset.id);
 		}
 
+		for (const preset of sanitizedPresets) {
+			const cycle = findInheritanceCycle(preset.id, getPresetParentIds(preset), sanitizedPresets);
+			if (cycle) {
+				throw new PresetImportError(
+					`导入失败：预设 "${preset.id}" 的继承关系存在循环：${describeInheritanceCycle(cycle)}`,
+				);
+			}
+		}
+
 		return sanitizedPresets;
 	}
 
+	private cloneImportedPreset(preset: FrontmatterPreset): FrontmatterPreset {
+		return {
+			id: preset.id,
+			name: preset.name,
+			fields: preset.fields.map((field) => cloneFrontmatterField(field)),
+			...(preset.extends && preset.extends.length > 0 ? { extends: [...preset.extends] } : {}),
+			...(getPresetVersion(preset) > 1
+				? { version: getPresetVersion(preset), changelog: [...(preset.changelog ?? [])] }
+				: {}),
+		};
+	}
+
 	private extractPresetsPayload(rawData: unknown): unknown {
 		if (Array.isArray(rawData)) {
 			return rawData;
@@ -533,19 +783,35 @@ export class PresetManager {
 		}
 
 		const sanitizedFields = fields.map((field, fieldIndex) =>
-			this.sanitizeImportedField(field, presetIndex, fieldIndex),
+			this.sanitizeImportedField(field, presetIndex, fieldIndex, fields),
 		);
 
+		const { version, changelog } = data as Partial<FrontmatterPreset>;
+		const sanitizedChangelog = sanitizePresetChangelog(changelog);
+		const parentIds = getPresetParentIds({
+			id: trimmedId,
+			extends: normalizeStringArray((data as Partial<FrontmatterPreset>).extends),
+		});
+
 		return {
 			id: trimmedId,
 			name: name.trim(),
 			fields: sanitizedFields,
+			...(parentIds.length > 0 ? { extends: parentIds } : {}),
+			...(typeof version === 'number' && version > 1
+				? { version: getPresetVersion({ version }), changelog: sanitizedChangelog }
+				: {}),
 		};
 	}
 
-	private sanitizeImportedField(field: unknown, presetIndex: number, fieldIndex: number): FrontmatterField {
+	private sanitizeImportedField(
+		field: unknown,
+		presetIndex: number,
+		fieldIndex: number,
+		siblingFields: unknown[],
+	): FrontmatterField {
 		try {
-			const sanitized = sanitizeFrontmatterField(field, { strict: true });
+			const sanitized = sanitizeFrontmatterField(field, { strict: true, siblingFields });
 			if (!sanitized) {
 				throw new Error('字段为空');
 			}
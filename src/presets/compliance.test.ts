@@ -0,0 +1,96 @@
+import type { SettingsManager } from '@settings';
+import { DEFAULT_SETTINGS, type FrontmatterField, type FrontmatterPreset } from '@types';
+import { applyComplianceFixes, auditFrontmatter, selectBulkFixes } from './compliance';
+import { PresetManager } from './PresetManager';
+
+const buildField = (overrides: Partial<FrontmatterField>): FrontmatterField => ({
+	key: 'field',
+	type: 'text',
+	label: 'Field',
+	default: '',
+	...overrides,
+});
+
+const preset: FrontmatterPreset = {
+	id: 'meeting',
+	name: 'Meeting',
+	fields: [
+		buildField({ key: 'status', type: 'select', label: '状态', options: ['draft', 'done'], default: 'draft', required: true }),
+		buildField({ key: 'owner', label: '负责人', required: true }),
+		buildField({ key: 'labels', type: 'multi-select', label: '标签', options: ['a', 'b'] }),
+		buildField({ key: 'due', type: 'date', label: '截止日期' }),
+	],
+};
+
+const manager = new PresetManager({
+	getSettings: () => ({ ...DEFAULT_SETTINGS, frontmatterPresets: [preset] }),
+} as unknown as SettingsManager);
+const validate = (target: FrontmatterPreset, data: Record<string, unknown>) => manager.validateFormData(target, data);
+
+describe('auditFrontmatter', () => {
+	it('reports nothing for a compliant note', () => {
+		const frontmatter = { status: 'done', owner: 'Ann', labels: ['a'], due: '2024-05-01', tags: ['meeting'] };
+
+		expect(auditFrontmatter(preset, frontmatter, validate)).toEqual([]);
+	});
+
+	it('reports missing required keys, falling back to the field default when possible', () => {
+		const violations = auditFrontmatter(preset, { labels: [] }, validate);
+
+		expect(violations).toEqual([
+			expect.objectContaining({ key: 'status', kind: 'missing-required', fix: { type: 'set', value: 'draft' } }),
+			expect.objectContaining({ key: 'owner', kind: 'missing-required', fix: null }),
+		]);
+	});
+
+	it('reports values outside the select options and keeps valid multi-select values', () => {
+		const violations = auditFrontmatter(
+			preset,
+			{ status: 'archived', owner: 'Ann', labels: ['a', 'x'] },
+			validate,
+		);
+
+		expect(violations).toEqual([
+			expect.objectContaining({ key: 'status', kind: 'invalid-option', fix: { type: 'set', value: 'draft' } }),
+			expect.objectContaining({ key: 'labels', kind: 'invalid-option', fix: { type: 'set', value: ['a'] } }),
+		]);
+	});
+
+	it('reports invalid dates and unknown extra keys', () => {
+		const violations = auditFrontmatter(
+			preset,
+			{ status: 'draft', owner: 'Ann', due: 'next week', legacy: true, 'note-architect-config': 'meeting' },
+			validate,
+		);
+
+		expect(violations).toEqual([
+			expect.objectContaining({ key: 'due', kind: 'invalid-date', fix: { type: 'remove' } }),
+			expect.objectContaining({ key: 'legacy', kind: 'unknown-key', fix: { type: 'remove' } }),
+		]);
+	});
+
+	it('shows object values as JSON in messages', () => {
+		const [violation] = auditFrontmatter(preset, { status: { name: 'draft' }, owner: 'Ann' }, validate);
+
+		expect(violation.message).toBe('字段 "状态" 的值 {"name":"draft"} 不在可选项中');
+	});
+});
+
+describe('selectBulkFixes', () => {
+	it('leaves removals out unless they are explicitly included', () => {
+		const violations = auditFrontmatter(preset, { status: 'archived', due: 'next week', legacy: true }, validate);
+
+		expect(selectBulkFixes(violations, false).map((violation) => violation.key)).toEqual(['status']);
+		expect(selectBulkFixes(violations, true).map((violation) => violation.key)).toEqual(['status', 'due', 'legacy']);
+	});
+});
+
+describe('applyComplianceFixes', () => {
+	it('applies every fixable violation and skips the rest', () => {
+		const frontmatter = { status: 'archived', due: 'next week', legacy: true };
+		const violations = auditFrontmatter(preset, frontmatter, validate);
+
+		expect(applyComplianceFixes(frontmatter, violations)).toEqual({ status: 'draft' });
+		expect(frontmatter).toEqual({ status: 'archived', due: 'next week', legacy: true });
+	});
+});
@@ -0,0 +1,193 @@
+import { NEW_NOTE_FILENAME_KEY, NEW_NOTE_FOLDER_KEY, NOTE_PROVENANCE_KEY, PRESET_CONFIG_KEY } from '@core/constants';
+import type { ComplianceViolation, FrontmatterField, FrontmatterPreset } from '@types';
+import { normalizeStringArray } from '@utils/data-transformer';
+import { isDateFieldType } from '@utils/frontmatter/date';
+import { normalizeFieldDefault } from '@utils/frontmatter/field';
+import { resolveFieldOptions } from '@utils/frontmatter/options';
+import { getVisibleFieldKeys } from '@utils/frontmatter/visibility';
+import { LEGACY_PRESET_CONFIG_KEYS } from '@utils/note-architect-config';
+import { isEmptyFormValue, type FormDataValidationResult } from './PresetManager';
+
+export type FormDataValidator = (
+	preset: FrontmatterPreset,
+	formData: Record<string, unknown>,
+) => FormDataValidationResult;
+
+// Obsidian 内置属性与插件自身的配置键不视为多余字段
+const RESERVED_KEYS = new Set<string>([
+	'tags',
+	'tag',
+	'aliases',
+	'alias',
+	'cssclasses',
+	'cssclass',
+	'position',
+	PRESET_CONFIG_KEY,
+	NEW_NOTE_FOLDER_KEY,
+	NEW_NOTE_FILENAME_KEY,
+	NOTE_PROVENANCE_KEY,
+	...LEGACY_PRESET_CONFIG_KEYS,
+]);
+
+/**
+ * 以字段默认值作为修复值，默认值为空或本身不合规时返回 null
+ */
+function buildDefaultFix(
+	field: FrontmatterField,
+	validate: FormDataValidator,
+	preset: FrontmatterPreset,
+): ComplianceViolation['fix'] {
+	if (isDateFieldType(field.type) && field.useTemplaterTimestamp) {
+		return null;
+	}
+	const value = normalizeFieldDefault(field.type, field.default);
+	if (isEmptyFormValue(value)) {
+		return null;
+	}
+	const result = validate({ ...preset, fields: [field] }, { [field.key]: value });
+	return result.isValid ? { type: 'set', value } : null;
+}
+
+/**
+ * 在提示中显示字段值，对象与列表按 JSON 输出
+ */
+function formatAuditValue(value: unknown): string {
+	return JSON.stringify(typeof value === 'string' ? value.trim() : value) ?? String(value);
+}
+
+function auditOptions(
+	field: FrontmatterField,
+	value: unknown,
+	frontmatter: Record<string, unknown>,
+	fix: ComplianceViolation['fix'],
+): ComplianceViolation | null {
+	// 动态选项依赖库中的当前内容，无法稳定判断
+	if ((field.type !== 'select' && field.type !== 'multi-select') || field.optionSource) {
+		return null;
+	}
+	const allowed = resolveFieldOptions(field, frontmatter);
+	if (allowed.length === 0) {
+		return null;
+	}
+
+	if (field.type === 'select') {
+		const text = Array.isArray(value) ? normalizeStringArray(value).join(', ') : String(value).trim();
+		if (allowed.includes(text)) {
+			return null;
+		}
+		const defaultIsAllowed = fix?.type === 'set' && allowed.includes(String(fix.value));
+		return {
+			key: field.key,
+			kind: 'invalid-option',
+			message: `字段 "${field.label}" 的值 ${formatAuditValue(value)} 不在可选项中`,
+			fix: defaultIsAllowed ? fix : field.required ? null : { type: 'remove' },
+		};
+	}
+
+	const values = normalizeStringArray(value);
+	const invalid = values.filter((item) => !allowed.includes(item));
+	if (invalid.length === 0) {
+		return null;
+	}
+	return {
+		key: field.key,
+		kind: 'invalid-option',
+		message: `字段 "${field.label}" 的值 ${invalid.map((item) => `"${item}"`).join('、')} 不在可选项中`,
+		fix: { type: 'set', value: values.filter((item) => allowed.includes(item)) },
+	};
+}
+
+/**
+ * 按预设检查笔记 frontmatter：必填字段缺失、值不在可选项中、日期无效、其他校验失败与多余字段。
+ * 字段级规则复用 PresetManager.validateFormData；显示条件不满足的字段不参与检查。
+ * @param preset 笔记对应的预设
+ * @param frontmatter 笔记当前的 frontmatter
+ * @param validate 表单校验函数（通常为 presetManager.validateFormData）
+ */
+export function auditFrontmatter(
+	preset: FrontmatterPreset,
+	frontmatter: Record<string, unknown>,
+	validate: FormDataValidator,
+): ComplianceViolation[] {
+	const violations: ComplianceViolation[] = [];
+	const visibleKeys = getVisibleFieldKeys(preset.fields, frontmatter);
+	const fields = preset.fields.filter((field) => field.key && visibleKeys.has(field.key));
+	const validation = validate({ ...preset, fields }, frontmatter);
+
+	fields.forEach((field) => {
+		const value = frontmatter[field.key];
+		const messages = validation.fieldErrors[field.key] ?? [];
+		const defaultFix = buildDefaultFix(field, validate, preset);
+
+		if (isEmptyFormValue(value)) {
+			if (messages.length > 0) {
+				violations.push({
+					key: field.key,
+					kind: 'missing-required',
+					message: `缺少必填字段 "${field.label}"`,
+					fix: defaultFix,
+				});
+			}
+			return;
+		}
+
+		if (messages.length > 0) {
+			violations.push({
+				key: field.key,
+				kind: isDateFieldType(field.type) ? 'invalid-date' : 'invalid-value',
+				message: `字段 "${field.label}"：${messages.join('；')}`,
+				fix: defaultFix ?? (field.required ? null : { type: 'remove' }),
+			});
+			return;
+		}
+
+		const optionViolation = auditOptions(field, value, frontmatter, defaultFix);
+		if (optionViolation) {
+			violations.push(optionViolation);
+		}
+	});
+
+	const knownKeys = new Set(preset.fields.map((field) => field.key));
+	Object.keys(frontmatter).forEach((key) => {
+		if (!knownKeys.has(key) && !RESERVED_KEYS.has(key)) {
+			violations.push({
+				key,
+				kind: 'unknown-key',
+				message: `字段 "${key}" 不在预设 "${preset.name}" 中`,
+				fix: { type: 'remove' },
+			});
+		}
+	});
+
+	return violations;
+}
+
+/**
+ * 选出批量修复时要应用的违规项；删除字段的修复会丢失数据，需显式选择才包含
+ * @param violations 笔记的违规项
+ * @param includeRemovals 是否包含删除字段的修复
+ */
+export function selectBulkFixes(violations: ComplianceViolation[], includeRemovals: boolean): ComplianceViolation[] {
+	return violations.filter((violation) => violation.fix && (includeRemovals || violation.fix.type !== 'remove'));
+}
+
+/**
+ * 应用违规项的修复，返回新的 frontmatter（无法修复的项被忽略）
+ */
+export function applyComplianceFixes(
+	frontmatter: Record<string, unknown>,
+	violations: ComplianceViolation[],
+): Record<string, unknown> {
+	const next = { ...frontmatter };
+	violations.forEach((violation) => {
+		if (!violation.fix) {
+			return;
+		}
+		if (violation.fix.type === 'remove') {
+			delete next[violation.key];
+		} else {
+			next[violation.key] = violation.fix.value;
+		}
+	});
+	return next;
+}
@@ -1 +1,5 @@
 export * from "./PresetManager";
+export * from "./compliance";
+export * from "./schema-migration";
+export * from "./inheritance";
+export * from "./inference";
@@ -0,0 +1,87 @@
+import { buildFieldsFromFrontmatter, convertInferredField, inferPresetFields } from './inference';
+
+describe('inferPresetFields', () => {
+	it('infers field types from frontmatter values', () => {
+		const notes = [
+			{ status: 'open', due: '2024-01-01', tags: ['a'], done: false, score: 1, project: '[[Alpha]]', title: 'One' },
+			{ status: 'done', due: '2024-02-01', tags: ['b', 'a'], done: true, score: 2, project: '[[Beta]]', title: 'Two' },
+			{ status: 'open', due: '2024-03-01 10:00', tags: 'a', done: 'true', score: 3, project: '[[Alpha]]', title: 'Three' },
+			{ status: 'open', due: '2024-04-01', done: false, score: 4, project: '[[Alpha]]', title: 'Four' },
+		];
+
+		const { total, proposals } = inferPresetFields(notes);
+		const byKey = new Map(proposals.map((proposal) => [proposal.key, proposal.field] as const));
+
+		expect(total).toBe(4);
+		expect(byKey.get('status')).toMatchObject({ type: 'select', options: ['open', 'done'] });
+		expect(byKey.get('due')).toMatchObject({ type: 'date', default: '' });
+		expect(byKey.get('tags')).toMatchObject({ type: 'multi-select', options: ['a', 'b'], default: [] });
+		expect(byKey.get('done')).toMatchObject({ type: 'boolean', default: false });
+		expect(byKey.get('score')).toMatchObject({ type: 'number' });
+		expect(byKey.get('project')).toMatchObject({ type: 'link' });
+		expect(byKey.get('title')).toMatchObject({ type: 'text', label: 'title' });
+	});
+
+	it('sorts by frequency, drops rare and reserved keys and collects samples', () => {
+		const notes = [
+			{ status: 'a', rare: 'x', position: {}, aliases: ['A'], 'note-architect-config': 'p' },
+			{ status: 'b', owner: 'me' },
+			{ status: 'a', owner: '' },
+			{ status: 'c' },
+		];
+
+		const { proposals } = inferPresetFields(notes, { minFrequency: 0.5, sampleSize: 2 });
+
+		expect(proposals.map((proposal) => proposal.key)).toEqual(['status', 'owner']);
+		expect(proposals[0]).toMatchObject({ count: 4, frequency: 1, samples: ['a', 'b'] });
+		expect(proposals[1]).toMatchObject({ count: 2, frequency: 0.5, samples: ['me'] });
+	});
+
+	it('treats lists of links as a multi-value link field', () => {
+		const { proposals } = inferPresetFields([{ related: ['[[A]]', '[[B]]'] }, { related: ['[[C]]'] }]);
+
+		expect(proposals[0].field).toMatchObject({ type: 'link', multiple: true });
+	});
+
+	it('converts a proposal to another field type', () => {
+		const { proposals } = inferPresetFields([{ owner: 'ann' }, { owner: 'bob' }, { owner: 'ann' }]);
+
+		expect(proposals[0].field.type).toBe('text');
+		expect(convertInferredField(proposals[0], 'select')).toEqual({
+			key: 'owner',
+			label: 'owner',
+			type: 'select',
+			default: '',
+			options: ['ann', 'bob'],
+		});
+		expect(convertInferredField(proposals[0], 'multi-select').default).toEqual([]);
+	});
+});
+
+describe('buildFieldsFromFrontmatter', () => {
+	it('uses current values as defaults and list items as options', () => {
+		const fields = buildFieldsFromFrontmatter({
+			title: 'Dune',
+			rating: 4,
+			read: true,
+			finished: '2024-05-01',
+			author: '[[Frank Herbert]]',
+			tags: ['book', 'sci-fi'],
+			genres: ['novel'],
+			meta: { nested: true },
+			position: { start: 0 },
+			notes: null,
+		});
+
+		expect(fields).toEqual([
+			{ key: 'title', label: 'title', type: 'text', default: 'Dune' },
+			{ key: 'rating', label: 'rating', type: 'number', default: 4 },
+			{ key: 'read', label: 'read', type: 'boolean', default: true },
+			{ key: 'finished', label: 'finished', type: 'date', default: '2024-05-01' },
+			{ key: 'author', label: 'author', type: 'link', default: '[[Frank Herbert]]' },
+			{ key: 'tags', label: 'tags', type: 'multi-select', default: ['book', 'sci-fi'], options: ['book', 'sci-fi'] },
+			{ key: 'genres', label: 'genres', type: 'multi-select', default: ['novel'], options: ['novel'] },
+			{ key: 'notes', label: 'notes', type: 'text', default: '' },
+		]);
+	});
+});
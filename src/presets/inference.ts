@@ -0,0 +1,202 @@
+import {
+	NEW_NOTE_FILENAME_KEY,
+	NEW_NOTE_FOLDER_KEY,
+	NOTE_PROVENANCE_KEY,
+	PRESET_CONFIG_KEY,
+} from '@core/constants';
+import type {
+	FrontmatterField,
+	FrontmatterFieldType,
+	InferredFieldProposal,
+	PresetInferenceOptions,
+	PresetInferenceResult,
+} from '@types';
+import { normalizeFieldDefault, parseBooleanValue } from '@utils/frontmatter/field';
+import { LEGACY_PRESET_CONFIG_KEYS } from '@utils/note-architect-config';
+
+// Obsidian 内置的非内容属性与插件自身的配置键不生成字段
+const IGNORED_KEYS = new Set<string>([
+	'position',
+	'aliases',
+	'alias',
+	'cssclasses',
+	'cssclass',
+	PRESET_CONFIG_KEY,
+	NEW_NOTE_FOLDER_KEY,
+	NEW_NOTE_FILENAME_KEY,
+	NOTE_PROVENANCE_KEY,
+	...LEGACY_PRESET_CONFIG_KEYS,
+]);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2})?)?$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2})?$/;
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2})?$/;
+const WIKILINK_PATTERN = /^\[\[[^\]]+\]\]$/;
+
+function isEmptyValue(value: unknown): boolean {
+	return (
+		value === null ||
+		value === undefined ||
+		(typeof value === 'string' && value.trim() === '') ||
+		(Array.isArray(value) && value.length === 0)
+	);
+}
+
+function toText(value: unknown): string {
+	return typeof value === 'string' ? value.trim() : String(value);
+}
+
+/**
+ * 按出现次数降序、同次数按首次出现顺序排列不同取值
+ */
+function rankDistinct(items: string[]): string[] {
+	const counts = new Map<string, number>();
+	items.forEach((item) => counts.set(item, (counts.get(item) ?? 0) + 1));
+	return Array.from(counts.keys()).sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0));
+}
+
+/**
+ * 将各笔记中的取值（含列表）展开为非空文本
+ */
+function flattenValues(values: unknown[]): string[] {
+	return values.reduce<string[]>(
+		(result, value) => result.concat((Array.isArray(value) ? value : [value]).filter((item) => !isEmptyValue(item)).map(toText)),
+		[],
+	);
+}
+
+/**
+ * 根据一个键的全部非空取值推断字段类型：
+ * 列表 → multi-select（全部为链接时为多值 link），布尔 → boolean，数字 → number，
+ * 日期时间 → datetime，日期 → date，时间 → time，链接 → link，取值集合小且重复 → select，其余为 text
+ */
+function inferField(key: string, values: unknown[], maxSelectOptions: number): FrontmatterField {
+	const base = { key, label: key };
+	const items = flattenValues(values);
+	const distinct = rankDistinct(items);
+
+	if (items.length === 0 && key !== 'tags') {
+		return { ...base, type: 'text', default: '' };
+	}
+	if (values.some((value) => Array.isArray(value)) || key === 'tags') {
+		if (items.length > 0 && items.every((item) => WIKILINK_PATTERN.test(item))) {
+			return { ...base, type: 'link', default: '', multiple: true };
+		}
+		return { ...base, type: 'multi-select', default: [], options: distinct };
+	}
+	if (values.every((value) => typeof value === 'boolean' || parseBooleanValue(value) !== null)) {
+		return { ...base, type: 'boolean', default: false };
+	}
+	if (values.every((value) => typeof value === 'number')) {
+		return { ...base, type: 'number', default: '' };
+	}
+	if (items.every((item) => DATETIME_PATTERN.test(item))) {
+		return { ...base, type: 'datetime', default: '' };
+	}
+	if (items.every((item) => DATE_PATTERN.test(item))) {
+		return { ...base, type: 'date', default: '' };
+	}
+	if (items.every((item) => TIME_PATTERN.test(item))) {
+		return { ...base, type: 'time', default: '' };
+	}
+	if (items.every((item) => WIKILINK_PATTERN.test(item))) {
+		return { ...base, type: 'link', default: '' };
+	}
+	if (items.length >= 3 && distinct.length <= maxSelectOptions && distinct.length * 2 <= items.length) {
+		return { ...base, type: 'select', default: '', options: distinct };
+	}
+	return { ...base, type: 'text', default: '' };
+}
+
+/**
+ * 统计笔记 frontmatter 中各键的出现频率，为常见的键推断字段定义
+ * @param frontmatters 参与推断的笔记 frontmatter
+ * @param options 频率阈值与单选判定参数
+ */
+export function inferPresetFields(
+	frontmatters: Array<Record<string, unknown>>,
+	options: PresetInferenceOptions = {},
+): PresetInferenceResult {
+	const minFrequency = options.minFrequency ?? 0.3;
+	const maxSelectOptions = options.maxSelectOptions ?? 8;
+	const sampleSize = options.sampleSize ?? 5;
+	const total = frontmatters.length;
+	const occurrences = new Map<string, { count: number; values: unknown[] }>();
+
+	frontmatters.forEach((frontmatter) => {
+		Object.entries(frontmatter).forEach(([rawKey, value]) => {
+			const key = rawKey.trim();
+			if (!key || IGNORED_KEYS.has(key)) {
+				return;
+			}
+			const entry = occurrences.get(key) ?? { count: 0, values: [] };
+			entry.count += 1;
+			if (!isEmptyValue(value)) {
+				entry.values.push(value);
+			}
+			occurrences.set(key, entry);
+		});
+	});
+
+	const proposals: InferredFieldProposal[] = [];
+	occurrences.forEach(({ count, values }, key) => {
+		const frequency = total > 0 ? count / total : 0;
+		if (frequency < minFrequency) {
+			return;
+		}
+		const samples = rankDistinct(
+			values.map((value) => (Array.isArray(value) ? value.map(toText).join(', ') : toText(value))),
+		).slice(0, sampleSize);
+		proposals.push({
+			key,
+			count,
+			frequency,
+			samples,
+			values: rankDistinct(flattenValues(values)),
+			field: inferField(key, values, maxSelectOptions),
+		});
+	});
+
+	proposals.sort((a, b) => b.count - a.count);
+	return { total, proposals };
+}
+
+/**
+ * 按用户选择的类型改写推断出的字段：单选 / 多选以观察到的取值作为选项，默认值随类型重置
+ */
+export function convertInferredField(proposal: InferredFieldProposal, type: FrontmatterFieldType): FrontmatterField {
+	if (type === proposal.field.type) {
+		return { ...proposal.field };
+	}
+	const field: FrontmatterField = { key: proposal.field.key, label: proposal.field.label, type, default: '' };
+	if (type === 'select' || type === 'multi-select') {
+		field.options = proposal.field.options ? [...proposal.field.options] : [...proposal.values];
+	}
+	if (type === 'multi-select') {
+		field.default = [];
+	} else if (type === 'boolean') {
+		field.default = false;
+	}
+	return field;
+}
+
+/**
+ * 以单篇笔记的 frontmatter 为样本生成字段：按取值推断类型，当前值作为默认值，列表取值作为多选选项。
+ * 无法表示为字段的嵌套对象会被跳过。
+ */
+export function buildFieldsFromFrontmatter(frontmatter: Record<string, unknown>): FrontmatterField[] {
+	return Object.entries(frontmatter).reduce<FrontmatterField[]>((fields, [rawKey, value]) => {
+		const key = rawKey.trim();
+		if (!key || IGNORED_KEYS.has(key) || fields.some((field) => field.key === key)) {
+			return fields;
+		}
+		if (value && typeof value === 'object' && !Array.isArray(value)) {
+			return fields;
+		}
+		const values = isEmptyValue(value) ? [] : [value];
+		const field = inferField(key, values, 0);
+		const current = Array.isArray(value) ? flattenValues(value) : value;
+		fields.push({ ...field, default: normalizeFieldDefault(field.type, current) });
+		return fields;
+	}, []);
+}
@@ -0,0 +1,89 @@
+import type { FrontmatterField, FrontmatterPreset } from '@types';
+import { findChildPresets, findInheritanceCycle, resolvePresetInheritance } from './inheritance';
+
+const buildField = (overrides: Partial<FrontmatterField>): FrontmatterField => ({
+	key: 'field',
+	type: 'text',
+	label: 'Field',
+	default: '',
+	...overrides,
+});
+
+const base: FrontmatterPreset = {
+	id: 'base',
+	name: 'Base',
+	fields: [
+		buildField({ key: 'created', type: 'date' }),
+		buildField({ key: 'tags', type: 'multi-select', options: ['note'] }),
+		buildField({ key: 'status', type: 'select', options: ['draft', 'done'], default: 'draft' }),
+	],
+};
+
+describe('resolvePresetInheritance', () => {
+	it('overrides parent fields by key in place and merges tag options', () => {
+		const child: FrontmatterPreset = {
+			id: 'task',
+			name: 'Task',
+			extends: ['base'],
+			fields: [
+				buildField({ key: 'status', type: 'select', options: ['todo', 'done'], default: 'todo' }),
+				buildField({ key: 'tags', label: 'Tags', options: ['task'] }),
+				buildField({ key: 'due', type: 'date' }),
+			],
+		};
+
+		const { preset, cycle, missing } = resolvePresetInheritance(child, [base, child]);
+
+		expect(cycle).toBeNull();
+		expect(missing).toEqual([]);
+		expect(preset.extends).toBeUndefined();
+		expect(preset.fields.map((field) => field.key)).toEqual(['created', 'tags', 'status', 'due']);
+		expect(preset.fields[1]).toMatchObject({ type: 'multi-select', label: 'Tags', options: ['note', 'task'] });
+		expect(preset.fields[2]).toMatchObject({ default: 'todo', options: ['todo', 'done'] });
+	});
+
+	it('merges parents in declaration order through several levels', () => {
+		const meta: FrontmatterPreset = {
+			id: 'meta',
+			name: 'Meta',
+			fields: [buildField({ key: 'status', default: 'open' }), buildField({ key: 'owner' })],
+		};
+		const project: FrontmatterPreset = { id: 'project', name: 'Project', extends: ['base', 'meta'], fields: [] };
+		const sprint: FrontmatterPreset = { id: 'sprint', name: 'Sprint', extends: ['project'], fields: [] };
+
+		const { preset } = resolvePresetInheritance(sprint, [base, meta, project, sprint]);
+
+		expect(preset.fields.map((field) => field.key)).toEqual(['created', 'tags', 'status', 'owner']);
+		expect(preset.fields[2].default).toBe('open');
+	});
+
+	it('reports cycles and missing parents without looping', () => {
+		const a: FrontmatterPreset = { id: 'a', name: 'A', extends: ['b', 'ghost'], fields: [buildField({ key: 'a' })] };
+		const b: FrontmatterPreset = { id: 'b', name: 'B', extends: ['a'], fields: [buildField({ key: 'b' })] };
+
+		const { preset, cycle, missing } = resolvePresetInheritance(a, [a, b]);
+
+		expect(cycle).toEqual(['a', 'b', 'a']);
+		expect(missing).toEqual(['ghost']);
+		expect(preset.fields.map((field) => field.key)).toEqual(['b', 'a']);
+	});
+});
+
+describe('findInheritanceCycle', () => {
+	it('detects cycles introduced by a new parent list', () => {
+		const child: FrontmatterPreset = { id: 'child', name: 'Child', extends: ['base'], fields: [] };
+
+		expect(findInheritanceCycle('base', ['child'], [base, child])).toEqual(['base', 'child', 'base']);
+		expect(findInheritanceCycle('base', ['base'], [base, child])).toEqual(['base', 'base']);
+		expect(findInheritanceCycle('child', ['base'], [base, child])).toBeNull();
+	});
+});
+
+describe('findChildPresets', () => {
+	it('returns presets that directly extend the parent', () => {
+		const child: FrontmatterPreset = { id: 'child', name: 'Child', extends: ['base'], fields: [] };
+		const grandchild: FrontmatterPreset = { id: 'grandchild', name: 'Grandchild', extends: ['child'], fields: [] };
+
+		expect(findChildPresets('base', [base, child, grandchild])).toEqual([child]);
+	});
+});
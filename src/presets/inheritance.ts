@@ -0,0 +1,112 @@
+import type { FrontmatterField, FrontmatterPreset } from '@types';
+import { mergeTagsOptions, upgradeTagsToMultiSelect } from '@utils/frontmatter/tags';
+import { normalizeStringArray } from '@utils/data-transformer';
+
+export interface PresetInheritanceResult {
+	/** 展开继承后的预设，不再包含 extends */
+	preset: FrontmatterPreset;
+	/** 检测到的继承循环（如 ['a', 'b', 'a']），无循环时为 null */
+	cycle: string[] | null;
+	/** 继承链中引用但不存在的父预设 ID */
+	missing: string[];
+}
+
+/**
+ * 读取预设声明的父预设 ID，去除空值、重复与自身
+ */
+export function getPresetParentIds(preset: Pick<FrontmatterPreset, 'id' | 'extends'>): string[] {
+	return normalizeStringArray(preset.extends ?? []).filter((id) => id !== preset.id);
+}
+
+/**
+ * 子字段按键名覆盖父字段并保留父字段的位置；tags 字段合并选项，其余属性以子字段为准
+ */
+function overrideFields(parentFields: FrontmatterField[], childFields: FrontmatterField[]): FrontmatterField[] {
+	const result = parentFields.map((field) => ({ ...field }));
+	childFields.forEach((field) => {
+		const index = result.findIndex((candidate) => candidate.key === field.key);
+		if (index < 0) {
+			result.push({ ...field });
+			return;
+		}
+		result[index] =
+			field.key === 'tags'
+				? {
+						...upgradeTagsToMultiSelect(field),
+						options: mergeTagsOptions(result[index].options, field.options),
+					}
+				: { ...field };
+	});
+	return result;
+}
+
+/**
+ * 展开预设的继承链，计算生效的字段列表。
+ * 父预设按声明顺序依次合并，子预设的字段最后覆盖；循环引用与缺失的父预设会被跳过并报告。
+ * @param preset 待展开的预设
+ * @param allPresets 可供查找父预设的全部预设
+ */
+export function resolvePresetInheritance(
+	preset: FrontmatterPreset,
+	allPresets: FrontmatterPreset[],
+): PresetInheritanceResult {
+	const byId = new Map(allPresets.map((item) => [item.id, item] as const));
+	const missing: string[] = [];
+	let cycle: string[] | null = null;
+
+	const collect = (current: FrontmatterPreset, chain: string[]): FrontmatterField[] => {
+		const inherited = getPresetParentIds(current).reduce<FrontmatterField[]>((fields, parentId) => {
+			if (chain.includes(parentId)) {
+				cycle = cycle ?? [...chain.slice(chain.indexOf(parentId)), parentId];
+				return fields;
+			}
+			const parent = byId.get(parentId);
+			if (!parent) {
+				if (!missing.includes(parentId)) {
+					missing.push(parentId);
+				}
+				return fields;
+			}
+			return overrideFields(fields, collect(parent, [...chain, parentId]));
+		}, []);
+		return overrideFields(inherited, current.fields);
+	};
+
+	const resolved: FrontmatterPreset = { ...preset, fields: collect(preset, [preset.id]) };
+	delete resolved.extends;
+	return { preset: resolved, cycle, missing };
+}
+
+/**
+ * 判断为预设设置这些父预设后是否会形成循环，返回循环路径
+ */
+export function findInheritanceCycle(
+	presetId: string,
+	parentIds: string[],
+	allPresets: FrontmatterPreset[],
+): string[] | null {
+	if (parentIds.includes(presetId)) {
+		return [presetId, presetId];
+	}
+	const current = allPresets.find((preset) => preset.id === presetId);
+	const target: FrontmatterPreset = {
+		...(current ?? { id: presetId, name: presetId, fields: [] }),
+		extends: parentIds,
+	};
+	const presets = allPresets.filter((preset) => preset.id !== presetId).concat(target);
+	return resolvePresetInheritance(target, presets).cycle;
+}
+
+/**
+ * 查找直接继承该预设的子预设
+ */
+export function findChildPresets(presetId: string, allPresets: FrontmatterPreset[]): FrontmatterPreset[] {
+	return allPresets.filter((preset) => preset.id !== presetId && getPresetParentIds(preset).includes(presetId));
+}
+
+/**
+ * 生成继承循环的说明文字
+ */
+export function describeInheritanceCycle(cycle: string[]): string {
+	return cycle.join(' → ');
+}
@@ -0,0 +1,54 @@
+import type { FrontmatterPreset } from '@types';
+import {
+	buildPresetFilePath,
+	getPresetFileFormat,
+	parsePresetFile,
+	stringifyPresetFile,
+} from './preset-file';
+
+const preset: FrontmatterPreset = {
+	id: 'meeting',
+	name: '会议',
+	extends: ['base'],
+	fields: [
+		{ key: 'status', type: 'select', label: '状态', default: 'open', options: ['open', 'closed'] },
+		{ key: 'attendees', type: 'multi-select', label: '参会人', default: [], required: true },
+	],
+	version: 2,
+	changelog: [{ version: 2, createdAt: 1, operations: [{ type: 'delete-field', key: 'legacy' }] }],
+};
+
+describe('preset files', () => {
+	it.each(['yaml', 'json'] as const)('round-trips a preset through %s', (format) => {
+		const content = stringifyPresetFile(preset, format);
+
+		expect(parsePresetFile(content, format, 'fallback')).toEqual(preset);
+	});
+
+	it('falls back to the file name when the id is missing', () => {
+		const parsed = parsePresetFile('name: Daily\nfields: []\n', 'yaml', 'daily');
+
+		expect(parsed).toEqual({ id: 'daily', name: 'Daily', fields: [] });
+	});
+
+	it('reports syntax errors and invalid fields with a readable message', () => {
+		expect(() => parsePresetFile('{"id": "a",', 'json', 'a')).toThrow('无法解析 JSON');
+		expect(() => parsePresetFile('- a\n- b\n', 'yaml', 'a')).toThrow('文件内容必须是一个预设对象');
+		expect(() => parsePresetFile('fields:\n  - key: status\n', 'yaml', 'a')).toThrow('第 1 个字段');
+	});
+
+	it('detects the format from the extension and builds file paths', () => {
+		expect(getPresetFileFormat('Presets/a.yml')).toBe('yaml');
+		expect(getPresetFileFormat('Presets/a.JSON')).toBe('json');
+		expect(getPresetFileFormat('Presets/a.md')).toBeNull();
+		expect(getPresetFileFormat('Presets/README')).toBeNull();
+		expect(buildPresetFilePath('Presets/', 'meeting', 'yaml')).toBe('Presets/meeting.yaml');
+	});
+
+	it('picks a suffixed path when the file name is taken', () => {
+		const taken = new Set(['Presets/meeting.yaml', 'Presets/meeting-2.yaml']);
+		expect(buildPresetFilePath('Presets', 'meeting', 'yaml', (path) => taken.has(path))).toBe(
+			'Presets/meeting-3.yaml',
+		);
+	});
+});
@@ -0,0 +1,160 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { FrontmatterField, FrontmatterPreset, PresetFileFormat } from '@types';
+import { sanitizeFrontmatterField } from '@utils/frontmatter/field';
+import { normalizeStringArray } from '@utils/data-transformer';
+import { normalizePath } from '@utils/path';
+import { getPresetVersion } from '@utils/provenance';
+import { sanitizePresetChangelog } from './schema-migration';
+import { getPresetParentIds } from './inheritance';
+
+const PRESET_FILE_EXTENSIONS: Record<string, PresetFileFormat> = {
+	yaml: 'yaml',
+	yml: 'yaml',
+	json: 'json',
+};
+
+/**
+ * 导出字段时只保留已设置的属性
+ */
+export function serializeField(field: FrontmatterField): FrontmatterField {
+	return {
+		key: field.key,
+		type: field.type,
+		label: field.label,
+		default: Array.isArray(field.default) ? [...field.default] : field.default,
+		...(Array.isArray(field.options) && field.options.length > 0
+			? { options: [...field.options] }
+			: {}),
+		...(field.optionSource ? { optionSource: { ...field.optionSource } } : {}),
+		...(field.dependsOn && field.optionsByParent
+			? {
+					dependsOn: field.dependsOn,
+					optionsByParent: Object.fromEntries(
+						Object.entries(field.optionsByParent).map(([parentValue, options]) => [
+							parentValue,
+							[...options],
+						]),
+					),
+				}
+			: {}),
+		...(field.useTemplaterTimestamp ? { useTemplaterTimestamp: true } : {}),
+		...(field.dateFormat ? { dateFormat: field.dateFormat } : {}),
+		...(Array.isArray(field.showIf) && field.showIf.length > 0
+			? { showIf: field.showIf.map((rule) => ({ ...rule })) }
+			: {}),
+		...(field.required ? { required: true } : {}),
+		...(field.pattern ? { pattern: field.pattern } : {}),
+		...(field.patternMessage ? { patternMessage: field.patternMessage } : {}),
+		...(typeof field.minLength === 'number' ? { minLength: field.minLength } : {}),
+		...(typeof field.maxLength === 'number' ? { maxLength: field.maxLength } : {}),
+		...(typeof field.minItems === 'number' ? { minItems: field.minItems } : {}),
+		...(typeof field.maxItems === 'number' ? { maxItems: field.maxItems } : {}),
+		...(typeof field.min === 'number' ? { min: field.min } : {}),
+		...(typeof field.max === 'number' ? { max: field.max } : {}),
+		...(typeof field.step === 'number' ? { step: field.step } : {}),
+		...(field.integerOnly ? { integerOnly: true } : {}),
+		...(field.linkFolder ? { linkFolder: field.linkFolder } : {}),
+		...(field.linkTag ? { linkTag: field.linkTag } : {}),
+		...(field.multiple ? { multiple: true } : {}),
+		...(field.mergeStrategy ? { mergeStrategy: field.mergeStrategy } : {}),
+	};
+}
+
+/**
+ * 生成导出与预设文件共用的预设数据
+ */
+export function serializePreset(preset: FrontmatterPreset): FrontmatterPreset {
+	return {
+		id: preset.id,
+		name: preset.name,
+		...(preset.description ? { description: preset.description } : {}),
+		...(getPresetParentIds(preset).length > 0 ? { extends: getPresetParentIds(preset) } : {}),
+		fields: preset.fields.map((field) => serializeField(field)),
+		...(getPresetVersion(preset) > 1
+			? { version: getPresetVersion(preset), changelog: preset.changelog ?? [] }
+			: {}),
+	};
+}
+
+/**
+ * 根据扩展名判断预设文件格式，非预设文件返回 null
+ */
+export function getPresetFileFormat(path: string): PresetFileFormat | null {
+	const extension = path.split('.').pop()?.toLowerCase() ?? '';
+	return path.includes('.') ? (PRESET_FILE_EXTENSIONS[extension] ?? null) : null;
+}
+
+/**
+ * 生成预设文件路径：<文件夹>/<预设 ID>.<扩展名>，路径已被占用时依次追加 -2、-3 等后缀
+ * @param isTaken 判断路径是否已被占用（如解析失败的文件或其他预设的文件）
+ */
+export function buildPresetFilePath(
+	folderPath: string,
+	presetId: string,
+	format: PresetFileFormat,
+	isTaken: (path: string) => boolean = () => false,
+): string {
+	let path = normalizePath(`${folderPath}/${presetId}.${format}`);
+	for (let suffix = 2; isTaken(path); suffix++) {
+		path = normalizePath(`${folderPath}/${presetId}-${suffix}.${format}`);
+	}
+	return path;
+}
+
+/**
+ * 将预设序列化为文件内容
+ */
+export function stringifyPresetFile(preset: FrontmatterPreset, format: PresetFileFormat): string {
+	const data = serializePreset(preset);
+	return format === 'json' ? `${JSON.stringify(data, null, 2)}\n` : stringifyYaml(data, { lineWidth: 0 });
+}
+
+/**
+ * 解析预设文件内容，未声明 id 时使用文件名
+ * @throws 内容无法解析或字段无效时抛出错误，错误信息可直接展示给用户
+ */
+export function parsePresetFile(content: string, format: PresetFileFormat, fallbackId: string): FrontmatterPreset {
+	let data: unknown;
+	try {
+		data = format === 'json' ? JSON.parse(content) : parseYaml(content);
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		throw new Error(`无法解析 ${format.toUpperCase()}：${reason}`);
+	}
+	if (!data || typeof data !== 'object' || Array.isArray(data)) {
+		throw new Error('文件内容必须是一个预设对象');
+	}
+
+	const raw = data as Partial<FrontmatterPreset>;
+	const id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : fallbackId;
+	const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : id;
+	if (raw.fields !== undefined && !Array.isArray(raw.fields)) {
+		throw new Error('fields 必须是数组');
+	}
+	const rawFields: unknown[] = raw.fields ?? [];
+	const fields = rawFields.map((field, index) => {
+		try {
+			const sanitized = sanitizeFrontmatterField(field, { strict: true, siblingFields: rawFields });
+			if (!sanitized) {
+				throw new Error('字段为空');
+			}
+			return sanitized;
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error);
+			throw new Error(`第 ${index + 1} 个字段 ${reason}`);
+		}
+	});
+	const parentIds = getPresetParentIds({ id, extends: normalizeStringArray(raw.extends) });
+	const version = getPresetVersion({ version: Number(raw.version) });
+
+	return {
+		id,
+		name,
+		fields,
+		...(typeof raw.description === 'string' && raw.description.trim()
+			? { description: raw.description.trim() }
+			: {}),
+		...(parentIds.length > 0 ? { extends: parentIds } : {}),
+		...(version > 1 ? { version, changelog: sanitizePresetChangelog(raw.changelog) } : {}),
+	};
+}
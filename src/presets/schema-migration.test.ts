@@ -0,0 +1,122 @@
+import { NOTE_PROVENANCE_KEY } from '@core/constants';
+import type { FrontmatterField, FrontmatterPreset } from '@types';
+import {
+	appendPresetChangelog,
+	applyPresetChanges,
+	detectPresetChanges,
+	getPendingPresetChanges,
+	migrateNoteFrontmatter,
+	sanitizePresetChangelog,
+} from './schema-migration';
+
+const buildField = (overrides: Partial<FrontmatterField>): FrontmatterField => ({
+	key: 'field',
+	type: 'text',
+	label: 'Field',
+	default: '',
+	...overrides,
+});
+
+describe('detectPresetChanges', () => {
+	it('detects renamed keys, changed types, renamed options and deleted fields', () => {
+		const before = [
+			buildField({ key: 'state', type: 'select', options: ['todo', 'done'] }),
+			buildField({ key: 'points' }),
+			buildField({ key: 'legacy' }),
+		];
+		const after = [
+			buildField({ key: 'status', type: 'select', options: ['open', 'done'] }),
+			buildField({ key: 'points', type: 'number' }),
+			buildField({ key: 'owner' }),
+		];
+
+		expect(detectPresetChanges(before, after, ['state', 'points', undefined])).toEqual([
+			{ type: 'rename-key', from: 'state', to: 'status' },
+			{ type: 'remap-options', key: 'status', mapping: { todo: 'open' } },
+			{ type: 'change-type', key: 'points', from: 'text', to: 'number' },
+			{ type: 'delete-field', key: 'legacy' },
+		]);
+	});
+
+	it('reports nothing when only labels or defaults change', () => {
+		const before = [buildField({ key: 'status', label: 'Status' })];
+		const after = [buildField({ key: 'status', label: '状态', default: 'draft' })];
+
+		expect(detectPresetChanges(before, after, ['status'])).toEqual([]);
+	});
+});
+
+describe('appendPresetChangelog', () => {
+	it('bumps the version and records the operations', () => {
+		const preset: FrontmatterPreset = { id: 'task', name: 'Task', fields: [] };
+		const updated = appendPresetChangelog(preset, [{ type: 'delete-field', key: 'legacy' }], 100);
+
+		expect(updated.version).toBe(2);
+		expect(updated.changelog).toEqual([
+			{ version: 2, createdAt: 100, operations: [{ type: 'delete-field', key: 'legacy' }] },
+		]);
+		expect(appendPresetChangelog(updated, [])).toBe(updated);
+	});
+});
+
+describe('applyPresetChanges', () => {
+	it('applies operations in order and keeps an existing target key on rename', () => {
+		const frontmatter = { state: 'todo', points: '3', labels: 'a', legacy: true, status: 'kept' };
+
+		expect(
+			applyPresetChanges(frontmatter, [
+				{ type: 'rename-key', from: 'state', to: 'status' },
+				{ type: 'change-type', key: 'points', from: 'text', to: 'number' },
+				{ type: 'change-type', key: 'labels', from: 'select', to: 'multi-select' },
+				{ type: 'remap-options', key: 'labels', mapping: { a: 'alpha' } },
+				{ type: 'delete-field', key: 'legacy' },
+			]),
+		).toEqual({ status: 'kept', points: 3, labels: ['alpha'] });
+	});
+});
+
+describe('migrateNoteFrontmatter', () => {
+	const preset: FrontmatterPreset = {
+		id: 'task',
+		name: 'Task',
+		fields: [buildField({ key: 'status' })],
+		version: 3,
+		changelog: [
+			{ version: 2, createdAt: 1, operations: [{ type: 'rename-key', from: 'state', to: 'status' }] },
+			{ version: 3, createdAt: 2, operations: [{ type: 'remap-options', key: 'status', mapping: { todo: 'open' } }] },
+		],
+	};
+
+	it('applies only the changes newer than the recorded version and updates the record', () => {
+		const frontmatter = {
+			state: 'todo',
+			[NOTE_PROVENANCE_KEY]: { template: 'Templates/task.md', presets: ['task'], versions: { task: 1 } },
+		};
+
+		expect(getPendingPresetChanges(preset, 2)).toEqual([
+			{ type: 'remap-options', key: 'status', mapping: { todo: 'open' } },
+		]);
+		expect(migrateNoteFrontmatter(preset, frontmatter)).toEqual({
+			status: 'open',
+			[NOTE_PROVENANCE_KEY]: { template: 'Templates/task.md', presets: ['task'], versions: { task: 3 } },
+		});
+	});
+
+	it('leaves notes that do not record the preset untouched', () => {
+		const frontmatter = { state: 'todo' };
+
+		expect(migrateNoteFrontmatter(preset, frontmatter)).toBe(frontmatter);
+	});
+});
+
+describe('sanitizePresetChangelog', () => {
+	it('drops malformed entries and operations', () => {
+		expect(
+			sanitizePresetChangelog([
+				{ version: 2, createdAt: 5, operations: [{ type: 'delete-field', key: 'a' }, { type: 'unknown' }] },
+				{ version: 3, operations: [{ type: 'change-type', key: 'b', from: 'text', to: 'weird' }] },
+				'invalid',
+			]),
+		).toEqual([{ version: 2, createdAt: 5, operations: [{ type: 'delete-field', key: 'a' }] }]);
+	});
+});
@@ -0,0 +1,274 @@
+import type {
+	FrontmatterField,
+	FrontmatterFieldType,
+	FrontmatterPreset,
+	PresetChangeOperation,
+	PresetChangelogEntry,
+} from '@types';
+import { normalizeStringArray } from '@utils/data-transformer';
+import { parseBooleanValue, parseFiniteNumber, VALID_FIELD_TYPES } from '@utils/frontmatter/field';
+import { getPresetVersion, readNoteProvenance, withNoteProvenance } from '@utils/provenance';
+
+function hasOptions(field: FrontmatterField): boolean {
+	return field.type === 'select' || field.type === 'multi-select';
+}
+
+/**
+ * 按位置比较选项列表：同一位置的旧值被改写为新值时视为重命名
+ */
+function detectOptionMapping(before: string[], after: string[]): Record<string, string> {
+	const mapping: Record<string, string> = {};
+	const length = Math.min(before.length, after.length);
+	for (let index = 0; index < length; index++) {
+		const previous = before[index];
+		const next = after[index];
+		if (previous !== next && !after.includes(previous) && !before.includes(next)) {
+			mapping[previous] = next;
+		}
+	}
+	return mapping;
+}
+
+/**
+ * 比较字段配置保存前后的差异，生成结构变更
+ * @param before 保存前的字段
+ * @param after 保存后的字段
+ * @param originKeys 与 after 对齐的原始键名，新增字段为 undefined
+ */
+export function detectPresetChanges(
+	before: FrontmatterField[],
+	after: FrontmatterField[],
+	originKeys: Array<string | undefined>,
+): PresetChangeOperation[] {
+	const operations: PresetChangeOperation[] = [];
+
+	before.forEach((previous) => {
+		const index = originKeys.indexOf(previous.key);
+		const next = index >= 0 ? after[index] : undefined;
+		if (!next) {
+			operations.push({ type: 'delete-field', key: previous.key });
+			return;
+		}
+
+		const nextKey = next.key.trim();
+		if (nextKey !== previous.key) {
+			operations.push({ type: 'rename-key', from: previous.key, to: nextKey });
+		}
+		if (next.type !== previous.type) {
+			operations.push({ type: 'change-type', key: nextKey, from: previous.type, to: next.type });
+		}
+		if (hasOptions(previous) && hasOptions(next)) {
+			const mapping = detectOptionMapping(previous.options ?? [], next.options ?? []);
+			if (Object.keys(mapping).length > 0) {
+				operations.push({ type: 'remap-options', key: nextKey, mapping });
+			}
+		}
+	});
+
+	return operations;
+}
+
+/**
+ * 记录一次结构变更：版本号加一并追加变更记录，无变更时原样返回
+ */
+export function appendPresetChangelog(
+	preset: FrontmatterPreset,
+	operations: PresetChangeOperation[],
+	createdAt: number = Date.now(),
+): FrontmatterPreset {
+	if (operations.length === 0) {
+		return preset;
+	}
+	const version = getPresetVersion(preset) + 1;
+	return {
+		...preset,
+		version,
+		changelog: [...(preset.changelog ?? []), { version, createdAt, operations }],
+	};
+}
+
+/**
+ * 获取从指定版本升级到当前版本需要依次执行的变更
+ */
+export function getPendingPresetChanges(preset: FrontmatterPreset, fromVersion: number): PresetChangeOperation[] {
+	return (preset.changelog ?? [])
+		.filter((entry) => entry.version > fromVersion)
+		.sort((a, b) => a.version - b.version)
+		.reduce<PresetChangeOperation[]>((operations, entry) => operations.concat(entry.operations), []);
+}
+
+/**
+ * 按目标类型转换已有值，无法转换时保留原值
+ */
+function convertValue(value: unknown, to: FrontmatterFieldType): unknown {
+	switch (to) {
+		case 'multi-select':
+			return normalizeStringArray(Array.isArray(value) ? value : value === null || value === undefined ? [] : [String(value)]);
+		case 'number':
+			return parseFiniteNumber(value) ?? value;
+		case 'boolean':
+			return parseBooleanValue(value) ?? value;
+		case 'link':
+			return value;
+		default:
+			return Array.isArray(value) ? normalizeStringArray(value).join(', ') : value;
+	}
+}
+
+function remapValue(value: unknown, mapping: Record<string, string>): unknown {
+	if (Array.isArray(value)) {
+		return normalizeStringArray(value.map((item) => (typeof item === 'string' ? (mapping[item] ?? item) : item)));
+	}
+	return typeof value === 'string' ? (mapping[value] ?? value) : value;
+}
+
+/**
+ * 依次将结构变更应用到笔记 frontmatter。重命名时若新键已存在则保留新键的值。
+ */
+export function applyPresetChanges(
+	frontmatter: Record<string, unknown>,
+	operations: PresetChangeOperation[],
+): Record<string, unknown> {
+	const next = { ...frontmatter };
+	const has = (key: string) => Object.prototype.hasOwnProperty.call(next, key);
+
+	operations.forEach((operation) => {
+		switch (operation.type) {
+			case 'rename-key':
+				if (has(operation.from)) {
+					if (!has(operation.to)) {
+						next[operation.to] = next[operation.from];
+					}
+					delete next[operation.from];
+				}
+				break;
+			case 'change-type':
+				if (has(operation.key)) {
+					next[operation.key] = convertValue(next[operation.key], operation.to);
+				}
+				break;
+			case 'remap-options':
+				if (has(operation.key)) {
+					next[operation.key] = remapValue(next[operation.key], operation.mapping);
+				}
+				break;
+			case 'delete-field':
+				delete next[operation.key];
+				break;
+		}
+	});
+
+	return next;
+}
+
+/**
+ * 将笔记迁移到预设的当前版本并更新来源记录中的版本号。
+ * 未记录使用该预设、或已是最新版本的笔记原样返回。
+ */
+export function migrateNoteFrontmatter(
+	preset: FrontmatterPreset,
+	frontmatter: Record<string, unknown>,
+): Record<string, unknown> {
+	const provenance = readNoteProvenance(frontmatter);
+	if (!provenance?.presets.includes(preset.id)) {
+		return frontmatter;
+	}
+	const fromVersion = provenance.versions[preset.id] ?? 1;
+	const currentVersion = getPresetVersion(preset);
+	if (fromVersion >= currentVersion) {
+		return frontmatter;
+	}
+
+	const migrated = applyPresetChanges(frontmatter, getPendingPresetChanges(preset, fromVersion));
+	return withNoteProvenance(
+		migrated,
+		{ presets: [preset.id], versions: { [preset.id]: currentVersion } },
+		provenance,
+	);
+}
+
+/**
+ * 判断笔记是否记录了该预设的旧版本
+ */
+export function needsPresetMigration(preset: FrontmatterPreset, frontmatter: Record<string, unknown>): boolean {
+	const provenance = readNoteProvenance(frontmatter);
+	if (!provenance?.presets.includes(preset.id)) {
+		return false;
+	}
+	return (provenance.versions[preset.id] ?? 1) < getPresetVersion(preset);
+}
+
+/**
+ * 生成变更的说明文字
+ */
+export function describePresetChange(operation: PresetChangeOperation): string {
+	switch (operation.type) {
+		case 'rename-key':
+			return `字段 "${operation.from}" 重命名为 "${operation.to}"`;
+		case 'change-type':
+			return `字段 "${operation.key}" 的类型由 ${operation.from} 改为 ${operation.to}`;
+		case 'remap-options':
+			return `字段 "${operation.key}" 的选项改名：${Object.entries(operation.mapping)
+				.map(([from, to]) => `"${from}" → "${to}"`)
+				.join('、')}`;
+		case 'delete-field':
+			return `删除字段 "${operation.key}"`;
+	}
+}
+
+function sanitizeOperation(raw: unknown): PresetChangeOperation | null {
+	if (!raw || typeof raw !== 'object') {
+		return null;
+	}
+	const data = raw as Record<string, unknown>;
+	const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+	const isFieldType = (value: unknown): value is FrontmatterFieldType =>
+		VALID_FIELD_TYPES.includes(value as FrontmatterFieldType);
+
+	switch (data.type) {
+		case 'rename-key':
+			return text(data.from) && text(data.to) ? { type: 'rename-key', from: text(data.from), to: text(data.to) } : null;
+		case 'change-type':
+			return text(data.key) && isFieldType(data.from) && isFieldType(data.to)
+				? { type: 'change-type', key: text(data.key), from: data.from, to: data.to }
+				: null;
+		case 'remap-options': {
+			if (!text(data.key) || !data.mapping || typeof data.mapping !== 'object') {
+				return null;
+			}
+			const mapping: Record<string, string> = {};
+			Object.entries(data.mapping as Record<string, unknown>).forEach(([from, to]) => {
+				if (typeof to === 'string') {
+					mapping[from] = to;
+				}
+			});
+			return { type: 'remap-options', key: text(data.key), mapping };
+		}
+		case 'delete-field':
+			return text(data.key) ? { type: 'delete-field', key: text(data.key) } : null;
+		default:
+			return null;
+	}
+}
+
+/**
+ * 清理导入或加载的变更记录，丢弃格式无效的条目
+ */
+export function sanitizePresetChangelog(raw: unknown): PresetChangelogEntry[] {
+	if (!Array.isArray(raw)) {
+		return [];
+	}
+	return raw
+		.filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+		.map((entry) => ({
+			version: getPresetVersion({ version: Number(entry.version) }),
+			createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : 0,
+			operations: Array.isArray(entry.operations)
+				? entry.operations
+						.map(sanitizeOperation)
+						.filter((operation): operation is PresetChangeOperation => operation !== null)
+				: [],
+		}))
+		.filter((entry) => entry.version > 1 && entry.operations.length > 0)
+		.sort((a, b) => a.version - b.version);
+}
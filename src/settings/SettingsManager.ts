@@ -6,8 +6,12 @@ import type {
   FrontmatterField,
   FrontmatterFieldDefault,
   FrontmatterPreset,
+  PresetFileError,
 } from "@types";
 import { sanitizeFrontmatterFields } from "@utils/frontmatter/field";
+import { sanitizeFolderTemplateRules } from "@utils/folder-rules";
+import { notifyInfo, notifyWarning } from "@utils/notify";
+import { VaultPresetStore } from "./VaultPresetStore";
 
 export interface SaveSettingsOptions {
   onAfterSave?: () => void;
@@ -16,11 +20,19 @@ export interface SaveSettingsOptions {
 
 type PartialSettings = Partial<NoteArchitectSettings>;
 
+export type PresetStorageSettings = Pick<
+  NoteArchitectSettings,
+  "presetStorage" | "presetFolderPath" | "presetFileFormat"
+>;
+
 const MAX_RECENT_TEMPLATES = 5;
 
 export class SettingsManager {
   private readonly plugin: NoteArchitect;
   private settings: NoteArchitectSettings;
+  // 预设保存为库中文件时使用的存储，预设保存在插件设置中时为 null
+  private presetStore: VaultPresetStore | null = null;
+  private readonly presetsReloadedListeners = new Set<() => void>();
 
   constructor(plugin: NoteArchitect) {
     this.plugin = plugin;
@@ -43,9 +55,86 @@ export class SettingsManager {
       this.settings = { ...DEFAULT_SETTINGS };
     }
 
+    if (this.settings.presetStorage === "vault") {
+      await this.attachPresetStore();
+    }
+
     return this.settings;
   }
 
+  /**
+   * 停止监听预设文件
+   */
+  dispose(): void {
+    this.detachPresetStore();
+    this.presetsReloadedListeners.clear();
+  }
+
+  isUsingVaultPresetStore(): boolean {
+    return this.presetStore !== null;
+  }
+
+  /**
+   * 最近一次读取预设文件时解析失败的文件
+   */
+  getPresetFileErrors(): PresetFileError[] {
+    return this.presetStore?.getLoadErrors() ?? [];
+  }
+
+  /**
+   * 订阅预设文件被外部修改后的重新加载，返回取消订阅函数
+   */
+  onPresetsReloaded(listener: () => void): () => void {
+    this.presetsReloadedListeners.add(listener);
+    return () => {
+      this.presetsReloadedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 从预设文件夹重新读取预设，替换内存中的预设列表
+   */
+  async reloadPresetsFromStore(): Promise<void> {
+    if (!this.presetStore) {
+      return;
+    }
+
+    try {
+      const { presets, errors } = await this.presetStore.load();
+      this.settings.frontmatterPresets =
+        this.sanitizeFrontmatterPresets(presets);
+      if (errors.length > 0) {
+        notifyWarning(
+          `${errors.length} 个预设文件解析失败：${errors
+            .map((error) => error.path)
+            .join("、")}，详情见设置页。`
+        );
+      }
+      this.presetsReloadedListeners.forEach((listener) => listener());
+    } catch (error) {
+      handleError(error, {
+        context: "SettingsManager.reloadPresetsFromStore",
+        userMessage: "读取预设文件失败",
+      });
+    }
+  }
+
+  /**
+   * 切换预设存储位置。切换到库中文件时，当前的预设会一次性写入预设文件夹（已存在同 ID 文件的预设以文件为准）；
+   * 切换回插件设置时，当前的预设写回 data.json，预设文件保持不变。
+   */
+  async updatePresetStorage(
+    storage: PresetStorageSettings,
+    options?: SaveSettingsOptions
+  ): Promise<void> {
+    this.detachPresetStore();
+    this.settings = { ...this.settings, ...storage };
+    if (storage.presetStorage === "vault" && !(await this.attachPresetStore())) {
+      this.settings.presetStorage = "settings";
+    }
+    await this.save(this.settings, options);
+  }
+
   async save(
     settings: NoteArchitectSettings = this.settings,
     options: SaveSettingsOptions = {}
@@ -53,7 +142,10 @@ export class SettingsManager {
     this.settings = this.normalizeSettings(settings);
 
     try {
-      await this.plugin.saveData(this.settings);
+      if (this.presetStore) {
+        await this.presetStore.save(this.settings.frontmatterPresets);
+      }
+      await this.plugin.saveData(this.toPersistedData());
 
       options.onAfterSave?.();
       if (options.reloadTemplates) {
@@ -123,13 +215,20 @@ export class SettingsManager {
       throw new Error(`未找到 ID 为 "${presetId}" 的预设`);
     }
     this.settings.frontmatterPresets.splice(targetIndex, 1);
+    // 子预设不再继承已删除的预设
+    this.settings.frontmatterPresets.forEach((preset) => {
+      if (preset.extends?.includes(presetId)) {
+        preset.extends = preset.extends.filter((id) => id !== presetId);
+      }
+    });
     await this.save(this.settings, options);
   }
 
   async updatePresetFields(
     presetId: string,
     fields: FrontmatterField[],
-    options?: SaveSettingsOptions
+    options?: SaveSettingsOptions,
+    schema?: Pick<FrontmatterPreset, "version" | "changelog">
   ): Promise<void> {
     const preset = this.settings.frontmatterPresets.find(
       (item) => item.id === presetId
@@ -138,6 +237,29 @@ export class SettingsManager {
       throw new Error(`未找到 ID 为 "${presetId}" 的预设`);
     }
     preset.fields = sanitizeFrontmatterFields(fields);
+    if (schema) {
+      preset.version = schema.version;
+      preset.changelog = schema.changelog;
+    }
+    await this.save(this.settings, options);
+  }
+
+  async updatePresetExtends(
+    presetId: string,
+    parentIds: string[],
+    options?: SaveSettingsOptions
+  ): Promise<void> {
+    const preset = this.settings.frontmatterPresets.find(
+      (item) => item.id === presetId
+    );
+    if (!preset) {
+      throw new Error(`未找到 ID 为 "${presetId}" 的预设`);
+    }
+    if (parentIds.length > 0) {
+      preset.extends = [...parentIds];
+    } else {
+      delete preset.extends;
+    }
     await this.save(this.settings, options);
   }
 
@@ -176,6 +298,66 @@ export class SettingsManager {
     await this.save(this.settings, options);
   }
 
+  /**
+   * 启用预设文件存储：迁移 data.json 中遗留的预设，读取预设文件并开始监听
+   * @returns 是否成功启用
+   */
+  private async attachPresetStore(): Promise<boolean> {
+    const store = new VaultPresetStore(
+      this.plugin.app,
+      this.settings.presetFolderPath,
+      this.settings.presetFileFormat,
+      () => void this.reloadPresetsFromStore()
+    );
+
+    try {
+      const legacyPresets = this.settings.frontmatterPresets;
+      if (legacyPresets.length > 0) {
+        const { written, skipped } = await store.migrate(legacyPresets);
+        if (written.length > 0) {
+          notifyInfo(
+            `已将 ${written.length} 个预设迁移到 "${store.getFolderPath()}"。`
+          );
+        }
+        if (skipped.length > 0) {
+          notifyWarning(
+            `预设文件夹中已存在以下预设，保留文件中的版本：${skipped.join("、")}`
+          );
+        }
+      }
+
+      this.presetStore = store;
+      await this.reloadPresetsFromStore();
+      store.startWatching();
+
+      if (legacyPresets.length > 0) {
+        await this.plugin.saveData(this.toPersistedData());
+      }
+      return true;
+    } catch (error) {
+      this.detachPresetStore();
+      handleError(error, {
+        context: "SettingsManager.attachPresetStore",
+        userMessage: `无法使用预设文件夹 "${store.getFolderPath()}"，预设仍保存在插件设置中`,
+      });
+      return false;
+    }
+  }
+
+  private detachPresetStore(): void {
+    this.presetStore?.stopWatching();
+    this.presetStore = null;
+  }
+
+  /**
+   * 预设保存在库中文件时，data.json 不再保存预设
+   */
+  private toPersistedData(): NoteArchitectSettings {
+    return this.presetStore
+      ? { ...this.settings, frontmatterPresets: [] }
+      : this.settings;
+  }
+
   private migrateSettingsData(data: PartialSettings): PartialSettings {
     if (!data || typeof data !== "object") {
       return {};
@@ -220,9 +402,22 @@ export class SettingsManager {
       defaultDateFormat: this.normalizeDefaultDateFormat(
         migrated.defaultDateFormat
       ),
+      applyDefaultDateFormatToFields:
+        migrated.applyDefaultDateFormatToFields === true,
       frontmatterPresets: this.sanitizeFrontmatterPresets(
         migrated.frontmatterPresets
       ),
+      folderTemplateRules: sanitizeFolderTemplateRules(
+        migrated.folderTemplateRules
+      ),
+      presetStorage: migrated.presetStorage === "vault" ? "vault" : "settings",
+      presetFolderPath:
+        migrated.presetFolderPath?.trim().replace(/^\/+|\/+$/g, "") ||
+        DEFAULT_SETTINGS.presetFolderPath,
+      presetFileFormat: migrated.presetFileFormat === "json" ? "json" : "yaml",
+      operationHistoryLimit: this.normalizeHistoryLimit(
+        migrated.operationHistoryLimit
+      ),
     };
   }
 
@@ -251,6 +446,15 @@ export class SettingsManager {
     return normalizedPresets;
   }
 
+  private normalizeHistoryLimit(
+    value: PartialSettings["operationHistoryLimit"]
+  ): number {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return DEFAULT_SETTINGS.operationHistoryLimit;
+    }
+    return Math.floor(value);
+  }
+
   private normalizeDefaultDateFormat(
     value: PartialSettings["defaultDateFormat"]
   ): string {
@@ -0,0 +1,286 @@
+import {
+  type App,
+  type EventRef,
+  TAbstractFile,
+  TFile,
+  TFolder,
+} from "obsidian";
+import type {
+  FrontmatterPreset,
+  PresetFileError,
+  PresetFileFormat,
+} from "@types";
+import {
+  buildPresetFilePath,
+  getPresetFileFormat,
+  parsePresetFile,
+  stringifyPresetFile,
+} from "@presets/preset-file";
+import { normalizePath } from "@utils/path";
+import { ensureFolder, safeGetFolder } from "@utils/vault";
+import { debounce } from "@utils/timing";
+
+export interface PresetStoreLoadResult {
+  presets: FrontmatterPreset[];
+  errors: PresetFileError[];
+}
+
+export interface PresetStoreMigrationResult {
+  written: string[];
+  skipped: string[];
+}
+
+/**
+ * 将每个预设保存为库中预设文件夹下的一个 YAML / JSON 文件，并监听文件的外部修改。
+ */
+export class VaultPresetStore {
+  // 预设 ID -> 文件路径，仅包含成功读取或由本存储写入的文件
+  private pathById = new Map<string, string>();
+  // 预设 ID -> 最近一次读取或写入时的规范化内容，预设未变化时不改写文件，保留手写格式
+  private snapshotById = new Map<string, string>();
+  private errors: PresetFileError[] = [];
+  // 本存储刚写入的路径，对应的文件事件不视为外部修改
+  private readonly selfWrites = new Set<string>();
+  private watcherRefs: EventRef[] = [];
+  private isWatching = false;
+  private readonly debouncedReload: ReturnType<typeof debounce>;
+
+  constructor(
+    private readonly app: App,
+    private readonly folderPath: string,
+    private readonly format: PresetFileFormat,
+    onExternalChange: () => void
+  ) {
+    this.debouncedReload = debounce(onExternalChange, 300);
+  }
+
+  getFolderPath(): string {
+    return normalizePath(this.folderPath);
+  }
+
+  /**
+   * 最近一次读取时解析失败的文件
+   */
+  getLoadErrors(): PresetFileError[] {
+    return this.errors.map((error) => ({ ...error }));
+  }
+
+  /**
+   * 读取预设文件夹中的全部预设文件，逐个文件报告解析错误
+   */
+  async load(): Promise<PresetStoreLoadResult> {
+    const presets: FrontmatterPreset[] = [];
+    const errors: PresetFileError[] = [];
+    const pathById = new Map<string, string>();
+    const snapshotById = new Map<string, string>();
+
+    for (const file of this.collectPresetFiles()) {
+      const format = getPresetFileFormat(file.path);
+      if (!format) {
+        continue;
+      }
+      try {
+        const content = await this.app.vault.cachedRead(file);
+        const preset = parsePresetFile(content, format, file.basename);
+        const duplicatePath = pathById.get(preset.id);
+        if (duplicatePath) {
+          throw new Error(`预设 ID "${preset.id}" 与 ${duplicatePath} 重复`);
+        }
+        pathById.set(preset.id, file.path);
+        snapshotById.set(preset.id, stringifyPresetFile(preset, format));
+        presets.push(preset);
+      } catch (error) {
+        errors.push({
+          path: file.path,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    presets.sort((a, b) =>
+      a.name.localeCompare(b.name, "zh-CN", { sensitivity: "base" })
+    );
+    this.pathById = pathById;
+    this.snapshotById = snapshotById;
+    this.errors = errors;
+    return { presets, errors: this.getLoadErrors() };
+  }
+
+  /**
+   * 将预设写回文件：内容变化的文件被覆盖，新预设创建文件，已删除的预设对应的文件移入回收站。
+   * 解析失败的文件不会被改写或删除。
+   */
+  async save(presets: FrontmatterPreset[]): Promise<void> {
+    await ensureFolder(this.app, this.getFolderPath());
+    const nextPathById = new Map<string, string>();
+    const nextSnapshotById = new Map<string, string>();
+
+    for (const preset of presets) {
+      const path =
+        this.pathById.get(preset.id) ??
+        this.buildNewPresetFilePath(preset.id, nextPathById);
+      const format = getPresetFileFormat(path) ?? this.format;
+      const content = stringifyPresetFile(preset, format);
+      const unchanged =
+        this.snapshotById.get(preset.id) === content &&
+        this.app.vault.getAbstractFileByPath(path) instanceof TFile;
+      if (!unchanged) {
+        await this.writeFile(path, content);
+      }
+      nextPathById.set(preset.id, path);
+      nextSnapshotById.set(preset.id, content);
+    }
+
+    for (const [id, path] of this.pathById) {
+      if (nextPathById.has(id)) {
+        continue;
+      }
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        this.selfWrites.add(file.path);
+        await this.app.fileManager.trashFile(file);
+      }
+    }
+    this.pathById = nextPathById;
+    this.snapshotById = nextSnapshotById;
+  }
+
+  /**
+   * 为新预设选择文件路径，避开解析失败的文件、其他预设的文件与库中已有的文件
+   */
+  private buildNewPresetFilePath(
+    presetId: string,
+    claimedPaths: Map<string, string>
+  ): string {
+    const unparseablePaths = new Set(
+      this.errors.map((error) => normalizePath(error.path))
+    );
+    const ownedPaths = new Set([
+      ...this.pathById.values(),
+      ...claimedPaths.values(),
+    ]);
+    return buildPresetFilePath(
+      this.getFolderPath(),
+      presetId,
+      this.format,
+      (path) =>
+        unparseablePaths.has(path) ||
+        ownedPaths.has(path) ||
+        this.app.vault.getAbstractFileByPath(path) !== null
+    );
+  }
+
+  /**
+   * 一次性迁移：把插件设置中的预设写成文件，文件夹中已存在同 ID 的预设时跳过
+   */
+  async migrate(
+    presets: FrontmatterPreset[]
+  ): Promise<PresetStoreMigrationResult> {
+    await this.load();
+    await ensureFolder(this.app, this.getFolderPath());
+    const written: string[] = [];
+    const skipped: string[] = [];
+
+    for (const preset of presets) {
+      const path = buildPresetFilePath(
+        this.getFolderPath(),
+        preset.id,
+        this.format
+      );
+      if (
+        this.pathById.has(preset.id) ||
+        this.app.vault.getAbstractFileByPath(path)
+      ) {
+        skipped.push(preset.id);
+        continue;
+      }
+      this.selfWrites.add(path);
+      const content = stringifyPresetFile(preset, this.format);
+      await this.app.vault.create(path, content);
+      this.pathById.set(preset.id, path);
+      this.snapshotById.set(preset.id, content);
+      written.push(preset.id);
+    }
+
+    return { written, skipped };
+  }
+
+  startWatching(): void {
+    if (this.isWatching) {
+      return;
+    }
+
+    const vault = this.app.vault;
+    this.watcherRefs = [
+      vault.on("create", this.handleVaultChange),
+      vault.on("modify", this.handleVaultChange),
+      vault.on("delete", this.handleVaultChange),
+      vault.on("rename", this.handleVaultRename),
+    ];
+    this.isWatching = true;
+  }
+
+  stopWatching(): void {
+    this.debouncedReload.cancel();
+    for (const ref of this.watcherRefs) {
+      this.app.vault.offref(ref);
+    }
+    this.watcherRefs = [];
+    this.isWatching = false;
+  }
+
+  private handleVaultChange = (file: TAbstractFile): void => {
+    if (file && this.selfWrites.delete(file.path)) {
+      return;
+    }
+    if (this.shouldHandlePath(file?.path)) {
+      this.debouncedReload();
+    }
+  };
+
+  private handleVaultRename = (file: TAbstractFile, oldPath: string): void => {
+    if (this.shouldHandlePath(file?.path) || this.shouldHandlePath(oldPath)) {
+      this.debouncedReload();
+    }
+  };
+
+  private shouldHandlePath(path?: string): boolean {
+    const folderPath = this.getFolderPath();
+    if (!folderPath || !path) {
+      return false;
+    }
+    const normalized = normalizePath(path);
+    return (
+      normalized === folderPath || normalized.startsWith(`${folderPath}/`)
+    );
+  }
+
+  private async writeFile(path: string, content: string): Promise<void> {
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    this.selfWrites.add(path);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+      return;
+    }
+    await this.app.vault.create(path, content);
+  }
+
+  private collectPresetFiles(): TFile[] {
+    const folderResult = safeGetFolder(this.app, this.getFolderPath());
+    if (!folderResult) {
+      return [];
+    }
+
+    const stack: TAbstractFile[] = [...folderResult.folder.children];
+    const files: TFile[] = [];
+    while (stack.length > 0) {
+      const current = stack.pop();
+      if (current instanceof TFolder) {
+        stack.push(...current.children);
+      } else if (current instanceof TFile && getPresetFileFormat(current.path)) {
+        files.push(current);
+      }
+    }
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+  }
+}
@@ -13,6 +13,9 @@ import { notifyError, notifySuccess, notifyWarning } from "@utils/notify";
 import { normalizePath } from "@utils/path";
 import { safeGetFolder } from "@utils/vault";
 import { debounce } from "@utils/timing";
+import { expandPartials, type PartialExpansionResult } from "@engine/partials";
+
+export type TemplatesChangedListener = (changedTemplateIds: string[]) => void;
 
 /**
  * 模板管理器负责处理模板文件的加载、缓存与检索，保持插件主类的单一职责。
@@ -31,6 +34,9 @@ export class TemplateManager {
   private isWatching = false;
   // 并发控制：跟踪当前有效的加载操作ID
   private currentLoadingId = 0;
+  // 片段路径 -> 直接或间接引用它的模板 ID
+  private partialDependents = new Map<string, Set<string>>();
+  private readonly changeListeners = new Set<TemplatesChangedListener>();
 
   constructor(
     private readonly app: App,
@@ -158,6 +164,8 @@ export class TemplateManager {
         a.name.localeCompare(b.name, "zh-CN", { sensitivity: "base" })
       );
       this.templates = loadedTemplates;
+      this.rebuildPartialDependencies();
+      this.notifyTemplatesChanged(loadedTemplates.map((template) => template.id));
 
       if (this.templates.length === 0) {
         this.loadResult = {
@@ -251,6 +259,40 @@ export class TemplateManager {
     return { ...this.loadResult };
   }
 
+  /**
+   * 展开模板中的 {{> path}} 片段引用，片段路径相对于模板文件夹。
+   */
+  expandTemplate(template: Template): PartialExpansionResult {
+    return expandPartials(
+      template,
+      (path) => this.getTemplateById(path),
+      this.watchedFolderPath ??
+        this.settingsManager.getSettings().templateFolderPath ??
+        ""
+    );
+  }
+
+  /**
+   * 获取直接或间接引用指定片段的模板。
+   */
+  getDependentTemplates(partialPath: string): Template[] {
+    const dependentIds = this.partialDependents.get(normalizePath(partialPath));
+    if (!dependentIds) {
+      return [];
+    }
+    return this.templates.filter((template) => dependentIds.has(template.id));
+  }
+
+  /**
+   * 订阅模板内容变化（包括因片段修改而受影响的模板），返回取消订阅函数。
+   */
+  onTemplatesChanged(listener: TemplatesChangedListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
   startWatching(): void {
     if (this.isWatching) {
       return;
@@ -259,7 +301,7 @@ export class TemplateManager {
     const vault = this.app.vault;
     this.watcherRefs = [
       vault.on("create", this.handleVaultChange),
-      vault.on("modify", this.handleVaultChange),
+      vault.on("modify", this.handleVaultModify),
       vault.on("delete", this.handleVaultChange),
       vault.on("rename", this.handleVaultRename),
     ];
@@ -279,6 +321,7 @@ export class TemplateManager {
 
   dispose(): void {
     this.stopWatching();
+    this.changeListeners.clear();
   }
 
   private handleVaultChange = (file: TAbstractFile): void => {
@@ -288,6 +331,18 @@ export class TemplateManager {
     this.scheduleReload();
   };
 
+  private handleVaultModify = (file: TAbstractFile): void => {
+    if (!this.shouldHandlePath(file?.path)) {
+      return;
+    }
+    // 已加载的模板只需重新读取自身，并通知引用它的模板
+    if (file instanceof TFile && this.getTemplateById(file.path)) {
+      void this.refreshTemplate(file);
+      return;
+    }
+    this.scheduleReload();
+  };
+
   private handleVaultRename = (file: TAbstractFile, oldPath: string): void => {
     // [神谕]: 检查被重命名的路径是否就是我们正在监视的文件夹
     const normalizedOldPath = normalizePath(oldPath);
@@ -328,6 +383,57 @@ export class TemplateManager {
   private scheduleReload(): void {
     this.debouncedReload();
   }
+
+  /**
+   * 重新读取单个模板文件，并刷新依赖它的模板。
+   */
+  private async refreshTemplate(file: TFile): Promise<void> {
+    try {
+      const content = await this.app.vault.read(file);
+      const index = this.templates.findIndex(
+        (template) => template.id === file.path
+      );
+      if (index === -1) {
+        this.scheduleReload();
+        return;
+      }
+
+      this.templates[index] = { ...this.templates[index], content };
+      this.rebuildPartialDependencies();
+      this.notifyTemplatesChanged([
+        file.path,
+        ...this.getDependentTemplates(file.path).map((template) => template.id),
+      ]);
+    } catch (error) {
+      console.warn(`Note Architect: 无法读取模板文件 ${file.path}`, error);
+      this.scheduleReload();
+    }
+  }
+
+  /**
+   * 根据当前模板内容重建片段依赖关系。
+   */
+  private rebuildPartialDependencies(): void {
+    const dependents = new Map<string, Set<string>>();
+    for (const template of this.templates) {
+      for (const partialPath of this.expandTemplate(template).includedPaths) {
+        const ids = dependents.get(partialPath) ?? new Set<string>();
+        ids.add(template.id);
+        dependents.set(partialPath, ids);
+      }
+    }
+    this.partialDependents = dependents;
+  }
+
+  private notifyTemplatesChanged(changedTemplateIds: string[]): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(changedTemplateIds);
+      } catch (error) {
+        handleError(error, { context: "TemplateManager.notifyTemplatesChanged" });
+      }
+    }
+  }
 }
 
 export default TemplateManager;
@@ -0,0 +1,69 @@
+import type { FieldMergeStrategy, FrontmatterPreset } from './settings';
+
+export type FrontmatterUpdateMode = 'merge' | 'overwrite';
+
+/** 批量应用时选择笔记的方式 */
+export type BatchTargetSource = 'folder' | 'tag' | 'search' | 'selection';
+
+export interface FrontmatterDiffEntry {
+	key: string;
+	kind: 'added' | 'removed' | 'changed';
+	before?: unknown;
+	after?: unknown;
+}
+
+export type BatchFileStatus = 'changed' | 'unchanged' | 'failed';
+
+/** 单个文件的试运行结果 */
+export interface BatchFilePlan {
+	path: string;
+	status: BatchFileStatus;
+	diff: FrontmatterDiffEntry[];
+	error?: string;
+}
+
+export interface BatchPlanSummary {
+	changed: number;
+	unchanged: number;
+	failed: number;
+}
+
+/** 批量表单提交的数据：所有笔记共用同一份输入 */
+export interface BatchFormSubmission {
+	preset: FrontmatterPreset;
+	userFrontmatter: Record<string, unknown>;
+	updateMode: FrontmatterUpdateMode;
+	/** 合并模式下各字段的合并方式 */
+	mergeStrategies: Record<string, FieldMergeStrategy>;
+}
+
+export interface BatchJournalEntry {
+	path: string;
+	/** 写入前的完整内容 */
+	before: string;
+	/** 写入后的完整内容，撤销时用于判断文件是否已被再次修改 */
+	after: string;
+	/** 文件由该操作新建，撤销时移到回收站而不是还原内容 */
+	created?: boolean;
+}
+
+/** 一次批量写入的记录，用于整体撤销 */
+export interface BatchUpdateJournal {
+	presetName: string;
+	updateMode: FrontmatterUpdateMode;
+	createdAt: number;
+	entries: BatchJournalEntry[];
+}
+
+export interface BatchApplyResult {
+	summary: BatchPlanSummary;
+	plans: BatchFilePlan[];
+	journal: BatchUpdateJournal;
+}
+
+export interface BatchRevertResult {
+	reverted: number;
+	/** 写入后又被修改、因此未还原的文件 */
+	skipped: string[];
+	failed: string[];
+}
@@ -0,0 +1,29 @@
+import type { FrontmatterPreset } from './settings';
+
+export type ComplianceViolationKind =
+	| 'missing-required'
+	| 'invalid-option'
+	| 'invalid-date'
+	| 'invalid-value'
+	| 'unknown-key';
+
+/** 违规的修复方式：写入新值或删除字段 */
+export type ComplianceFix = { type: 'set'; value: unknown } | { type: 'remove' };
+
+export interface ComplianceViolation {
+	key: string;
+	kind: ComplianceViolationKind;
+	message: string;
+	/** 无法自动修复时为 null（如必填字段没有默认值） */
+	fix: ComplianceFix | null;
+}
+
+/** 笔记对应预设的来源 */
+export type CompliancePresetSource = 'folder-rule' | 'recorded' | 'manual';
+
+export interface NoteComplianceReport {
+	path: string;
+	preset: FrontmatterPreset;
+	source: CompliancePresetSource;
+	violations: ComplianceViolation[];
+}
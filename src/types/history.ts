@@ -0,0 +1,26 @@
+import type { BatchJournalEntry } from './batch';
+
+export type OperationType =
+	| 'insert-template'
+	| 'update-frontmatter'
+	| 'batch-apply'
+	| 'bind-preset'
+	| 'clear-preset-binding'
+	| 'compliance-fix'
+	| 'apply-folder-rule'
+	| 'create-note';
+
+/** 一次写入操作的记录，保存每个受影响文件写入前后的完整内容 */
+export interface OperationRecord {
+	id: string;
+	type: OperationType;
+	/** 在历史记录中显示的说明 */
+	description: string;
+	createdAt: number;
+	entries: BatchJournalEntry[];
+}
+
+export interface RevertOptions {
+	/** 文件在写入后又被修改时仍然还原 */
+	force?: boolean;
+}
@@ -3,3 +3,9 @@ export * from "./settings";
 export * from "./templates";
 export * from "./template-engine";
 export * from "./obsidian";
+export * from "./batch";
+export * from "./compliance";
+export * from "./provenance";
+export * from "./preset-schema";
+export * from "./preset-inference";
+export * from "./history";
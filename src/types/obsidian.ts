@@ -1,4 +1,4 @@
-import type { App, Plugin } from 'obsidian';
+import type { App, Plugin, TFile, View } from 'obsidian';
 
 export interface AppWithSettings extends App {
 	setting: {
@@ -13,3 +13,12 @@ export interface TemplaterPlugin extends Plugin {
 		parse_template(config: unknown, template_content: string): Promise<string>;
 	};
 }
+
+/**
+ * 搜索视图的内部结构（非公开 API），用于读取当前搜索结果
+ */
+export interface SearchViewWithResults extends View {
+	dom?: {
+		resultDomLookup?: Map<TFile, unknown>;
+	};
+}
@@ -0,0 +1,32 @@
+import type { FrontmatterField } from './settings';
+
+/**
+ * 从笔记中推断出的字段建议
+ */
+export interface InferredFieldProposal {
+	key: string;
+	/** 含有该键的笔记数 */
+	count: number;
+	/** 出现频率（0-1） */
+	frequency: number;
+	/** 去重后的示例值 */
+	samples: string[];
+	/** 全部去重后的单个取值（列表值展开），按出现次数降序 */
+	values: string[];
+	field: FrontmatterField;
+}
+
+export interface PresetInferenceOptions {
+	/** 低于该出现频率的键不生成建议，默认 0.3 */
+	minFrequency?: number;
+	/** 不同取值不超过该数量时推断为单选，默认 8 */
+	maxSelectOptions?: number;
+	/** 每个字段保留的示例值数量，默认 5 */
+	sampleSize?: number;
+}
+
+export interface PresetInferenceResult {
+	/** 参与推断的笔记数 */
+	total: number;
+	proposals: InferredFieldProposal[];
+}
@@ -0,0 +1,23 @@
+import type { BatchFilePlan, BatchJournalEntry, BatchPlanSummary } from './batch';
+import type { FrontmatterFieldType } from './settings';
+
+/** 预设字段的结构变更，用于把旧版本笔记迁移到新版本 */
+export type PresetChangeOperation =
+	| { type: 'rename-key'; from: string; to: string }
+	| { type: 'change-type'; key: string; from: FrontmatterFieldType; to: FrontmatterFieldType }
+	| { type: 'remap-options'; key: string; mapping: Record<string, string> }
+	| { type: 'delete-field'; key: string };
+
+/** 一次保存产生的变更，version 为应用这些变更后的预设版本 */
+export interface PresetChangelogEntry {
+	version: number;
+	createdAt: number;
+	operations: PresetChangeOperation[];
+}
+
+/** 一次笔记迁移的结果，entries 用于回滚 */
+export interface PresetMigrationResult {
+	summary: BatchPlanSummary;
+	plans: BatchFilePlan[];
+	entries: BatchJournalEntry[];
+}
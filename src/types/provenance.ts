@@ -0,0 +1,16 @@
+/**
+ * 笔记来源记录：生成或更新笔记时使用的模板与预设
+ */
+export interface NoteProvenance {
+	/** 模板路径，仅更新 frontmatter 时为空 */
+	template?: string;
+	presets: string[];
+	/** 预设 ID -> 写入时的预设版本 */
+	versions: Record<string, number>;
+}
+
+/** 按模板或预设查询来源记录 */
+export interface NoteProvenanceQuery {
+	templatePath?: string;
+	presetId?: string;
+}
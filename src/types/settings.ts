@@ -1,5 +1,58 @@
-export type FrontmatterFieldType = "text" | "select" | "date" | "multi-select";
-export type FrontmatterFieldDefault = string | string[];
+import type { PresetChangelogEntry } from "./preset-schema";
+
+export type FrontmatterFieldType =
+  | "text"
+  | "select"
+  | "date"
+  | "datetime"
+  | "time"
+  | "multi-select"
+  | "number"
+  | "boolean"
+  | "link";
+export type FrontmatterFieldDefault = string | string[] | number | boolean;
+
+export type FieldOptionSourceType = "property-values" | "folder" | "tag";
+
+/**
+ * 选项来源：在打开表单时从库中动态生成选项
+ */
+export interface FieldOptionSource {
+  type: FieldOptionSourceType;
+  folder?: string;
+  tag?: string;
+}
+
+export type FieldVisibilityOperator =
+  | "equals"
+  | "not-equals"
+  | "includes"
+  | "is-empty"
+  | "is-not-empty";
+
+/**
+ * 字段显示条件：根据另一个字段的当前值决定是否显示
+ */
+export interface FieldVisibilityRule {
+  field: string;
+  operator: FieldVisibilityOperator;
+  value?: string;
+}
+
+/**
+ * 字段写入已有 frontmatter 时的合并方式
+ * - overwrite：新值覆盖旧值
+ * - keep-existing：已有该键时保留旧值
+ * - append-unique：列表合并去重，新值排在后面
+ * - prepend：列表合并去重，新值排在前面
+ * - fill-if-empty：旧值为空时才写入
+ */
+export type FieldMergeStrategy =
+  | "overwrite"
+  | "keep-existing"
+  | "append-unique"
+  | "prepend"
+  | "fill-if-empty";
 
 export interface FrontmatterField {
   key: string;
@@ -7,8 +60,36 @@ export interface FrontmatterField {
   label: string;
   default: FrontmatterFieldDefault;
   options?: string[];
+  // 动态选项来源（仅 select/multi-select），与静态 options 合并展示
+  optionSource?: FieldOptionSource;
+  // 级联选项：按父字段（dependsOn）的取值提供不同的选项列表
+  dependsOn?: string;
+  optionsByParent?: Record<string, string[]>;
   useTemplaterTimestamp?: boolean;
+  // 日期/时间字段写入时的格式（moment 语法），未设置时按字段类型使用默认格式
+  dateFormat?: string;
   description?: string;
+  // 显示条件（全部满足时显示）
+  showIf?: FieldVisibilityRule[];
+  // 表单校验规则
+  required?: boolean;
+  pattern?: string;
+  patternMessage?: string;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  // 数值字段约束（仅 type 为 number 时生效）
+  min?: number;
+  max?: number;
+  step?: number;
+  integerOnly?: boolean;
+  // 链接字段配置（仅 type 为 link 时生效）
+  linkFolder?: string;
+  linkTag?: string;
+  multiple?: boolean;
+  // 合并到已有 frontmatter 时的方式，未设置时 tags 合并去重、其余覆盖
+  mergeStrategy?: FieldMergeStrategy;
 }
 
 export interface FrontmatterPreset {
@@ -16,22 +97,71 @@ export interface FrontmatterPreset {
   name: string;
   fields: FrontmatterField[];
   description?: string;
+  // 预设版本，未设置时视为 1；每次保存产生字段结构变更时递增
+  version?: number;
+  // 字段结构变更记录，按版本升序
+  changelog?: PresetChangelogEntry[];
+  // 继承的父预设 ID，按顺序合并父预设字段，自身字段按键名覆盖
+  extends?: string[];
 }
 
 // 未绑定预设时的行为策略
 export type NoPresetBehavior = "ask" | "use-default" | "do-nothing";
 
+// 文件夹规则的应用方式：打开表单或静默使用默认值
+export type FolderRuleMode = "form" | "silent";
+
+/**
+ * 文件夹规则：在匹配的文件夹中新建笔记时自动应用模板
+ */
+export interface FolderTemplateRule {
+  id: string;
+  // 文件夹 glob，如 "Meetings"、"People/**"、"Projects/*/Notes"
+  folder: string;
+  templatePath: string;
+  // 为空时使用模板绑定的预设
+  presetIds: string[];
+  mode: FolderRuleMode;
+  enabled: boolean;
+}
+
+// 预设的存储位置：插件设置（data.json）或库中的文件
+export type PresetStorageMode = "settings" | "vault";
+
+// 预设文件格式
+export type PresetFileFormat = "yaml" | "json";
+
+/**
+ * 预设文件读取失败的记录
+ */
+export interface PresetFileError {
+  path: string;
+  message: string;
+}
+
 export interface NoteArchitectSettings {
   templateFolderPath: string;
   enableTemplaterIntegration: boolean;
   frontmatterPresets: FrontmatterPreset[];
   defaultDateFormat: string;
+  // 未设置写入格式的日期字段是否使用 defaultDateFormat（默认关闭，按字段类型使用默认格式）
+  applyDefaultDateFormatToFields: boolean;
   recentlyUsedTemplates: string[];
   // 未绑定预设时的行为策略
   noPresetBehavior: NoPresetBehavior;
   // 默认预设 ID (当 noPresetBehavior 为 'use-default' 时使用)
   defaultPresetId: string;
   lastUsedPresetForUpdate?: string;
+  // 文件夹规则（按顺序匹配，首个命中的规则生效）
+  folderTemplateRules: FolderTemplateRule[];
+  // 在笔记中记录生成它的模板与预设（默认关闭）
+  recordNoteProvenance: boolean;
+  // 预设存储位置，选择 vault 时每个预设保存为预设文件夹中的一个文件
+  presetStorage: PresetStorageMode;
+  presetFolderPath: string;
+  presetFileFormat: PresetFileFormat;
+  // 操作历史最多保留的条数，0 表示不记录
+  operationHistoryLimit: number;
 }
 
 export const DEFAULT_SETTINGS: NoteArchitectSettings = {
@@ -39,8 +169,15 @@ export const DEFAULT_SETTINGS: NoteArchitectSettings = {
   enableTemplaterIntegration: true,
   frontmatterPresets: [],
   defaultDateFormat: "YYYYMMDDHHmmss",
+  applyDefaultDateFormatToFields: false,
   recentlyUsedTemplates: [],
   noPresetBehavior: "ask", // 保持向后兼容，默认为询问
   defaultPresetId: "",
   lastUsedPresetForUpdate: undefined,
+  folderTemplateRules: [],
+  recordNoteProvenance: false,
+  presetStorage: "settings",
+  presetFolderPath: "Presets",
+  presetFileFormat: "yaml",
+  operationHistoryLimit: 50,
 };
@@ -1,14 +1,30 @@
+import type { NoteProvenance } from "./provenance";
 import type { NoteMetadata } from "./shared";
 
 export interface TemplateProcessingResult {
 	content: string;
 	usedTemplater: boolean;
 	error?: string;
+	/** 无法展开的片段引用说明 */
+	partialErrors: string[];
+	/** 将处理后内容的行号换算为原模板文件中的行号 */
+	sourceLineAt: (line: number) => number;
 }
 
 export interface ParsedTemplateContent {
 	frontmatter: Record<string, unknown>;
 	body: string;
+	/** body 第一行之前的行数（frontmatter 与被裁剪的空行） */
+	bodyLineOffset: number;
+}
+
+export interface TemplatePreparationOptions {
+	/** {{title}} 占位符使用的标题，默认取当前活动文件名 */
+	title?: string;
+	/** 是否合并当前活动笔记的 frontmatter，默认为 true */
+	includeNoteFrontmatter?: boolean;
+	/** 写入合并结果的来源记录，为空时不记录 */
+	provenance?: NoteProvenance | null;
 }
 
 export interface TemplatePreparationResult {
@@ -19,6 +35,10 @@ export interface TemplatePreparationResult {
 	hasTemplateBody: boolean;
 	noteMetadata: NoteMetadata;
 	mergeCount: number;
+	/** 无法识别的 {{...}} 占位符，保留原文 */
+	unknownPlaceholders: string[];
+	/** 无法展开的片段引用说明 */
+	partialErrors: string[];
 }
 
 export interface TemplateInsertionResult {
@@ -29,4 +49,22 @@ export interface TemplateInsertionResult {
 	frontmatterUpdated: boolean;
 	templateBodyInserted: boolean;
 	fallbackToBodyOnly: boolean;
+	/** 无法识别的 {{...}} 占位符，保留原文 */
+	unknownPlaceholders: string[];
+	/** 无法展开的片段引用说明 */
+	partialErrors: string[];
+}
+
+export interface NoteCreationResult {
+	/** 新建笔记的路径 */
+	path: string;
+	usedTemplater: boolean;
+	templaterError?: string;
+	mergedFrontmatter: Record<string, unknown>;
+	/** 目标路径已存在，文件名追加了序号 */
+	renamedForCollision: boolean;
+	/** 无法识别的 {{...}} 占位符，保留原文 */
+	unknownPlaceholders: string[];
+	/** 无法展开的片段引用说明 */
+	partialErrors: string[];
 }
@@ -0,0 +1,186 @@
+import { App, ButtonComponent, Modal, Setting, TFile } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import type { BatchTargetSource } from "@types";
+import {
+  collectBatchTargets,
+  filterBatchTargets,
+} from "@actions/batch-apply-preset";
+import { notifyWarning } from "@utils/notify";
+import { FrontmatterManagerModal } from "./frontmatter-manager-modal";
+import { BatchPreviewModal } from "./batch-preview-modal";
+
+export interface BatchApplyModalOptions {
+  /** 文件列表中选中的笔记 */
+  files?: TFile[];
+  /** 预先填写的文件夹（从文件夹右键菜单打开时） */
+  folder?: string;
+}
+
+const SOURCE_LABELS: Record<BatchTargetSource, string> = {
+  selection: "文件列表中选中的笔记",
+  folder: "文件夹",
+  tag: "标签",
+  search: "当前搜索结果",
+};
+
+/**
+ * 批量应用预设的第一步：选择要处理的笔记
+ */
+export class BatchApplyModal extends Modal {
+  private readonly plugin: NoteArchitect;
+  private readonly selectedFiles: TFile[];
+  private source: BatchTargetSource;
+  private folder: string;
+  private tag = "";
+  private queryContainerEl?: HTMLElement;
+  private countEl?: HTMLElement;
+  private nextButton?: ButtonComponent;
+
+  constructor(app: App, plugin: NoteArchitect, options: BatchApplyModalOptions = {}) {
+    super(app);
+    this.plugin = plugin;
+    this.selectedFiles = options.files ?? [];
+    this.folder = options.folder ?? "";
+    this.source = this.selectedFiles.length > 0 ? "selection" : "folder";
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("批量应用预设");
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl("p", {
+      cls: "setting-item-description",
+      text: "选择要更新的笔记，下一步将选择预设并填写共享的字段值，写入前会先预览每篇笔记的变更。",
+    });
+
+    new Setting(contentEl).setName("选择笔记").addDropdown((dropdown) => {
+      const sources: BatchTargetSource[] =
+        this.selectedFiles.length > 0
+          ? ["selection", "folder", "tag", "search"]
+          : ["folder", "tag", "search"];
+      sources.forEach((source) => dropdown.addOption(source, SOURCE_LABELS[source]));
+      dropdown.setValue(this.source).onChange((value) => {
+        this.source = value as BatchTargetSource;
+        this.renderQueryInput();
+        this.updateCount();
+      });
+    });
+
+    this.queryContainerEl = contentEl.createDiv();
+    this.countEl = contentEl.createEl("p", {
+      cls: "setting-item-description note-architect-batch-count",
+    });
+
+    const actions = contentEl.createDiv("modal-button-container");
+    new ButtonComponent(actions)
+      .setButtonText("取消")
+      .onClick(() => this.close());
+    this.nextButton = new ButtonComponent(actions)
+      .setButtonText("下一步")
+      .setCta()
+      .onClick(() => this.handleNext());
+
+    this.renderQueryInput();
+    this.updateCount();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private renderQueryInput(): void {
+    const container = this.queryContainerEl;
+    if (!container) {
+      return;
+    }
+    container.empty();
+
+    if (this.source === "folder") {
+      new Setting(container)
+        .setName("文件夹")
+        .setDesc("包含子文件夹中的笔记")
+        .addText((text) =>
+          text
+            .setPlaceholder("例如：Meetings")
+            .setValue(this.folder)
+            .onChange((value) => {
+              this.folder = value.trim().replace(/^\/+|\/+$/g, "");
+              this.updateCount();
+            })
+        );
+    } else if (this.source === "tag") {
+      new Setting(container)
+        .setName("标签")
+        .setDesc("包含嵌套子标签")
+        .addText((text) =>
+          text
+            .setPlaceholder("例如：project")
+            .setValue(this.tag)
+            .onChange((value) => {
+              this.tag = value.trim();
+              this.updateCount();
+            })
+        );
+    } else if (this.source === "search") {
+      container.createEl("p", {
+        cls: "setting-item-description",
+        text: "将使用搜索面板中当前显示的结果，请先在搜索面板中完成搜索。",
+      });
+    }
+  }
+
+  private resolveFiles(): TFile[] {
+    const templateFolder = this.plugin.settings.templateFolderPath ?? "";
+    switch (this.source) {
+      case "selection":
+        return filterBatchTargets(this.selectedFiles, templateFolder);
+      case "folder":
+        return this.folder
+          ? collectBatchTargets(
+              this.app,
+              { type: "folder", folder: this.folder },
+              templateFolder
+            )
+          : [];
+      case "tag":
+        return collectBatchTargets(
+          this.app,
+          { type: "tag", tag: this.tag },
+          templateFolder
+        );
+      case "search":
+        return collectBatchTargets(this.app, { type: "search" }, templateFolder);
+      default:
+        return [];
+    }
+  }
+
+  private updateCount(): void {
+    const count = this.resolveFiles().length;
+    this.countEl?.setText(`匹配 ${count} 篇笔记（模板文件夹中的文件不计入）`);
+    this.nextButton?.setDisabled(count === 0);
+  }
+
+  private handleNext(): void {
+    const files = this.resolveFiles();
+    if (files.length === 0) {
+      notifyWarning("没有匹配的笔记。");
+      return;
+    }
+    const presets = this.plugin.presetManager.getPresets();
+    if (presets.length === 0) {
+      notifyWarning("请先创建至少一个 frontmatter 预设。");
+      return;
+    }
+
+    this.close();
+    FrontmatterManagerModal.forBatchUpdate(this.app, this.plugin, {
+      presets,
+      fileCount: files.length,
+      onSubmit: (submission) => {
+        new BatchPreviewModal(this.app, this.plugin, files, submission).open();
+      },
+    }).open();
+  }
+}
@@ -0,0 +1,255 @@
+import { App, ButtonComponent, Modal, TFile } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import type {
+  BatchFilePlan,
+  BatchFormSubmission,
+  BatchPlanSummary,
+  FrontmatterDiffEntry,
+} from "@types";
+import {
+  applyBatchUpdate,
+  previewBatchUpdate,
+} from "@actions/batch-apply-preset";
+import { handleError } from "@core/error";
+import { summarizeBatchPlans } from "@utils/frontmatter/batch";
+import { notifySuccess, notifyWarning } from "@utils/notify";
+
+const DIFF_MARKERS: Record<FrontmatterDiffEntry["kind"], string> = {
+  added: "+",
+  removed: "-",
+  changed: "~",
+};
+
+function formatDiffValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    return "（空）";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatDiffValue).join(", ")}]`;
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function describeDiffEntry(entry: FrontmatterDiffEntry): string {
+  switch (entry.kind) {
+    case "added":
+      return `${entry.key}: ${formatDiffValue(entry.after)}`;
+    case "removed":
+      return `${entry.key}: ${formatDiffValue(entry.before)}`;
+    default:
+      return `${entry.key}: ${formatDiffValue(entry.before)} → ${formatDiffValue(entry.after)}`;
+  }
+}
+
+/**
+ * 渲染逐文件的变更列表：有变更或失败的文件可展开查看，无变化的文件折叠在一起
+ */
+export function renderBatchPlans(
+  listEl: HTMLElement,
+  plans: BatchFilePlan[]
+): void {
+  listEl.empty();
+
+  plans
+    .filter((plan) => plan.status !== "unchanged")
+    .forEach((plan) => {
+      const itemEl = listEl.createEl("details", {
+        cls: `note-architect-batch-item is-${plan.status}`,
+      });
+      const summaryText =
+        plan.status === "failed"
+          ? `${plan.path}（失败）`
+          : `${plan.path}（${plan.diff.length} 项变更）`;
+      itemEl.createEl("summary", { text: summaryText });
+
+      if (plan.status === "failed") {
+        itemEl.createEl("div", {
+          cls: "note-architect-batch-error",
+          text: plan.error ?? "未知错误",
+        });
+        return;
+      }
+      plan.diff.forEach((entry) => {
+        itemEl.createEl("div", {
+          cls: `note-architect-batch-diff is-${entry.kind}`,
+          text: `${DIFF_MARKERS[entry.kind]} ${describeDiffEntry(entry)}`,
+        });
+      });
+    });
+
+  const unchanged = plans.filter((plan) => plan.status === "unchanged");
+  if (unchanged.length > 0) {
+    const unchangedEl = listEl.createEl("details", {
+      cls: "note-architect-batch-item is-unchanged",
+    });
+    unchangedEl.createEl("summary", {
+      text: `无变化的笔记（${unchanged.length}）`,
+    });
+    unchanged.forEach((plan) =>
+      unchangedEl.createEl("div", {
+        cls: "note-architect-batch-diff",
+        text: plan.path,
+      })
+    );
+  }
+}
+
+/**
+ * 批量应用预设的试运行预览：展示每个文件的变更并确认写入，写入后可整体撤销
+ */
+export class BatchPreviewModal extends Modal {
+  private readonly plugin: NoteArchitect;
+  private readonly files: TFile[];
+  private readonly submission: BatchFormSubmission;
+  private summaryEl?: HTMLElement;
+  private listEl?: HTMLElement;
+  private actionsEl?: HTMLElement;
+
+  constructor(
+    app: App,
+    plugin: NoteArchitect,
+    files: TFile[],
+    submission: BatchFormSubmission
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.files = files;
+    this.submission = submission;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("批量更新预览");
+    this.modalEl.addClass("note-architect-batch-preview-modal");
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const modeHint = this.submission.updateMode === "merge" ? "合并" : "覆盖";
+    contentEl.createEl("p", {
+      cls: "setting-item-description",
+      text: `预设 "${this.submission.preset.name}" · ${modeHint}模式 · 共 ${this.files.length} 篇笔记`,
+    });
+    this.summaryEl = contentEl.createDiv("note-architect-batch-summary");
+    this.listEl = contentEl.createDiv("note-architect-batch-list");
+    this.actionsEl = contentEl.createDiv("modal-button-container");
+
+    this.summaryEl.setText("正在计算变更…");
+    void this.loadPreview();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async loadPreview(): Promise<void> {
+    try {
+      const plans = await previewBatchUpdate(
+        this.app,
+        this.files,
+        this.submission.userFrontmatter,
+        this.submission.updateMode,
+        this.submission.mergeStrategies
+      );
+      const summary = summarizeBatchPlans(plans);
+      this.renderSummary(summary, "将");
+      this.renderPlans(plans);
+      this.renderPreviewActions(summary);
+    } catch (error) {
+      handleError(error, {
+        context: "BatchPreviewModal.loadPreview",
+        userMessage: "生成批量更新预览失败。",
+      });
+      this.close();
+    }
+  }
+
+  private renderSummary(summary: BatchPlanSummary, verb: string): void {
+    this.summaryEl?.setText(
+      `${verb}修改 ${summary.changed} 篇 · 无变化 ${summary.unchanged} 篇 · 失败 ${summary.failed} 篇`
+    );
+  }
+
+  private renderPlans(plans: BatchFilePlan[]): void {
+    if (this.listEl) {
+      renderBatchPlans(this.listEl, plans);
+    }
+  }
+
+  private renderPreviewActions(summary: BatchPlanSummary): void {
+    const actionsEl = this.actionsEl;
+    if (!actionsEl) {
+      return;
+    }
+    actionsEl.empty();
+
+    new ButtonComponent(actionsEl)
+      .setButtonText("取消")
+      .onClick(() => this.close());
+    const applyButton = new ButtonComponent(actionsEl)
+      .setButtonText(`应用到 ${summary.changed} 篇笔记`)
+      .setCta()
+      .setDisabled(summary.changed === 0);
+    applyButton.onClick(async () => {
+      applyButton.setDisabled(true);
+      applyButton.setButtonText("正在写入…");
+      await this.applyChanges();
+    });
+  }
+
+  private async applyChanges(): Promise<void> {
+    try {
+      const result = await applyBatchUpdate(
+        this.app,
+        this.files,
+        this.submission.userFrontmatter,
+        this.submission.updateMode,
+        this.submission.preset.name,
+        this.submission.mergeStrategies
+      );
+      const record = await this.plugin.operationJournal.record(
+        "batch-apply",
+        `批量应用预设 "${this.submission.preset.name}"`,
+        result.journal.entries
+      );
+
+      this.renderSummary(result.summary, "已");
+      this.renderPlans(result.plans);
+      this.renderAppliedActions(record?.id ?? null);
+
+      if (result.summary.failed > 0) {
+        notifyWarning(`${result.summary.failed} 篇笔记更新失败，详情见预览列表。`);
+      }
+      notifySuccess(
+        `已使用预设 "${this.submission.preset.name}" 更新 ${result.summary.changed} 篇笔记。`
+      );
+    } catch (error) {
+      handleError(error, {
+        context: "BatchPreviewModal.applyChanges",
+        userMessage: "批量更新失败。",
+      });
+      this.close();
+    }
+  }
+
+  private renderAppliedActions(recordId: string | null): void {
+    const actionsEl = this.actionsEl;
+    if (!actionsEl) {
+      return;
+    }
+    actionsEl.empty();
+
+    if (recordId) {
+      const revertButton = new ButtonComponent(actionsEl).setButtonText(
+        "撤销本次批量操作"
+      );
+      revertButton.onClick(async () => {
+        revertButton.setDisabled(true);
+        await this.plugin.operationJournal.revertWithNotice(recordId);
+        this.close();
+      });
+    }
+    new ButtonComponent(actionsEl)
+      .setButtonText("关闭")
+      .setCta()
+      .onClick(() => this.close());
+  }
+}
@@ -0,0 +1,298 @@
+import { App, ButtonComponent, Modal, Setting } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import type {
+  BatchJournalEntry,
+  ComplianceFix,
+  CompliancePresetSource,
+  ComplianceViolation,
+  NoteComplianceReport,
+} from "@types";
+import {
+  auditVaultCompliance,
+  fixNoteViolations,
+} from "@actions/audit-presets";
+import { handleError } from "@core/error";
+import { selectBulkFixes } from "@presets/compliance";
+import { notifyInfo, notifySuccess, notifyWarning } from "@utils/notify";
+import { SimpleConfirmModal } from "./simple-confirm-modal";
+
+export const PRESET_SOURCE_LABELS: Record<CompliancePresetSource, string> = {
+  "folder-rule": "文件夹规则",
+  recorded: "记录的预设",
+  manual: "手动选择",
+};
+
+function describeFix(fix: ComplianceFix): string {
+  if (fix.type === "remove") {
+    return "删除字段";
+  }
+  if (Array.isArray(fix.value)) {
+    return fix.value.length > 0 ? `设为 ${JSON.stringify(fix.value)}` : "清空";
+  }
+  const value =
+    typeof fix.value === "object" && fix.value !== null
+      ? JSON.stringify(fix.value)
+      : String(fix.value);
+  return value ? `设为 "${value}"` : "清空";
+}
+
+/**
+ * 预设合规检查：列出不符合预设的笔记，支持逐项修复与全部修复
+ */
+export class ComplianceAuditModal extends Modal {
+  private readonly plugin: NoteArchitect;
+  private presetId = "";
+  private folder = "";
+  // 全部修复时是否同时执行删除字段的修复，默认不删除任何数据
+  private includeRemovals = false;
+  private reports: NoteComplianceReport[] = [];
+  private audited = 0;
+  private summaryEl?: HTMLElement;
+  private resultsEl?: HTMLElement;
+  private fixAllButton?: ButtonComponent;
+
+  constructor(app: App, plugin: NoteArchitect) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("预设合规检查");
+    this.modalEl.addClass("note-architect-compliance-modal");
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl)
+      .setName("对应预设")
+      .setDesc("自动匹配时按笔记中记录的预设或文件夹规则确定预设")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", "自动匹配");
+        this.plugin.presetManager
+          .getPresets()
+          .forEach((preset) => dropdown.addOption(preset.id, preset.name));
+        dropdown.setValue(this.presetId).onChange((value) => {
+          this.presetId = value;
+        });
+      });
+
+    new Setting(contentEl)
+      .setName("检查范围")
+      .setDesc("留空表示整个库，模板文件夹始终排除")
+      .addText((text) =>
+        text
+          .setPlaceholder("例如：Meetings")
+          .setValue(this.folder)
+          .onChange((value) => {
+            this.folder = value.trim().replace(/^\/+|\/+$/g, "");
+          })
+      );
+
+    new Setting(contentEl)
+      .setName("全部修复时删除字段")
+      .setDesc("包括预设以外的字段，以及值无效且没有默认值的可选字段。关闭时这些项只能逐项修复")
+      .addToggle((toggle) =>
+        toggle.setValue(this.includeRemovals).onChange((value) => {
+          this.includeRemovals = value;
+          this.render();
+        })
+      );
+
+    const actions = contentEl.createDiv("modal-button-container");
+    this.fixAllButton = new ButtonComponent(actions)
+      .setButtonText("全部修复")
+      .setDisabled(true)
+      .onClick(() => void this.fixAll());
+    new ButtonComponent(actions)
+      .setButtonText("开始检查")
+      .setCta()
+      .onClick(() => this.runAudit());
+
+    this.summaryEl = contentEl.createDiv("note-architect-compliance-summary");
+    this.resultsEl = contentEl.createDiv("note-architect-compliance-results");
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private runAudit(): void {
+    try {
+      const result = auditVaultCompliance(this.app, this.plugin, {
+        presetId: this.presetId || undefined,
+        folder: this.folder,
+      });
+      this.audited = result.audited;
+      this.reports = result.reports;
+      this.render();
+    } catch (error) {
+      handleError(error, {
+        context: "ComplianceAuditModal.runAudit",
+        userMessage: "合规检查失败。",
+      });
+    }
+  }
+
+  private render(): void {
+    const violationCount = this.reports.reduce(
+      (total, report) => total + report.violations.length,
+      0
+    );
+    const fixableCount = this.reports.reduce(
+      (total, report) =>
+        total + report.violations.filter((violation) => violation.fix).length,
+      0
+    );
+    const bulkFixCount = this.reports.reduce(
+      (total, report) =>
+        total + selectBulkFixes(report.violations, this.includeRemovals).length,
+      0
+    );
+    this.summaryEl?.setText(
+      this.audited === 0
+        ? "没有找到对应预设的笔记。"
+        : `检查了 ${this.audited} 篇笔记，${this.reports.length} 篇存在问题，共 ${violationCount} 项（可自动修复 ${fixableCount} 项）`
+    );
+    this.fixAllButton?.setDisabled(bulkFixCount === 0);
+
+    const resultsEl = this.resultsEl;
+    if (!resultsEl) {
+      return;
+    }
+    resultsEl.empty();
+    this.reports.forEach((report) => this.renderReport(resultsEl, report));
+  }
+
+  private renderReport(container: HTMLElement, report: NoteComplianceReport): void {
+    const itemEl = container.createDiv("note-architect-compliance-item");
+    const headerEl = itemEl.createDiv("note-architect-compliance-item__header");
+    const linkEl = headerEl.createEl("a", { text: report.path });
+    linkEl.onclick = (event) => {
+      event.preventDefault();
+      void this.app.workspace.openLinkText(report.path, "", false);
+    };
+    headerEl.createSpan({
+      cls: "note-architect-preset-badge",
+      text: `${report.preset.name} · ${PRESET_SOURCE_LABELS[report.source]}`,
+    });
+
+    report.violations.forEach((violation) => {
+      const rowEl = itemEl.createDiv(
+        `note-architect-compliance-violation is-${violation.kind}`
+      );
+      rowEl.createSpan({ text: violation.message });
+      if (!violation.fix) {
+        rowEl.createSpan({
+          cls: "note-architect-compliance-violation__hint",
+          text: "需手动修复",
+        });
+        return;
+      }
+      const fixButton = new ButtonComponent(rowEl)
+        .setButtonText(describeFix(violation.fix))
+        .setTooltip("修复此项");
+      fixButton.onClick(async () => {
+        fixButton.setDisabled(true);
+        const entry = await this.fixViolations(report, [violation]);
+        if (entry) {
+          await this.plugin.operationJournal.record(
+            "compliance-fix",
+            `修复 "${report.path}" 的合规项`,
+            [entry]
+          );
+        }
+        this.render();
+      });
+    });
+  }
+
+  /**
+   * 修复指定笔记的违规项，并从结果中移除已修复的项
+   * @returns 写入前后的内容，修复失败时返回 null
+   */
+  private async fixViolations(
+    report: NoteComplianceReport,
+    violations: ComplianceViolation[]
+  ): Promise<BatchJournalEntry | null> {
+    try {
+      const entry = await fixNoteViolations(this.app, report.path, violations);
+      report.violations = report.violations.filter(
+        (violation) => !violations.includes(violation)
+      );
+      this.reports = this.reports.filter(
+        (item) => item.violations.length > 0
+      );
+      return entry;
+    } catch (error) {
+      handleError(error, {
+        context: "ComplianceAuditModal.fixViolations",
+        userMessage: `修复 "${report.path}" 失败。`,
+      });
+      return null;
+    }
+  }
+
+  private async fixAll(): Promise<void> {
+    const targets = this.reports
+      .map((report) => ({
+        report,
+        violations: selectBulkFixes(report.violations, this.includeRemovals),
+      }))
+      .filter((target) => target.violations.length > 0);
+    if (targets.length === 0) {
+      notifyInfo("没有可自动修复的项目。");
+      return;
+    }
+    if (!(await this.confirmFixAll(targets.map((target) => target.violations)))) {
+      return;
+    }
+
+    this.fixAllButton?.setDisabled(true);
+    const entries: BatchJournalEntry[] = [];
+    let failed = 0;
+    for (const { report, violations } of targets) {
+      const entry = await this.fixViolations(report, violations);
+      if (entry) {
+        entries.push(entry);
+      } else {
+        failed++;
+      }
+    }
+    await this.plugin.operationJournal.record(
+      "compliance-fix",
+      `全部修复 ${entries.length} 篇笔记的合规项`,
+      entries
+    );
+    this.render();
+
+    if (failed > 0) {
+      notifyWarning(`${failed} 篇笔记修复失败。`);
+    }
+    notifySuccess(`已修复 ${entries.length} 篇笔记。`);
+  }
+
+  /**
+   * 全部修复前确认涉及的笔记数与字段，删除字段时单独列出
+   */
+  private confirmFixAll(targets: ComplianceViolation[][]): Promise<boolean> {
+    const violations = targets.flat();
+    const keys = Array.from(new Set(violations.map((violation) => violation.key)));
+    const removedKeys = Array.from(
+      new Set(
+        violations
+          .filter((violation) => violation.fix?.type === "remove")
+          .map((violation) => violation.key)
+      )
+    );
+    const removalText =
+      removedKeys.length > 0
+        ? `其中将删除字段：${removedKeys.join("、")}。`
+        : "不会删除任何字段。";
+    return new SimpleConfirmModal(this.app, {
+      title: "确认全部修复",
+      message: `将修改 ${targets.length} 篇笔记中的 ${violations.length} 项（字段：${keys.join("、")}），${removalText}确定继续吗？`,
+      confirmText: "全部修复",
+      cancelText: "取消",
+      confirmClass: removedKeys.length > 0 ? "mod-warning" : "mod-cta",
+    }).openAndWait();
+  }
+}
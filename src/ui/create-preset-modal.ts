@@ -1,22 +1,36 @@
 import { App, Modal, Setting, TextComponent, ButtonComponent } from "obsidian";
 import { PresetManager } from "@presets";
+import type { FrontmatterField, FrontmatterPreset } from "@types";
 import { withUiNotice } from "./ui-utils";
 import { notifyError } from "@utils/notify";
+
+export interface CreatePresetModalOptions {
+  /** 预先填写的预设名称 */
+  initialName?: string;
+  /** 新预设的初始字段（如从笔记 frontmatter 生成） */
+  fields?: FrontmatterField[];
+  /** 预设创建成功后调用 */
+  onCreated?: (preset: FrontmatterPreset) => void;
+}
+
 export class CreatePresetModal extends Modal {
   private readonly presetManager: PresetManager;
   private nameInputComponent: TextComponent | null = null;
   private validationMessage: HTMLElement | null = null;
   private submitButtonComponent: ButtonComponent | null = null;
   private readonly onPresetsChanged?: () => void;
+  private readonly options: CreatePresetModalOptions;
 
   constructor(
     app: App,
     presetManager: PresetManager,
-    onPresetsChanged?: () => void
+    onPresetsChanged?: () => void,
+    options: CreatePresetModalOptions = {}
   ) {
     super(app);
     this.presetManager = presetManager;
     this.onPresetsChanged = onPresetsChanged;
+    this.options = options;
   }
 
   onOpen() {
@@ -43,6 +57,7 @@ export class CreatePresetModal extends Modal {
       .addText((text) => {
         this.nameInputComponent = text
           .setPlaceholder("例如: 项目模板配置")
+          .setValue(this.options.initialName ?? "")
           .onChange(this.handleInputChange);
         // 聚焦到输入框
         setTimeout(() => text.inputEl.focus(), 100);
@@ -53,6 +68,8 @@ export class CreatePresetModal extends Modal {
       "note-architect-validation-message"
     );
 
+    this.renderInitialFields(contentEl);
+
     // 操作按钮容器
     const actionsContainer = contentEl.createDiv("note-architect-form-actions");
 
@@ -70,6 +87,30 @@ export class CreatePresetModal extends Modal {
       .setCta()
       .setDisabled(true)
       .onClick(() => this.handleCreate());
+
+    if (this.options.initialName) {
+      this.handleInputChange(this.options.initialName);
+    }
+  }
+
+  /**
+   * 列出将随预设一起创建的初始字段，创建后可在字段配置中继续调整
+   */
+  private renderInitialFields(container: HTMLElement) {
+    const fields = this.options.fields ?? [];
+    if (fields.length === 0) return;
+
+    const fieldsEl = container.createDiv("note-architect-create-preset-fields");
+    fieldsEl.createEl("p", {
+      text: `将包含 ${fields.length} 个字段，创建后会打开字段配置以调整名称与类型：`,
+      cls: "setting-item-description",
+    });
+    const listEl = fieldsEl.createEl("ul");
+    fields.forEach((field) => {
+      const itemEl = listEl.createEl("li");
+      itemEl.createEl("code", { text: field.key });
+      itemEl.appendText(` · ${field.type}`);
+    });
   }
 
   /**
@@ -139,14 +180,19 @@ export class CreatePresetModal extends Modal {
 
     // 使用 withUiNotice 工具函数简化创建流程
     await withUiNotice(
-      async () => await this.presetManager.createPreset({ name: nameValue }),
+      async () =>
+        await this.presetManager.createPreset({
+          name: nameValue,
+          fields: this.options.fields,
+        }),
       {
         success: (newPreset) =>
           `✅ 已创建预设 \"${nameValue}\" (ID: ${newPreset.id})`,
         fail: "❌ 创建预设失败",
-        onSuccess: () => {
+        onSuccess: (newPreset) => {
           this.close();
           this.onPresetsChanged?.();
+          this.options.onCreated?.(newPreset);
         },
       }
     );
@@ -4,10 +4,16 @@ import { PresetManager } from "@presets";
 import type { SettingsManager } from "@settings";
 import { validateAndSave } from "./ui-utils";
 import { notifyWarning } from "@utils/notify";
-import { cloneFrontmatterField } from "@utils/frontmatter/field";
+import {
+  cloneFrontmatterField,
+  compileFieldPattern,
+} from "@utils/frontmatter/field";
+import { isDependentField } from "@utils/frontmatter/options";
 import { MasterListView } from "./field-config/master-list-view";
 import { DetailPanelView } from "./field-config/detail-panel-view";
 import { SimpleConfirmModal } from "./simple-confirm-modal";
+import { PresetMigrationModal } from "./preset-migration-modal";
+import { detectPresetChanges } from "@presets/schema-migration";
 import type { FieldValidationErrors } from "./field-config/validation";
 
 interface FieldValidationResult {
@@ -31,6 +37,8 @@ export class FieldConfigModal extends Modal {
   private wantsDetailView = false;
   private fieldValidationState: Map<number, FieldValidationErrors> = new Map();
   private touchedFieldFlags: boolean[] = [];
+  // 字段对象 -> 打开窗口时的原始键名，用于识别重命名与删除
+  private fieldOrigins = new WeakMap<FrontmatterField, string>();
 
   constructor(
     app: App,
@@ -45,7 +53,11 @@ export class FieldConfigModal extends Modal {
     this.preset = preset;
     this.onPresetsChanged = onPresetsChanged;
     // 创建字段副本以避免直接修改原数据
-    this.fields = preset.fields.map((field) => cloneFrontmatterField(field));
+    this.fields = preset.fields.map((field) => {
+      const cloned = cloneFrontmatterField(field);
+      this.fieldOrigins.set(cloned, field.key);
+      return cloned;
+    });
     this.selectedFieldIndex = this.fields.length > 0 ? 0 : null;
     this.touchedFieldFlags = new Array(this.fields.length).fill(false);
   }
@@ -92,6 +104,7 @@ export class FieldConfigModal extends Modal {
         void this.handleDeleteField(fieldIndex);
       },
       onNavigateBack: () => this.handleNavigateBack(),
+      getFields: () => this.fields,
     });
 
     this.updateUI();
@@ -219,6 +232,10 @@ export class FieldConfigModal extends Modal {
     }
     const nextFields = [...this.fields];
     const clonedField = cloneFrontmatterField(updatedField);
+    const originKey = this.fieldOrigins.get(this.fields[fieldIndex]);
+    if (originKey !== undefined) {
+      this.fieldOrigins.set(clonedField, originKey);
+    }
     nextFields[fieldIndex] = clonedField;
     this.fields = nextFields;
     this.selectedFieldIndex = fieldIndex;
@@ -337,6 +354,10 @@ export class FieldConfigModal extends Modal {
       entry[type] = bucket;
     };
 
+    const presetKeys = new Set(
+      this.fields.map((field) => field.key?.trim() ?? "").filter(Boolean)
+    );
+
     this.fields.forEach((field, index) => {
       const fieldNum = index + 1;
       const trimmedKey = field.key?.trim() ?? "";
@@ -370,6 +391,8 @@ export class FieldConfigModal extends Modal {
 
       if (
         (field.type === "select" || field.type === "multi-select") &&
+        !field.optionSource &&
+        !isDependentField(field) &&
         (!field.options ||
           field.options.length === 0 ||
           field.options.every((opt) => !opt.trim()))
@@ -379,6 +402,64 @@ export class FieldConfigModal extends Modal {
         }类型必须至少有一个选项`;
         appendFieldError(index, "options", "至少添加一个有效选项", summary);
       }
+
+      if (
+        field.type === "number" &&
+        typeof field.min === "number" &&
+        typeof field.max === "number" &&
+        field.min > field.max
+      ) {
+        const summary = `字段 ${fieldNum}: 最小值不能大于最大值`;
+        appendFieldError(index, "constraints", "最小值不能大于最大值", summary);
+      }
+
+      if (field.pattern && !compileFieldPattern(field.pattern)) {
+        const summary = `字段 ${fieldNum}: 正则表达式无法解析`;
+        appendFieldError(index, "rules", "正则表达式无法解析", summary);
+      }
+
+      const countRanges: Array<[number | undefined, number | undefined, string]> = [
+        [field.minLength, field.maxLength, "最少字符数不能大于最多字符数"],
+        [field.minItems, field.maxItems, "最少条目数不能大于最多条目数"],
+      ];
+      countRanges.forEach(([min, max, message]) => {
+        if (typeof min === "number" && typeof max === "number" && min > max) {
+          const summary = `字段 ${fieldNum}: ${message}`;
+          appendFieldError(index, "rules", message, summary);
+        }
+      });
+
+      if (field.dependsOn) {
+        const parent = this.fields.find(
+          (candidate) => candidate.key?.trim() === field.dependsOn
+        );
+        if (!parent) {
+          const message = `级联选项依赖的字段 "${field.dependsOn}" 不存在`;
+          appendFieldError(index, "options", message, `字段 ${fieldNum}: ${message}`);
+        } else if (!parent.optionSource && parent.options?.length) {
+          const parentOptions = new Set(parent.options.map((option) => option.trim()));
+          Object.keys(field.optionsByParent ?? {})
+            .filter((parentValue) => !parentOptions.has(parentValue))
+            .forEach((parentValue) => {
+              const message = `级联选项中的 "${parentValue}" 不是字段 "${field.dependsOn}" 的选项`;
+              appendFieldError(index, "options", message, `字段 ${fieldNum}: ${message}`);
+            });
+        }
+      }
+
+      (field.showIf ?? []).forEach((rule) => {
+        const target = rule.field?.trim() ?? "";
+        if (target && target === trimmedKey) {
+          const message = "显示条件不能引用字段自身";
+          appendFieldError(index, "visibility", message, `字段 ${fieldNum}: ${message}`);
+        } else if (!target) {
+          const message = "请选择显示条件引用的字段";
+          appendFieldError(index, "visibility", message, `字段 ${fieldNum}: ${message}`);
+        } else if (!presetKeys.has(target)) {
+          const message = `显示条件引用的字段 "${target}" 不存在`;
+          appendFieldError(index, "visibility", message, `字段 ${fieldNum}: ${message}`);
+        }
+      });
     });
 
     const duplicateSummaryKeys: string[] = [];
@@ -468,19 +549,32 @@ export class FieldConfigModal extends Modal {
       return;
     }
 
+    const state = { hasSchemaChanges: false };
+
     // 使用 validateAndSave 工具函数简化保存流程
     await validateAndSave(
       this.fields,
       [], // 验证已在 validateFields() 中完成
       async (filteredFields) => {
+        const changes = detectPresetChanges(
+          this.preset.fields,
+          filteredFields,
+          filteredFields.map((field) => this.fieldOrigins.get(field))
+        );
         const updatedPreset = await this.presetManager.updatePresetFields(
           this.preset.id,
-          filteredFields
+          filteredFields,
+          undefined,
+          changes
         );
+        state.hasSchemaChanges = changes.length > 0;
         this.preset = updatedPreset;
-        this.fields = updatedPreset.fields.map((field) =>
-          cloneFrontmatterField(field)
-        );
+        this.fieldOrigins = new WeakMap();
+        this.fields = updatedPreset.fields.map((field) => {
+          const cloned = cloneFrontmatterField(field);
+          this.fieldOrigins.set(cloned, field.key);
+          return cloned;
+        });
         this.touchedFieldFlags = new Array(this.fields.length).fill(false);
         this.fieldValidationState = new Map();
       },
@@ -494,11 +588,27 @@ export class FieldConfigModal extends Modal {
           );
           this.onPresetsChanged?.();
           this.close();
+          if (state.hasSchemaChanges) {
+            this.offerNoteMigration();
+          }
         },
       }
     );
   }
 
+  /**
+   * 字段结构变更后，若有笔记记录了旧版本则提示迁移
+   */
+  private offerNoteMigration(): void {
+    const templateFolder =
+      this.settingsManager.getSettings().templateFolderPath?.trim() ?? "";
+    new PresetMigrationModal(
+      this.app,
+      this.preset,
+      templateFolder
+    ).openIfNeeded();
+  }
+
   onClose() {
     const { contentEl } = this;
     this.cleanupResponsiveLayout();
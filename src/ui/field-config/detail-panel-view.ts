@@ -14,6 +14,7 @@ export interface DetailPanelViewConfig {
   onFieldChange?: (fieldIndex: number, field: FrontmatterField) => void;
   onDeleteField?: (fieldIndex: number) => void;
   onNavigateBack?: () => void;
+  getFields?: () => FrontmatterField[];
 }
 
 /**
@@ -78,6 +79,7 @@ export class DetailPanelView {
           this.fieldConfigForm?.update(updatedField, idx);
         },
         settingsManager: this.config.settingsManager,
+        getSiblingFields: () => this.config.getFields?.() ?? [],
       });
       this.fieldConfigForm.render(this.formContainerEl);
     } else {
@@ -1,9 +1,30 @@
 import {
+  FieldMergeStrategy,
+  FieldOptionSourceType,
+  FieldVisibilityOperator,
+  FieldVisibilityRule,
   FrontmatterField,
   FrontmatterFieldType,
   DEFAULT_SETTINGS,
 } from "../../types/settings";
 import { normalizeStringArray } from "../../utils/data-transformer";
+import {
+  formatDateValue,
+  getFieldDateFormatFallback,
+  isDateFieldType,
+  resolveDateFormat,
+} from "../../utils/frontmatter/date";
+import {
+  isListValuedField,
+  normalizeFieldDefault,
+  parseFiniteNumber,
+  supportsTextRules,
+} from "../../utils/frontmatter/field";
+import { getApplicableMergeStrategies } from "../../utils/frontmatter/merge";
+import {
+  operatorRequiresValue,
+  VISIBILITY_OPERATORS,
+} from "../../utils/frontmatter/visibility";
 import { DomEventManager } from "@ui/dom-event-manager";
 import {
   setIcon,
@@ -28,10 +49,28 @@ export interface FieldConfigFormConfig {
   onFieldChange: (field: FrontmatterField, fieldIndex: number) => void;
   onStructuralChange?: (field: FrontmatterField, fieldIndex: number) => void;
   settingsManager?: {
-    getSettings: () => { defaultDateFormat?: string };
+    getSettings: () => {
+      defaultDateFormat?: string;
+      applyDefaultDateFormatToFields?: boolean;
+    };
   };
+  getSiblingFields?: () => FrontmatterField[];
 }
 
+const OPTION_SOURCE_LABELS: Record<FieldOptionSourceType, string> = {
+  "property-values": "库中该属性已使用的值",
+  folder: "指定目录下的笔记名",
+  tag: "带指定标签的笔记名",
+};
+
+const VISIBILITY_OPERATOR_LABELS: Record<FieldVisibilityOperator, string> = {
+  equals: "等于",
+  "not-equals": "不等于",
+  includes: "包含",
+  "is-empty": "为空",
+  "is-not-empty": "不为空",
+};
+
 /**
  * 字段配置表单组件
  * 负责渲染和管理单个字段的配置表单
@@ -50,12 +89,14 @@ export class FieldConfigForm {
   private keyInputComponent?: TextComponent;
   private labelInputComponent?: TextComponent;
   private typeSelectComponent?: DropdownComponent;
+  private mergeStrategySelectComponent?: DropdownComponent;
   private defaultInputComponent?: TextComponent;
   private descriptionInputComponent?: TextAreaComponent;
   private optionsListContainer?: HTMLElement;
   private multiSelectDefaultContainer?: HTMLElement;
   private dateAutoFillCheckbox?: ToggleComponent;
   private dateAutoFillPreviewEl?: HTMLElement;
+  private booleanDefaultToggle?: ToggleComponent;
   private validationErrors: FieldValidationErrors | null = null;
   private fieldRowRefs: Partial<
     Record<FieldValidationErrorKey, HTMLDivElement>
@@ -155,7 +196,13 @@ export class FieldConfigForm {
     this.renderLabelInput(this.containerEl);
     this.renderTypeSelect(this.containerEl);
     this.renderDefaultInput(this.containerEl);
+    this.renderDateFormatSection(this.containerEl);
+    this.renderNumberConstraintsSection(this.containerEl);
+    this.renderLinkOptionsSection(this.containerEl);
     this.renderOptionsSection(this.containerEl);
+    this.renderValidationRulesSection(this.containerEl);
+    this.renderVisibilitySection(this.containerEl);
+    this.renderMergeStrategySelect(this.containerEl);
     this.renderDescriptionInput(this.containerEl);
     this.applyAllValidationFeedback();
   }
@@ -167,12 +214,14 @@ export class FieldConfigForm {
     this.keyInputComponent = undefined;
     this.labelInputComponent = undefined;
     this.typeSelectComponent = undefined;
+    this.mergeStrategySelectComponent = undefined;
     this.defaultInputComponent = undefined;
     this.descriptionInputComponent = undefined;
     this.optionsListContainer = undefined;
     this.multiSelectDefaultContainer = undefined;
     this.dateAutoFillCheckbox = undefined;
     this.dateAutoFillPreviewEl = undefined;
+    this.booleanDefaultToggle = undefined;
     this.fieldRowRefs = {};
     this.errorElements = {};
   }
@@ -255,7 +304,12 @@ export class FieldConfigForm {
       "text",
       "select",
       "date",
+      "datetime",
+      "time",
       "multi-select",
+      "number",
+      "boolean",
+      "link",
     ];
 
     types.forEach((type) => {
@@ -293,6 +347,7 @@ export class FieldConfigForm {
     this.defaultInputComponent = undefined;
     this.dateAutoFillCheckbox = undefined;
     this.dateAutoFillPreviewEl = undefined;
+    this.booleanDefaultToggle = undefined;
 
     const contentContainer = row.createDiv(
       "note-architect-field-default-content"
@@ -307,13 +362,16 @@ export class FieldConfigForm {
       return;
     }
 
-    const normalizedDefault =
-      typeof this.config.field.default === "string"
-        ? this.config.field.default
-        : Array.isArray(this.config.field.default)
-        ? this.config.field.default[0] ?? ""
-        : "";
-    this.config.field.default = normalizedDefault;
+    if (this.config.field.type === "boolean") {
+      this.renderBooleanDefaultToggle(contentContainer);
+      return;
+    }
+
+    const normalizedDefault = this.getScalarDefaultValue(this.config.field);
+    this.config.field.default =
+      this.config.field.type === "number"
+        ? normalizeFieldDefault("number", normalizedDefault)
+        : normalizedDefault;
 
     // 使用 TextComponent 替代手动创建的输入框
     const component = new TextComponent(contentContainer);
@@ -325,13 +383,22 @@ export class FieldConfigForm {
 
     this.defaultInputComponent = component;
 
+    if (this.config.field.type === "number") {
+      component.inputEl.type = "number";
+      component.inputEl.step = "any";
+      component.setPlaceholder("默认数值（可选）");
+    }
+
     if (!this.config.field.useTemplaterTimestamp) {
       this.manualDefaultCache.set(this.config.field, normalizedDefault);
     }
 
     component.setDisabled(this.config.field.useTemplaterTimestamp === true);
     component.onChange((value) => {
-      this.config.field.default = value;
+      this.config.field.default =
+        this.config.field.type === "number"
+          ? normalizeFieldDefault("number", value)
+          : value;
       if (!this.config.field.useTemplaterTimestamp) {
         this.manualDefaultCache.set(this.config.field, value);
       }
@@ -344,6 +411,405 @@ export class FieldConfigForm {
     }
   }
 
+  /**
+   * 渲染布尔字段默认值开关
+   */
+  private renderBooleanDefaultToggle(container: HTMLElement): void {
+    const enabled = normalizeFieldDefault("boolean", this.config.field.default);
+    this.config.field.default = enabled;
+
+    const controls = container.createDiv(
+      "note-architect-date-autofill__controls"
+    );
+    const toggle = new ToggleComponent(controls);
+    toggle.setValue(enabled === true);
+    this.booleanDefaultToggle = toggle;
+    controls.createEl("label", {
+      cls: "note-architect-date-autofill__label",
+      text: "默认开启",
+    });
+
+    toggle.onChange((value) => {
+      this.config.field.default = value;
+      this.notifyFieldChange();
+    });
+  }
+
+  /**
+   * 渲染日期/时间写入格式（仅针对 date/datetime/time），留空时使用按类型的默认格式
+   */
+  private renderDateFormatSection(container: HTMLElement): void {
+    const { type } = this.config.field;
+    if (!isDateFieldType(type)) {
+      return;
+    }
+
+    const row = this.createFieldRow(container);
+    row.createEl("label", {
+      text: "写入格式:",
+      cls: "note-architect-field-label",
+    });
+
+    const content = row.createDiv("note-architect-field-default-content");
+    const fallbackFormat = resolveDateFormat(
+      { type },
+      getFieldDateFormatFallback(this.config.settingsManager?.getSettings())
+    );
+    const component = new TextComponent(content);
+    component
+      .setValue(this.config.field.dateFormat ?? "")
+      .setPlaceholder(`默认：${fallbackFormat}`);
+    component.inputEl.addClass("note-architect-input-base");
+    component.inputEl.addClass("note-architect-field-input");
+
+    const previewEl = content.createEl("small", {
+      cls: "setting-item-description",
+    });
+    const updatePreview = () => {
+      const format = resolveDateFormat(
+        this.config.field,
+        getFieldDateFormatFallback(this.config.settingsManager?.getSettings())
+      );
+      const sample = formatDateValue(new Date(), type, format) ?? "";
+      previewEl.setText(
+        `示例：${sample}（moment 格式，如 YYYY/MM/DD、YYYY-MM-DD HH:mm）`
+      );
+    };
+    updatePreview();
+
+    component.onChange((value) => {
+      const trimmed = value.trim();
+      if (trimmed) {
+        this.config.field.dateFormat = trimmed;
+      } else {
+        delete this.config.field.dateFormat;
+      }
+      if (this.config.field.useTemplaterTimestamp) {
+        this.config.field.default = this.buildTemplaterDateExpression();
+        this.updateDefaultValueControls();
+      }
+      updatePreview();
+      this.notifyFieldChange();
+    });
+  }
+
+  /**
+   * 渲染数值约束区域（仅针对 number）
+   */
+  private renderNumberConstraintsSection(container: HTMLElement): void {
+    if (this.config.field.type !== "number") {
+      return;
+    }
+
+    const row = this.createFieldRow(container, { stacked: true });
+    row.createEl("label", {
+      text: "数值约束:",
+      cls: "note-architect-field-label",
+    });
+
+    const grid = row.createDiv("note-architect-field-grid");
+    const bounds: Array<{
+      key: "min" | "max" | "step";
+      label: string;
+      placeholder: string;
+    }> = [
+      { key: "min", label: "最小值", placeholder: "不限" },
+      { key: "max", label: "最大值", placeholder: "不限" },
+      { key: "step", label: "步长", placeholder: "任意" },
+    ];
+
+    bounds.forEach(({ key, label, placeholder }) => {
+      const item = grid.createDiv("note-architect-field-grid__item");
+      item.createEl("small", {
+        text: label,
+        cls: "setting-item-description",
+      });
+      const component = new TextComponent(item);
+      const currentValue = this.config.field[key];
+      component
+        .setValue(typeof currentValue === "number" ? String(currentValue) : "")
+        .setPlaceholder(placeholder);
+      component.inputEl.type = "number";
+      component.inputEl.step = "any";
+      component.inputEl.addClass("note-architect-input-base");
+      component.inputEl.addClass("note-architect-field-input");
+      component.onChange((value) => {
+        const parsed = parseFiniteNumber(value);
+        if (parsed === null || (key === "step" && parsed <= 0)) {
+          delete this.config.field[key];
+        } else {
+          this.config.field[key] = parsed;
+        }
+        this.notifyFieldChange();
+      });
+    });
+
+    const integerControls = row.createDiv(
+      "note-architect-date-autofill__controls"
+    );
+    const integerToggle = new ToggleComponent(integerControls);
+    integerToggle.setValue(this.config.field.integerOnly === true);
+    integerControls.createEl("label", {
+      cls: "note-architect-date-autofill__label",
+      text: "仅允许整数",
+    });
+    integerToggle.onChange((value) => {
+      if (value) {
+        this.config.field.integerOnly = true;
+      } else {
+        delete this.config.field.integerOnly;
+      }
+      this.notifyFieldChange();
+    });
+
+    this.registerValidationSlot("constraints", row);
+    this.applyValidationFeedback("constraints");
+  }
+
+  /**
+   * 渲染链接字段配置区域（仅针对 link）
+   */
+  private renderLinkOptionsSection(container: HTMLElement): void {
+    if (this.config.field.type !== "link") {
+      return;
+    }
+
+    const row = this.createFieldRow(container, { stacked: true });
+    row.createEl("label", {
+      text: "候选范围:",
+      cls: "note-architect-field-label",
+    });
+
+    const scopes: Array<{
+      key: "linkFolder" | "linkTag";
+      label: string;
+      placeholder: string;
+    }> = [
+      { key: "linkFolder", label: "限定目录", placeholder: "例如 Projects" },
+      { key: "linkTag", label: "限定标签", placeholder: "例如 person" },
+    ];
+
+    const grid = row.createDiv("note-architect-field-grid");
+    scopes.forEach(({ key, label, placeholder }) => {
+      const item = grid.createDiv("note-architect-field-grid__item");
+      item.createEl("small", {
+        text: label,
+        cls: "setting-item-description",
+      });
+      const component = new TextComponent(item);
+      component
+        .setValue(this.config.field[key] ?? "")
+        .setPlaceholder(placeholder);
+      component.inputEl.addClass("note-architect-input-base");
+      component.inputEl.addClass("note-architect-field-input");
+      component.onChange((value) => {
+        const normalized =
+          key === "linkTag"
+            ? value.trim().replace(/^#+/, "")
+            : value.trim().replace(/^\/+|\/+$/g, "");
+        if (normalized) {
+          this.config.field[key] = normalized;
+        } else {
+          delete this.config.field[key];
+        }
+        this.notifyFieldChange();
+      });
+    });
+
+    const multipleControls = row.createDiv(
+      "note-architect-date-autofill__controls"
+    );
+    const multipleToggle = new ToggleComponent(multipleControls);
+    multipleToggle.setValue(this.config.field.multiple === true);
+    multipleControls.createEl("label", {
+      cls: "note-architect-date-autofill__label",
+      text: "允许多个链接（写入列表）",
+    });
+    multipleToggle.onChange((value) => {
+      if (value) {
+        this.config.field.multiple = true;
+      } else {
+        delete this.config.field.multiple;
+      }
+      this.pruneValidationRules(this.config.field);
+      this.pruneMergeStrategy(this.config.field);
+      // 单值/多值决定适用的校验规则，需要重新渲染
+      this.notifyStructuralChange();
+    });
+  }
+
+  /**
+   * 渲染表单校验规则区域（必填、正则、长度、条目数）
+   */
+  private renderValidationRulesSection(container: HTMLElement): void {
+    const field = this.config.field;
+    if (field.type === "boolean") {
+      return;
+    }
+
+    const row = this.createFieldRow(container, { stacked: true });
+    row.createEl("label", {
+      text: "校验规则:",
+      cls: "note-architect-field-label",
+    });
+
+    const requiredControls = row.createDiv(
+      "note-architect-date-autofill__controls"
+    );
+    const requiredToggle = new ToggleComponent(requiredControls);
+    requiredToggle.setValue(field.required === true);
+    requiredControls.createEl("label", {
+      cls: "note-architect-date-autofill__label",
+      text: "必填",
+    });
+    requiredToggle.onChange((value) => {
+      if (value) {
+        this.config.field.required = true;
+      } else {
+        delete this.config.field.required;
+      }
+      this.notifyFieldChange();
+    });
+
+    if (supportsTextRules(field)) {
+      const patternGrid = row.createDiv("note-architect-field-grid");
+      this.createRuleTextInput(patternGrid, {
+        label: "正则表达式（整体匹配）",
+        placeholder: "例如 PRJ-\\d{4}",
+        value: field.pattern,
+        onChange: (value) => {
+          if (value) {
+            this.config.field.pattern = value;
+          } else {
+            delete this.config.field.pattern;
+          }
+        },
+      });
+      this.createRuleTextInput(patternGrid, {
+        label: "不匹配时的提示",
+        placeholder: "例如 格式应为 PRJ-0000",
+        value: field.patternMessage,
+        onChange: (value) => {
+          if (value) {
+            this.config.field.patternMessage = value;
+          } else {
+            delete this.config.field.patternMessage;
+          }
+        },
+      });
+
+      const lengthGrid = row.createDiv("note-architect-field-grid");
+      this.createCountInput(lengthGrid, "最少字符数", "minLength");
+      this.createCountInput(lengthGrid, "最多字符数", "maxLength");
+    }
+
+    if (isListValuedField(field)) {
+      const itemsGrid = row.createDiv("note-architect-field-grid");
+      this.createCountInput(itemsGrid, "最少条目数", "minItems");
+      this.createCountInput(itemsGrid, "最多条目数", "maxItems");
+    }
+
+    row.createEl("small", {
+      cls: "setting-item-description",
+      text: "留空的字段仅在设为必填时报错，其余规则只校验已填写的值。",
+    });
+
+    this.registerValidationSlot("rules", row);
+    this.applyValidationFeedback("rules");
+  }
+
+  /**
+   * 创建校验规则的文本输入项
+   */
+  private createRuleTextInput(
+    grid: HTMLElement,
+    config: {
+      label: string;
+      placeholder: string;
+      value?: string;
+      onChange: (value: string) => void;
+    }
+  ): void {
+    const item = grid.createDiv("note-architect-field-grid__item");
+    item.createEl("small", {
+      text: config.label,
+      cls: "setting-item-description",
+    });
+    const component = new TextComponent(item);
+    component.setValue(config.value ?? "").setPlaceholder(config.placeholder);
+    component.inputEl.addClass("note-architect-input-base");
+    component.inputEl.addClass("note-architect-field-input");
+    component.onChange((value) => {
+      config.onChange(value.trim());
+      this.notifyFieldChange();
+    });
+  }
+
+  /**
+   * 创建非负整数计数约束输入项（长度或条目数）
+   */
+  private createCountInput(
+    grid: HTMLElement,
+    label: string,
+    key: "minLength" | "maxLength" | "minItems" | "maxItems"
+  ): void {
+    const item = grid.createDiv("note-architect-field-grid__item");
+    item.createEl("small", {
+      text: label,
+      cls: "setting-item-description",
+    });
+    const component = new TextComponent(item);
+    const currentValue = this.config.field[key];
+    component
+      .setValue(typeof currentValue === "number" ? String(currentValue) : "")
+      .setPlaceholder("不限");
+    component.inputEl.type = "number";
+    component.inputEl.min = "0";
+    component.inputEl.step = "1";
+    component.inputEl.addClass("note-architect-input-base");
+    component.inputEl.addClass("note-architect-field-input");
+    component.onChange((value) => {
+      const parsed = parseFiniteNumber(value);
+      if (parsed === null || parsed < 0 || !Number.isInteger(parsed)) {
+        delete this.config.field[key];
+      } else {
+        this.config.field[key] = parsed;
+      }
+      this.notifyFieldChange();
+    });
+  }
+
+  /**
+   * 移除当前字段类型不适用的校验规则
+   */
+  private pruneValidationRules(field: FrontmatterField): void {
+    if (field.type === "boolean") {
+      delete field.required;
+    }
+    if (!supportsTextRules(field)) {
+      delete field.pattern;
+      delete field.patternMessage;
+      delete field.minLength;
+      delete field.maxLength;
+    }
+    if (!isListValuedField(field)) {
+      delete field.minItems;
+      delete field.maxItems;
+    }
+  }
+
+  /**
+   * 移除当前字段不适用的合并方式（列表合并方式只适用于列表字段）
+   */
+  private pruneMergeStrategy(field: FrontmatterField): void {
+    if (
+      field.mergeStrategy &&
+      !getApplicableMergeStrategies(field).includes(field.mergeStrategy)
+    ) {
+      delete field.mergeStrategy;
+    }
+  }
+
   /**
    * 渲染选项配置区域（仅针对 select/multi-select）
    */
@@ -362,6 +828,9 @@ export class FieldConfigForm {
       cls: "note-architect-field-label",
     });
 
+    this.renderOptionSourceControls(row);
+    this.renderDependentOptionsControls(row);
+
     const optionsListContainer = row.createDiv("note-architect-options-list");
     this.renderOptionsList(optionsListContainer);
     this.optionsListContainer = optionsListContainer;
@@ -378,6 +847,309 @@ export class FieldConfigForm {
     this.applyValidationFeedback("options");
   }
 
+  /**
+   * 渲染显示条件编辑区域
+   */
+  private renderVisibilitySection(container: HTMLElement): void {
+    const row = this.createFieldRow(container, { stacked: true });
+    row.createEl("label", {
+      text: "显示条件:",
+      cls: "note-architect-field-label",
+    });
+
+    const rules = this.config.field.showIf ?? [];
+    const ownKey = this.config.field.key?.trim() ?? "";
+    const candidateKeys = (this.config.getSiblingFields?.() ?? [])
+      .map((field) => field.key?.trim() ?? "")
+      .filter((key) => key && key !== ownKey);
+
+    const list = row.createDiv("note-architect-visibility-rules");
+    if (rules.length === 0) {
+      list.createEl("small", {
+        text: "始终显示。添加条件后，仅在全部条件满足时显示该字段。",
+        cls: "setting-item-description",
+      });
+    }
+
+    rules.forEach((rule, ruleIndex) => {
+      const ruleEl = list.createDiv("note-architect-visibility-rule");
+
+      const fieldDropdown = new DropdownComponent(ruleEl);
+      fieldDropdown.addOption("", "选择字段…");
+      candidateKeys.forEach((key) => fieldDropdown.addOption(key, key));
+      if (rule.field && !candidateKeys.includes(rule.field)) {
+        fieldDropdown.addOption(rule.field, `${rule.field}（不存在）`);
+      }
+      fieldDropdown.setValue(rule.field ?? "");
+      fieldDropdown.onChange((value) =>
+        this.updateVisibilityRule(ruleIndex, { field: value }, false)
+      );
+
+      const operatorDropdown = new DropdownComponent(ruleEl);
+      VISIBILITY_OPERATORS.forEach((operator) =>
+        operatorDropdown.addOption(operator, VISIBILITY_OPERATOR_LABELS[operator])
+      );
+      operatorDropdown.setValue(rule.operator);
+      operatorDropdown.onChange((value) =>
+        this.updateVisibilityRule(
+          ruleIndex,
+          { operator: value as FieldVisibilityOperator },
+          true
+        )
+      );
+
+      if (operatorRequiresValue(rule.operator)) {
+        const valueInput = new TextComponent(ruleEl);
+        valueInput.setValue(rule.value ?? "").setPlaceholder("比较值");
+        valueInput.inputEl.addClass("note-architect-input-base");
+        valueInput.inputEl.addClass("note-architect-field-input");
+        valueInput.onChange((value) =>
+          this.updateVisibilityRule(ruleIndex, { value: value.trim() }, false)
+        );
+      }
+
+      const removeBtn = new ButtonComponent(ruleEl)
+        .setClass("clickable-icon")
+        .setClass("note-architect-option-remove")
+        .setTooltip("删除条件")
+        .onClick(() => {
+          const nextRules = rules.filter((_, index) => index !== ruleIndex);
+          if (nextRules.length > 0) {
+            this.config.field.showIf = nextRules;
+          } else {
+            delete this.config.field.showIf;
+          }
+          this.notifyStructuralChange();
+        });
+      setIcon(removeBtn.buttonEl, "trash-2");
+    });
+
+    const actions = row.createDiv("note-architect-field-options__actions");
+    new ButtonComponent(actions)
+      .setButtonText("添加条件")
+      .setClass("note-architect-field-options__add")
+      .onClick(() => {
+        this.config.field.showIf = [
+          ...rules,
+          { field: candidateKeys[0] ?? "", operator: "equals", value: "" },
+        ];
+        this.notifyStructuralChange();
+      });
+
+    this.registerValidationSlot("visibility", row);
+    this.applyValidationFeedback("visibility");
+  }
+
+  /**
+   * 更新单条显示条件
+   */
+  private updateVisibilityRule(
+    ruleIndex: number,
+    patch: Partial<FieldVisibilityRule>,
+    structural: boolean
+  ): void {
+    const rules = (this.config.field.showIf ?? []).map((rule) => ({
+      ...rule,
+    }));
+    if (!rules[ruleIndex]) {
+      return;
+    }
+    const nextRule = { ...rules[ruleIndex], ...patch };
+    if (!operatorRequiresValue(nextRule.operator)) {
+      delete nextRule.value;
+    }
+    rules[ruleIndex] = nextRule;
+    this.config.field.showIf = rules;
+
+    if (structural) {
+      this.notifyStructuralChange();
+    } else {
+      this.notifyFieldChange();
+    }
+  }
+
+  /**
+   * 渲染动态选项来源控件（打开表单时与静态选项合并）
+   */
+  private renderOptionSourceControls(row: HTMLElement): void {
+    const source = this.config.field.optionSource;
+    const grid = row.createDiv("note-architect-field-grid");
+    const typeItem = grid.createDiv("note-architect-field-grid__item");
+    typeItem.createEl("small", {
+      text: "动态来源",
+      cls: "setting-item-description",
+    });
+
+    const dropdown = new DropdownComponent(typeItem);
+    dropdown.addOption("", "无（仅静态选项）");
+    (Object.keys(OPTION_SOURCE_LABELS) as FieldOptionSourceType[]).forEach(
+      (type) => dropdown.addOption(type, OPTION_SOURCE_LABELS[type])
+    );
+    dropdown.setValue(source?.type ?? "");
+    dropdown.onChange((value) => {
+      if (value) {
+        this.config.field.optionSource = {
+          type: value as FieldOptionSourceType,
+        };
+      } else {
+        delete this.config.field.optionSource;
+      }
+      this.notifyStructuralChange();
+    });
+
+    if (source?.type === "folder" || source?.type === "tag") {
+      const sourceType = source.type;
+      const valueItem = grid.createDiv("note-architect-field-grid__item");
+      valueItem.createEl("small", {
+        text: sourceType === "folder" ? "目录路径" : "标签",
+        cls: "setting-item-description",
+      });
+      const input = new TextComponent(valueItem);
+      input
+        .setValue((sourceType === "folder" ? source.folder : source.tag) ?? "")
+        .setPlaceholder(sourceType === "folder" ? "例如 Projects" : "例如 project");
+      input.inputEl.addClass("note-architect-input-base");
+      input.inputEl.addClass("note-architect-field-input");
+      input.onChange((value) => {
+        const normalized =
+          sourceType === "folder"
+            ? value.trim().replace(/^\/+|\/+$/g, "")
+            : value.trim().replace(/^#+/, "");
+        this.config.field.optionSource =
+          sourceType === "folder"
+            ? { type: "folder", folder: normalized }
+            : { type: "tag", tag: normalized };
+        this.notifyFieldChange();
+      });
+    }
+  }
+
+  /**
+   * 渲染级联选项控件：按父字段的每个选项配置子选项（逗号分隔）
+   */
+  private renderDependentOptionsControls(row: HTMLElement): void {
+    const ownKey = this.config.field.key?.trim() ?? "";
+    const parentCandidates = (this.config.getSiblingFields?.() ?? []).filter(
+      (field) =>
+        field.type === "select" && field.key?.trim() && field.key.trim() !== ownKey
+    );
+    const dependsOn = this.config.field.dependsOn;
+
+    const grid = row.createDiv("note-architect-field-grid");
+    const parentItem = grid.createDiv("note-architect-field-grid__item");
+    parentItem.createEl("small", {
+      text: "依赖字段",
+      cls: "setting-item-description",
+    });
+
+    const dropdown = new DropdownComponent(parentItem);
+    dropdown.addOption("", "无（不级联）");
+    parentCandidates.forEach((field) =>
+      dropdown.addOption(field.key.trim(), field.label || field.key.trim())
+    );
+    if (dependsOn && !parentCandidates.some((field) => field.key.trim() === dependsOn)) {
+      dropdown.addOption(dependsOn, `${dependsOn}（不存在）`);
+    }
+    dropdown.setValue(dependsOn ?? "");
+    dropdown.onChange((value) => {
+      if (value) {
+        this.config.field.dependsOn = value;
+        this.config.field.optionsByParent = {};
+      } else {
+        delete this.config.field.dependsOn;
+        delete this.config.field.optionsByParent;
+      }
+      this.notifyStructuralChange();
+    });
+
+    if (!dependsOn) {
+      return;
+    }
+
+    const parent = parentCandidates.find((field) => field.key.trim() === dependsOn);
+    const parentValues = Array.from(
+      new Set([
+        ...(parent?.options ?? []).map((option) => option.trim()).filter(Boolean),
+        ...Object.keys(this.config.field.optionsByParent ?? {}),
+      ])
+    );
+
+    const mappingList = row.createDiv("note-architect-dependent-options");
+    mappingList.createEl("small", {
+      text: "父字段取值未配置子选项时，使用上方的静态选项。",
+      cls: "setting-item-description",
+    });
+
+    parentValues.forEach((parentValue) => {
+      const item = mappingList.createDiv("note-architect-dependent-options__item");
+      item.createEl("span", {
+        text: parentValue,
+        cls: "note-architect-dependent-options__parent",
+      });
+      const input = new TextComponent(item);
+      input
+        .setValue((this.config.field.optionsByParent?.[parentValue] ?? []).join(", "))
+        .setPlaceholder("子选项，用逗号分隔");
+      input.inputEl.addClass("note-architect-input-base");
+      input.inputEl.addClass("note-architect-field-input");
+      input.onChange((value) => {
+        const options = value
+          .split(/[,，]/)
+          .map((option) => option.trim())
+          .filter(Boolean);
+        const mapping = { ...(this.config.field.optionsByParent ?? {}) };
+        if (options.length > 0) {
+          mapping[parentValue] = options;
+        } else {
+          delete mapping[parentValue];
+        }
+        this.config.field.optionsByParent = mapping;
+        this.notifyFieldChange();
+      });
+    });
+  }
+
+  /**
+   * 渲染合并方式选择器，决定字段写入已有 frontmatter 时如何处理旧值
+   */
+  private renderMergeStrategySelect(container: HTMLElement): void {
+    const row = this.createFieldRow(container);
+    row.createEl("label", {
+      text: "合并方式:",
+      cls: "note-architect-field-label",
+    });
+
+    const selectContainer = row.createDiv();
+    const component = new DropdownComponent(selectContainer);
+    const labels: Record<FieldMergeStrategy, string> = {
+      overwrite: "覆盖已有值",
+      "keep-existing": "保留已有值",
+      "append-unique": "追加到列表（去重）",
+      prepend: "插入到列表开头（去重）",
+      "fill-if-empty": "仅在为空时填写",
+    };
+
+    component.addOption("", "默认（tags 合并，其余覆盖）");
+    getApplicableMergeStrategies(this.config.field).forEach((strategy) => {
+      component.addOption(strategy, labels[strategy]);
+    });
+    component.setValue(this.config.field.mergeStrategy ?? "");
+    component.selectEl.addClass("note-architect-input-base");
+    component.selectEl.addClass("note-architect-field-input");
+    component.selectEl.addClass("note-architect-field-select");
+
+    this.mergeStrategySelectComponent = component;
+
+    component.onChange((value) => {
+      if (value) {
+        this.config.field.mergeStrategy = value as FieldMergeStrategy;
+      } else {
+        delete this.config.field.mergeStrategy;
+      }
+      this.notifyFieldChange();
+    });
+  }
+
   /**
    * 渲染描述输入框
    */
@@ -428,6 +1200,11 @@ export class FieldConfigForm {
     if (this.typeSelectComponent) {
       this.typeSelectComponent.setValue(this.config.field.type);
     }
+    if (this.mergeStrategySelectComponent) {
+      this.mergeStrategySelectComponent.setValue(
+        this.config.field.mergeStrategy ?? ""
+      );
+    }
 
     this.updateDefaultValueControls();
     this.updateOptionsControls();
@@ -457,6 +1234,13 @@ export class FieldConfigForm {
       return;
     }
 
+    if (this.config.field.type === "boolean") {
+      this.booleanDefaultToggle?.setValue(
+        normalizeFieldDefault("boolean", this.config.field.default) === true
+      );
+      return;
+    }
+
     if (!this.defaultInputComponent) {
       return;
     }
@@ -502,6 +1286,9 @@ export class FieldConfigForm {
     if (typeof field.default === "string") {
       return field.default;
     }
+    if (typeof field.default === "number") {
+      return String(field.default);
+    }
     if (Array.isArray(field.default)) {
       return field.default[0] ?? "";
     }
@@ -865,6 +1652,32 @@ export class FieldConfigForm {
       updatedField.options = [];
     }
 
+    if (newType !== "number") {
+      delete updatedField.min;
+      delete updatedField.max;
+      delete updatedField.step;
+      delete updatedField.integerOnly;
+    }
+
+    if (newType !== "select" && newType !== "multi-select") {
+      delete updatedField.optionSource;
+      delete updatedField.dependsOn;
+      delete updatedField.optionsByParent;
+    }
+
+    if (!isDateFieldType(newType)) {
+      delete updatedField.dateFormat;
+    }
+
+    if (newType !== "link") {
+      delete updatedField.linkFolder;
+      delete updatedField.linkTag;
+      delete updatedField.multiple;
+    }
+
+    this.pruneValidationRules(updatedField);
+    this.pruneMergeStrategy(updatedField);
+
     if (newType !== "date") {
       updatedField.useTemplaterTimestamp = false;
       if (newType !== "multi-select") {
@@ -893,6 +1706,18 @@ export class FieldConfigForm {
       updatedField.default = updatedField.default[0] ?? "";
     }
 
+    if (newType === "number" || newType === "boolean") {
+      updatedField.default = normalizeFieldDefault(
+        newType,
+        updatedField.default
+      );
+    } else if (
+      typeof updatedField.default === "number" ||
+      typeof updatedField.default === "boolean"
+    ) {
+      updatedField.default = String(updatedField.default);
+    }
+
     // 使用修改后的副本通知父组件，避免直接修改内部状态
     if (this.config.onStructuralChange) {
       this.config.onStructuralChange(updatedField, this.config.fieldIndex);
@@ -982,6 +1807,31 @@ export class FieldConfigForm {
       return true;
     }
 
+    // 链接字段单值/多值切换会改变适用的校验规则
+    if (oldField.multiple !== newField.multiple) {
+      return true;
+    }
+
+    // 选项来源类型变化会改变编辑控件
+    if (oldField.optionSource?.type !== newField.optionSource?.type) {
+      return true;
+    }
+
+    // 级联父字段变化会改变映射编辑控件
+    if (oldField.dependsOn !== newField.dependsOn) {
+      return true;
+    }
+
+    // 显示条件的增删或操作符变化会改变编辑控件
+    const oldRules = oldField.showIf ?? [];
+    const newRules = newField.showIf ?? [];
+    if (
+      oldRules.length !== newRules.length ||
+      oldRules.some((rule, index) => rule.operator !== newRules[index].operator)
+    ) {
+      return true;
+    }
+
     // 其他的变更（key、label、default、description）不算结构性变更
     return false;
   }
@@ -991,8 +1841,7 @@ export class FieldConfigForm {
    */
   private buildTemplaterDateExpression(): string {
     const formatRaw =
-      this.config.settingsManager?.getSettings().defaultDateFormat ??
-      DEFAULT_SETTINGS.defaultDateFormat;
+      this.config.field.dateFormat ?? this.getGlobalDateFormat();
     const trimmed =
       typeof formatRaw === "string"
         ? formatRaw.trim()
@@ -1003,6 +1852,13 @@ export class FieldConfigForm {
     return `<% tp.date.now("${format}") %>`;
   }
 
+  private getGlobalDateFormat(): string {
+    return (
+      this.config.settingsManager?.getSettings().defaultDateFormat ??
+      DEFAULT_SETTINGS.defaultDateFormat
+    );
+  }
+
   /**
    * 获取类型标签
    */
@@ -1011,7 +1867,12 @@ export class FieldConfigForm {
       text: "文本",
       select: "单选",
       date: "日期",
+      datetime: "日期时间",
+      time: "时间",
       "multi-select": "多选",
+      number: "数字",
+      boolean: "布尔",
+      link: "链接",
     };
     return labels[type];
   }
@@ -1036,7 +1897,14 @@ export class FieldConfigForm {
   }
 
   private applyAllValidationFeedback(): void {
-    const kinds: FieldValidationErrorKey[] = ["key", "label", "options"];
+    const kinds: FieldValidationErrorKey[] = [
+      "key",
+      "label",
+      "options",
+      "constraints",
+      "rules",
+      "visibility",
+    ];
     kinds.forEach((kind) => this.applyValidationFeedback(kind));
   }
 
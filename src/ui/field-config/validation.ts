@@ -1,4 +1,4 @@
-export type FieldValidationErrorKey = 'key' | 'label' | 'options';
+export type FieldValidationErrorKey = 'key' | 'label' | 'options' | 'constraints' | 'rules' | 'visibility';
 
 /**
  * 字段级别的验证错误结构，用于在 DetailPanel 与表单之间传输内联错误文案。
@@ -7,4 +7,7 @@ export interface FieldValidationErrors {
 	key?: string[];
 	label?: string[];
 	options?: string[];
+	constraints?: string[];
+	rules?: string[];
+	visibility?: string[];
 }
@@ -1,14 +1,37 @@
-import { App, Modal, MarkdownView } from "obsidian";
+import { App, Modal, MarkdownView, TFile } from "obsidian";
 import type NoteArchitect from "@core/plugin";
-import type { FrontmatterPreset, Template, FrontmatterField } from "@types";
+import type {
+  BatchFormSubmission,
+  FrontmatterPreset,
+  FrontmatterUpdateMode,
+  NoteProvenance,
+  Template,
+  FrontmatterField,
+} from "@types";
 import { DEFAULT_SETTINGS } from "@types";
 import { handleError } from "@core/error";
 import { notifyInfo, notifyWarning } from "@utils/notify";
 import { normalizeStringArray } from "@utils/data-transformer";
 import { convertFormDataToFrontmatter } from "@utils/frontmatter/convert";
-import { getNoteMetadata } from "@utils/frontmatter-editor";
+import {
+  getFieldDateFormatFallback,
+  resolveDateFormat,
+  resolveDateInput,
+} from "@utils/frontmatter/date";
+import {
+  areFrontmattersEqual,
+  getNoteMetadata,
+} from "@utils/frontmatter-editor";
+import { buildBatchMergePatch } from "@utils/frontmatter/batch";
+import { collectMergeStrategies } from "@utils/frontmatter/merge";
+import { getAllFieldOptions } from "@utils/frontmatter/options";
+import { OptionSourceResolver } from "@utils/option-source";
+import { TemplateBlockError } from "@engine/blocks";
 import { executeTemplateInsertion } from "@actions/insert-template";
+import { executeNoteCreation } from "@actions/create-note";
+import { executeFolderRuleApplication } from "@actions/apply-folder-rule";
 import { executeUpdateFrontmatter } from "@actions/update-frontmatter";
+import { resolveNoteProvenance } from "@actions/note-provenance";
 import { createMergedPreset } from "./frontmatter/preset-field-merger";
 import { FrontmatterFormView } from "./frontmatter/FrontmatterFormView";
 import { FrontmatterFormState } from "./frontmatter/FrontmatterFormState";
@@ -17,18 +40,31 @@ interface FrontmatterManagerModalOptions {
   template?: Template;
   presets: FrontmatterPreset[];
   isUpdateMode?: boolean;
+  /** 使用模板新建笔记，而不是插入到当前编辑器 */
+  createNewNote?: boolean;
+  /** 将模板应用到指定笔记（文件夹规则命中的新笔记） */
+  targetFile?: TFile;
+  /** 批量更新：提交时不写入当前笔记，而是交给调用方预览 */
+  batch?: {
+    fileCount: number;
+    onSubmit: (submission: BatchFormSubmission) => void;
+  };
 }
 
-type FrontmatterUpdateMode = "merge" | "overwrite";
-
 export class FrontmatterManagerModal extends Modal {
   static forTemplateInsertion(
     app: App,
     plugin: NoteArchitect,
     template: Template,
-    presets: FrontmatterPreset[]
+    presets: FrontmatterPreset[],
+    options: { createNewNote?: boolean; targetFile?: TFile } = {}
   ): FrontmatterManagerModal {
-    return new FrontmatterManagerModal(app, plugin, { template, presets });
+    return new FrontmatterManagerModal(app, plugin, {
+      template,
+      presets,
+      createNewNote: options.createNewNote,
+      targetFile: options.targetFile,
+    });
   }
 
   static forFrontmatterUpdate(
@@ -42,8 +78,25 @@ export class FrontmatterManagerModal extends Modal {
     });
   }
 
-  private buildTemplaterDateExpression(): string {
+  static forBatchUpdate(
+    app: App,
+    plugin: NoteArchitect,
+    options: {
+      presets: FrontmatterPreset[];
+      fileCount: number;
+      onSubmit: (submission: BatchFormSubmission) => void;
+    }
+  ): FrontmatterManagerModal {
+    return new FrontmatterManagerModal(app, plugin, {
+      presets: options.presets,
+      isUpdateMode: true,
+      batch: { fileCount: options.fileCount, onSubmit: options.onSubmit },
+    });
+  }
+
+  private buildTemplaterDateExpression(field: FrontmatterField): string {
     const formatRaw =
+      field.dateFormat ??
       this.plugin.settings?.defaultDateFormat ??
       DEFAULT_SETTINGS.defaultDateFormat;
     const trimmed =
@@ -63,6 +116,9 @@ export class FrontmatterManagerModal extends Modal {
   private mergedPreset: FrontmatterPreset;
   private readonly sourcePresetNames: string[];
   private readonly isUpdateMode: boolean;
+  private readonly createNewNote: boolean;
+  private readonly targetFile?: TFile;
+  private readonly batch?: FrontmatterManagerModalOptions["batch"];
   private frontmatterUpdateMode: FrontmatterUpdateMode;
   private formContainerEl?: HTMLElement;
   private confirmBtn?: HTMLButtonElement;
@@ -70,7 +126,10 @@ export class FrontmatterManagerModal extends Modal {
   private updateModeSelectEl?: HTMLSelectElement;
   private formView?: FrontmatterFormView;
   private formState?: FrontmatterFormState;
+  // 表单渲染完成时的数据，批量合并时据此判断用户修改过的字段
+  private renderedFormData: Record<string, unknown> = {};
   private isResolving = true;
+  private readonly optionSourceResolver: OptionSourceResolver;
 
   constructor(
     app: App,
@@ -81,7 +140,11 @@ export class FrontmatterManagerModal extends Modal {
     this.plugin = plugin;
     this.template = options.template;
     this.isUpdateMode = Boolean(options.isUpdateMode);
-    this.sourcePresets = options.presets.length > 0 ? options.presets : [];
+    this.createNewNote = !this.isUpdateMode && Boolean(options.createNewNote);
+    this.targetFile = this.isUpdateMode ? undefined : options.targetFile;
+    this.batch = this.isUpdateMode ? options.batch : undefined;
+    // 展开继承链，表单与合并都基于生效字段
+    this.sourcePresets = plugin.presetManager.resolvePresets(options.presets);
     if (this.sourcePresets.length === 0) {
       throw new Error("FrontmatterManagerModal 需要至少一个 frontmatter 预设");
     }
@@ -105,6 +168,11 @@ export class FrontmatterManagerModal extends Modal {
       const { mergedPreset } = createMergedPreset(this.sourcePresets);
       this.mergedPreset = mergedPreset;
     }
+    // 动态选项在本次表单会话内只解析一次
+    this.optionSourceResolver = new OptionSourceResolver(app);
+    this.mergedPreset = this.optionSourceResolver.applyToPreset(
+      this.mergedPreset
+    );
     this.sourcePresetNames = this.sourcePresets.map((preset) => preset.name);
     this.frontmatterUpdateMode = this.determineInitialUpdateMode();
   }
@@ -176,17 +244,22 @@ export class FrontmatterManagerModal extends Modal {
     // 预设变化时需要重新创建 FormView 实例
     if (!this.formView) {
       this.formView = new FrontmatterFormView({
+        app: this.app,
         containerEl: this.formContainerEl!,
         preset: this.mergedPreset,
         initialData: {},
+        fallbackDateFormat: getFieldDateFormatFallback(this.plugin.settings),
         onFieldChange: (key: string, value: unknown) => {
           // 通知状态管理器更新数据
           this.formState?.setFieldValue(key, value, true);
-          // 同步更新视图中的错误显示
+          // 同步更新视图中的字段可见性与错误显示
           const formView = this.formView;
           const formState = this.formState;
           if (formView && formState) {
+            formView.refreshDependentFields(formState.getEffectiveData());
+            formView.applyVisibility(formState.getVisibleFieldKeys());
             formView.displayErrors(formState.getErrors());
+            formView.displayWarnings(formState.getWarnings());
           }
         },
         onFieldBlur: (key: string) => {
@@ -197,6 +270,7 @@ export class FrontmatterManagerModal extends Modal {
           const formState = this.formState;
           if (formView && formState) {
             formView.displayErrors(formState.getErrors());
+            formView.displayWarnings(formState.getWarnings());
           }
         },
         onMultiSelectChange: (key: string) => {
@@ -207,6 +281,7 @@ export class FrontmatterManagerModal extends Modal {
           const formState = this.formState;
           if (formView && formState) {
             formView.displayErrors(formState.getErrors());
+            formView.displayWarnings(formState.getWarnings());
           }
         },
       });
@@ -214,13 +289,25 @@ export class FrontmatterManagerModal extends Modal {
   }
 
   private getModalTitle(): string {
+    if (this.batch) {
+      return `批量更新 Frontmatter（${this.batch.fileCount} 篇笔记）`;
+    }
     if (this.isUpdateMode) {
       return "更新当前笔记的 Frontmatter";
     }
-    return `配置模板: ${this.template?.name ?? "未命名模板"}`;
+    const templateName = this.template?.name ?? "未命名模板";
+    if (this.targetFile) {
+      return `为 "${this.targetFile.basename}" 应用模板: ${templateName}`;
+    }
+    return this.createNewNote
+      ? `从模板新建笔记: ${templateName}`
+      : `配置模板: ${templateName}`;
   }
 
   private getDescriptionText(): string {
+    if (this.batch) {
+      return "以下字段将作为共享输入应用到所有选中的笔记，合并模式下修改过的字段按合并方式写入，未修改的默认值只填充笔记中缺失的字段，写入前会先预览每篇笔记的变更：";
+    }
     if (this.isUpdateMode) {
       if (this.sourcePresets.length === 1) {
         // 单预设模式：简化描述，预设名称将在控件区域显示
@@ -237,7 +324,16 @@ export class FrontmatterManagerModal extends Modal {
   }
 
   private getConfirmButtonLabel(): string {
-    return this.isUpdateMode ? "确认更新" : "确认插入";
+    if (this.batch) {
+      return "预览更改";
+    }
+    if (this.isUpdateMode) {
+      return "确认更新";
+    }
+    if (this.targetFile) {
+      return "应用模板";
+    }
+    return this.createNewNote ? "创建笔记" : "确认插入";
   }
 
   private renderUpdateContextControls(container: HTMLElement): void {
@@ -371,29 +467,36 @@ export class FrontmatterManagerModal extends Modal {
     if (!nextPreset || nextPreset.id === this.mergedPreset.id) {
       return;
     }
-    this.mergedPreset = nextPreset;
+    this.mergedPreset = this.optionSourceResolver.applyToPreset(nextPreset);
     this.resetFormStateForPreset();
     // 强制重新创建表单视图以加载新预设的配置
     this.formView = new FrontmatterFormView({
+      app: this.app,
       containerEl: this.formContainerEl!,
       preset: this.mergedPreset,
       initialData: {},
+      fallbackDateFormat: getFieldDateFormatFallback(this.plugin.settings),
       onFieldChange: (key, value) => {
         this.formState?.setFieldValue(key, value, true);
         if (this.formView && this.formState) {
+          this.formView.refreshDependentFields(this.formState.getEffectiveData());
+          this.formView.applyVisibility(this.formState.getVisibleFieldKeys());
           this.formView.displayErrors(this.formState.getErrors());
+          this.formView.displayWarnings(this.formState.getWarnings());
         }
       },
       onFieldBlur: (key) => {
         this.formState?.setFieldTouched(key);
         if (this.formView && this.formState) {
           this.formView.displayErrors(this.formState.getErrors());
+          this.formView.displayWarnings(this.formState.getWarnings());
         }
       },
       onMultiSelectChange: (key) => {
         this.formState?.setFieldTouched(key);
         if (this.formView && this.formState) {
           this.formView.displayErrors(this.formState.getErrors());
+          this.formView.displayWarnings(this.formState.getWarnings());
         }
       },
     });
@@ -415,7 +518,7 @@ export class FrontmatterManagerModal extends Modal {
   }
 
   private determineInitialUpdateMode(): FrontmatterUpdateMode {
-    if (!this.isUpdateMode) {
+    if (!this.isUpdateMode || this.batch) {
       return "merge";
     }
     const metadata = getNoteMetadata(this.app);
@@ -437,9 +540,13 @@ export class FrontmatterManagerModal extends Modal {
       // 渲染表单视图
       this.formView.render();
 
-      // 同步当前错误状态到视图
+      // 同步当前可见性与错误状态到视图
       if (this.formState) {
+        this.renderedFormData = { ...this.formState.getData() };
+        this.formView.refreshDependentFields(this.formState.getEffectiveData());
+        this.formView.applyVisibility(this.formState.getVisibleFieldKeys());
         this.formView.displayErrors(this.formState.getErrors());
+        this.formView.displayWarnings(this.formState.getWarnings());
       }
     }
   }
@@ -489,16 +596,19 @@ export class FrontmatterManagerModal extends Modal {
     };
 
     for (const field of activePreset.fields) {
-      const allowedOptions = this.buildAllowedOptionsSet(field.options);
-      if (field.type === "multi-select") {
+      const allowedOptions = this.buildAllowedOptionsSet(getAllFieldOptions(field));
+      if (
+        field.type === "multi-select" ||
+        (field.type === "link" && Array.isArray(field.default))
+      ) {
         const normalized = normalizeStringArray(field.default, allowedOptions);
         resolvedDefaults.set(field.key, normalized);
         continue;
       }
 
       const defaultValue = field.useTemplaterTimestamp
-        ? this.buildTemplaterDateExpression()
-        : this.coerceToString(field.default);
+        ? this.buildTemplaterDateExpression(field)
+        : this.resolveNaturalDateDefault(field);
 
       // 默认值不包含 Templater 表达式，直接存储
       if (!defaultValue.includes("<%")) {
@@ -561,6 +671,23 @@ export class FrontmatterManagerModal extends Modal {
     return new Set(normalized);
   }
 
+  /**
+   * 解析日期字段的自然语言默认值（如 "tomorrow"），无需 Templater；其他字段原样返回
+   * @param field 字段定义
+   * @returns 默认值字符串
+   */
+  private resolveNaturalDateDefault(field: FrontmatterField): string {
+    const raw = this.coerceToString(field.default);
+    if ((field.type !== "date" && field.type !== "datetime") || raw.includes("<%")) {
+      return raw;
+    }
+    const format = resolveDateFormat(
+      field,
+      getFieldDateFormatFallback(this.plugin.settings)
+    );
+    return resolveDateInput(raw, field.type, format) ?? raw;
+  }
+
   /**
    * 强制转换为字符串（用于默认值解析）
    * @param value 要转换的值
@@ -609,17 +736,26 @@ export class FrontmatterManagerModal extends Modal {
       return;
     }
 
+    if (validation.warnings && validation.warnings.length > 0) {
+      this.markAllFieldsTouched();
+      this.formView?.displayWarnings(validation.fieldWarnings ?? {});
+      notifyWarning(validation.warnings.join("\n"), { prefix: false });
+    }
+
     // 获取表单数据并转换
     const formData = this.formState.getData();
     const resolvedDefaults = this.formState.getResolvedDefaults();
     const userFrontmatter = convertFormDataToFrontmatter(
       this.mergedPreset,
       formData,
-      resolvedDefaults
+      resolvedDefaults,
+      getFieldDateFormatFallback(this.plugin.settings)
     );
 
     try {
-      if (this.isUpdateMode) {
+      if (this.batch) {
+        await this.handleBatchSubmit(userFrontmatter);
+      } else if (this.isUpdateMode) {
         await this.handleUpdateFrontmatter(userFrontmatter);
       } else {
         await this.handleInsertTemplate(userFrontmatter);
@@ -639,18 +775,47 @@ export class FrontmatterManagerModal extends Modal {
     }
 
     try {
-      await executeTemplateInsertion(
-        this.app,
-        this.plugin,
-        template,
-        this.mergedPreset,
-        userFrontmatter
-      );
+      if (this.targetFile) {
+        await executeFolderRuleApplication(
+          this.app,
+          this.plugin,
+          this.targetFile,
+          template,
+          this.mergedPreset,
+          userFrontmatter,
+          this.resolveProvenance()
+        );
+      } else if (this.createNewNote) {
+        await executeNoteCreation(
+          this.app,
+          this.plugin,
+          template,
+          this.mergedPreset,
+          userFrontmatter,
+          this.resolveProvenance()
+        );
+      } else {
+        await executeTemplateInsertion(
+          this.app,
+          this.plugin,
+          template,
+          this.mergedPreset,
+          userFrontmatter,
+          this.resolveProvenance()
+        );
+      }
       this.close();
     } catch (error) {
       const normalizedError = handleError(error, {
         context: "FrontmatterManagerModal.handleConfirm",
-        userMessage: "插入模板失败，请稍后重试。",
+        userMessage: (normalized) =>
+          normalized instanceof TemplateBlockError
+            ? `模板块语法错误：${normalized.message}`
+            : this.targetFile
+              ? "应用模板失败，请稍后重试。"
+              : this.createNewNote
+                ? "新建笔记失败，请稍后重试。"
+                : "插入模板失败，请稍后重试。",
       });
 
       const message = normalizedError.message || "";
@@ -663,6 +828,58 @@ export class FrontmatterManagerModal extends Modal {
     }
   }
 
+  /**
+   * 本次写入的来源记录：插入模板时记录全部来源预设，更新模式只记录当前选择的预设
+   */
+  private resolveProvenance(): NoteProvenance | null {
+    const presets = this.isUpdateMode
+      ? this.sourcePresets.filter((preset) => preset.id === this.mergedPreset.id)
+      : this.sourcePresets;
+    return resolveNoteProvenance(this.plugin, this.template, presets);
+  }
+
+  /**
+   * 批量模式：保存所选预设后交给调用方生成试运行预览
+   */
+  private async handleBatchSubmit(
+    userFrontmatter: Record<string, unknown>
+  ): Promise<void> {
+    if (!this.batch) {
+      return;
+    }
+    await this.plugin.setLastUsedPresetForUpdate(this.mergedPreset.id);
+    this.close();
+    const strategies = collectMergeStrategies(this.mergedPreset.fields);
+    const { patch, strategies: mergeStrategies } =
+      this.frontmatterUpdateMode === "merge"
+        ? buildBatchMergePatch(
+            userFrontmatter,
+            this.getEditedFieldKeys(),
+            strategies
+          )
+        : { patch: userFrontmatter, strategies };
+    this.batch.onSubmit({
+      preset: this.mergedPreset,
+      userFrontmatter: patch,
+      updateMode: this.frontmatterUpdateMode,
+      mergeStrategies,
+    });
+  }
+
+  /**
+   * 与渲染完成时相比值发生变化的字段
+   */
+  private getEditedFieldKeys(): string[] {
+    const formData = this.formState?.getData() ?? {};
+    return Object.keys(formData).filter(
+      (key) =>
+        !areFrontmattersEqual(
+          { [key]: formData[key] },
+          { [key]: this.renderedFormData[key] }
+        )
+    );
+  }
+
   private async handleUpdateFrontmatter(
     userFrontmatter: Record<string, unknown>
   ): Promise<void> {
@@ -672,13 +889,28 @@ export class FrontmatterManagerModal extends Modal {
     }
 
     try {
+      const before = activeView.editor.getValue();
       await executeUpdateFrontmatter(
         this.app,
         activeView.editor,
         this.mergedPreset,
         userFrontmatter,
-        this.frontmatterUpdateMode
+        this.frontmatterUpdateMode,
+        this.resolveProvenance()
       );
+      if (activeView.file) {
+        await this.plugin.operationJournal.record(
+          "update-frontmatter",
+          `使用预设 "${this.mergedPreset.name}" 更新 Frontmatter`,
+          [
+            {
+              path: activeView.file.path,
+              before,
+              after: activeView.editor.getValue(),
+            },
+          ]
+        );
+      }
       // 成功更新后，保存最后使用的预设ID
       await this.plugin.setLastUsedPresetForUpdate(this.mergedPreset.id);
       this.close();
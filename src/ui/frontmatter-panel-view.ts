@@ -0,0 +1,416 @@
+import { DropdownComponent, ItemView, TFile } from "obsidian";
+import type { WorkspaceLeaf } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import type { FrontmatterPreset } from "@types";
+import { handleError } from "@core/error";
+import {
+  createNotePresetResolver,
+  type NotePresetMatch,
+} from "@actions/audit-presets";
+import {
+  convertFormDataToFrontmatter,
+  convertFrontmatterToFormData,
+  isStructuredFrontmatterValue,
+} from "@utils/frontmatter/convert";
+import {
+  areFrontmattersEqual,
+  updateFrontmatter,
+} from "@utils/frontmatter-editor";
+import { getFieldDateFormatFallback } from "@utils/frontmatter/date";
+import { OptionSourceResolver } from "@utils/option-source";
+import { debounce } from "@utils/timing";
+import { PRESET_SOURCE_LABELS } from "./compliance-audit-modal";
+import { FrontmatterFormView } from "./frontmatter/FrontmatterFormView";
+import { FrontmatterFormState } from "./frontmatter/FrontmatterFormState";
+
+export const FRONTMATTER_PANEL_VIEW_TYPE = "note-architect-frontmatter-panel";
+
+const SAVE_DELAY_MS = 800;
+
+/**
+ * Frontmatter 侧边面板：按匹配的预设显示当前笔记的表单，修改后延迟写回笔记
+ */
+export class FrontmatterPanelView extends ItemView {
+  private readonly plugin: NoteArchitect;
+  private file: TFile | null = null;
+  private preset: FrontmatterPreset | null = null;
+  private formView?: FrontmatterFormView;
+  private formState?: FrontmatterFormState;
+  private statusEl?: HTMLElement;
+  // 已修改但尚未写回的字段
+  private readonly dirtyKeys: Set<string> = new Set();
+  // 手动为笔记选择的预设，键为笔记路径
+  private readonly manualPresetIds: Map<string, string> = new Map();
+  // 最近一次写入的内容，用于忽略自身保存触发的元数据变化
+  private lastWrittenContent: string | null = null;
+  private readonly scheduleSave = debounce(
+    () => void this.saveChanges(),
+    SAVE_DELAY_MS
+  );
+
+  constructor(leaf: WorkspaceLeaf, plugin: NoteArchitect) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return FRONTMATTER_PANEL_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Frontmatter 面板";
+  }
+
+  getIcon(): string {
+    return "file-edit";
+  }
+
+  async onOpen(): Promise<void> {
+    this.contentEl.addClass("note-architect-panel");
+    this.registerEvent(
+      this.app.workspace.on("active-leaf-change", () =>
+        this.handleActiveFileChange()
+      )
+    );
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file, data) =>
+        this.handleMetadataChange(file, data)
+      )
+    );
+    this.showFile(this.getActiveMarkdownFile());
+  }
+
+  async onClose(): Promise<void> {
+    this.scheduleSave.flush();
+    this.destroyForm();
+    this.contentEl.empty();
+  }
+
+  private getActiveMarkdownFile(): TFile | null {
+    const file = this.app.workspace.getActiveFile();
+    return file && file.extension === "md" ? file : null;
+  }
+
+  private handleActiveFileChange(): void {
+    const file = this.getActiveMarkdownFile();
+    // 焦点移到面板自身或非 Markdown 视图时保留当前笔记
+    if (!file || file.path === this.file?.path) {
+      return;
+    }
+    this.showFile(file);
+  }
+
+  private handleMetadataChange(file: TFile, data: string): void {
+    if (file.path !== this.file?.path || data === this.lastWrittenContent) {
+      return;
+    }
+    // 仍有待保存的修改时不重新渲染，避免覆盖正在编辑的输入
+    if (this.dirtyKeys.size > 0) {
+      return;
+    }
+    this.render();
+  }
+
+  private showFile(file: TFile | null): void {
+    this.scheduleSave.flush();
+    this.file = file;
+    this.dirtyKeys.clear();
+    this.lastWrittenContent = null;
+    this.render();
+  }
+
+  private readFrontmatter(file: TFile): Record<string, unknown> {
+    return {
+      ...(this.app.metadataCache.getFileCache(file)?.frontmatter ?? {}),
+    } as Record<string, unknown>;
+  }
+
+  /**
+   * 匹配笔记的预设：手动选择优先，其次为笔记记录的预设与文件夹规则
+   */
+  private resolvePreset(
+    file: TFile,
+    frontmatter: Record<string, unknown>
+  ): NotePresetMatch | null {
+    const manualId = this.manualPresetIds.get(file.path);
+    const manualPreset = manualId
+      ? this.plugin.presetManager
+          .getPresets()
+          .find((preset) => preset.id === manualId)
+      : undefined;
+    const match: NotePresetMatch | null = manualPreset
+      ? {
+          preset: this.plugin.presetManager.resolvePreset(manualPreset),
+          source: "manual",
+        }
+      : createNotePresetResolver(this.plugin)(file, frontmatter);
+    if (!match) {
+      return null;
+    }
+    return {
+      ...match,
+      preset: new OptionSourceResolver(this.app).applyToPreset(match.preset),
+    };
+  }
+
+  private render(): void {
+    this.destroyForm();
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const file = this.file;
+    if (!file) {
+      contentEl.createEl("p", {
+        cls: "setting-item-description",
+        text: "打开一篇 Markdown 笔记以编辑其 Frontmatter。",
+      });
+      return;
+    }
+
+    const frontmatter = this.readFrontmatter(file);
+    const match = this.resolvePreset(file, frontmatter);
+    // 对象类型的值无法在表单中编辑，写回会被转换为字符串，改为只读显示
+    const structuredKeys = (match?.preset.fields ?? [])
+      .map((field) => field.key)
+      .filter((key) => isStructuredFrontmatterValue(frontmatter[key]));
+    this.preset = match
+      ? {
+          ...match.preset,
+          fields: match.preset.fields.filter(
+            (field) => !structuredKeys.includes(field.key)
+          ),
+        }
+      : null;
+
+    const headerEl = contentEl.createDiv("note-architect-panel__header");
+    headerEl.createEl("div", {
+      cls: "note-architect-panel__title",
+      text: file.basename,
+    });
+    this.renderPresetSelector(headerEl, file);
+    headerEl.createEl("small", {
+      cls: "setting-item-description",
+      text: match
+        ? `预设：${match.preset.name} · ${PRESET_SOURCE_LABELS[match.source]}`
+        : "未找到匹配的预设，可在上方手动选择。",
+    });
+    this.statusEl = headerEl.createEl("small", {
+      cls: "setting-item-description note-architect-panel__status",
+    });
+
+    if (this.preset) {
+      this.renderForm(
+        contentEl.createDiv("note-architect-panel__form"),
+        this.preset,
+        frontmatter
+      );
+    }
+    this.renderReadOnlyFields(
+      contentEl,
+      "无法在表单中编辑的字段",
+      structuredKeys,
+      frontmatter
+    );
+    const presetKeys = new Set(
+      match?.preset.fields.map((field) => field.key) ?? []
+    );
+    this.renderReadOnlyFields(
+      contentEl,
+      match ? "预设以外的字段" : "笔记中的字段",
+      Object.keys(frontmatter).filter((key) => !presetKeys.has(key)),
+      frontmatter
+    );
+  }
+
+  private renderPresetSelector(container: HTMLElement, file: TFile): void {
+    const dropdown = new DropdownComponent(container);
+    dropdown.selectEl.addClass("note-architect-panel__preset-select");
+    dropdown.addOption("", "自动匹配预设");
+    this.plugin.presetManager.getPresets().forEach((preset) => {
+      dropdown.addOption(preset.id, preset.name);
+    });
+    dropdown.setValue(this.manualPresetIds.get(file.path) ?? "");
+    dropdown.onChange((presetId) => {
+      this.scheduleSave.flush();
+      if (presetId) {
+        this.manualPresetIds.set(file.path, presetId);
+      } else {
+        this.manualPresetIds.delete(file.path);
+      }
+      this.dirtyKeys.clear();
+      this.render();
+    });
+  }
+
+  private renderForm(
+    containerEl: HTMLElement,
+    preset: FrontmatterPreset,
+    frontmatter: Record<string, unknown>
+  ): void {
+    const initialData = convertFrontmatterToFormData(preset, frontmatter);
+    const formState = new FrontmatterFormState(
+      preset,
+      this.plugin.presetManager
+    );
+    formState.initialize(initialData);
+
+    const syncView = () => {
+      this.formView?.refreshDependentFields(formState.getEffectiveData());
+      this.formView?.applyVisibility(formState.getVisibleFieldKeys());
+      this.formView?.displayErrors(formState.getErrors());
+      this.formView?.displayWarnings(formState.getWarnings());
+    };
+
+    this.formState = formState;
+    this.formView = new FrontmatterFormView({
+      app: this.app,
+      containerEl,
+      preset,
+      initialData: { ...initialData },
+      fallbackDateFormat: getFieldDateFormatFallback(this.plugin.settings),
+      onFieldChange: (key, value) => {
+        // 渲染后同步多选数据时值不变，不视为修改
+        const previous = formState.getData()[key];
+        if (areFrontmattersEqual({ [key]: previous }, { [key]: value })) {
+          return;
+        }
+        formState.setFieldValue(key, value, true);
+        syncView();
+        this.dirtyKeys.add(key);
+        this.statusEl?.setText("有未保存的修改…");
+        this.scheduleSave();
+      },
+      onFieldBlur: (key) => {
+        formState.setFieldTouched(key);
+        syncView();
+      },
+      onMultiSelectChange: (key) => {
+        formState.setFieldTouched(key);
+        syncView();
+      },
+    });
+    this.formView.render();
+    syncView();
+  }
+
+  /**
+   * 只读显示笔记中的字段（预设以外的字段或无法在表单中编辑的字段）
+   */
+  private renderReadOnlyFields(
+    container: HTMLElement,
+    title: string,
+    keys: string[],
+    frontmatter: Record<string, unknown>
+  ): void {
+    if (keys.length === 0) {
+      return;
+    }
+
+    const sectionEl = container.createDiv("note-architect-panel__extra");
+    sectionEl.createEl("div", {
+      cls: "note-architect-panel__extra-title",
+      text: title,
+    });
+    keys.forEach((key) => {
+      const rowEl = sectionEl.createDiv("note-architect-panel__extra-item");
+      rowEl.createEl("span", {
+        cls: "note-architect-panel__extra-key",
+        text: key,
+      });
+      rowEl.createEl("code", {
+        cls: "note-architect-panel__extra-value",
+        text: this.formatExtraValue(frontmatter[key]),
+      });
+    });
+  }
+
+  private formatExtraValue(value: unknown): string {
+    if (value === undefined || value === null) {
+      return "";
+    }
+    if (Array.isArray(value)) {
+      return value
+        .map((item) =>
+          typeof item === "object" && item !== null
+            ? JSON.stringify(item)
+            : String(item)
+        )
+        .join(", ");
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * 校验并写回已修改的字段；存在无效字段时暂不保存，等待用户修正
+   */
+  private async saveChanges(): Promise<void> {
+    const { file, preset, formState } = this;
+    if (!file || !preset || !formState || this.dirtyKeys.size === 0) {
+      return;
+    }
+
+    // 只校验和转换已修改的字段，笔记中其他字段的原有值不影响保存
+    const dirtyKeys = Array.from(this.dirtyKeys);
+    const invalidKeys = dirtyKeys.filter(
+      (key) => (formState.validateField(key).fieldErrors[key] ?? []).length > 0
+    );
+    if (invalidKeys.length > 0) {
+      this.formView?.displayErrors(formState.getErrors());
+      this.statusEl?.setText("存在无效字段，修改尚未保存。");
+      return;
+    }
+
+    try {
+      const converted = convertFormDataToFrontmatter(
+        {
+          ...preset,
+          fields: preset.fields.filter((field) =>
+            dirtyKeys.includes(field.key)
+          ),
+        },
+        formState.getEffectiveData(),
+        undefined,
+        getFieldDateFormatFallback(this.plugin.settings)
+      );
+      this.dirtyKeys.clear();
+      const state = { before: "", after: "" };
+      await this.app.vault.process(file, (content) => {
+        const result = updateFrontmatter(content, (frontmatter) => {
+          dirtyKeys
+            .filter((key) => Object.prototype.hasOwnProperty.call(converted, key))
+            .forEach((key) => {
+              frontmatter[key] = converted[key];
+            });
+          return frontmatter;
+        });
+        state.before = content;
+        state.after = result.content;
+        this.lastWrittenContent = result.content;
+        return result.content;
+      });
+      await this.plugin.operationJournal.record(
+        "update-frontmatter",
+        `在面板中更新 "${file.basename}" 的 Frontmatter`,
+        [{ path: file.path, before: state.before, after: state.after }]
+      );
+      if (file === this.file) {
+        this.statusEl?.setText("已保存");
+      }
+    } catch (error) {
+      handleError(error, {
+        context: "FrontmatterPanelView.saveChanges",
+        userMessage: "保存 Frontmatter 失败，请稍后重试。",
+      });
+      if (file === this.file) {
+        this.statusEl?.setText("保存失败");
+      }
+    }
+  }
+
+  private destroyForm(): void {
+    this.formView?.destroy();
+    this.formView = undefined;
+    this.formState = undefined;
+    this.statusEl = undefined;
+  }
+}
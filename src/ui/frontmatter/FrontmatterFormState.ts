@@ -1,5 +1,7 @@
 import type { FrontmatterPreset, FrontmatterField } from '@types';
 import type { PresetManager } from '@presets';
+import { getVisibleFieldKeys } from '@utils/frontmatter/visibility';
+import { getDependentFields, resolveFieldOptions } from '@utils/frontmatter/options';
 
 /**
  * 表单验证结果
@@ -8,6 +10,8 @@ export interface FormValidationResult {
 	isValid: boolean;
 	errors: string[];
 	fieldErrors: Record<string, string[]>;
+	warnings?: string[];
+	fieldWarnings?: Record<string, string[]>;
 }
 
 /**
@@ -39,6 +43,11 @@ export class FrontmatterFormState {
 	 */
 	private currentFieldErrors: Record<string, string[]> = {};
 
+	/**
+	 * 字段验证警告映射（不阻止提交）
+	 */
+	private currentFieldWarnings: Record<string, string[]> = {};
+
 	/**
 	 * 解析后的默认值映射（Templater 处理后）
 	 */
@@ -71,6 +80,7 @@ export class FrontmatterFormState {
 		this.formData = { ...initialData };
 		this.touchedFieldKeys.clear();
 		this.currentFieldErrors = {};
+		this.currentFieldWarnings = {};
 	}
 
 	/**
@@ -85,11 +95,15 @@ export class FrontmatterFormState {
 		}
 
 		this.formData[key] = value;
+		this.clearInvalidDependentValues(key);
 
 		// 立即验证该字段（如果启用）
 		if (shouldValidate) {
 			this.validateField(key);
 		}
+
+		// 其他字段可能因显示条件变化而隐藏，清理其残留错误
+		this.pruneHiddenFieldFeedback();
 	}
 
 	/**
@@ -115,8 +129,14 @@ export class FrontmatterFormState {
 	 * @returns 验证结果
 	 */
 	public validate(): FormValidationResult {
-		const result = this.presetManager.validateFormData(this.currentPreset, this.formData);
+		const visibleKeys = this.getVisibleFieldKeys();
+		const visiblePreset = {
+			...this.currentPreset,
+			fields: this.currentPreset.fields.filter(field => visibleKeys.has(field.key))
+		};
+		const result = this.presetManager.validateFormData(visiblePreset, this.getEffectiveData());
 		this.currentFieldErrors = result.fieldErrors;
+		this.currentFieldWarnings = result.fieldWarnings ?? {};
 		return result;
 	}
 
@@ -130,8 +150,15 @@ export class FrontmatterFormState {
 			return { isValid: true, errors: [], fieldErrors: {} };
 		}
 
+		// 隐藏字段不参与验证
+		if (!this.isFieldVisible(key)) {
+			delete this.currentFieldErrors[key];
+			delete this.currentFieldWarnings[key];
+			return { isValid: true, errors: [], fieldErrors: {} };
+		}
+
 		// 临时创建一个只包含当前字段的 formData 进行验证
-		const fieldValue = this.formData[key];
+		const fieldValue = this.formData[key] ?? this.resolvedDefaults.get(key);
 		const tempFormData = { [key]: fieldValue };
 
 		const result = this.presetManager.validateFormData(this.currentPreset, tempFormData);
@@ -145,6 +172,12 @@ export class FrontmatterFormState {
 			}
 		}
 
+		if (result?.fieldWarnings?.[key]) {
+			this.currentFieldWarnings[key] = result.fieldWarnings[key];
+		} else {
+			delete this.currentFieldWarnings[key];
+		}
+
 		return result;
 	}
 
@@ -156,6 +189,90 @@ export class FrontmatterFormState {
 		return { ...this.formData };
 	}
 
+	/**
+	 * 获取生效数据：未填写的字段回退到解析后的默认值，
+	 * 与提交时 convertFormDataToFrontmatter 的取值规则保持一致
+	 */
+	public getEffectiveData(): Record<string, unknown> {
+		const data: Record<string, unknown> = {};
+		this.resolvedDefaults.forEach((value, key) => {
+			data[key] = value;
+		});
+		Object.entries(this.formData).forEach(([key, value]) => {
+			if (value !== undefined && value !== null) {
+				data[key] = value;
+			}
+		});
+		return data;
+	}
+
+	/**
+	 * 根据显示条件计算当前可见的字段键集合
+	 * @returns 可见字段键集合
+	 */
+	public getVisibleFieldKeys(): Set<string> {
+		return getVisibleFieldKeys(this.currentPreset.fields, this.getEffectiveData());
+	}
+
+	/**
+	 * 检查字段在当前数据下是否可见
+	 * @param key 字段键
+	 * @returns 是否可见
+	 */
+	public isFieldVisible(key: string): boolean {
+		return this.getVisibleFieldKeys().has(key);
+	}
+
+	/**
+	 * 父字段变化后，清除子字段中不再属于可选项的值（逐级向下传递）
+	 * @param parentKey 发生变化的父字段键
+	 */
+	private clearInvalidDependentValues(parentKey: string, visited: Set<string> = new Set()): void {
+		visited.add(parentKey);
+		const data = this.getEffectiveData();
+
+		getDependentFields(this.currentPreset.fields, parentKey).forEach(child => {
+			if (visited.has(child.key)) {
+				return;
+			}
+
+			const allowed = new Set(resolveFieldOptions(child, data));
+			const currentValue = data[child.key];
+
+			if (child.type === 'multi-select') {
+				const values = Array.isArray(currentValue) ? currentValue.map(item => String(item)) : [];
+				const retained = values.filter(item => allowed.has(item));
+				if (retained.length !== values.length) {
+					this.formData[child.key] = retained;
+				}
+			} else {
+				const value = typeof currentValue === 'string' ? currentValue.trim() : '';
+				if (value && !allowed.has(value)) {
+					this.formData[child.key] = '';
+				}
+			}
+
+			this.clearInvalidDependentValues(child.key, visited);
+		});
+	}
+
+	/**
+	 * 清理隐藏字段的错误与警告
+	 */
+	private pruneHiddenFieldFeedback(): void {
+		const visibleKeys = this.getVisibleFieldKeys();
+		Object.keys(this.currentFieldErrors).forEach(key => {
+			if (!visibleKeys.has(key)) {
+				delete this.currentFieldErrors[key];
+			}
+		});
+		Object.keys(this.currentFieldWarnings).forEach(key => {
+			if (!visibleKeys.has(key)) {
+				delete this.currentFieldWarnings[key];
+			}
+		});
+	}
+
 	/**
 	 * 获取当前验证错误
 	 * @returns 错误映射的副本
@@ -164,6 +281,14 @@ export class FrontmatterFormState {
 		return { ...this.currentFieldErrors };
 	}
 
+	/**
+	 * 获取当前验证警告
+	 * @returns 警告映射的副本
+	 */
+	public getWarnings(): Record<string, string[]> {
+		return { ...this.currentFieldWarnings };
+	}
+
 	/**
 	 * 获取已触摸字段的键集合
 	 * @returns 字段键集合的副本
@@ -208,6 +333,7 @@ export class FrontmatterFormState {
 		this.formData = {};
 		this.touchedFieldKeys.clear();
 		this.currentFieldErrors = {};
+		this.currentFieldWarnings = {};
 		this.resolvedDefaults.clear();
 		this.templaterDefaultsSkipped.clear();
 	}
@@ -281,6 +407,7 @@ export class FrontmatterFormState {
 	 */
 	public clearAllErrors(): void {
 		this.currentFieldErrors = {};
+		this.currentFieldWarnings = {};
 	}
 
 	/**
@@ -1,14 +1,44 @@
+import type { App } from "obsidian";
 import type { FrontmatterPreset, FrontmatterField } from "@types";
 import { normalizeStringArray } from "@utils/data-transformer";
+import {
+  DATE_PICKER_FORMATS,
+  formatDateValue,
+  isDateFieldType,
+  parseDateValue,
+  resolveDateFormat,
+  resolveDateInput,
+  toDatePickerValue,
+  type DateFieldType,
+} from "@utils/frontmatter/date";
+import { parseBooleanValue } from "@utils/frontmatter/field";
+import { stripWikilink } from "@utils/frontmatter/link";
+import {
+  getAllFieldOptions,
+  isDependentField,
+  resolveFieldOptions,
+} from "@utils/frontmatter/options";
 import { createMultiSelectCheckbox } from "@ui/ui-utils";
+import { LinkSuggest } from "./LinkSuggest";
+
+const DATE_INPUT_TYPES: Record<DateFieldType, string> = {
+  date: "date",
+  datetime: "datetime-local",
+  time: "time",
+};
+
+const WEEKDAY_LABELS = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
 
 /**
  * 表单视图选项接口
  */
 export interface FormViewOptions {
+  app?: App;
   containerEl: HTMLElement;
   preset: FrontmatterPreset;
   initialData: Record<string, unknown>;
+  // 日期字段未声明格式时使用的格式（见 getFieldDateFormatFallback），用于解析已有值与输入
+  fallbackDateFormat?: string;
   onFieldChange: (key: string, value: unknown) => void;
   onFieldBlur?: (key: string) => void;
   onMultiSelectChange?: (key: string) => void;
@@ -25,11 +55,14 @@ export interface FormViewOptions {
 export class FrontmatterFormView {
   private readonly options: FormViewOptions;
   private readonly multiSelectFieldRefs: Map<string, HTMLElement> = new Map();
+  private readonly dependentOptionSignatures: Map<string, string> = new Map();
   private readonly fieldContainerRefs: Map<string, HTMLElement> = new Map();
   private readonly fieldErrorRefs: Map<string, HTMLElement> = new Map();
+  private readonly fieldWarningRefs: Map<string, HTMLElement> = new Map();
   private readonly fieldInputRefs: Map<string, HTMLElement> = new Map();
   private touchedFieldKeys: Set<string> = new Set();
   private currentFieldErrors: Record<string, string[]> = {};
+  private currentFieldWarnings: Record<string, string[]> = {};
   private resolvedDefaults: Map<string, string | string[]> = new Map();
   private templaterDefaultsSkipped: Set<string> = new Set();
   private isLoading = false;
@@ -64,8 +97,10 @@ export class FrontmatterFormView {
     // 清空容器
     containerEl.empty();
     this.multiSelectFieldRefs.clear();
+    this.dependentOptionSignatures.clear();
     this.fieldContainerRefs.clear();
     this.fieldErrorRefs.clear();
+    this.fieldWarningRefs.clear();
     this.fieldInputRefs.clear();
     this.touchedFieldKeys.clear();
 
@@ -99,10 +134,17 @@ export class FrontmatterFormView {
     this.fieldContainerRefs.set(field.key, fieldContainer);
 
     // 字段标签
-    fieldContainer.createEl("label", {
+    const labelEl = fieldContainer.createEl("label", {
       text: `${field.label}:`,
       cls: "note-architect-form-label",
     });
+    if (field.required) {
+      labelEl.createSpan({
+        text: "*",
+        cls: "note-architect-form-required",
+        attr: { "aria-label": "必填" },
+      });
+    }
 
     // 获取解析后的默认值
     const resolvedDefault = this.getResolvedDefault(field);
@@ -110,8 +152,10 @@ export class FrontmatterFormView {
       field.key
     );
     const isTemplaterAutofill =
-      field.type === "date" && field.useTemplaterTimestamp === true;
-    const allowedOptions = this.buildAllowedOptionsSet(field.options);
+      isDateFieldType(field.type) && field.useTemplaterTimestamp === true;
+    const allowedOptions = this.buildAllowedOptionsSet(
+      getAllFieldOptions(field)
+    );
 
     // 初始化数据
     if (!(field.key in initialData)) {
@@ -120,6 +164,12 @@ export class FrontmatterFormView {
           resolvedDefault,
           allowedOptions
         );
+      } else if (field.type === "boolean") {
+        initialData[field.key] = parseBooleanValue(resolvedDefault) ?? false;
+      } else if (field.type === "link") {
+        initialData[field.key] = field.multiple
+          ? normalizeStringArray(resolvedDefault).map(stripWikilink)
+          : stripWikilink(resolvedDefault);
       } else {
         initialData[field.key] =
           typeof resolvedDefault === "string" ? resolvedDefault : "";
@@ -171,17 +221,78 @@ export class FrontmatterFormView {
           break;
         }
 
-        case "date": {
+        case "date":
+        case "datetime": {
+          this.renderNaturalDateInput(fieldContainer, field, field.type);
+          break;
+        }
+
+        case "time": {
           const input = fieldContainer.createEl("input", {
-            type: "date",
+            type: DATE_INPUT_TYPES[field.type],
             cls: "note-architect-input-base note-architect-form-input",
           }) as HTMLInputElement;
           inputEl = input;
           this.fieldInputRefs.set(field.key, input);
+          input.value = toDatePickerValue(
+            initialData[field.key],
+            field.type,
+            resolveDateFormat(field, this.options.fallbackDateFormat)
+          );
+          break;
+        }
+
+        case "number": {
+          const input = fieldContainer.createEl("input", {
+            type: "number",
+            cls: "note-architect-input-base note-architect-form-input",
+          }) as HTMLInputElement;
+          if (typeof field.min === "number") {
+            input.min = String(field.min);
+          }
+          if (typeof field.max === "number") {
+            input.max = String(field.max);
+          }
+          if (typeof field.step === "number") {
+            input.step = String(field.step);
+          } else if (field.integerOnly) {
+            input.step = "1";
+          } else {
+            input.step = "any";
+          }
+          inputEl = input;
+          this.fieldInputRefs.set(field.key, input);
           input.value = this.coerceToString(initialData[field.key]);
           break;
         }
 
+        case "boolean": {
+          this.renderBooleanToggle(fieldContainer, field);
+          break;
+        }
+
+        case "link": {
+          if (field.multiple) {
+            this.renderMultiLinkInput(fieldContainer, field);
+            break;
+          }
+          const input = fieldContainer.createEl("input", {
+            type: "text",
+            cls: "note-architect-input-base note-architect-form-input",
+            placeholder: "输入以搜索笔记…",
+          }) as HTMLInputElement;
+          inputEl = input;
+          this.fieldInputRefs.set(field.key, input);
+          input.value = this.coerceToString(initialData[field.key]);
+          this.attachLinkSuggest(input, field, (linktext) => {
+            input.value = linktext;
+            onFieldChange(field.key, linktext);
+            this.touchedFieldKeys.add(field.key);
+            this.options.onFieldBlur?.(field.key);
+          });
+          break;
+        }
+
         case "select": {
           const selectEl = fieldContainer.createEl("select", {
             cls: "note-architect-input-base note-architect-form-select",
@@ -189,27 +300,11 @@ export class FrontmatterFormView {
           inputEl = selectEl;
           this.fieldInputRefs.set(field.key, selectEl);
 
-          selectEl.createEl("option", {
-            value: "",
-            text: "请选择...",
-          });
-
-          if (field.options) {
-            field.options.forEach((option) => {
-              selectEl.createEl("option", {
-                value: option,
-                text: option,
-              });
-            });
-          }
-
-          const currentValue = this.coerceToString(initialData[field.key]);
-          const matchingOption = Array.from(selectEl.options).find(
-            (option) => option.value === currentValue
+          this.populateSelectOptions(
+            selectEl,
+            resolveFieldOptions(field, initialData),
+            this.coerceToString(initialData[field.key])
           );
-          if (matchingOption) {
-            selectEl.value = currentValue;
-          }
           break;
         }
 
@@ -225,29 +320,12 @@ export class FrontmatterFormView {
           );
           initialData[field.key] = currentSelection;
 
-          if (field.options && field.options.length > 0) {
-            field.options.forEach((option) => {
-              createMultiSelectCheckbox(
-                multiSelectContainer,
-                option,
-                currentSelection.includes(option.trim()),
-                () => {
-                  this.collectMultiSelectData();
-                  this.touchedFieldKeys.add(field.key);
-                  this.options.onMultiSelectChange?.(field.key);
-                },
-                {
-                  labelClass: "note-architect-checkbox-label",
-                  enableIsCheckedStyle: true,
-                }
-              );
-            });
-          } else {
-            multiSelectContainer.createEl("small", {
-              text: "暂无可用选项",
-              cls: "setting-item-description",
-            });
-          }
+          this.renderMultiSelectOptions(
+            multiSelectContainer,
+            field,
+            resolveFieldOptions(field, initialData),
+            currentSelection
+          );
           break;
         }
 
@@ -267,7 +345,9 @@ export class FrontmatterFormView {
       if (
         inputEl &&
         (field.type === "text" ||
-          field.type === "date" ||
+          isDateFieldType(field.type) ||
+          field.type === "number" ||
+          field.type === "link" ||
           field.type === "select")
       ) {
         if (field.type === "select") {
@@ -306,22 +386,341 @@ export class FrontmatterFormView {
     errorEl.setAttr("role", "alert");
     this.fieldErrorRefs.set(field.key, errorEl);
 
+    // 警告提示元素（不阻止提交）
+    const warningEl = fieldContainer.createDiv(
+      "note-architect-form-warning is-hidden"
+    );
+    this.fieldWarningRefs.set(field.key, warningEl);
+
     // 应用当前错误状态
     this.updateFieldErrorUI(field.key);
   }
 
+  /**
+   * 渲染布尔字段的开关控件（沿用 Obsidian 原生 checkbox-container 样式）
+   * @param fieldContainer 字段容器
+   * @param field 字段定义
+   */
+  private renderBooleanToggle(
+    fieldContainer: HTMLElement,
+    field: FrontmatterField
+  ): void {
+    const { initialData, onFieldChange } = this.options;
+    const toggleEl = fieldContainer.createDiv(
+      "checkbox-container note-architect-form-toggle"
+    );
+    toggleEl.setAttr("role", "switch");
+    toggleEl.setAttr("tabindex", "0");
+    const checkbox = toggleEl.createEl("input", {
+      type: "checkbox",
+    }) as HTMLInputElement;
+    this.fieldInputRefs.set(field.key, toggleEl);
+
+    const applyState = (enabled: boolean) => {
+      checkbox.checked = enabled;
+      toggleEl.toggleClass("is-enabled", enabled);
+      toggleEl.setAttr("aria-checked", enabled ? "true" : "false");
+    };
+    applyState(initialData[field.key] === true);
+
+    const toggle = () => {
+      const nextValue = !checkbox.checked;
+      applyState(nextValue);
+      onFieldChange(field.key, nextValue);
+      this.touchedFieldKeys.add(field.key);
+      this.options.onFieldBlur?.(field.key);
+    };
+
+    toggleEl.addEventListener("click", (event) => {
+      event.preventDefault();
+      toggle();
+    });
+    toggleEl.addEventListener("keydown", (event) => {
+      if (event.key === " " || event.key === "Enter") {
+        event.preventDefault();
+        toggle();
+      }
+    });
+  }
+
+  /**
+   * 渲染日期字段：文本框支持自然语言（如“明天”“next friday”“+3d”），
+   * 下方实时预览解析结果，旁边保留原生日期选择器
+   * @param fieldContainer 字段容器
+   * @param field 字段定义
+   * @param type 日期字段类型
+   */
+  private renderNaturalDateInput(
+    fieldContainer: HTMLElement,
+    field: FrontmatterField,
+    type: Exclude<DateFieldType, "time">
+  ): void {
+    const { initialData, onFieldChange } = this.options;
+    const format = resolveDateFormat(field, this.options.fallbackDateFormat);
+    const wrapper = fieldContainer.createDiv("note-architect-natural-date");
+    const input = wrapper.createEl("input", {
+      type: "text",
+      cls: "note-architect-input-base note-architect-form-input",
+      placeholder: "如 2026-10-19、明天、next friday、+3d",
+    }) as HTMLInputElement;
+    const picker = wrapper.createEl("input", {
+      type: DATE_INPUT_TYPES[type],
+      cls: "note-architect-input-base note-architect-natural-date__picker",
+      attr: { "aria-label": "选择日期" },
+    }) as HTMLInputElement;
+    const previewEl = fieldContainer.createEl("small", {
+      cls: "setting-item-description note-architect-natural-date__preview",
+    });
+    this.fieldInputRefs.set(field.key, input);
+
+    const updatePreview = (raw: string): string | null => {
+      const text = raw.trim();
+      const resolved = text ? resolveDateInput(text, type, format) : null;
+      const parsed =
+        resolved === null ? null : parseDateValue(resolved, type, format);
+      if (parsed) {
+        picker.value = parsed.format(DATE_PICKER_FORMATS[type]);
+      }
+      if (!text) {
+        previewEl.setText("");
+      } else if (parsed) {
+        previewEl.setText(`→ ${resolved}（${WEEKDAY_LABELS[parsed.day()]}）`);
+      } else {
+        previewEl.setText("无法识别的日期");
+      }
+      previewEl.toggleClass(
+        "note-architect-natural-date__preview--invalid",
+        Boolean(text) && !parsed
+      );
+      return resolved;
+    };
+
+    input.value = this.coerceToString(initialData[field.key]);
+    updatePreview(input.value);
+
+    input.addEventListener("input", () => {
+      const resolved = updatePreview(input.value);
+      onFieldChange(field.key, resolved ?? input.value);
+    });
+    input.addEventListener("blur", () => {
+      this.touchedFieldKeys.add(field.key);
+      this.options.onFieldBlur?.(field.key);
+    });
+    picker.addEventListener("change", () => {
+      const formatted = formatDateValue(picker.value, type, format) ?? "";
+      input.value = formatted;
+      updatePreview(formatted);
+      onFieldChange(field.key, formatted);
+      this.touchedFieldKeys.add(field.key);
+      this.options.onFieldBlur?.(field.key);
+    });
+  }
+
+  /**
+   * 渲染多值链接字段：已选链接以标签展示，输入框用于搜索并追加
+   * @param fieldContainer 字段容器
+   * @param field 字段定义
+   */
+  private renderMultiLinkInput(
+    fieldContainer: HTMLElement,
+    field: FrontmatterField
+  ): void {
+    const { initialData, onFieldChange } = this.options;
+    const wrapper = fieldContainer.createDiv("note-architect-link-list");
+    const chipsEl = wrapper.createDiv("note-architect-link-list__items");
+    const input = wrapper.createEl("input", {
+      type: "text",
+      cls: "note-architect-input-base note-architect-form-input",
+      placeholder: "输入以搜索笔记，回车添加…",
+    }) as HTMLInputElement;
+    this.fieldInputRefs.set(field.key, input);
+
+    const links = normalizeStringArray(initialData[field.key]);
+
+    const commit = () => {
+      onFieldChange(field.key, [...links]);
+      this.touchedFieldKeys.add(field.key);
+      this.options.onFieldBlur?.(field.key);
+    };
+
+    const renderChips = () => {
+      chipsEl.empty();
+      links.forEach((link, index) => {
+        const chip = chipsEl.createSpan({
+          cls: "note-architect-link-list__item",
+          text: link,
+        });
+        const removeBtn = chip.createEl("button", {
+          text: "×",
+          cls: "note-architect-link-list__remove",
+          attr: { "aria-label": `移除 ${link}` },
+        });
+        removeBtn.addEventListener("click", (event) => {
+          event.preventDefault();
+          links.splice(index, 1);
+          renderChips();
+          commit();
+        });
+      });
+    };
+
+    const addLink = (rawValue: string) => {
+      const linktext = stripWikilink(rawValue);
+      input.value = "";
+      if (!linktext || links.includes(linktext)) {
+        return;
+      }
+      links.push(linktext);
+      renderChips();
+      commit();
+    };
+
+    renderChips();
+    this.attachLinkSuggest(input, field, addLink);
+    input.addEventListener("keydown", (event) => {
+      if (event.key === "Enter" && input.value.trim()) {
+        event.preventDefault();
+        addLink(input.value);
+      }
+    });
+  }
+
+  /**
+   * 为输入框挂载笔记补全（未提供 App 时跳过）
+   */
+  private attachLinkSuggest(
+    input: HTMLInputElement,
+    field: FrontmatterField,
+    onChoose: (linktext: string) => void
+  ): void {
+    if (!this.options.app) {
+      return;
+    }
+    new LinkSuggest(this.options.app, input, field, onChoose);
+  }
+
+  /**
+   * 填充下拉框选项，当前值不在选项中时保持未选择
+   * @param selectEl 下拉框元素
+   * @param options 可选项
+   * @param currentValue 当前值
+   */
+  private populateSelectOptions(
+    selectEl: HTMLSelectElement,
+    options: string[],
+    currentValue: string
+  ): void {
+    selectEl.empty();
+    selectEl.createEl("option", {
+      value: "",
+      text: "请选择...",
+    });
+
+    options.forEach((option) => {
+      selectEl.createEl("option", {
+        value: option,
+        text: option,
+      });
+    });
+
+    selectEl.value = options.includes(currentValue) ? currentValue : "";
+  }
+
+  /**
+   * 渲染多选框选项
+   * @param container 多选容器
+   * @param field 字段定义
+   * @param options 可选项
+   * @param selection 当前已选值
+   */
+  private renderMultiSelectOptions(
+    container: HTMLElement,
+    field: FrontmatterField,
+    options: string[],
+    selection: string[]
+  ): void {
+    container.empty();
+
+    if (options.length === 0) {
+      container.createEl("small", {
+        text: "暂无可用选项",
+        cls: "setting-item-description",
+      });
+      return;
+    }
+
+    options.forEach((option) => {
+      createMultiSelectCheckbox(
+        container,
+        option,
+        selection.includes(option.trim()),
+        () => {
+          this.collectMultiSelectData();
+          this.touchedFieldKeys.add(field.key);
+          this.options.onMultiSelectChange?.(field.key);
+        },
+        {
+          labelClass: "note-architect-checkbox-label",
+          enableIsCheckedStyle: true,
+        }
+      );
+    });
+  }
+
+  /**
+   * 根据父字段的当前取值刷新级联字段的选项
+   * @param data 当前生效的表单数据
+   */
+  refreshDependentFields(data: Record<string, unknown>): void {
+    this.options.preset.fields.filter(isDependentField).forEach((field) => {
+      const options = resolveFieldOptions(field, data);
+      const signature = options.join("\n");
+      if (this.dependentOptionSignatures.get(field.key) === signature) {
+        return;
+      }
+      this.dependentOptionSignatures.set(field.key, signature);
+
+      if (field.type === "select") {
+        const selectEl = this.fieldInputRefs.get(field.key);
+        if (selectEl instanceof HTMLSelectElement) {
+          this.populateSelectOptions(
+            selectEl,
+            options,
+            this.coerceToString(data[field.key])
+          );
+        }
+        return;
+      }
+
+      const container = this.multiSelectFieldRefs.get(field.key);
+      if (container) {
+        this.renderMultiSelectOptions(
+          container,
+          field,
+          options,
+          normalizeStringArray(data[field.key])
+        );
+      }
+    });
+  }
+
   /**
    * 获取解析后的默认值
    * @param field 字段
    * @returns 解析后的默认值
    */
   private getResolvedDefault(field: FrontmatterField): string | string[] {
-    const allowedOptions = this.buildAllowedOptionsSet(field.options);
+    const allowedOptions = this.buildAllowedOptionsSet(
+      getAllFieldOptions(field)
+    );
     if (this.resolvedDefaults.has(field.key)) {
       const stored = this.resolvedDefaults.get(field.key);
       if (field.type === "multi-select") {
         return normalizeStringArray(stored, allowedOptions);
       }
+      if (field.type === "link" && field.multiple) {
+        return normalizeStringArray(stored);
+      }
       return this.coerceToString(stored);
     }
 
@@ -329,6 +728,10 @@ export class FrontmatterFormView {
       return normalizeStringArray(field.default, allowedOptions);
     }
 
+    if (field.type === "link" && field.multiple) {
+      return normalizeStringArray(field.default);
+    }
+
     return this.coerceToString(field.default);
   }
 
@@ -398,6 +801,33 @@ export class FrontmatterFormView {
     this.applyFieldErrors();
   }
 
+  /**
+   * 根据显示条件切换字段容器的可见性
+   * @param visibleKeys 当前可见的字段键集合
+   */
+  applyVisibility(visibleKeys: Set<string>): void {
+    for (const [fieldKey, container] of this.fieldContainerRefs.entries()) {
+      const isVisible = visibleKeys.has(fieldKey);
+      container.toggleClass("note-architect-form-field--hidden", !isVisible);
+      container.setAttr("aria-hidden", isVisible ? "false" : "true");
+    }
+  }
+
+  /**
+   * 显示或隐藏字段警告（如链接的笔记不存在）
+   * @param fieldWarnings 警告映射
+   */
+  displayWarnings(fieldWarnings: Record<string, string[]>): void {
+    this.currentFieldWarnings = fieldWarnings;
+    for (const [fieldKey, warningEl] of this.fieldWarningRefs.entries()) {
+      const messages = this.currentFieldWarnings[fieldKey] ?? [];
+      const hasWarnings =
+        this.touchedFieldKeys.has(fieldKey) && messages.length > 0;
+      warningEl.setText(hasWarnings ? messages.join(" ") : "");
+      warningEl.toggleClass("is-hidden", !hasWarnings);
+    }
+  }
+
   /**
    * 应用错误状态
    */
@@ -466,8 +896,10 @@ export class FrontmatterFormView {
   destroy(): void {
     // 清理引用
     this.multiSelectFieldRefs.clear();
+    this.dependentOptionSignatures.clear();
     this.fieldContainerRefs.clear();
     this.fieldErrorRefs.clear();
+    this.fieldWarningRefs.clear();
     this.fieldInputRefs.clear();
     this.touchedFieldKeys.clear();
     this.resolvedDefaults.clear();
@@ -0,0 +1,63 @@
+import { AbstractInputSuggest } from "obsidian";
+import type { App, TFile } from "obsidian";
+import type { FrontmatterField } from "@types";
+import { fileHasTag, isFileInFolder } from "@utils/vault";
+
+const MAX_LINK_SUGGESTIONS = 50;
+
+/**
+ * LinkSuggest - 为链接字段提供库内笔记的输入补全
+ *
+ * 根据字段的 linkFolder / linkTag 配置限定候选范围，
+ * 选中后通过回调返回 Obsidian 生成的最短链接文本。
+ */
+export class LinkSuggest extends AbstractInputSuggest<TFile> {
+  constructor(
+    app: App,
+    inputEl: HTMLInputElement,
+    private readonly field: FrontmatterField,
+    private readonly onChoose: (linktext: string) => void
+  ) {
+    super(app, inputEl);
+    this.limit = MAX_LINK_SUGGESTIONS;
+  }
+
+  protected getSuggestions(query: string): TFile[] {
+    const normalizedQuery = query.trim().toLowerCase();
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => this.isWithinScope(file))
+      .filter(
+        (file) =>
+          !normalizedQuery ||
+          file.basename.toLowerCase().includes(normalizedQuery) ||
+          file.path.toLowerCase().includes(normalizedQuery)
+      )
+      .sort((a, b) => a.basename.localeCompare(b.basename));
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement): void {
+    el.createEl("div", { text: file.basename });
+    el.createEl("small", {
+      text: file.path,
+      cls: "note-architect-link-suggestion__path",
+    });
+  }
+
+  selectSuggestion(file: TFile): void {
+    const linktext = this.app.metadataCache.fileToLinktext(file, "");
+    this.onChoose(linktext);
+    this.close();
+  }
+
+  /**
+   * 判断文件是否满足字段配置的目录与标签限制
+   */
+  private isWithinScope(file: TFile): boolean {
+    const { linkFolder, linkTag } = this.field;
+    if (linkFolder && !isFileInFolder(file, linkFolder)) {
+      return false;
+    }
+    return !linkTag || fileHasTag(this.app, file, linkTag);
+  }
+}
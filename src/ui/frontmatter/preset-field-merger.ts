@@ -1,47 +1,11 @@
 import type { FrontmatterField, FrontmatterPreset } from '@types';
+import { mergeTagsOptions, upgradeTagsToMultiSelect } from '@utils/frontmatter/tags';
 
 export interface OrderedField {
   field: FrontmatterField;
   order: number;
 }
 
-/**
- * 將 tags 欄位升級為 multi-select，並複製必要屬性避免修改原始預設
- */
-export function upgradeTagsToMultiSelect(field: FrontmatterField): FrontmatterField {
-  return {
-    ...field,
-    type: 'multi-select',
-    options: field.options ? [...field.options] : [],
-  };
-}
-
-/**
- * 合併 tags 欄位的選項並去重，保留原始順序
- */
-export function mergeTagsOptions(
-  existingOptions: string[] | undefined,
-  incomingOptions: string[] | undefined,
-): string[] {
-  const result: string[] = [];
-  const seen = new Set<string>();
-
-  const append = (options?: string[]) => {
-    if (!options) return;
-    for (const option of options) {
-      const trimmed = option.trim();
-      if (!trimmed || seen.has(trimmed)) continue;
-      seen.add(trimmed);
-      result.push(trimmed);
-    }
-  };
-
-  append(existingOptions);
-  append(incomingOptions);
-
-  return result;
-}
-
 /**
  * 合併多個 tags 欄位定義，統一升級為 multi-select
  */
@@ -4,4 +4,17 @@ export { FieldConfigModal } from "./field-config-modal";
 export { CreatePresetModal } from "./create-preset-modal";
 export { NoteArchitectSettingTab } from "./note-architect-setting-tab";
 export { UniversalPresetSelectorModal } from "./universal-preset-selector-modal";
+export { BatchApplyModal } from "./batch-apply-modal";
+export { ComplianceAuditModal } from "./compliance-audit-modal";
+export { ProvenanceNotesModal } from "./provenance-notes-modal";
+export { PresetMigrationModal } from "./preset-migration-modal";
+export { InferPresetModal } from "./infer-preset-modal";
+export {
+  OperationHistoryModal,
+  revertOperationWithConfirm,
+} from "./operation-history-modal";
+export {
+  FrontmatterPanelView,
+  FRONTMATTER_PANEL_VIEW_TYPE,
+} from "./frontmatter-panel-view";
 export * from "./ui-utils";
@@ -0,0 +1,265 @@
+import {
+  App,
+  ButtonComponent,
+  Modal,
+  Setting,
+  TextComponent,
+} from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import type {
+  FrontmatterFieldType,
+  InferredFieldProposal,
+} from "@types";
+import { inferPresetFromNotes } from "@actions/infer-preset";
+import { convertInferredField } from "@presets/inference";
+import { handleError } from "@core/error";
+import { notifySuccess, notifyWarning } from "@utils/notify";
+
+type InferenceSourceType = "folder" | "tag";
+
+const TYPE_LABELS: Record<FrontmatterFieldType, string> = {
+  text: "文本",
+  select: "单选",
+  date: "日期",
+  datetime: "日期时间",
+  time: "时间",
+  "multi-select": "多选",
+  number: "数字",
+  boolean: "布尔",
+  link: "链接",
+};
+
+interface ProposalState {
+  proposal: InferredFieldProposal;
+  included: boolean;
+  type: FrontmatterFieldType;
+}
+
+/**
+ * 从现有笔记创建预设：扫描文件夹或标签下笔记的 frontmatter，审阅推断出的字段后创建预设
+ */
+export class InferPresetModal extends Modal {
+  private readonly plugin: NoteArchitect;
+  private source: InferenceSourceType = "folder";
+  private folder: string;
+  private tag = "";
+  private presetName = "";
+  private states: ProposalState[] = [];
+  private queryContainerEl?: HTMLElement;
+  private summaryEl?: HTMLElement;
+  private resultsEl?: HTMLElement;
+  private nameInput?: TextComponent;
+  private createButton?: ButtonComponent;
+
+  constructor(app: App, plugin: NoteArchitect, folder = "") {
+    super(app);
+    this.plugin = plugin;
+    this.folder = folder;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("从现有笔记创建预设");
+    this.modalEl.addClass("note-architect-infer-preset-modal");
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl("p", {
+      cls: "setting-item-description",
+      text: "统计所选笔记中各属性的出现频率并推断字段类型，审阅后再创建预设。",
+    });
+
+    new Setting(contentEl).setName("扫描范围").addDropdown((dropdown) => {
+      dropdown
+        .addOption("folder", "文件夹")
+        .addOption("tag", "标签")
+        .setValue(this.source)
+        .onChange((value) => {
+          this.source = value as InferenceSourceType;
+          this.renderQueryInput();
+        });
+    });
+    this.queryContainerEl = contentEl.createDiv();
+
+    new Setting(contentEl)
+      .setName("预设名称")
+      .addText((text) => {
+        this.nameInput = text
+          .setPlaceholder("例如：读书笔记")
+          .onChange((value) => {
+            this.presetName = value.trim();
+            this.updateCreateButton();
+          });
+      })
+      .addButton((button) =>
+        button.setButtonText("扫描笔记").onClick(() => this.runInference())
+      );
+
+    this.summaryEl = contentEl.createDiv("note-architect-compliance-summary");
+    this.resultsEl = contentEl.createDiv("note-architect-infer-results");
+
+    const actions = contentEl.createDiv("modal-button-container");
+    new ButtonComponent(actions)
+      .setButtonText("取消")
+      .onClick(() => this.close());
+    this.createButton = new ButtonComponent(actions)
+      .setButtonText("创建预设")
+      .setCta()
+      .setDisabled(true)
+      .onClick(() => void this.handleCreate());
+
+    this.renderQueryInput();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private renderQueryInput(): void {
+    const container = this.queryContainerEl;
+    if (!container) {
+      return;
+    }
+    container.empty();
+
+    if (this.source === "folder") {
+      new Setting(container)
+        .setName("文件夹")
+        .setDesc("包含子文件夹中的笔记，留空表示整个库")
+        .addText((text) =>
+          text
+            .setPlaceholder("例如：Reading")
+            .setValue(this.folder)
+            .onChange((value) => {
+              this.folder = value.trim().replace(/^\/+|\/+$/g, "");
+            })
+        );
+    } else {
+      new Setting(container)
+        .setName("标签")
+        .setDesc("包含嵌套子标签")
+        .addText((text) =>
+          text
+            .setPlaceholder("例如：book")
+            .setValue(this.tag)
+            .onChange((value) => {
+              this.tag = value.trim();
+            })
+        );
+    }
+  }
+
+  private runInference(): void {
+    try {
+      const result = inferPresetFromNotes(
+        this.app,
+        this.plugin,
+        this.source === "folder"
+          ? { type: "folder", folder: this.folder }
+          : { type: "tag", tag: this.tag }
+      );
+      this.states = result.proposals.map((proposal) => ({
+        proposal,
+        included: true,
+        type: proposal.field.type,
+      }));
+      if (result.total === 0) {
+        this.summaryEl?.setText("没有匹配的笔记。");
+      } else if (this.states.length === 0) {
+        this.summaryEl?.setText(
+          `扫描了 ${result.total} 篇笔记，没有出现频率足够高的属性。`
+        );
+      } else {
+        this.summaryEl?.setText(
+          `扫描了 ${result.total} 篇笔记，建议 ${this.states.length} 个字段`
+        );
+      }
+      if (!this.presetName) {
+        const suggested =
+          this.source === "folder"
+            ? this.folder.split("/").pop() ?? ""
+            : this.tag.replace(/^#/, "");
+        this.presetName = suggested;
+        this.nameInput?.setValue(suggested);
+      }
+      this.renderProposals();
+    } catch (error) {
+      handleError(error, {
+        context: "InferPresetModal.runInference",
+        userMessage: "扫描笔记失败。",
+      });
+    }
+  }
+
+  private renderProposals(): void {
+    const resultsEl = this.resultsEl;
+    if (!resultsEl) {
+      return;
+    }
+    resultsEl.empty();
+
+    this.states.forEach((state) => {
+      const { proposal } = state;
+      const percent = Math.round(proposal.frequency * 100);
+      const setting = new Setting(resultsEl)
+        .setName(proposal.key)
+        .setDesc(
+          `出现于 ${proposal.count} 篇笔记（${percent}%）` +
+            (proposal.samples.length > 0
+              ? `，示例：${proposal.samples.join(" / ")}`
+              : "")
+        )
+        .addDropdown((dropdown) => {
+          (Object.keys(TYPE_LABELS) as FrontmatterFieldType[]).forEach((type) =>
+            dropdown.addOption(type, TYPE_LABELS[type])
+          );
+          dropdown.setValue(state.type).onChange((value) => {
+            state.type = value as FrontmatterFieldType;
+          });
+        })
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("包含此字段")
+            .setValue(state.included)
+            .onChange((value) => {
+              state.included = value;
+              this.updateCreateButton();
+            })
+        );
+      setting.settingEl.addClass("note-architect-infer-proposal");
+    });
+
+    this.updateCreateButton();
+  }
+
+  private updateCreateButton(): void {
+    this.createButton?.setDisabled(
+      !this.presetName || !this.states.some((state) => state.included)
+    );
+  }
+
+  private async handleCreate(): Promise<void> {
+    const fields = this.states
+      .filter((state) => state.included)
+      .map((state) => convertInferredField(state.proposal, state.type));
+    if (!this.presetName || fields.length === 0) {
+      notifyWarning("请填写预设名称并至少保留一个字段。");
+      return;
+    }
+
+    try {
+      const preset = await this.plugin.presetManager.createPreset({
+        name: this.presetName,
+        fields,
+      });
+      notifySuccess(
+        `已创建预设 "${preset.name}"（ID: ${preset.id}），包含 ${fields.length} 个字段`
+      );
+      this.close();
+    } catch (error) {
+      handleError(error, {
+        context: "InferPresetModal.handleCreate",
+        userMessage: "创建预设失败。",
+      });
+    }
+  }
+}
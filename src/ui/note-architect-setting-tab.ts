@@ -3,11 +3,20 @@ import type NoteArchitect from "@core/plugin";
 import { SettingsManager } from "@settings";
 import { PresetManager } from "@presets";
 import { ObsidianTemplaterAdapter } from "@engine";
-import { DEFAULT_SETTINGS, type NoteArchitectSettings } from "@types";
+import {
+  DEFAULT_SETTINGS,
+  type FolderRuleMode,
+  type FolderTemplateRule,
+  type NoteArchitectSettings,
+  type PresetFileFormat,
+  type PresetStorageMode,
+} from "@types";
 import { renderStatusBlock } from "./ui-utils";
 import { withBusy } from "@utils/async-ui";
 import { PresetManagerComponent } from "./preset-manager-component";
 import { notifyInfo, notifySuccess, notifyWarning } from "@utils/notify";
+import { createFolderRuleId } from "@utils/folder-rules";
+import { NOTE_PROVENANCE_KEY } from "@core/constants";
 
 export class NoteArchitectSettingTab extends PluginSettingTab {
   plugin: NoteArchitect;
@@ -251,10 +260,16 @@ export class NoteArchitectSettingTab extends PluginSettingTab {
     this.renderTemplaterIntegrationSection(containerEl);
     this.renderDefaultDateFormatSetting(containerEl);
     this.renderNoPresetBehaviorSetting(containerEl);
+    this.renderNoteProvenanceSetting(containerEl);
+    this.renderOperationHistorySetting(containerEl);
     this.renderTemplateStatusSection(containerEl);
     this.renderPathValidationHints(containerEl);
 
     containerEl.createEl("hr", { cls: "setting-item-hr" });
+    this.renderFolderRulesSection(containerEl);
+
+    containerEl.createEl("hr", { cls: "setting-item-hr" });
+    this.renderPresetStorageSection(containerEl);
 
     // 清理旧的预设管理组件实例
     if (this.presetManagerComponent) {
@@ -447,6 +462,21 @@ export class NoteArchitectSettingTab extends PluginSettingTab {
             });
           });
       });
+
+    new Setting(containerEl)
+      .setName("日期字段使用默认日期格式")
+      .setDesc(
+        "开启后，未单独设置写入格式的日期与日期时间字段按上方格式写入；日期时间字段仅在该格式包含时间时使用。关闭时分别使用 YYYY-MM-DD、YYYY-MM-DD HH:mm、HH:mm"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.settings.applyDefaultDateFormatToFields)
+          .onChange(async (value) => {
+            await this.updateSettings((draft) => {
+              draft.applyDefaultDateFormatToFields = value;
+            });
+          })
+      );
   }
 
   /**
@@ -501,6 +531,332 @@ export class NoteArchitectSettingTab extends PluginSettingTab {
     }
   }
 
+  /**
+   * 渲染笔记来源记录开关
+   */
+  private renderNoteProvenanceSetting(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("记录笔记来源")
+      .setDesc(
+        `启用后，插入模板、新建笔记或更新 Frontmatter 时会在笔记的 ${NOTE_PROVENANCE_KEY} 属性中记录使用的模板路径、预设 ID 与预设版本，便于之后按模板或预设查找笔记。`
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.settings.recordNoteProvenance)
+          .onChange(async (value) => {
+            await this.updateSettings((draft) => {
+              draft.recordNoteProvenance = value;
+            });
+          })
+      );
+  }
+
+  /**
+   * 渲染操作历史保留条数设置
+   */
+  private renderOperationHistorySetting(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("操作历史保留条数")
+      .setDesc(
+        "插入模板、更新 Frontmatter、批量应用预设等操作会记录写入前的笔记内容，可通过“查看操作历史”命令还原。设为 0 表示不记录。"
+      )
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "0";
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.operationHistoryLimit))
+          .setValue(String(this.settings.operationHistoryLimit))
+          .onChange(async (value) => {
+            const limit = Number.parseInt(value, 10);
+            if (!Number.isFinite(limit) || limit < 0) {
+              return;
+            }
+            await this.updateSettings((draft) => {
+              draft.operationHistoryLimit = limit;
+            });
+            await this.plugin.operationJournal.applyLimit();
+          });
+      });
+  }
+
+  /**
+   * 渲染预设存储位置设置，修改后需点击"应用"才会迁移
+   */
+  private renderPresetStorageSection(containerEl: HTMLElement): void {
+    const current = this.settings;
+    const draft = {
+      presetStorage: current.presetStorage,
+      presetFolderPath: current.presetFolderPath,
+      presetFileFormat: current.presetFileFormat,
+    };
+
+    new Setting(containerEl)
+      .setName("预设存储位置")
+      .setDesc(
+        "保存到库中文件时，每个预设是预设文件夹中的一个 YAML 或 JSON 文件，可随库一起版本管理与共享；外部修改会自动重新读取。"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("settings", "插件设置（data.json）")
+          .addOption("vault", "库中的预设文件")
+          .setValue(draft.presetStorage)
+          .onChange((value) => {
+            draft.presetStorage = value as PresetStorageMode;
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("预设文件夹")
+      .setDesc("路径相对于库根目录；格式仅用于新建的预设文件，已有文件保持原格式")
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.presetFolderPath)
+          .setValue(draft.presetFolderPath)
+          .onChange((value) => {
+            draft.presetFolderPath = value;
+          })
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("yaml", "YAML")
+          .addOption("json", "JSON")
+          .setValue(draft.presetFileFormat)
+          .onChange((value) => {
+            draft.presetFileFormat = value as PresetFileFormat;
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("应用")
+          .setCta()
+          .onClick(async () => {
+            button.setDisabled(true);
+            await this.settingsManager.updatePresetStorage(draft, {
+              onAfterSave: this.plugin.updateStatusBar,
+            });
+            this.plugin.settings = this.settingsManager.getSettings();
+            notifySuccess(
+              this.plugin.settings.presetStorage === "vault"
+                ? `预设已保存到 "${this.plugin.settings.presetFolderPath}"`
+                : "预设已保存到插件设置"
+            );
+            this.display();
+          })
+      );
+
+    if (!this.settingsManager.isUsingVaultPresetStore()) {
+      return;
+    }
+
+    const errors = this.settingsManager.getPresetFileErrors();
+    renderStatusBlock(containerEl, {
+      icon: "",
+      title: "预设文件状态",
+      items: [
+        {
+          label: "状态",
+          content:
+            errors.length > 0
+              ? `已读取 ${current.frontmatterPresets.length} 个预设，${errors.length} 个文件解析失败`
+              : `已读取 ${current.frontmatterPresets.length} 个预设`,
+          type: "status",
+          color:
+            errors.length > 0 ? "var(--text-error)" : "var(--text-success)",
+        },
+        ...errors.map((error) => ({
+          label: error.path,
+          content: error.message,
+          type: "text" as const,
+        })),
+      ],
+      actions: [
+        {
+          text: "重新读取预设文件",
+          onClick: async () => {
+            await this.settingsManager.reloadPresetsFromStore();
+            this.plugin.settings = this.settingsManager.getSettings();
+            this.display();
+          },
+          busyText: "读取中…",
+        },
+      ],
+    });
+  }
+
+  /**
+   * 渲染文件夹规则编辑器
+   */
+  private renderFolderRulesSection(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "文件夹规则" });
+    const descEl = containerEl.createEl("div", {
+      cls: "setting-item-description",
+    });
+    descEl.createEl("small", {
+      text: "在匹配的文件夹中新建空白笔记时自动应用模板。规则按顺序匹配，首个命中的规则生效；模板文件夹内的文件不受影响。",
+    });
+
+    const rules = this.settings.folderTemplateRules;
+    rules.forEach((rule, index) =>
+      this.renderFolderRule(containerEl, rule, index)
+    );
+
+    new Setting(containerEl).addButton((button) =>
+      button
+        .setButtonText("添加规则")
+        .setCta()
+        .onClick(async () => {
+          await this.updateSettings((draft) => {
+            draft.folderTemplateRules.push({
+              id: createFolderRuleId(),
+              folder: "",
+              templatePath: "",
+              presetIds: [],
+              mode: "form",
+              enabled: true,
+            });
+          });
+          this.display();
+        })
+    );
+  }
+
+  /**
+   * 渲染单条文件夹规则
+   */
+  private renderFolderRule(
+    containerEl: HTMLElement,
+    rule: FolderTemplateRule,
+    index: number
+  ): void {
+    const ruleEl = containerEl.createDiv("note-architect-folder-rule");
+    const updateRule = async (
+      mutator: (draft: FolderTemplateRule) => void
+    ): Promise<void> => {
+      await this.updateSettings((draft) => {
+        const target = draft.folderTemplateRules.find(
+          (item) => item.id === rule.id
+        );
+        if (target) {
+          mutator(target);
+        }
+      });
+    };
+
+    new Setting(ruleEl)
+      .setName(`规则 ${index + 1}`)
+      .setHeading()
+      .addToggle((toggle) =>
+        toggle
+          .setTooltip("启用规则")
+          .setValue(rule.enabled)
+          .onChange(async (value) => {
+            await updateRule((draft) => {
+              draft.enabled = value;
+            });
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("删除规则")
+          .onClick(async () => {
+            await this.updateSettings((draft) => {
+              draft.folderTemplateRules = draft.folderTemplateRules.filter(
+                (item) => item.id !== rule.id
+              );
+            });
+            this.display();
+          })
+      );
+
+    new Setting(ruleEl)
+      .setName("文件夹")
+      .setDesc("支持通配符：* 匹配单层目录，** 匹配任意层级；不含通配符时包含子文件夹")
+      .addText((text) =>
+        text
+          .setPlaceholder("例如：Meetings 或 People/**")
+          .setValue(rule.folder)
+          .onChange(async (value) => {
+            await updateRule((draft) => {
+              draft.folder = value.trim();
+            });
+          })
+      );
+
+    new Setting(ruleEl).setName("模板").addDropdown((dropdown) => {
+      const templates = this.plugin.templateManager.getTemplates();
+      dropdown.addOption("", "请选择模板");
+      templates.forEach((template) => {
+        dropdown.addOption(template.id, template.name);
+      });
+      if (
+        rule.templatePath &&
+        !templates.some((template) => template.id === rule.templatePath)
+      ) {
+        dropdown.addOption(rule.templatePath, `${rule.templatePath}（未找到）`);
+      }
+      dropdown.setValue(rule.templatePath).onChange(async (value) => {
+        await updateRule((draft) => {
+          draft.templatePath = value;
+        });
+      });
+    });
+
+    const presets = this.settings.frontmatterPresets;
+    const selectedNames = rule.presetIds.map(
+      (id) => presets.find((preset) => preset.id === id)?.name ?? `${id}（未找到）`
+    );
+    new Setting(ruleEl)
+      .setName("预设")
+      .setDesc(
+        selectedNames.length > 0
+          ? `已选择：${selectedNames.join("、")}`
+          : "未指定时使用模板绑定的预设"
+      )
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", "添加预设…");
+        presets
+          .filter((preset) => !rule.presetIds.includes(preset.id))
+          .forEach((preset) => dropdown.addOption(preset.id, preset.name));
+        dropdown.setValue("").onChange(async (value) => {
+          if (!value) {
+            return;
+          }
+          await updateRule((draft) => {
+            draft.presetIds = [...draft.presetIds, value];
+          });
+          this.display();
+        });
+      })
+      .addExtraButton((button) =>
+        button
+          .setIcon("x")
+          .setTooltip("清除预设")
+          .setDisabled(rule.presetIds.length === 0)
+          .onClick(async () => {
+            await updateRule((draft) => {
+              draft.presetIds = [];
+            });
+            this.display();
+          })
+      );
+
+    new Setting(ruleEl)
+      .setName("应用方式")
+      .setDesc("静默应用时直接使用预设默认值，不弹出表单")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("form", "打开表单")
+          .addOption("silent", "静默应用默认值")
+          .setValue(rule.mode)
+          .onChange(async (value) => {
+            await updateRule((draft) => {
+              draft.mode = value as FolderRuleMode;
+            });
+          })
+      );
+  }
+
   /**
    * 渲染模板状态信息
    */
@@ -0,0 +1,150 @@
+import { App, ButtonComponent, Modal } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import type { OperationRecord } from "@types";
+import { OPERATION_TYPE_LABELS } from "@core/OperationJournal";
+import { SimpleConfirmModal } from "./simple-confirm-modal";
+
+/**
+ * 还原一条操作记录；文件在操作后被再次修改时先确认，确认后强制还原这些文件
+ */
+export async function revertOperationWithConfirm(
+  app: App,
+  plugin: NoteArchitect,
+  record: OperationRecord
+): Promise<void> {
+  const journal = plugin.operationJournal;
+  const result = await journal.revertWithNotice(record.id);
+  if (!result || result.skipped.length === 0) {
+    return;
+  }
+
+  const confirmed = await new SimpleConfirmModal(app, {
+    title: "文件已被修改",
+    message: `以下文件在操作后又被修改：${result.skipped.join("、")}。强制还原会丢弃这些修改，是否继续？`,
+    confirmText: "强制还原",
+    cancelText: "保留修改",
+    confirmClass: "mod-warning",
+  }).openAndWait();
+  if (confirmed) {
+    await journal.revertWithNotice(record.id, { force: true });
+  }
+}
+
+/**
+ * 操作历史：按时间倒序列出插件写入过的文件，可还原任意一条记录
+ */
+export class OperationHistoryModal extends Modal {
+  private readonly plugin: NoteArchitect;
+  private listEl?: HTMLElement;
+  private summaryEl?: HTMLElement;
+  private unsubscribe?: () => void;
+
+  constructor(app: App, plugin: NoteArchitect) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("操作历史");
+    this.modalEl.addClass("note-architect-history-modal");
+    const { contentEl } = this;
+    contentEl.empty();
+
+    if (this.plugin.settings.operationHistoryLimit <= 0) {
+      contentEl.createEl("div", {
+        cls: "setting-item-description",
+        text: "操作历史已关闭，可在设置中调整“操作历史保留条数”。",
+      });
+    }
+
+    this.summaryEl = contentEl.createDiv("note-architect-compliance-summary");
+    this.listEl = contentEl.createDiv("note-architect-history-list");
+
+    const actions = contentEl.createDiv("modal-button-container");
+    new ButtonComponent(actions)
+      .setButtonText("清空历史")
+      .setWarning()
+      .onClick(() => void this.handleClear());
+    new ButtonComponent(actions)
+      .setButtonText("关闭")
+      .setCta()
+      .onClick(() => this.close());
+
+    this.unsubscribe = this.plugin.operationJournal.onChange(() =>
+      this.render()
+    );
+    this.render();
+  }
+
+  onClose(): void {
+    this.unsubscribe?.();
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const listEl = this.listEl;
+    if (!listEl) {
+      return;
+    }
+    listEl.empty();
+
+    const records = this.plugin.operationJournal.getRecords();
+    this.summaryEl?.setText(
+      records.length === 0 ? "暂无操作记录。" : `共 ${records.length} 条记录`
+    );
+    records.forEach((record) => this.renderRecord(listEl, record));
+  }
+
+  private renderRecord(container: HTMLElement, record: OperationRecord): void {
+    const itemEl = container.createDiv("note-architect-history-item");
+    const headerEl = itemEl.createDiv("note-architect-history-item__header");
+    headerEl.createEl("span", {
+      cls: "note-architect-history-item__type",
+      text: OPERATION_TYPE_LABELS[record.type],
+    });
+    headerEl.createEl("span", { text: record.description });
+    headerEl.createEl("span", {
+      cls: "note-architect-history-item__time",
+      text: new Date(record.createdAt).toLocaleString(),
+    });
+
+    const filesEl = itemEl.createEl("ul", {
+      cls: "note-architect-history-item__files",
+    });
+    record.entries.forEach((entry) => {
+      const linkEl = filesEl.createEl("li").createEl("a", { text: entry.path });
+      linkEl.onclick = (event) => {
+        event.preventDefault();
+        void this.app.workspace.openLinkText(entry.path, "", false);
+      };
+    });
+
+    const actionsEl = itemEl.createDiv("note-architect-history-item__actions");
+    const revertButton = new ButtonComponent(actionsEl)
+      .setButtonText("还原")
+      .onClick(async () => {
+        revertButton.setDisabled(true);
+        await revertOperationWithConfirm(this.app, this.plugin, record);
+        revertButton.setDisabled(false);
+      });
+    new ButtonComponent(actionsEl)
+      .setButtonText("删除记录")
+      .onClick(() => void this.plugin.operationJournal.remove(record.id));
+  }
+
+  private async handleClear(): Promise<void> {
+    if (this.plugin.operationJournal.getRecords().length === 0) {
+      return;
+    }
+    const confirmed = await new SimpleConfirmModal(this.app, {
+      title: "清空操作历史",
+      message: "清空后将无法再还原这些操作，是否继续？",
+      confirmText: "清空",
+      cancelText: "取消",
+      confirmClass: "mod-warning",
+    }).openAndWait();
+    if (confirmed) {
+      await this.plugin.operationJournal.clear();
+    }
+  }
+}
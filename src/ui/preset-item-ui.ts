@@ -8,6 +8,7 @@ export interface RenderPresetItemContext {
   itemEl: HTMLElement;
   nameInputComponent: TextComponent;
   configButtonComponent: ButtonComponent;
+  extendsButtonComponent: ButtonComponent;
   deleteButtonComponent: ButtonComponent;
   infoEl: HTMLElement;
 }
@@ -26,6 +27,10 @@ export interface RenderPresetItemCallbacks {
     preset: FrontmatterPreset,
     context: RenderPresetItemContext
   ) => Promise<void> | void;
+  onEditExtends?: (
+    preset: FrontmatterPreset,
+    context: RenderPresetItemContext
+  ) => Promise<void> | void;
 }
 
 export interface RenderPresetItemOptions {
@@ -78,6 +83,16 @@ export function renderPresetItemUI(
     text: `ID: ${preset.id}`,
     cls: "note-architect-preset-id",
   });
+  if (preset.extends && preset.extends.length > 0) {
+    infoEl.createEl("span", {
+      text: "•",
+      cls: "note-architect-preset-separator",
+    });
+    infoEl.createEl("span", {
+      text: `继承: ${preset.extends.join(", ")}`,
+      cls: "note-architect-preset-extends",
+    });
+  }
 
   // 操作按钮容器
   const actionsContainer = itemEl.createDiv("note-architect-preset-actions");
@@ -89,6 +104,13 @@ export function renderPresetItemUI(
     .setTooltip("配置字段");
   setIcon(configButtonComponent.buttonEl, "settings");
 
+  // 使用 ButtonComponent 创建继承设置按钮
+  const extendsButtonComponent = new ButtonComponent(actionsContainer)
+    .setClass("clickable-icon")
+    .setClass("note-architect-preset-btn-extends")
+    .setTooltip("设置继承");
+  setIcon(extendsButtonComponent.buttonEl, "git-fork");
+
   // 使用 ButtonComponent 创建删除按钮
   const deleteButtonComponent = new ButtonComponent(actionsContainer)
     .setClass("clickable-icon")
@@ -101,6 +123,7 @@ export function renderPresetItemUI(
     itemEl,
     nameInputComponent,
     configButtonComponent,
+    extendsButtonComponent,
     deleteButtonComponent,
     infoEl,
   };
@@ -151,6 +174,19 @@ export function renderPresetItemUI(
     configButtonComponent.setDisabled(true);
   }
 
+  // 处理继承设置按钮点击
+  if (callbacks?.onEditExtends) {
+    extendsButtonComponent.onClick(async () => {
+      try {
+        await callbacks.onEditExtends?.(preset, context);
+      } catch {
+        // 由上层回调负责处理错误反馈
+      }
+    });
+  } else {
+    extendsButtonComponent.setDisabled(true);
+  }
+
   // 处理删除按钮点击
   if (callbacks?.onDelete && !disableDeleteButton) {
     deleteButtonComponent.onClick(async () => {
@@ -25,6 +25,8 @@ import { CreatePresetModal } from "./create-preset-modal";
 import { RenamePresetModal } from "./rename-preset-modal";
 import { SimpleConfirmModal } from "./simple-confirm-modal";
 import { FieldConfigModal } from "./field-config-modal";
+import { UniversalPresetSelectorModal } from "./universal-preset-selector-modal";
+import { findInheritanceCycle } from "@presets/inheritance";
 import { parseFrontmatter, updateFrontmatter } from "@utils/frontmatter-editor";
 import { isInsideTemplateFolder as utilIsInsideTemplateFolder } from "@utils/path";
 import {
@@ -169,6 +171,9 @@ export class PresetManagerComponent {
         onDelete: async (preset, _context) => {
           await this.deletePreset(preset.id);
         },
+        onEditExtends: (preset, _context) => {
+          this.openExtendsModal(preset, containerEl);
+        },
       },
     };
 
@@ -598,6 +603,22 @@ export class PresetManagerComponent {
       }
     };
 
+    const children = this.presetManager.getChildPresets(presetId);
+    if (children.length > 0) {
+      const confirmed = await new SimpleConfirmModal(this.app, {
+        title: "删除被继承的预设",
+        message: `以下预设继承自 "${preset.name}"：${children
+          .map((child) => child.name)
+          .join("、")}。删除后它们将不再包含从该预设继承的字段。确定继续吗？`,
+        confirmText: "仍然删除",
+        cancelText: "取消",
+        confirmClass: "mod-warning",
+      }).openAndWait();
+      if (!confirmed) {
+        return;
+      }
+    }
+
     await confirmAndDelete(
       presetId,
       preset.name,
@@ -612,6 +633,71 @@ export class PresetManagerComponent {
     refreshList();
   }
 
+  /**
+   * 打开继承设置窗口，只列出不会形成循环的预设
+   */
+  private openExtendsModal(
+    preset: FrontmatterPreset,
+    listContainerEl: HTMLElement
+  ): void {
+    const allPresets = this.presetManager.getPresets();
+    const currentIds = preset.extends ?? [];
+    const candidates = allPresets.filter(
+      (candidate) =>
+        candidate.id !== preset.id &&
+        (currentIds.includes(candidate.id) ||
+          !findInheritanceCycle(
+            preset.id,
+            [...currentIds, candidate.id],
+            allPresets
+          ))
+    );
+
+    // 每次修改都基于最新保存的父预设列表，避免连续绑定时覆盖前一次的结果
+    const getCurrentParentIds = () =>
+      this.presetManager.getPresetById(preset.id)?.extends ?? [];
+    const updateExtends = async (parentIds: string[]) => {
+      try {
+        await this.presetManager.updatePresetExtends(preset.id, parentIds);
+        this.refreshPresetsList(listContainerEl);
+      } catch (error) {
+        handleError(error, {
+          context: "PresetManagerComponent.openExtendsModal",
+          userMessage: "更新继承关系失败",
+        });
+        throw error;
+      }
+    };
+
+    new UniversalPresetSelectorModal(this.app, {
+      title: "设置继承的父预设",
+      subtitle: `"${preset.name}" 将按顺序合并父预设的字段，同名字段以自身为准`,
+      presets: candidates,
+      currentPresetId: currentIds,
+      allowClear: true,
+      clearOptionName: "不继承",
+      clearOptionDesc: "移除全部父预设",
+      clearButtonText: "移除继承",
+      selectButtonText: "继承",
+      unbindButtonText: "移除继承",
+      autoClose: false,
+      onBind: async (parent) => {
+        await updateExtends([...getCurrentParentIds(), parent.id]);
+        notifySuccess(`"${preset.name}" 已继承 "${parent.name}"`);
+      },
+      onUnbind: async (parent) => {
+        await updateExtends(
+          getCurrentParentIds().filter((id) => id !== parent.id)
+        );
+        notifySuccess(`"${preset.name}" 已移除对 "${parent.name}" 的继承`);
+      },
+      onClearAsync: async () => {
+        await updateExtends([]);
+        notifySuccess(`"${preset.name}" 已移除全部继承`);
+      },
+    }).open();
+  }
+
   /**
    * 打开字段配置模态窗口
    */
@@ -0,0 +1,235 @@
+import { App, ButtonComponent, Modal, TFile } from "obsidian";
+import type {
+  BatchPlanSummary,
+  FrontmatterPreset,
+  PresetMigrationResult,
+} from "@types";
+import {
+  applyPresetMigration,
+  collectPresetMigrationTargets,
+  previewPresetMigration,
+  rollbackPresetMigration,
+} from "@actions/migrate-preset-notes";
+import { describePresetChange } from "@presets/schema-migration";
+import { handleError } from "@core/error";
+import { summarizeBatchPlans } from "@utils/frontmatter/batch";
+import { getPresetVersion } from "@utils/provenance";
+import { notifyInfo, notifySuccess, notifyWarning } from "@utils/notify";
+import { renderBatchPlans } from "./batch-preview-modal";
+
+/**
+ * 预设版本迁移：预览记录了旧版本的笔记将如何变更，写入后可回滚
+ */
+export class PresetMigrationModal extends Modal {
+  private readonly preset: FrontmatterPreset;
+  private readonly templateFolder: string;
+  private files: TFile[] = [];
+  private result: PresetMigrationResult | null = null;
+  private summaryEl?: HTMLElement;
+  private listEl?: HTMLElement;
+  private actionsEl?: HTMLElement;
+
+  constructor(app: App, preset: FrontmatterPreset, templateFolder: string) {
+    super(app);
+    this.preset = preset;
+    this.templateFolder = templateFolder;
+  }
+
+  /**
+   * 存在需要迁移的笔记时打开迁移窗口
+   * @returns 是否打开了窗口
+   */
+  openIfNeeded(): boolean {
+    this.files = collectPresetMigrationTargets(
+      this.app,
+      this.preset,
+      this.templateFolder
+    );
+    if (this.files.length === 0) {
+      return false;
+    }
+    this.open();
+    return true;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(`迁移使用 "${this.preset.name}" 的笔记`);
+    this.modalEl.addClass("note-architect-batch-preview-modal");
+    const { contentEl } = this;
+    contentEl.empty();
+
+    if (this.files.length === 0) {
+      this.files = collectPresetMigrationTargets(
+        this.app,
+        this.preset,
+        this.templateFolder
+      );
+    }
+
+    contentEl.createEl("p", {
+      cls: "setting-item-description",
+      text: `预设当前为 v${getPresetVersion(this.preset)}，共 ${this.files.length} 篇笔记记录了旧版本。`,
+    });
+    this.renderChangelog(contentEl);
+    this.summaryEl = contentEl.createDiv("note-architect-batch-summary");
+    this.listEl = contentEl.createDiv("note-architect-batch-list");
+    this.actionsEl = contentEl.createDiv("modal-button-container");
+
+    if (this.files.length === 0) {
+      this.summaryEl.setText("没有需要迁移的笔记。");
+      this.renderClosingActions(false);
+      return;
+    }
+    this.summaryEl.setText("正在计算变更…");
+    void this.loadPreview();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private renderChangelog(containerEl: HTMLElement): void {
+    const changelog = this.preset.changelog ?? [];
+    if (changelog.length === 0) {
+      return;
+    }
+    const detailsEl = containerEl.createEl("details", {
+      cls: "note-architect-batch-item",
+    });
+    detailsEl.createEl("summary", { text: "字段变更记录" });
+    changelog.forEach((entry) => {
+      entry.operations.forEach((operation) => {
+        detailsEl.createEl("div", {
+          cls: "note-architect-batch-diff",
+          text: `v${entry.version} · ${describePresetChange(operation)}`,
+        });
+      });
+    });
+  }
+
+  private async loadPreview(): Promise<void> {
+    try {
+      const plans = await previewPresetMigration(
+        this.app,
+        this.preset,
+        this.files
+      );
+      const summary = summarizeBatchPlans(plans);
+      this.renderSummary(summary, "将");
+      if (this.listEl) {
+        renderBatchPlans(this.listEl, plans);
+      }
+      this.renderPreviewActions(summary);
+    } catch (error) {
+      handleError(error, {
+        context: "PresetMigrationModal.loadPreview",
+        userMessage: "生成迁移预览失败。",
+      });
+      this.close();
+    }
+  }
+
+  private renderSummary(summary: BatchPlanSummary, verb: string): void {
+    this.summaryEl?.setText(
+      `${verb}修改 ${summary.changed} 篇 · 无变化 ${summary.unchanged} 篇 · 失败 ${summary.failed} 篇`
+    );
+  }
+
+  private renderPreviewActions(summary: BatchPlanSummary): void {
+    const actionsEl = this.actionsEl;
+    if (!actionsEl) {
+      return;
+    }
+    actionsEl.empty();
+
+    new ButtonComponent(actionsEl)
+      .setButtonText("稍后再说")
+      .onClick(() => this.close());
+    const applyButton = new ButtonComponent(actionsEl)
+      .setButtonText(`迁移 ${summary.changed} 篇笔记`)
+      .setCta()
+      .setDisabled(summary.changed === 0);
+    applyButton.onClick(async () => {
+      applyButton.setDisabled(true);
+      applyButton.setButtonText("正在写入…");
+      await this.applyMigration();
+    });
+  }
+
+  private async applyMigration(): Promise<void> {
+    try {
+      const result = await applyPresetMigration(
+        this.app,
+        this.preset,
+        this.files
+      );
+      this.result = result;
+      this.renderSummary(result.summary, "已");
+      if (this.listEl) {
+        renderBatchPlans(this.listEl, result.plans);
+      }
+      this.renderClosingActions(result.entries.length > 0);
+
+      if (result.summary.failed > 0) {
+        notifyWarning(`${result.summary.failed} 篇笔记迁移失败，详情见列表。`);
+      }
+      notifySuccess(
+        `已将 ${result.summary.changed} 篇笔记迁移到预设 "${this.preset.name}" 的最新版本。`
+      );
+    } catch (error) {
+      handleError(error, {
+        context: "PresetMigrationModal.applyMigration",
+        userMessage: "迁移笔记失败。",
+      });
+      this.close();
+    }
+  }
+
+  private renderClosingActions(canRollback: boolean): void {
+    const actionsEl = this.actionsEl;
+    if (!actionsEl) {
+      return;
+    }
+    actionsEl.empty();
+
+    if (canRollback) {
+      const rollbackButton = new ButtonComponent(actionsEl).setButtonText(
+        "回滚本次迁移"
+      );
+      rollbackButton.onClick(async () => {
+        rollbackButton.setDisabled(true);
+        await this.rollback();
+        this.close();
+      });
+    }
+    new ButtonComponent(actionsEl)
+      .setButtonText("关闭")
+      .setCta()
+      .onClick(() => this.close());
+  }
+
+  private async rollback(): Promise<void> {
+    if (!this.result) {
+      notifyInfo("没有可回滚的迁移。");
+      return;
+    }
+    try {
+      const outcome = await rollbackPresetMigration(this.app, this.result);
+      this.result = null;
+      if (outcome.skipped.length > 0) {
+        notifyWarning(
+          `以下笔记在迁移后被再次修改，未回滚：${outcome.skipped.join("、")}`
+        );
+      }
+      if (outcome.failed.length > 0) {
+        notifyWarning(`以下笔记回滚失败：${outcome.failed.join("、")}`);
+      }
+      notifySuccess(`已回滚 ${outcome.reverted} 篇笔记。`);
+    } catch (error) {
+      handleError(error, {
+        context: "PresetMigrationModal.rollback",
+        userMessage: "回滚迁移失败。",
+      });
+    }
+  }
+}
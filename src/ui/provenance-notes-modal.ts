@@ -0,0 +1,146 @@
+import { App, Modal, Setting } from "obsidian";
+import type NoteArchitect from "@core/plugin";
+import {
+  listNotesByPreset,
+  listNotesByTemplate,
+  type ProvenanceNoteEntry,
+} from "@actions/note-provenance";
+
+type ProvenanceSourceType = "template" | "preset";
+
+/**
+ * 按来源记录列出由某个模板或预设生成的笔记
+ */
+export class ProvenanceNotesModal extends Modal {
+  private readonly plugin: NoteArchitect;
+  private sourceType: ProvenanceSourceType = "template";
+  private sourceId = "";
+  private sourceSettingEl?: HTMLElement;
+  private summaryEl?: HTMLElement;
+  private resultsEl?: HTMLElement;
+
+  constructor(app: App, plugin: NoteArchitect) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("查找由模板或预设生成的笔记");
+    this.modalEl.addClass("note-architect-provenance-modal");
+    const { contentEl } = this;
+    contentEl.empty();
+
+    if (!this.plugin.settings.recordNoteProvenance) {
+      contentEl.createEl("div", {
+        cls: "setting-item-description",
+        text: "尚未启用来源记录，只能找到启用前已记录来源的笔记。可在设置中开启“记录笔记来源”。",
+      });
+    }
+
+    new Setting(contentEl).setName("来源类型").addDropdown((dropdown) =>
+      dropdown
+        .addOption("template", "模板")
+        .addOption("preset", "预设")
+        .setValue(this.sourceType)
+        .onChange((value) => {
+          this.sourceType = value as ProvenanceSourceType;
+          this.sourceId = "";
+          this.renderSourceSetting();
+          this.render();
+        })
+    );
+
+    this.sourceSettingEl = contentEl.createDiv();
+    this.summaryEl = contentEl.createDiv("note-architect-compliance-summary");
+    this.resultsEl = contentEl.createDiv("note-architect-compliance-results");
+    this.renderSourceSetting();
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private renderSourceSetting(): void {
+    const containerEl = this.sourceSettingEl;
+    if (!containerEl) {
+      return;
+    }
+    containerEl.empty();
+
+    const isTemplate = this.sourceType === "template";
+    const options = isTemplate
+      ? this.plugin.templateManager
+          .getTemplates()
+          .map((template) => ({ id: template.path, name: template.path }))
+      : this.plugin.presetManager
+          .getPresets()
+          .map((preset) => ({ id: preset.id, name: preset.name }));
+
+    new Setting(containerEl)
+      .setName(isTemplate ? "模板" : "预设")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", isTemplate ? "请选择模板" : "请选择预设");
+        options.forEach((option) => dropdown.addOption(option.id, option.name));
+        dropdown.setValue(this.sourceId).onChange((value) => {
+          this.sourceId = value;
+          this.render();
+        });
+      });
+  }
+
+  private render(): void {
+    const resultsEl = this.resultsEl;
+    if (!resultsEl) {
+      return;
+    }
+    resultsEl.empty();
+    if (!this.sourceId) {
+      this.summaryEl?.setText("");
+      return;
+    }
+
+    const entries =
+      this.sourceType === "template"
+        ? listNotesByTemplate(this.app, this.sourceId)
+        : listNotesByPreset(this.app, this.sourceId);
+    this.summaryEl?.setText(
+      entries.length === 0
+        ? "没有找到记录了该来源的笔记。"
+        : `找到 ${entries.length} 篇笔记`
+    );
+    entries.forEach((entry) => this.renderEntry(resultsEl, entry));
+  }
+
+  private renderEntry(container: HTMLElement, entry: ProvenanceNoteEntry): void {
+    const itemEl = container.createDiv("note-architect-compliance-item");
+    const headerEl = itemEl.createDiv("note-architect-compliance-item__header");
+    const linkEl = headerEl.createEl("a", { text: entry.file.path });
+    linkEl.onclick = (event) => {
+      event.preventDefault();
+      void this.app.workspace.openLinkText(entry.file.path, "", false);
+      this.close();
+    };
+
+    const { template, presets, versions } = entry.provenance;
+    const presetNames = new Map(
+      this.plugin.presetManager
+        .getPresets()
+        .map((preset) => [preset.id, preset.name])
+    );
+    const details = [
+      template ? `模板：${template}` : "",
+      presets.length > 0
+        ? `预设：${presets
+            .map((id) => `${presetNames.get(id) ?? id} (v${versions[id]})`)
+            .join("、")}`
+        : "",
+    ].filter(Boolean);
+    if (details.length > 0) {
+      itemEl.createEl("div", {
+        cls: "note-architect-compliance-violation__hint",
+        text: details.join(" · "),
+      });
+    }
+  }
+}
@@ -7,6 +7,8 @@ import {
   processTemplateContent,
   parseTemplateContent,
 } from "@engine/TemplateEngine";
+import { executeNoteCreation } from "@actions/create-note";
+import { resolveNoteProvenance } from "@actions/note-provenance";
 import { FrontmatterManagerModal } from "./frontmatter-manager-modal";
 import { UniversalPresetSelectorModal } from "./universal-preset-selector-modal";
 import { debounce } from "@utils/timing";
@@ -21,7 +23,11 @@ import {
   collectMatchingPresets,
   resolvePresetConfigIds,
 } from "@utils/note-architect-config";
-import { mergeFrontmatters } from "@utils/frontmatter/merge";
+import {
+  collectMergeStrategies,
+  mergeFrontmatters,
+  type FieldMergeStrategies,
+} from "@utils/frontmatter/merge";
 import {
   getNoteMetadata,
   updateNoteFrontmatter,
@@ -37,6 +43,9 @@ import {
 } from "./template-selector/template-list-view";
 import { TemplatePreviewPanel } from "./template-selector/template-preview-panel";
 
+/** 模板应用方式：插入到当前编辑器，或新建笔记 */
+type TemplateApplyMode = "insert" | "new-note";
+
 export class TemplateSelectorModal extends Modal {
   private readonly plugin: NoteArchitect;
   private readonly templateManager: TemplateManager;
@@ -65,6 +74,8 @@ export class TemplateSelectorModal extends Modal {
   private searchView: TemplateSearchView | null = null;
   private listView: TemplateListView | null = null;
   private previewPanel: TemplatePreviewPanel | null = null;
+  private previewedTemplate: Template | null = null;
+  private unsubscribeTemplateChanges: (() => void) | null = null;
 
   constructor(app: App, plugin: NoteArchitect) {
     super(app);
@@ -222,7 +233,10 @@ export class TemplateSelectorModal extends Modal {
             listView.setActiveIndex(this.activeIndex);
             this.handleTemplateHoverFromList(this.activeIndex);
           }
-          this.handleTemplateClick(template);
+          this.handleTemplateClick(
+            template,
+            event.shiftKey ? "new-note" : "insert"
+          );
         }
         event.preventDefault();
         break;
@@ -451,7 +465,10 @@ export class TemplateSelectorModal extends Modal {
     return this.plugin.presetManager.getPresets();
   }
 
-  private handleTemplateClick(template: Template) {
+  private handleTemplateClick(
+    template: Template,
+    mode: TemplateApplyMode = "insert"
+  ) {
     this.selectedTemplate = template;
     this.renderPreview(template);
     this.updateTemplateList();
@@ -478,14 +495,15 @@ export class TemplateSelectorModal extends Modal {
           this.app,
           this.plugin,
           template,
-          matched
+          matched,
+          { createNewNote: mode === "new-note" }
         ).open();
         this.close();
         return;
       }
 
       notifyWarning("模板引用的预设均不存在，将为您选择其他预设");
-      this.showDynamicPresetSelector(template);
+      this.showDynamicPresetSelector(template, mode);
       return;
     }
 
@@ -494,7 +512,7 @@ export class TemplateSelectorModal extends Modal {
     switch (behavior) {
       case "do-nothing":
         // 直接插入模板，不使用预设
-        this.insertTemplate(template);
+        this.applyWithoutPreset(template, mode);
         break;
 
       case "use-default": {
@@ -504,9 +522,9 @@ export class TemplateSelectorModal extends Modal {
           // 未配置默认预设，降级为询问
           notifyWarning("未配置默认预设，请选择预设");
           if (hasAvailablePresets) {
-            this.showDynamicPresetSelector(template);
+            this.showDynamicPresetSelector(template, mode);
           } else {
-            this.insertTemplate(template);
+            this.applyWithoutPreset(template, mode);
           }
           break;
         }
@@ -520,16 +538,17 @@ export class TemplateSelectorModal extends Modal {
             this.app,
             this.plugin,
             template,
-            [defaultPreset]
+            [defaultPreset],
+            { createNewNote: mode === "new-note" }
           ).open();
           this.close();
         } else {
           // 默认预设不存在，降级为询问
           notifyWarning(`默认预设 "${defaultPresetId}" 不存在，请选择其他预设`);
           if (hasAvailablePresets) {
-            this.showDynamicPresetSelector(template);
+            this.showDynamicPresetSelector(template, mode);
           } else {
-            this.insertTemplate(template);
+            this.applyWithoutPreset(template, mode);
           }
         }
         break;
@@ -538,22 +557,25 @@ export class TemplateSelectorModal extends Modal {
       case "ask":
         // 询问用户选择预设
         if (hasAvailablePresets) {
-          this.showDynamicPresetSelector(template);
+          this.showDynamicPresetSelector(template, mode);
         } else {
           notifyInfo("当前没有可用预设，将直接插入模板");
-          this.insertTemplate(template);
+          this.applyWithoutPreset(template, mode);
         }
         break;
 
       default:
         // 兜底：直接插入模板
         notifyWarning(`未知的未绑定预设行为：${behavior}，将直接插入模板`);
-        this.insertTemplate(template);
+        this.applyWithoutPreset(template, mode);
         break;
     }
   }
 
-  private showDynamicPresetSelector(template: Template) {
+  private showDynamicPresetSelector(
+    template: Template,
+    mode: TemplateApplyMode
+  ) {
     new UniversalPresetSelectorModal(this.app, {
       title: "选择预设",
       subtitle: `模板 "${template.name}" 未配置预设，请从现有预设中选择一个：`,
@@ -564,7 +586,8 @@ export class TemplateSelectorModal extends Modal {
           this.app,
           this.plugin,
           template,
-          [selectedPreset]
+          [selectedPreset],
+          { createNewNote: mode === "new-note" }
         ).open();
       },
       customButtons: [
@@ -576,10 +599,10 @@ export class TemplateSelectorModal extends Modal {
           },
         },
         {
-          text: "直接插入模板",
+          text: mode === "new-note" ? "直接新建笔记" : "直接插入模板",
           variant: "cta",
           onClick: () => {
-            this.insertTemplate(template);
+            this.applyWithoutPreset(template, mode);
           },
         },
       ],
@@ -587,6 +610,46 @@ export class TemplateSelectorModal extends Modal {
     this.close();
   }
 
+  private handleNewNoteButtonClick() {
+    const template =
+      this.listView?.getTemplateAt(this.activeIndex) ?? this.previewedTemplate;
+    if (!template) {
+      notifyInfo("请先选择一个模板");
+      return;
+    }
+    this.handleTemplateClick(template, "new-note");
+  }
+
+  /**
+   * 不使用预设时直接应用模板
+   */
+  private applyWithoutPreset(template: Template, mode: TemplateApplyMode) {
+    if (mode === "new-note") {
+      void this.createNoteFromTemplate(template);
+      return;
+    }
+    void this.insertTemplate(template);
+  }
+
+  private async createNoteFromTemplate(template: Template) {
+    try {
+      await executeNoteCreation(
+        this.app,
+        this.plugin,
+        template,
+        null,
+        {},
+        resolveNoteProvenance(this.plugin, template, [])
+      );
+      this.close();
+    } catch (error) {
+      handleError(error, {
+        context: "TemplateSelectorModal.createNoteFromTemplate",
+        userMessage: "新建笔记失败，请稍后重试。",
+      });
+    }
+  }
+
   private getActiveEditor(): Editor | null {
     const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
     if (!activeView || !activeView.editor) {
@@ -610,7 +673,16 @@ export class TemplateSelectorModal extends Modal {
       const editor = this.getActiveEditor();
       if (!editor) return;
 
+      const before = editor.getValue();
       await this.insertTemplateWithFrontmatterMerge(template, editor);
+      const path = this.app.workspace.getActiveFile()?.path;
+      if (path) {
+        await this.plugin.operationJournal.record(
+          "insert-template",
+          `插入模板 "${template.name}"`,
+          [{ path, before, after: editor.getValue() }]
+        );
+      }
 
       await this.plugin.addRecentTemplate(template.id);
       this.close();
@@ -622,6 +694,25 @@ export class TemplateSelectorModal extends Modal {
     }
   }
 
+  /**
+   * 读取模板绑定预设中字段声明的合并方式，多个预设声明同一字段时以靠前的预设为准
+   */
+  private resolveTemplateMergeStrategies(
+    templateFM: Record<string, unknown>
+  ): FieldMergeStrategies {
+    const { ids } = resolvePresetConfigIds(templateFM);
+    const { matched } = collectMatchingPresets(ids, this.getAvailablePresets());
+    return this.plugin.presetManager
+      .resolvePresets(matched)
+      .reduceRight<FieldMergeStrategies>(
+        (strategies, preset) => ({
+          ...strategies,
+          ...collectMergeStrategies(preset.fields),
+        }),
+        {}
+      );
+  }
+
   private async insertTemplateWithFrontmatterMerge(
     template: Template,
     editor: Editor
@@ -630,11 +721,15 @@ export class TemplateSelectorModal extends Modal {
       content: processedContent,
       usedTemplater,
       error: templaterNotice,
+      partialErrors,
     } = await processTemplateContent(this.app, this.plugin, template);
 
     if (templaterNotice) {
       notifyWarning(`${templaterNotice}，继续尝试 frontmatter 合并`);
     }
+    if (partialErrors.length > 0) {
+      notifyWarning(`部分片段未能展开：${partialErrors.join("；")}`);
+    }
 
     const { frontmatter: templateFM, body: templateBody } =
       parseTemplateContent(processedContent);
@@ -654,7 +749,11 @@ export class TemplateSelectorModal extends Modal {
       const { frontmatter: noteFM, position: notePosition } = getNoteMetadata(
         this.app
       );
-      const mergedFM = mergeFrontmatters(noteFM, templateFM);
+      const mergedFM = mergeFrontmatters(
+        noteFM,
+        templateFM,
+        this.resolveTemplateMergeStrategies(templateFM)
+      );
 
       updateNoteFrontmatter(editor, mergedFM, notePosition);
 
@@ -683,9 +782,28 @@ export class TemplateSelectorModal extends Modal {
   }
 
   private renderPreview(template: Template | null) {
-    this.previewPanel?.render(template);
+    this.previewedTemplate = template;
+    // 预览展开片段后的内容，与实际插入结果保持一致
+    this.previewPanel?.render(
+      template
+        ? {
+            ...template,
+            content: this.templateManager.expandTemplate(template).content,
+          }
+        : null
+    );
   }
 
+  private handleTemplatesChanged = (changedTemplateIds: string[]) => {
+    const previewed = this.previewedTemplate;
+    if (!previewed || !changedTemplateIds.includes(previewed.id)) {
+      return;
+    }
+    this.renderPreview(
+      this.templateManager.getTemplateById(previewed.id) ?? previewed
+    );
+  };
+
   onOpen() {
     this.modalEl.style.width = "85vw";
     this.modalEl.style.maxWidth = "1000px";
@@ -713,6 +831,17 @@ export class TemplateSelectorModal extends Modal {
       this.layoutRefs.previewContentEl
     );
     this.renderPreview(null);
+    this.unsubscribeTemplateChanges = this.templateManager.onTemplatesChanged(
+      this.handleTemplatesChanged
+    );
+
+    const newNoteBtn = this.layoutRefs.footerEl.createEl("button", {
+      text: "从模板新建笔记",
+      cls: "note-architect-ghost-button",
+      attr: { title: "为当前选中的模板新建笔记（Shift+回车）" },
+    });
+    newNoteBtn.type = "button";
+    newNoteBtn.onclick = () => this.handleNewNoteButtonClick();
 
     const closeBtn = this.layoutRefs.footerEl.createEl("button", {
       text: "关闭",
@@ -729,6 +858,9 @@ export class TemplateSelectorModal extends Modal {
   onClose() {
     this.scheduleSearchUpdate.cancel();
     this.schedulePreviewUpdate.cancel();
+    this.unsubscribeTemplateChanges?.();
+    this.unsubscribeTemplateChanges = null;
+    this.previewedTemplate = null;
 
     this.clearActiveHighlight();
 
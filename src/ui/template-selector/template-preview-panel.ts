@@ -25,7 +25,7 @@ export class TemplatePreviewPanel {
 				cls: 'note-architect-preview-empty-title'
 			});
 			emptyStateEl.createEl('div', {
-				text: '提示：悬停或按 ↑↓ 浏览模板，回车应用',
+				text: '提示：悬停或按 ↑↓ 浏览模板，回车应用，Shift+回车新建笔记',
 				cls: 'note-architect-preview-empty-hint'
 			});
 			return;
@@ -27,6 +27,8 @@ export interface PresetSelectorOptions {
   onSelect?: (preset: FrontmatterPreset) => void;
   /** 用户绑定某一项时触发（异步模式，支持多次绑定，需手动管理关闭） */
   onBind?: (preset: FrontmatterPreset) => Promise<void>;
+  /** 用户解除某一项绑定时触发（异步模式）；提供时已绑定项显示解除按钮 */
+  onUnbind?: (preset: FrontmatterPreset) => Promise<void>;
 
   /** 副标题/描述 */
   subtitle?: string;
@@ -44,6 +46,8 @@ export interface PresetSelectorOptions {
   selectButtonText?: string;
   /** "当前"按钮文本，默认 "当前" */
   currentButtonText?: string;
+  /** 已绑定项的"解除"按钮文本，默认 "移除" */
+  unbindButtonText?: string;
   /** "解绑"选项名称，默认 "不使用预设" */
   clearOptionName?: string;
   /** "解绑"选项描述，默认 "解除当前绑定" */
@@ -226,12 +230,20 @@ export class UniversalPresetSelectorModal extends Modal {
           cls: "note-architect-preset-badge-current",
         });
 
-        // 禁用的"当前"按钮
-        setting.addButton((btn) =>
-          btn
-            .setButtonText(this.rawOptions.currentButtonText ?? "当前")
-            .setDisabled(true)
-        );
+        if (this.rawOptions.onUnbind) {
+          setting.addButton((btn) =>
+            btn
+              .setButtonText(this.rawOptions.unbindButtonText ?? "移除")
+              .onClick(() => this.handleUnbind(preset, btn))
+          );
+        } else {
+          // 禁用的"当前"按钮
+          setting.addButton((btn) =>
+            btn
+              .setButtonText(this.rawOptions.currentButtonText ?? "当前")
+              .setDisabled(true)
+          );
+        }
       } else if (this.rawOptions.onBind) {
         // 异步绑定模式：支持多次绑定
         setting.addButton((btn) =>
@@ -420,6 +432,44 @@ export class UniversalPresetSelectorModal extends Modal {
     }
   }
 
+  /**
+   * 处理单项的异步解绑操作
+   */
+  private async handleUnbind(
+    preset: FrontmatterPreset,
+    button: ButtonComponent
+  ): Promise<void> {
+    if (
+      this.isBusy ||
+      !this.isPresetBound(preset.id) ||
+      !this.rawOptions.onUnbind
+    ) {
+      return;
+    }
+
+    this.isBusy = true;
+
+    try {
+      const result = await runWithBusy(
+        button.buttonEl,
+        async () => {
+          await this.rawOptions.onUnbind!(preset);
+        },
+        {
+          busyText: "处理中…",
+          errorContext: "UniversalPresetSelectorModal.handleUnbind",
+        }
+      );
+
+      if (result !== null) {
+        this.boundIds.delete(preset.id);
+        this.renderList({ preserveScroll: true });
+      }
+    } finally {
+      this.isBusy = false;
+    }
+  }
+
   /**
    * 处理异步解绑操作
    */
@@ -0,0 +1,85 @@
+import type { FolderTemplateRule } from '@types';
+import { findMatchingFolderRule, matchFolderGlob, sanitizeFolderTemplateRules } from './folder-rules';
+
+const buildRule = (overrides: Partial<FolderTemplateRule>): FolderTemplateRule => ({
+	id: 'rule',
+	folder: 'Meetings',
+	templatePath: 'Templates/meeting.md',
+	presetIds: [],
+	mode: 'form',
+	enabled: true,
+	...overrides,
+});
+
+describe('matchFolderGlob', () => {
+	it('matches plain folders together with their subfolders', () => {
+		expect(matchFolderGlob('Meetings', 'Meetings')).toBe(true);
+		expect(matchFolderGlob('Meetings/', 'Meetings/2024')).toBe(true);
+		expect(matchFolderGlob('Meetings', 'MeetingsArchive')).toBe(false);
+		expect(matchFolderGlob('Meetings', '')).toBe(false);
+	});
+
+	it('limits single-star patterns to one folder level', () => {
+		expect(matchFolderGlob('Projects/*/Notes', 'Projects/Alpha/Notes')).toBe(true);
+		expect(matchFolderGlob('Projects/*/Notes', 'Projects/Alpha/Beta/Notes')).toBe(false);
+		expect(matchFolderGlob('People/*', 'People')).toBe(false);
+		expect(matchFolderGlob('Daily/202*', 'Daily/2024')).toBe(true);
+	});
+
+	it('lets double-star patterns match any depth including zero levels', () => {
+		expect(matchFolderGlob('People/**', 'People')).toBe(true);
+		expect(matchFolderGlob('People/**', 'People/Team/Ann')).toBe(true);
+		expect(matchFolderGlob('**/Inbox', 'Inbox')).toBe(true);
+		expect(matchFolderGlob('**/Inbox', 'Work/Inbox')).toBe(true);
+		expect(matchFolderGlob('**/Inbox', 'Work/Inbox/Old')).toBe(false);
+	});
+
+	it('treats regex characters in folder names literally', () => {
+		expect(matchFolderGlob('Notes (old)/*', 'Notes (old)/2020')).toBe(true);
+		expect(matchFolderGlob('a.b/*', 'axb/c')).toBe(false);
+	});
+});
+
+describe('findMatchingFolderRule', () => {
+	it('returns the first enabled rule matching the note folder', () => {
+		const rules = [
+			buildRule({ id: 'disabled', enabled: false }),
+			buildRule({ id: 'meetings' }),
+			buildRule({ id: 'fallback', folder: '**' }),
+		];
+
+		expect(findMatchingFolderRule(rules, 'Meetings/Weekly.md')?.id).toBe('meetings');
+		expect(findMatchingFolderRule(rules, 'Inbox/Idea.md')?.id).toBe('fallback');
+		expect(findMatchingFolderRule(rules, 'Root.md')?.id).toBe('fallback');
+	});
+
+	it('ignores rules without a folder or template', () => {
+		const rules = [buildRule({ templatePath: '' }), buildRule({ id: 'empty-folder', folder: '' })];
+
+		expect(findMatchingFolderRule(rules, 'Meetings/Weekly.md')).toBeNull();
+		expect(findMatchingFolderRule(undefined, 'Meetings/Weekly.md')).toBeNull();
+	});
+});
+
+describe('sanitizeFolderTemplateRules', () => {
+	it('normalizes stored rules and drops invalid entries', () => {
+		const rules = sanitizeFolderTemplateRules([
+			{ id: 'a', folder: ' People/** ', templatePath: 'Templates/person.md', presetIds: ['p1', 'p1', 3, ' '], mode: 'unknown' },
+			{ id: 'a', folder: 'Duplicate', templatePath: 'Templates/x.md' },
+			null,
+			'invalid',
+		]);
+
+		expect(rules).toEqual([
+			{
+				id: 'a',
+				folder: 'People/**',
+				templatePath: 'Templates/person.md',
+				presetIds: ['p1'],
+				mode: 'form',
+				enabled: true,
+			},
+		]);
+		expect(sanitizeFolderTemplateRules(undefined)).toEqual([]);
+	});
+});
@@ -0,0 +1,118 @@
+import type { FolderRuleMode, FolderTemplateRule } from '@types';
+import { normalizePath } from '@utils/path';
+
+const FOLDER_RULE_MODES: FolderRuleMode[] = ['form', 'silent'];
+
+/**
+ * 生成新的规则 ID
+ */
+export function createFolderRuleId(): string {
+	return `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * 清理从设置中读取的文件夹规则，丢弃缺少必要信息的条目
+ */
+export function sanitizeFolderTemplateRules(rawRules: unknown): FolderTemplateRule[] {
+	if (!Array.isArray(rawRules)) {
+		return [];
+	}
+
+	const seenIds = new Set<string>();
+	const rules: FolderTemplateRule[] = [];
+	for (const raw of rawRules) {
+		if (!raw || typeof raw !== 'object') {
+			continue;
+		}
+		const candidate = raw as Partial<FolderTemplateRule>;
+		const id = typeof candidate.id === 'string' && candidate.id.trim() ? candidate.id.trim() : createFolderRuleId();
+		if (seenIds.has(id)) {
+			continue;
+		}
+		seenIds.add(id);
+
+		rules.push({
+			id,
+			folder: typeof candidate.folder === 'string' ? candidate.folder.trim() : '',
+			templatePath: typeof candidate.templatePath === 'string' ? candidate.templatePath.trim() : '',
+			presetIds: Array.isArray(candidate.presetIds)
+				? Array.from(
+						new Set(
+							candidate.presetIds
+								.filter((presetId): presetId is string => typeof presetId === 'string')
+								.map((presetId) => presetId.trim())
+								.filter(Boolean),
+						),
+					)
+				: [],
+			mode: FOLDER_RULE_MODES.includes(candidate.mode as FolderRuleMode) ? (candidate.mode as FolderRuleMode) : 'form',
+			enabled: candidate.enabled !== false,
+		});
+	}
+	return rules;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 将文件夹 glob 转为正则：`*` 匹配单层目录名中的任意字符，`**` 匹配任意层级（含零层）。
+ * 生成的正则用于匹配以 "/" 结尾的文件夹路径。
+ */
+function globToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.split('/')
+		.map((segment) => {
+			if (segment === '**') {
+				return '(?:[^/]+/)*';
+			}
+			const segmentSource = segment
+				.split('*')
+				.map((part) => escapeRegExp(part).replace(/\?/g, '[^/]'))
+				.join('[^/]*');
+			return `${segmentSource}/`;
+		})
+		.join('');
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * 判断文件夹路径是否匹配规则中的 glob。
+ * 不含通配符的模式匹配该文件夹及其所有子文件夹。
+ * @param pattern 规则中的文件夹 glob，如 "Meetings"、"People/**"
+ * @param folderPath 笔记所在文件夹（库根目录为空字符串）
+ */
+export function matchFolderGlob(pattern: string, folderPath: string): boolean {
+	const normalizedPattern = normalizePath(pattern.trim());
+	if (!normalizedPattern) {
+		return false;
+	}
+	const normalizedFolder = normalizePath(folderPath);
+
+	if (!/[*?]/.test(normalizedPattern)) {
+		return normalizedFolder === normalizedPattern || normalizedFolder.startsWith(`${normalizedPattern}/`);
+	}
+	return globToRegExp(normalizedPattern).test(normalizedFolder ? `${normalizedFolder}/` : '');
+}
+
+/**
+ * 按顺序查找第一个匹配笔记路径的已启用规则
+ */
+export function findMatchingFolderRule(
+	rules: FolderTemplateRule[] | undefined,
+	filePath: string,
+): FolderTemplateRule | null {
+	if (!rules || rules.length === 0) {
+		return null;
+	}
+	const normalizedPath = normalizePath(filePath);
+	const slashIndex = normalizedPath.lastIndexOf('/');
+	const folderPath = slashIndex === -1 ? '' : normalizedPath.slice(0, slashIndex);
+
+	return (
+		rules.find(
+			(rule) => rule.enabled && rule.templatePath && rule.folder && matchFolderGlob(rule.folder, folderPath),
+		) ?? null
+	);
+}
@@ -6,6 +6,7 @@ import {
   composeContent,
   sanitizeFrontmatter,
   areFrontmattersEqual,
+  patchFrontmatterYaml,
   type ParsedFrontmatter,
 } from "@utils/frontmatter/text";
 
@@ -59,24 +60,32 @@ export function getNoteMetadata(app: App): NoteMetadata {
   };
 }
 
+/**
+ * 将新的 frontmatter 写入编辑器：已有 frontmatter 时只替换分隔线之间的内容，
+ * 未变化的键、注释与格式保持原样
+ */
 export function updateNoteFrontmatter(
   editor: Editor,
   newFrontmatter: Record<string, unknown>,
   position: Pos | null
 ): void {
   try {
-    const newYamlString = stringifyYaml(newFrontmatter, {
-      indent: 2,
-      lineWidth: 0,
-      aliasDuplicateObjects: false,
-    });
-
     if (position && position.start && position.end) {
-      // 文件已有 frontmatter，替换整个 frontmatter 块
-      const startPos = { line: position.start.line, ch: 0 };
-      const endPos = { line: position.end.line + 1, ch: 0 };
-      editor.replaceRange(`---\n${newYamlString}---\n\n`, startPos, endPos);
+      const innerStart = { line: position.start.line + 1, ch: 0 };
+      const innerEnd = { line: position.end.line, ch: 0 };
+      const currentYaml = editor.getRange(innerStart, innerEnd);
+      const patchedYaml = patchFrontmatterYaml(currentYaml, newFrontmatter);
+      const normalizedYaml =
+        patchedYaml === "" || patchedYaml.endsWith("\n")
+          ? patchedYaml
+          : `${patchedYaml}\n`;
+      editor.replaceRange(normalizedYaml, innerStart, innerEnd);
     } else {
+      const newYamlString = stringifyYaml(newFrontmatter, {
+        indent: 2,
+        lineWidth: 0,
+        aliasDuplicateObjects: false,
+      });
       // 文件没有 frontmatter，在文件开头插入（明确指定结束位置）
       const startPos = { line: 0, ch: 0 };
       const endPos = { line: 0, ch: 0 }; // 插入模式：from = to
@@ -0,0 +1,112 @@
+import {
+	applyFrontmatterPatch,
+	buildBatchMergePatch,
+	diffFrontmatter,
+	planFrontmatterUpdate,
+	summarizeBatchPlans,
+} from './batch';
+
+describe('applyFrontmatterPatch', () => {
+	it('keeps unrelated fields in merge mode and drops them in overwrite mode', () => {
+		const current = { title: 'Weekly', status: 'draft', tags: ['meeting'] };
+		const patch = { status: 'active', tags: ['project'] };
+
+		expect(applyFrontmatterPatch(current, patch, 'merge')).toEqual({
+			title: 'Weekly',
+			status: 'active',
+			tags: ['meeting', 'project'],
+		});
+		expect(applyFrontmatterPatch(current, patch, 'overwrite')).toEqual(patch);
+	});
+});
+
+describe('buildBatchMergePatch', () => {
+	it('keeps edited, non-empty fields so merge mode does not clear note data', () => {
+		const patch = { status: 'active', owner: '', tags: [], due: null };
+
+		const merge = buildBatchMergePatch(patch, ['status', 'owner', 'tags', 'due'], { status: 'keep-existing' });
+
+		expect(merge).toEqual({ patch: { status: 'active' }, strategies: { status: 'keep-existing' } });
+		expect(applyFrontmatterPatch({ owner: 'Ann', tags: ['a'] }, merge.patch, 'merge', merge.strategies)).toEqual({
+			owner: 'Ann',
+			tags: ['a'],
+			status: 'active',
+		});
+	});
+
+	it('fills missing keys with untouched defaults without overwriting existing values', () => {
+		const merge = buildBatchMergePatch({ status: 'draft', priority: 'normal', tags: ['project'] }, []);
+
+		expect(
+			applyFrontmatterPatch({ status: 'done', tags: ['a'], owner: 'Ann' }, merge.patch, 'merge', merge.strategies),
+		).toEqual({
+			status: 'done',
+			tags: ['a'],
+			owner: 'Ann',
+			priority: 'normal',
+		});
+		expect(applyFrontmatterPatch({ status: '' }, merge.patch, 'merge', merge.strategies)).toEqual({
+			status: 'draft',
+			priority: 'normal',
+			tags: ['project'],
+		});
+	});
+});
+
+describe('diffFrontmatter', () => {
+	it('reports added, changed and removed keys', () => {
+		const diff = diffFrontmatter(
+			{ status: 'draft', tags: ['a'], owner: 'Ann' },
+			{ status: 'active', tags: ['a'], due: '2024-01-01' },
+		);
+
+		expect(diff).toEqual([
+			{ key: 'status', kind: 'changed', before: 'draft', after: 'active' },
+			{ key: 'due', kind: 'added', after: '2024-01-01' },
+			{ key: 'owner', kind: 'removed', before: 'Ann' },
+		]);
+	});
+});
+
+describe('planFrontmatterUpdate', () => {
+	it('marks files whose frontmatter would change and keeps the body untouched', () => {
+		const content = '---\nstatus: draft\n---\nBody text\n';
+		const { plan, result } = planFrontmatterUpdate('Notes/a.md', content, { status: 'active' }, 'merge');
+
+		expect(plan).toEqual({
+			path: 'Notes/a.md',
+			status: 'changed',
+			diff: [{ key: 'status', kind: 'changed', before: 'draft', after: 'active' }],
+		});
+		expect(result.content).toBe('---\nstatus: active\n---\n\nBody text\n');
+	});
+
+	it('marks files that already match as unchanged', () => {
+		const content = '---\nstatus: active\n---\nBody\n';
+		const { plan, result } = planFrontmatterUpdate('Notes/b.md', content, { status: 'active' }, 'merge');
+
+		expect(plan.status).toBe('unchanged');
+		expect(plan.diff).toEqual([]);
+		expect(result.content).toBe(content);
+	});
+
+	it('adds frontmatter to notes without one', () => {
+		const { plan, result } = planFrontmatterUpdate('Notes/c.md', 'Body\n', { status: 'active' }, 'overwrite');
+
+		expect(plan.status).toBe('changed');
+		expect(result.content).toBe('---\nstatus: active\n---\n\nBody\n');
+	});
+});
+
+describe('summarizeBatchPlans', () => {
+	it('counts files per status', () => {
+		expect(
+			summarizeBatchPlans([
+				{ path: 'a.md', status: 'changed', diff: [] },
+				{ path: 'b.md', status: 'changed', diff: [] },
+				{ path: 'c.md', status: 'unchanged', diff: [] },
+				{ path: 'd.md', status: 'failed', diff: [], error: 'boom' },
+			]),
+		).toEqual({ changed: 2, unchanged: 1, failed: 1 });
+	});
+});
@@ -0,0 +1,123 @@
+import type {
+	BatchFilePlan,
+	BatchPlanSummary,
+	FrontmatterDiffEntry,
+	FrontmatterUpdateMode,
+} from '@types';
+import { updateFrontmatter, type FrontmatterUpdateResult } from '@utils/frontmatter-editor';
+import { isEmptyMergeValue, mergeFrontmatters, type FieldMergeStrategies } from './merge';
+import { areFrontmattersEqual } from './text';
+
+/**
+ * 按更新模式将表单数据应用到已有 frontmatter
+ * - merge：保留未被表单覆盖的字段，按字段声明的合并方式处理已有值
+ * - overwrite：仅保留表单字段
+ */
+export function applyFrontmatterPatch(
+	frontmatter: Record<string, unknown>,
+	patch: Record<string, unknown>,
+	mode: FrontmatterUpdateMode,
+	strategies: FieldMergeStrategies = {},
+): Record<string, unknown> {
+	return mode === 'overwrite' ? { ...patch } : mergeFrontmatters(frontmatter, patch, strategies);
+}
+
+/**
+ * 构建批量合并的共享输入：空字段不写入；用户修改过的字段按声明的合并方式写入，
+ * 未修改的字段（预设默认值）只填充笔记中缺失或为空的值
+ * @param patch 表单转换后的 frontmatter
+ * @param editedKeys 用户在表单中修改过的字段
+ * @param strategies 字段声明的合并方式
+ */
+export function buildBatchMergePatch(
+	patch: Record<string, unknown>,
+	editedKeys: Iterable<string>,
+	strategies: FieldMergeStrategies = {},
+): { patch: Record<string, unknown>; strategies: FieldMergeStrategies } {
+	const edited = new Set(editedKeys);
+	const result = { patch: {} as Record<string, unknown>, strategies: {} as FieldMergeStrategies };
+
+	Object.entries(patch).forEach(([key, value]) => {
+		if (isEmptyMergeValue(value)) {
+			return;
+		}
+		result.patch[key] = value;
+		if (!edited.has(key)) {
+			result.strategies[key] = 'fill-if-empty';
+		} else if (strategies[key]) {
+			result.strategies[key] = strategies[key];
+		}
+	});
+
+	return result;
+}
+
+/**
+ * 逐字段比较两个 frontmatter，按 after 的字段顺序输出，之后是被删除的字段
+ */
+export function diffFrontmatter(
+	before: Record<string, unknown>,
+	after: Record<string, unknown>,
+): FrontmatterDiffEntry[] {
+	const entries: FrontmatterDiffEntry[] = [];
+	const has = (target: Record<string, unknown>, key: string) => Object.prototype.hasOwnProperty.call(target, key);
+
+	Object.keys(after).forEach((key) => {
+		if (!has(before, key)) {
+			entries.push({ key, kind: 'added', after: after[key] });
+		} else if (!areFrontmattersEqual({ value: before[key] }, { value: after[key] })) {
+			entries.push({ key, kind: 'changed', before: before[key], after: after[key] });
+		}
+	});
+	Object.keys(before).forEach((key) => {
+		if (!has(after, key)) {
+			entries.push({ key, kind: 'removed', before: before[key] });
+		}
+	});
+
+	return entries;
+}
+
+/**
+ * 计算单个文件的更新结果（不写入），供试运行预览和实际写入共用
+ */
+export function planFrontmatterUpdate(
+	path: string,
+	content: string,
+	patch: Record<string, unknown>,
+	mode: FrontmatterUpdateMode,
+): { plan: BatchFilePlan; result: FrontmatterUpdateResult } {
+	return planFrontmatterTransform(path, content, (frontmatter) => applyFrontmatterPatch(frontmatter, patch, mode));
+}
+
+/**
+ * 按任意转换函数计算单个文件的更新结果（不写入）
+ */
+export function planFrontmatterTransform(
+	path: string,
+	content: string,
+	transform: (frontmatter: Record<string, unknown>) => Record<string, unknown>,
+): { plan: BatchFilePlan; result: FrontmatterUpdateResult } {
+	const result = updateFrontmatter(content, transform);
+	return {
+		plan: {
+			path,
+			status: result.changed ? 'changed' : 'unchanged',
+			diff: result.changed ? diffFrontmatter(result.previousFrontmatter, result.frontmatter) : [],
+		},
+		result,
+	};
+}
+
+/**
+ * 统计批量结果中各状态的文件数
+ */
+export function summarizeBatchPlans(plans: BatchFilePlan[]): BatchPlanSummary {
+	return plans.reduce<BatchPlanSummary>(
+		(summary, plan) => {
+			summary[plan.status]++;
+			return summary;
+		},
+		{ changed: 0, unchanged: 0, failed: 0 },
+	);
+}
@@ -0,0 +1,336 @@
+import type { FrontmatterPreset } from '@types';
+import { convertFormDataToFrontmatter, convertFrontmatterToFormData, isStructuredFrontmatterValue } from './convert';
+import { sanitizeFrontmatterField } from './field';
+
+const buildPreset = (fields: FrontmatterPreset['fields']): FrontmatterPreset => ({
+	id: 'sample',
+	name: 'Sample',
+	fields,
+});
+
+describe('convertFormDataToFrontmatter 数值与布尔字段', () => {
+	const preset = buildPreset([
+		{ key: 'rating', label: '评分', type: 'number', default: '' },
+		{ key: 'done', label: '完成', type: 'boolean', default: false },
+	]);
+
+	it('会将数值字符串转换为 number', () => {
+		const result = convertFormDataToFrontmatter(preset, { rating: '4.5', done: true });
+		expect(result.rating).toBe(4.5);
+		expect(result.done).toBe(true);
+	});
+
+	it('空值时数值字段为 null，布尔字段为 false', () => {
+		const result = convertFormDataToFrontmatter(preset, { rating: '' });
+		expect(result.rating).toBeNull();
+		expect(result.done).toBe(false);
+	});
+
+	it('会解析字符串形式的默认值', () => {
+		const defaults = new Map<string, string | string[]>([
+			['rating', '3'],
+			['done', 'true'],
+		]);
+		const result = convertFormDataToFrontmatter(preset, {}, defaults);
+		expect(result.rating).toBe(3);
+		expect(result.done).toBe(true);
+	});
+
+	it('数值格式无效时抛出错误', () => {
+		expect(() => convertFormDataToFrontmatter(preset, { rating: 'abc' })).toThrow(
+			'字段 "评分" 的数值格式无效',
+		);
+	});
+});
+
+describe('sanitizeFrontmatterField 数值约束', () => {
+	it('保留合法的 min/max/step/integerOnly', () => {
+		const field = sanitizeFrontmatterField({
+			key: 'rating',
+			label: '评分',
+			type: 'number',
+			default: '2',
+			min: 0,
+			max: 5,
+			step: 1,
+			integerOnly: true,
+		});
+		expect(field).toMatchObject({ default: 2, min: 0, max: 5, step: 1, integerOnly: true });
+	});
+
+	it('严格模式下 min 大于 max 时抛出错误', () => {
+		expect(() =>
+			sanitizeFrontmatterField(
+				{ key: 'rating', label: '评分', type: 'number', default: '', min: 5, max: 1 },
+				{ strict: true },
+			),
+		).toThrow();
+	});
+
+	it('非数值字段会丢弃数值约束', () => {
+		const field = sanitizeFrontmatterField({
+			key: 'title',
+			label: '标题',
+			type: 'text',
+			default: '',
+			min: 1,
+		});
+		expect(field?.min).toBeUndefined();
+	});
+});
+
+describe('convertFormDataToFrontmatter 链接字段', () => {
+	it('单值链接写入 wikilink 字符串', () => {
+		const preset = buildPreset([{ key: 'project', label: '项目', type: 'link', default: '' }]);
+		expect(convertFormDataToFrontmatter(preset, { project: 'Alpha' }).project).toBe('[[Alpha]]');
+		expect(convertFormDataToFrontmatter(preset, { project: '[[Beta|别名]]' }).project).toBe('[[Beta|别名]]');
+		expect(convertFormDataToFrontmatter(preset, {}).project).toBe('');
+	});
+
+	it('多值链接写入去重后的 wikilink 列表', () => {
+		const preset = buildPreset([
+			{ key: 'people', label: '人员', type: 'link', default: [], multiple: true },
+		]);
+		expect(convertFormDataToFrontmatter(preset, { people: ['Ann', '[[Ann]]', 'Bob'] }).people).toEqual([
+			'[[Ann]]',
+			'[[Bob]]',
+		]);
+		expect(convertFormDataToFrontmatter(preset, {}).people).toEqual([]);
+	});
+});
+
+describe('sanitizeFrontmatterField 链接配置', () => {
+	it('规范化目录与标签并保留 multiple', () => {
+		const field = sanitizeFrontmatterField({
+			key: 'project',
+			label: '项目',
+			type: 'link',
+			default: '',
+			linkFolder: '/Projects/',
+			linkTag: '#project',
+			multiple: true,
+		});
+		expect(field).toMatchObject({ linkFolder: 'Projects', linkTag: 'project', multiple: true });
+	});
+
+	it('严格模式下标签包含空白时抛出错误', () => {
+		expect(() =>
+			sanitizeFrontmatterField(
+				{ key: 'project', label: '项目', type: 'link', default: '', linkTag: 'my tag' },
+				{ strict: true },
+			),
+		).toThrow('不能包含空白字符');
+	});
+});
+
+describe('convertFormDataToFrontmatter 显示条件', () => {
+	const preset = buildPreset([
+		{ key: 'type', label: '类型', type: 'select', default: 'note', options: ['note', 'decision'] },
+		{
+			key: 'owner',
+			label: '负责人',
+			type: 'text',
+			default: '',
+			showIf: [{ field: 'type', operator: 'equals', value: 'decision' }],
+		},
+	]);
+
+	it('隐藏字段不会写入 frontmatter', () => {
+		const defaults = new Map<string, string | string[]>([['type', 'note']]);
+		const result = convertFormDataToFrontmatter(preset, { owner: 'Ann' }, defaults);
+		expect(result).toEqual({ type: 'note' });
+	});
+
+	it('条件满足时正常写入', () => {
+		const result = convertFormDataToFrontmatter(preset, { type: 'decision', owner: 'Ann' });
+		expect(result).toEqual({ type: 'decision', owner: 'Ann' });
+	});
+});
+
+describe('sanitizeFrontmatterField 选项来源', () => {
+	it('保留选择类字段的有效来源', () => {
+		const field = sanitizeFrontmatterField({
+			key: 'project',
+			label: '项目',
+			type: 'select',
+			default: '',
+			optionSource: { type: 'folder', folder: '/Projects/' },
+		});
+		expect(field?.optionSource).toEqual({ type: 'folder', folder: 'Projects' });
+	});
+
+	it('非选择类字段或缺少参数时丢弃来源', () => {
+		expect(
+			sanitizeFrontmatterField({
+				key: 'title',
+				label: '标题',
+				type: 'text',
+				default: '',
+				optionSource: { type: 'property-values' },
+			})?.optionSource,
+		).toBeUndefined();
+		expect(() =>
+			sanitizeFrontmatterField(
+				{ key: 'p', label: 'P', type: 'select', default: '', optionSource: { type: 'tag' } },
+				{ strict: true },
+			),
+		).toThrow('缺少标签');
+	});
+});
+
+describe('级联选项', () => {
+	const parent = { key: 'area', label: '领域', type: 'select', default: '', options: ['work', 'life'] };
+	const child = {
+		key: 'project',
+		label: '项目',
+		type: 'multi-select',
+		default: [],
+		dependsOn: 'area',
+		optionsByParent: { work: ['alpha', 'beta'], life: ['garden'] },
+	};
+
+	it('转换多选值时按父字段取值过滤', () => {
+		const preset = buildPreset([parent, child] as FrontmatterPreset['fields']);
+		const result = convertFormDataToFrontmatter(preset, { area: 'life', project: ['alpha', 'garden'] });
+		expect(result).toEqual({ area: 'life', project: ['garden'] });
+	});
+
+	it('映射的父值必须是父字段的选项', () => {
+		const siblingFields = [parent, { ...child, optionsByParent: { work: ['alpha'], travel: ['trip'] } }];
+		expect(() => sanitizeFrontmatterField(siblingFields[1], { strict: true, siblingFields })).toThrow(
+			'"travel" 不是父字段',
+		);
+		expect(sanitizeFrontmatterField(siblingFields[1], { siblingFields })?.optionsByParent).toEqual({
+			work: ['alpha'],
+		});
+	});
+
+	it('父字段不存在时在严格模式下报错', () => {
+		expect(() => sanitizeFrontmatterField(child, { strict: true, siblingFields: [child] })).toThrow(
+			'父字段 "area" 不存在',
+		);
+	});
+});
+
+describe('convertFormDataToFrontmatter 日期与时间字段', () => {
+	const preset = buildPreset([
+		{ key: 'due', label: '截止', type: 'date', default: '', dateFormat: 'YYYY/MM/DD' },
+		{ key: 'created', label: '创建', type: 'date', default: '' },
+		{ key: 'start', label: '开始', type: 'datetime', default: '' },
+		{ key: 'remind', label: '提醒', type: 'time', default: '' },
+	]);
+
+	it('按字段格式写入，未声明时使用后备格式且不丢失时间', () => {
+		const result = convertFormDataToFrontmatter(
+			preset,
+			{ due: '2026-10-19', created: '2026-10-19', start: '2026-10-19T14:30', remind: '09:05' },
+			undefined,
+			'YYYYMMDD',
+		);
+
+		expect(result).toEqual({
+			due: '2026/10/19',
+			created: '20261019',
+			start: '2026-10-19 14:30',
+			remind: '09:05',
+		});
+	});
+
+	it('后备格式包含时间时用于日期时间字段', () => {
+		const result = convertFormDataToFrontmatter(preset, { start: '2026-10-19T14:30' }, undefined, 'YYYYMMDDHHmmss');
+
+		expect(result.start).toBe('20261019143000');
+	});
+
+	it('未提供全局格式时使用各类型的默认格式', () => {
+		const result = convertFormDataToFrontmatter(preset, {
+			created: '2026-10-19',
+			start: '2026-10-19T00:30',
+			remind: '23:59',
+		});
+
+		expect(result.created).toBe('2026-10-19');
+		expect(result.start).toBe('2026-10-19 00:30');
+		expect(result.remind).toBe('23:59');
+	});
+
+	it('自然语言日期按字段格式写入', () => {
+		jest.useFakeTimers({ now: new Date(2026, 9, 19, 10, 30) });
+		try {
+			const result = convertFormDataToFrontmatter(preset, { due: 'next friday', created: '明天' });
+
+			expect(result.due).toBe('2026/10/30');
+			expect(result.created).toBe('2026-10-20');
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+
+	it('日期无法解析时抛出错误', () => {
+		expect(() => convertFormDataToFrontmatter(preset, { created: '某天' })).toThrow(
+			'字段 "创建" 的日期格式无效',
+		);
+	});
+});
+
+describe('convertFrontmatterToFormData', () => {
+	const preset = buildPreset([
+		{ key: 'title', label: '标题', type: 'text', default: '默认标题' },
+		{ key: 'rating', label: '评分', type: 'number', default: '3' },
+		{ key: 'done', label: '完成', type: 'boolean', default: true },
+		{ key: 'tags', label: '标签', type: 'multi-select', default: ['a'], options: ['a', 'b'] },
+		{ key: 'project', label: '项目', type: 'link', default: '' },
+		{ key: 'related', label: '相关', type: 'link', default: [], multiple: true },
+	]);
+
+	it('将笔记中的值转换为表单取值', () => {
+		const formData = convertFrontmatterToFormData(preset, {
+			title: 'Weekly',
+			rating: 4,
+			done: 'true',
+			tags: 'b',
+			project: '[[Projects/Alpha|Alpha]]',
+			related: ['[[One]]', 'Two'],
+		});
+
+		expect(formData).toEqual({
+			title: 'Weekly',
+			rating: '4',
+			done: true,
+			tags: ['b'],
+			project: 'Projects/Alpha|Alpha',
+			related: ['One', 'Two'],
+		});
+	});
+
+	it('笔记中不存在的字段使用空值而不是预设默认值', () => {
+		expect(convertFrontmatterToFormData(preset, {})).toEqual({
+			title: '',
+			rating: '',
+			done: false,
+			tags: [],
+			project: '',
+			related: [],
+		});
+	});
+
+	it('写回后与原有的值保持一致', () => {
+		const frontmatter = { title: 'Weekly', rating: 4, done: true, tags: ['a', 'b'], project: '[[Alpha]]', related: ['[[One]]'] };
+
+		expect(convertFormDataToFrontmatter(preset, convertFrontmatterToFormData(preset, frontmatter))).toEqual(frontmatter);
+	});
+});
+
+describe('isStructuredFrontmatterValue', () => {
+	it('detects objects and lists containing objects', () => {
+		expect(isStructuredFrontmatterValue({ lat: 1, lng: 2 })).toBe(true);
+		expect(isStructuredFrontmatterValue([{ name: 'a' }, 'b'])).toBe(true);
+	});
+
+	it('treats scalars and scalar lists as editable', () => {
+		expect(isStructuredFrontmatterValue('text')).toBe(false);
+		expect(isStructuredFrontmatterValue(3)).toBe(false);
+		expect(isStructuredFrontmatterValue(['a', 'b'])).toBe(false);
+		expect(isStructuredFrontmatterValue(null)).toBe(false);
+	});
+});
@@ -1,28 +1,64 @@
 import type { FrontmatterPreset, FrontmatterField } from '@types';
 import { normalizeStringArray } from '@utils/data-transformer';
+import { resolveDateFormat, resolveDateInput, type DateFieldType } from '@utils/frontmatter/date';
+import { parseBooleanValue, parseFiniteNumber } from '@utils/frontmatter/field';
+import { formatWikilink, normalizeWikilinks, stripWikilink } from '@utils/frontmatter/link';
+import { resolveFieldOptions } from '@utils/frontmatter/options';
+import { getVisibleFieldKeys } from '@utils/frontmatter/visibility';
 
-function handleDateField(field: FrontmatterField, rawValue: unknown): string {
+function handleDateField(
+	field: FrontmatterField,
+	type: DateFieldType,
+	rawValue: unknown,
+	fallbackDateFormat?: string,
+): string {
 	if (field.useTemplaterTimestamp) {
 		return typeof rawValue === 'string' ? rawValue : '';
 	}
 
-	const date = new Date(rawValue as string | number | Date);
-	if (Number.isNaN(date.getTime())) {
-		throw new Error(`字段 "${field.label}" 的日期格式无效`);
+	// 自然语言输入（如 "tomorrow"）在写入前按字段格式解析为具体日期
+	const formatted = resolveDateInput(rawValue, type, resolveDateFormat(field, fallbackDateFormat));
+	if (formatted === null) {
+		throw new Error(`字段 "${field.label}" 的${type === 'time' ? '时间' : '日期'}格式无效`);
 	}
 
-	return date.toISOString().split('T')[0];
+	return formatted;
 }
 
-function handleMultiSelectField(field: FrontmatterField, rawValue: unknown): string[] {
-	const allowedOptions = Array.isArray(field.options)
-		? new Set(field.options.map(option => option.trim()).filter(Boolean))
-		: undefined;
+function handleMultiSelectField(
+	field: FrontmatterField,
+	rawValue: unknown,
+	data: Record<string, unknown>,
+): string[] {
+	// 级联字段按父字段当前取值限定可选项
+	const allowedOptions = new Set(resolveFieldOptions(field, data));
 
 	const normalizedValues = normalizeStringArray(rawValue, allowedOptions);
 	return normalizedValues;
 }
 
+function handleNumberField(field: FrontmatterField, rawValue: unknown): number {
+	const parsed = parseFiniteNumber(rawValue);
+	if (parsed === null) {
+		throw new Error(`字段 "${field.label}" 的数值格式无效`);
+	}
+
+	return parsed;
+}
+
+function handleBooleanField(rawValue: unknown): boolean {
+	return parseBooleanValue(rawValue) ?? false;
+}
+
+function handleLinkField(field: FrontmatterField, rawValue: unknown): string | string[] {
+	const links = normalizeWikilinks(rawValue);
+	if (field.multiple) {
+		return links;
+	}
+
+	return links[0] ?? formatWikilink(rawValue);
+}
+
 function handleTextLikeField(rawValue: unknown): unknown {
 	if (typeof rawValue === 'string') {
 		const trimmedValue = rawValue.trim();
@@ -32,42 +68,89 @@ function handleTextLikeField(rawValue: unknown): unknown {
 	return rawValue;
 }
 
+function getEmptyFieldValue(field: FrontmatterField): unknown {
+	switch (field.type) {
+		case 'multi-select':
+			return [];
+		case 'number':
+			return null;
+		case 'boolean':
+			return false;
+		case 'link':
+			return field.multiple ? [] : '';
+		default:
+			return '';
+	}
+}
+
+/**
+ * 将表单数据转换为写入笔记的 frontmatter
+ * @param fallbackDateFormat 日期字段未声明格式时使用的格式（见 getFieldDateFormatFallback），未提供时按类型使用默认格式
+ */
 export function convertFormDataToFrontmatter(
 	preset: FrontmatterPreset,
 	formData: Record<string, unknown>,
 	resolvedDefaults?: Map<string, string | string[]>,
+	fallbackDateFormat?: string,
 ): Record<string, unknown> {
 	const frontmatter: Record<string, unknown> = {};
+	const effectiveData: Record<string, unknown> = {};
+	resolvedDefaults?.forEach((value, key) => {
+		effectiveData[key] = value;
+	});
+	Object.entries(formData).forEach(([key, value]) => {
+		if (value !== undefined && value !== null) {
+			effectiveData[key] = value;
+		}
+	});
+	const visibleKeys = getVisibleFieldKeys(preset.fields, effectiveData);
 
 	preset.fields.forEach((field) => {
+		// 显示条件不满足的字段不写入 frontmatter
+		if (!visibleKeys.has(field.key)) {
+			return;
+		}
+
 		const userValue = formData[field.key];
 		const hasUserValue = Object.prototype.hasOwnProperty.call(formData, field.key);
 		const rawValue = hasUserValue && userValue !== undefined && userValue !== null
 			? userValue
 			: resolvedDefaults?.get(field.key);
 
-		if (rawValue === undefined) {
-			frontmatter[field.key] = field.type === 'multi-select' ? [] : '';
-			return;
-		}
-
-		if (rawValue === null || rawValue === '') {
-			frontmatter[field.key] = field.type === 'multi-select' ? [] : '';
+		if (rawValue === undefined || rawValue === null || rawValue === '') {
+			frontmatter[field.key] = getEmptyFieldValue(field);
 			return;
 		}
 
 		switch (field.type) {
-			case 'date': {
-				frontmatter[field.key] = handleDateField(field, rawValue);
+			case 'date':
+			case 'datetime':
+			case 'time': {
+				frontmatter[field.key] = handleDateField(field, field.type, rawValue, fallbackDateFormat);
 				break;
 			}
 
 			case 'multi-select': {
-				const selections = handleMultiSelectField(field, rawValue);
+				const selections = handleMultiSelectField(field, rawValue, effectiveData);
 				frontmatter[field.key] = selections;
 				break;
 			}
 
+			case 'number': {
+				frontmatter[field.key] = handleNumberField(field, rawValue);
+				break;
+			}
+
+			case 'boolean': {
+				frontmatter[field.key] = handleBooleanField(rawValue);
+				break;
+			}
+
+			case 'link': {
+				frontmatter[field.key] = handleLinkField(field, rawValue);
+				break;
+			}
+
 			case 'text':
 			case 'select':
 			default: {
@@ -79,3 +162,51 @@ export function convertFormDataToFrontmatter(
 
 	return frontmatter;
 }
+
+/**
+ * 将笔记中已有的 frontmatter 转换为表单初始数据（convertFormDataToFrontmatter 的逆过程）。
+ * 笔记中不存在的字段使用空值，而不是预设默认值。
+ */
+export function convertFrontmatterToFormData(
+	preset: FrontmatterPreset,
+	frontmatter: Record<string, unknown>,
+): Record<string, unknown> {
+	const formData: Record<string, unknown> = {};
+
+	preset.fields.forEach((field) => {
+		const value = frontmatter[field.key];
+		if (value === undefined || value === null) {
+			formData[field.key] = field.type === 'number' ? '' : getEmptyFieldValue(field);
+			return;
+		}
+
+		switch (field.type) {
+			case 'multi-select':
+				formData[field.key] = normalizeStringArray(value);
+				break;
+			case 'boolean':
+				formData[field.key] = parseBooleanValue(value) ?? false;
+				break;
+			case 'link': {
+				const links = normalizeStringArray(value).map(stripWikilink).filter(Boolean);
+				formData[field.key] = field.multiple ? links : links[0] ?? '';
+				break;
+			}
+			default:
+				formData[field.key] = Array.isArray(value) ? value.join(', ') : String(value);
+				break;
+		}
+	});
+
+	return formData;
+}
+
+/**
+ * 判断笔记中的值是否为表单无法编辑的结构化数据（对象或包含对象的列表）
+ */
+export function isStructuredFrontmatterValue(value: unknown): boolean {
+	if (Array.isArray(value)) {
+		return value.some((item) => typeof item === 'object' && item !== null);
+	}
+	return typeof value === 'object' && value !== null;
+}
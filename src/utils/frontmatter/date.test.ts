@@ -0,0 +1,95 @@
+import {
+	formatDateValue,
+	getFieldDateFormatFallback,
+	parseDateValue,
+	resolveDateFormat,
+	resolveDateInput,
+	toDatePickerValue,
+} from './date';
+
+describe('resolveDateFormat', () => {
+	it('prefers the field format, then the fallback format', () => {
+		expect(resolveDateFormat({ type: 'date', dateFormat: ' YYYY/MM/DD ' }, 'YYYYMMDD')).toBe('YYYY/MM/DD');
+		expect(resolveDateFormat({ type: 'datetime' }, 'YYYY/MM/DD HH:mm')).toBe('YYYY/MM/DD HH:mm');
+		expect(resolveDateFormat({ type: 'date' }, 'YYYYMMDD')).toBe('YYYYMMDD');
+	});
+
+	it('uses per-type defaults without a fallback format', () => {
+		expect(resolveDateFormat({ type: 'date' })).toBe('YYYY-MM-DD');
+		expect(resolveDateFormat({ type: 'datetime' })).toBe('YYYY-MM-DD HH:mm');
+		expect(resolveDateFormat({ type: 'time' })).toBe('HH:mm');
+	});
+
+	it('keeps the time of datetime fields when the fallback has none', () => {
+		expect(resolveDateFormat({ type: 'datetime' }, 'YYYYMMDD')).toBe('YYYY-MM-DD HH:mm');
+		expect(resolveDateFormat({ type: 'datetime' }, 'YYYY [h] MM')).toBe('YYYY-MM-DD HH:mm');
+	});
+
+	it('does not apply the global date format to time fields', () => {
+		expect(resolveDateFormat({ type: 'time' }, 'YYYYMMDDHHmmss')).toBe('HH:mm');
+		expect(resolveDateFormat({ type: 'time', dateFormat: 'HH:mm:ss' }, 'YYYYMMDD')).toBe('HH:mm:ss');
+	});
+});
+
+describe('getFieldDateFormatFallback', () => {
+	it('returns the global format only when the user opted in', () => {
+		expect(getFieldDateFormatFallback({ defaultDateFormat: 'YYYYMMDDHHmmss', applyDefaultDateFormatToFields: false })).toBeUndefined();
+		expect(getFieldDateFormatFallback({ defaultDateFormat: 'YYYY/MM/DD', applyDefaultDateFormatToFields: true })).toBe(
+			'YYYY/MM/DD',
+		);
+		expect(getFieldDateFormatFallback(undefined)).toBeUndefined();
+	});
+});
+
+describe('parseDateValue', () => {
+	it('parses values in the declared format as local time', () => {
+		const parsed = parseDateValue('19/10/2026 23:45', 'datetime', 'DD/MM/YYYY HH:mm');
+
+		expect(parsed?.toDate()).toEqual(new Date(2026, 9, 19, 23, 45));
+	});
+
+	it('falls back to picker and ISO values', () => {
+		expect(parseDateValue('2026-10-19', 'date', 'YYYY/MM/DD')?.toDate()).toEqual(new Date(2026, 9, 19));
+		expect(parseDateValue('2026-10-19T08:15', 'datetime', 'YYYYMMDDHHmm')?.toDate()).toEqual(
+			new Date(2026, 9, 19, 8, 15),
+		);
+		expect(parseDateValue(20261019, 'date', 'YYYYMMDD')?.toDate()).toEqual(new Date(2026, 9, 19));
+	});
+
+	it('rejects values that match no format', () => {
+		expect(parseDateValue('2026-13-40', 'date', 'YYYY-MM-DD')).toBeNull();
+		expect(parseDateValue('25:00', 'time', 'HH:mm')).toBeNull();
+		expect(parseDateValue('', 'date', 'YYYY-MM-DD')).toBeNull();
+		expect(parseDateValue(['2026-10-19'], 'date', 'YYYY-MM-DD')).toBeNull();
+	});
+});
+
+describe('formatDateValue / toDatePickerValue', () => {
+	it('keeps the calendar day for times near midnight', () => {
+		expect(formatDateValue('2026-10-19T00:30', 'date', 'YYYY-MM-DD')).toBe('2026-10-19');
+		expect(formatDateValue(new Date(2026, 9, 19, 23, 59), 'date', 'YYYY/MM/DD')).toBe('2026/10/19');
+	});
+
+	it('converts stored values into picker values', () => {
+		expect(toDatePickerValue('2026/10/19', 'date', 'YYYY/MM/DD')).toBe('2026-10-19');
+		expect(toDatePickerValue('20261019143000', 'datetime', 'YYYYMMDDHHmmss')).toBe('2026-10-19T14:30');
+		expect(toDatePickerValue('9:05', 'time', 'H:mm')).toBe('09:05');
+		expect(toDatePickerValue('not a date', 'date', 'YYYY-MM-DD')).toBe('');
+	});
+});
+
+describe('resolveDateInput', () => {
+	const now = new Date(2026, 9, 19, 10, 30);
+
+	it('formats natural-language input with the field format', () => {
+		expect(resolveDateInput('next friday', 'date', 'YYYY/MM/DD', now)).toBe('2026/10/30');
+		expect(resolveDateInput('tomorrow 9am', 'datetime', 'YYYY-MM-DD HH:mm', now)).toBe('2026-10-20 09:00');
+		expect(resolveDateInput('+3d', 'datetime', 'YYYY-MM-DD HH:mm', now)).toBe('2026-10-22 00:00');
+	});
+
+	it('prefers strict formats and leaves time fields strict', () => {
+		expect(resolveDateInput('2026-10-19', 'date', 'DD.MM.YYYY', now)).toBe('19.10.2026');
+		expect(resolveDateInput('tomorrow', 'time', 'HH:mm', now)).toBeNull();
+		expect(resolveDateInput('someday', 'date', 'YYYY-MM-DD', now)).toBeNull();
+	});
+});
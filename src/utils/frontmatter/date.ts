@@ -0,0 +1,122 @@
+import { moment } from 'obsidian';
+import type { Moment, MomentBuiltinFormat } from 'moment';
+import type { FrontmatterField, FrontmatterFieldType, NoteArchitectSettings } from '@types';
+import { parseNaturalDate } from './natural-date';
+
+export type DateFieldType = Extract<FrontmatterFieldType, 'date' | 'datetime' | 'time'>;
+
+export const DATE_FIELD_TYPES: DateFieldType[] = ['date', 'datetime', 'time'];
+
+/** 表单日期选择器（input[type=date|datetime-local|time]）使用的取值格式 */
+export const DATE_PICKER_FORMATS: Record<DateFieldType, string> = {
+	date: 'YYYY-MM-DD',
+	datetime: 'YYYY-MM-DDTHH:mm',
+	time: 'HH:mm',
+};
+
+/** 字段未声明格式时的写入格式 */
+const DEFAULT_OUTPUT_FORMATS: Record<DateFieldType, string> = {
+	date: 'YYYY-MM-DD',
+	datetime: 'YYYY-MM-DD HH:mm',
+	time: 'HH:mm',
+};
+
+/** 声明格式无法解析时依次尝试的格式，兼容选择器取值与旧版写入的日期；日期类字段最后再尝试 ISO 8601 */
+const FALLBACK_PARSE_FORMATS: Record<DateFieldType, string[]> = {
+	date: ['YYYY-MM-DD', 'YYYY-MM-DDTHH:mm', 'YYYY-MM-DD HH:mm'],
+	datetime: ['YYYY-MM-DDTHH:mm', 'YYYY-MM-DDTHH:mm:ss', 'YYYY-MM-DD HH:mm', 'YYYY-MM-DD HH:mm:ss', 'YYYY-MM-DD'],
+	time: ['HH:mm', 'HH:mm:ss', 'H:mm'],
+};
+
+export function isDateFieldType(type: FrontmatterFieldType): type is DateFieldType {
+	return (DATE_FIELD_TYPES as FrontmatterFieldType[]).includes(type);
+}
+
+function hasTimeTokens(format: string): boolean {
+	return /[Hhk]/.test(format.replace(/\[[^\]]*\]/g, ''));
+}
+
+/**
+ * 字段未声明格式时的后备格式：仅在用户开启"日期字段使用默认日期格式"时返回全局 defaultDateFormat
+ */
+export function getFieldDateFormatFallback(
+	settings?: Partial<Pick<NoteArchitectSettings, 'defaultDateFormat' | 'applyDefaultDateFormatToFields'>>,
+): string | undefined {
+	return settings?.applyDefaultDateFormatToFields ? settings.defaultDateFormat : undefined;
+}
+
+/**
+ * 解析字段的写入格式：字段自身格式优先，其次为 fallbackFormat，最后按类型使用
+ * YYYY-MM-DD、YYYY-MM-DD HH:mm 或 HH:mm。
+ * time 字段不使用 fallbackFormat；datetime 字段只在 fallbackFormat 包含时间时使用，避免丢失时间。
+ * @param fallbackFormat 通常为 getFieldDateFormatFallback 的结果
+ */
+export function resolveDateFormat(
+	field: Pick<FrontmatterField, 'type' | 'dateFormat'>,
+	fallbackFormat?: string,
+): string {
+	const type = isDateFieldType(field.type) ? field.type : 'date';
+	const ownFormat = field.dateFormat?.trim();
+	if (ownFormat) {
+		return ownFormat;
+	}
+	const fallback = fallbackFormat?.trim();
+	if (!fallback || type === 'time' || (type === 'datetime' && !hasTimeTokens(fallback))) {
+		return DEFAULT_OUTPUT_FORMATS[type];
+	}
+	return fallback;
+}
+
+/**
+ * 按声明格式解析日期值（本地时间），失败时依次尝试选择器格式与 ISO 格式
+ * @returns 解析结果，无法解析时返回 null
+ */
+export function parseDateValue(value: unknown, type: DateFieldType, format: string): Moment | null {
+	if (value instanceof Date) {
+		return Number.isNaN(value.getTime()) ? null : moment(value);
+	}
+	if (typeof value !== 'string' && typeof value !== 'number') {
+		return null;
+	}
+
+	const text = String(value).trim();
+	if (!text) {
+		return null;
+	}
+
+	const formats: Array<string | MomentBuiltinFormat> = [format, ...FALLBACK_PARSE_FORMATS[type]];
+	if (type !== 'time') {
+		formats.push(moment.ISO_8601);
+	}
+	const parsed = moment(text, formats, true);
+	return parsed.isValid() ? parsed : null;
+}
+
+/**
+ * 将日期值格式化为写入 frontmatter 的字符串
+ * @returns 格式化结果，无法解析时返回 null
+ */
+export function formatDateValue(value: unknown, type: DateFieldType, format: string): string | null {
+	return parseDateValue(value, type, format)?.format(format) ?? null;
+}
+
+/**
+ * 将已有值转换为日期选择器可以显示的取值，无法解析时返回空字符串
+ */
+export function toDatePickerValue(value: unknown, type: DateFieldType, format: string): string {
+	return parseDateValue(value, type, format)?.format(DATE_PICKER_FORMATS[type]) ?? '';
+}
+
+/**
+ * 解析用户在表单中输入的日期：先按格式严格解析，失败时（time 字段除外）再尝试自然语言，
+ * 如 "tomorrow"、"next friday"、"+3d"、"下周五"
+ * @returns 按 format 格式化后的值，无法识别时返回 null
+ */
+export function resolveDateInput(value: unknown, type: DateFieldType, format: string, now?: Date): string | null {
+	const formatted = formatDateValue(value, type, format);
+	if (formatted !== null || type === 'time' || typeof value !== 'string') {
+		return formatted;
+	}
+	const natural = parseNaturalDate(value, now);
+	return natural ? moment(natural.date).format(format) : null;
+}
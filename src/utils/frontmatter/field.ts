@@ -1,7 +1,100 @@
-import type { FrontmatterField, FrontmatterFieldDefault } from '@types';
+import type {
+	FieldOptionSource,
+	FieldOptionSourceType,
+	FieldVisibilityRule,
+	FrontmatterField,
+	FrontmatterFieldDefault,
+} from '@types';
+import { FIELD_MERGE_STRATEGIES } from '@core/constants';
 import { normalizeStringArray } from '@utils/data-transformer';
+import { isDateFieldType } from '@utils/frontmatter/date';
+import { operatorRequiresValue, VISIBILITY_OPERATORS } from '@utils/frontmatter/visibility';
 
-const VALID_FIELD_TYPES: FrontmatterField['type'][] = ['text', 'select', 'date', 'multi-select'];
+export interface SanitizeFieldOptions {
+	strict?: boolean;
+	// 同一预设中的全部字段（原始数据），用于校验跨字段引用
+	siblingFields?: unknown[];
+}
+
+const VALID_OPTION_SOURCE_TYPES: FieldOptionSourceType[] = ['property-values', 'folder', 'tag'];
+
+export const VALID_FIELD_TYPES: FrontmatterField['type'][] = [
+	'text',
+	'select',
+	'date',
+	'datetime',
+	'time',
+	'multi-select',
+	'number',
+	'boolean',
+	'link',
+];
+
+/**
+ * 将任意输入解析为有限数值，无法解析时返回 null。
+ */
+export function parseFiniteNumber(rawValue: unknown): number | null {
+	if (typeof rawValue === 'number') {
+		return Number.isFinite(rawValue) ? rawValue : null;
+	}
+
+	if (typeof rawValue === 'string') {
+		const trimmed = rawValue.trim();
+		if (!trimmed) {
+			return null;
+		}
+		const parsed = Number(trimmed);
+		return Number.isFinite(parsed) ? parsed : null;
+	}
+
+	return null;
+}
+
+/**
+ * 将任意输入解析为布尔值，无法识别时返回 null。
+ */
+export function parseBooleanValue(rawValue: unknown): boolean | null {
+	if (typeof rawValue === 'boolean') {
+		return rawValue;
+	}
+
+	if (typeof rawValue === 'string') {
+		const normalized = rawValue.trim().toLowerCase();
+		if (normalized === 'true') {
+			return true;
+		}
+		if (normalized === 'false') {
+			return false;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * 判断字段是否以列表形式写入（多选或多值链接），用于决定适用的校验规则。
+ */
+export function isListValuedField(field: Pick<FrontmatterField, 'type' | 'multiple'>): boolean {
+	return field.type === 'multi-select' || (field.type === 'link' && field.multiple === true);
+}
+
+/**
+ * 判断字段是否支持文本长度与正则校验。
+ */
+export function supportsTextRules(field: Pick<FrontmatterField, 'type' | 'multiple'>): boolean {
+	return field.type === 'text' || (field.type === 'link' && field.multiple !== true);
+}
+
+/**
+ * 编译字段的 pattern，按整体匹配处理；表达式无效时返回 null。
+ */
+export function compileFieldPattern(pattern: string): RegExp | null {
+	try {
+		return new RegExp(`^(?:${pattern})$`);
+	} catch {
+		return null;
+	}
+}
 
 /**
  * 深拷贝 FrontmatterField，避免在 UI 或管理逻辑中意外修改原始字段数据。
@@ -11,6 +104,15 @@ export function cloneFrontmatterField(field: FrontmatterField): FrontmatterField
 		...field,
 		default: Array.isArray(field.default) ? [...field.default] : field.default,
 		...(Array.isArray(field.options) ? { options: [...field.options] } : {}),
+		...(Array.isArray(field.showIf) ? { showIf: field.showIf.map((rule) => ({ ...rule })) } : {}),
+		...(field.optionSource ? { optionSource: { ...field.optionSource } } : {}),
+		...(field.optionsByParent
+			? {
+					optionsByParent: Object.fromEntries(
+						Object.entries(field.optionsByParent).map(([parentValue, options]) => [parentValue, [...options]]),
+					),
+				}
+			: {}),
 	};
 }
 
@@ -28,6 +130,18 @@ export function normalizeFieldDefault(
 		return normalizeStringArray(rawDefault);
 	}
 
+	if (type === 'number') {
+		return parseFiniteNumber(rawDefault) ?? '';
+	}
+
+	if (type === 'boolean') {
+		return parseBooleanValue(rawDefault) ?? false;
+	}
+
+	if (type === 'link' && Array.isArray(rawDefault)) {
+		return normalizeStringArray(rawDefault);
+	}
+
 	if (typeof rawDefault === 'string') {
 		return rawDefault;
 	}
@@ -39,6 +153,366 @@ export function normalizeFieldDefault(
 	return String(rawDefault);
 }
 
+/**
+ * 复制数值字段的约束配置（min/max/step/integerOnly），非数值字段不保留约束。
+ * @throws 如果 strict 为 true 且约束无效
+ */
+function applyNumberConstraints(
+	source: Partial<FrontmatterField>,
+	target: FrontmatterField,
+	options: { strict?: boolean } = {},
+): void {
+	if (target.type !== 'number') {
+		return;
+	}
+
+	const min = parseFiniteNumber(source.min);
+	const max = parseFiniteNumber(source.max);
+	const step = parseFiniteNumber(source.step);
+
+	if (min !== null && max !== null && min > max) {
+		if (options.strict) {
+			throw new Error(`字段格式无效：最小值 ${min} 大于最大值 ${max}`);
+		}
+	} else {
+		if (min !== null) {
+			target.min = min;
+		}
+		if (max !== null) {
+			target.max = max;
+		}
+	}
+
+	if (step !== null) {
+		if (step > 0) {
+			target.step = step;
+		} else if (options.strict) {
+			throw new Error('字段格式无效：步长必须大于 0');
+		}
+	}
+
+	if (source.integerOnly === true) {
+		target.integerOnly = true;
+	}
+}
+
+/**
+ * 复制链接字段的筛选配置（linkFolder/linkTag/multiple），非链接字段不保留。
+ * @throws 如果 strict 为 true 且配置无效
+ */
+function applyLinkConstraints(
+	source: Partial<FrontmatterField>,
+	target: FrontmatterField,
+	options: { strict?: boolean } = {},
+): void {
+	if (target.type !== 'link') {
+		return;
+	}
+
+	if (source.linkFolder !== undefined && typeof source.linkFolder !== 'string') {
+		if (options.strict) {
+			throw new Error('字段格式无效：链接目录必须是字符串');
+		}
+	} else {
+		const folder = source.linkFolder?.trim().replace(/^\/+|\/+$/g, '');
+		if (folder) {
+			target.linkFolder = folder;
+		}
+	}
+
+	if (source.linkTag !== undefined && typeof source.linkTag !== 'string') {
+		if (options.strict) {
+			throw new Error('字段格式无效：链接标签必须是字符串');
+		}
+	} else {
+		const tag = source.linkTag?.trim().replace(/^#+/, '');
+		if (tag) {
+			if (/\s/.test(tag)) {
+				if (options.strict) {
+					throw new Error(`字段格式无效：链接标签 "${tag}" 不能包含空白字符`);
+				}
+			} else {
+				target.linkTag = tag;
+			}
+		}
+	}
+
+	if (source.multiple === true) {
+		target.multiple = true;
+	}
+}
+
+/**
+ * 复制日期/时间字段的写入格式，非日期字段不保留。
+ */
+function applyDateFormat(source: Partial<FrontmatterField>, target: FrontmatterField): void {
+	if (!isDateFieldType(target.type) || typeof source.dateFormat !== 'string') {
+		return;
+	}
+	const format = source.dateFormat.trim();
+	if (format) {
+		target.dateFormat = format;
+	}
+}
+
+/**
+ * 复制字段声明的合并方式，不受支持的值被丢弃（strict 模式下抛出）。
+ */
+function applyMergeStrategy(
+	source: Partial<FrontmatterField>,
+	target: FrontmatterField,
+	options: { strict?: boolean } = {},
+): void {
+	if (source.mergeStrategy === undefined) {
+		return;
+	}
+	if (FIELD_MERGE_STRATEGIES.includes(source.mergeStrategy)) {
+		target.mergeStrategy = source.mergeStrategy;
+	} else if (options.strict) {
+		throw new Error(`字段格式无效：合并方式 "${String(source.mergeStrategy)}" 不受支持`);
+	}
+}
+
+/**
+ * 解析非负整数形式的计数约束，无效时返回 null。
+ */
+function parseCountConstraint(rawValue: unknown): number | null {
+	const parsed = parseFiniteNumber(rawValue);
+	if (parsed === null || parsed < 0 || !Number.isInteger(parsed)) {
+		return null;
+	}
+	return parsed;
+}
+
+/**
+ * 复制一对上下限计数约束，下限大于上限时丢弃（strict 模式下抛出）。
+ */
+function applyCountRange(
+	source: Partial<FrontmatterField>,
+	target: FrontmatterField,
+	keys: ['minLength', 'maxLength'] | ['minItems', 'maxItems'],
+	label: string,
+	options: { strict?: boolean },
+): void {
+	const [minKey, maxKey] = keys;
+	const min = parseCountConstraint(source[minKey]);
+	const max = parseCountConstraint(source[maxKey]);
+
+	if (min !== null && max !== null && min > max) {
+		if (options.strict) {
+			throw new Error(`字段格式无效：${label}下限 ${min} 大于上限 ${max}`);
+		}
+		return;
+	}
+
+	if (min !== null) {
+		target[minKey] = min;
+	}
+	if (max !== null) {
+		target[maxKey] = max;
+	}
+}
+
+/**
+ * 复制字段的表单校验规则（required/pattern/长度/条目数），按字段类型过滤不适用的规则。
+ * @throws 如果 strict 为 true 且规则无效
+ */
+function applyValidationRules(
+	source: Partial<FrontmatterField>,
+	target: FrontmatterField,
+	options: { strict?: boolean } = {},
+): void {
+	if (source.required === true && target.type !== 'boolean') {
+		target.required = true;
+	}
+
+	if (supportsTextRules(target)) {
+		const pattern = typeof source.pattern === 'string' ? source.pattern.trim() : '';
+		if (pattern) {
+			if (compileFieldPattern(pattern)) {
+				target.pattern = pattern;
+				const message = typeof source.patternMessage === 'string' ? source.patternMessage.trim() : '';
+				if (message) {
+					target.patternMessage = message;
+				}
+			} else if (options.strict) {
+				throw new Error(`字段格式无效：正则表达式 "${pattern}" 无法解析`);
+			}
+		}
+
+		applyCountRange(source, target, ['minLength', 'maxLength'], '长度', options);
+	}
+
+	if (isListValuedField(target)) {
+		applyCountRange(source, target, ['minItems', 'maxItems'], '条目数', options);
+	}
+}
+
+/**
+ * 复制字段的显示条件（showIf），过滤缺少目标键或操作符无效的规则。
+ * @throws 如果 strict 为 true 且规则无效
+ */
+function applyVisibilityRules(
+	source: Partial<FrontmatterField>,
+	target: FrontmatterField,
+	options: { strict?: boolean } = {},
+): void {
+	if (source.showIf === undefined) {
+		return;
+	}
+
+	if (!Array.isArray(source.showIf)) {
+		if (options.strict) {
+			throw new Error('字段格式无效：显示条件必须是数组');
+		}
+		return;
+	}
+
+	const rules: FieldVisibilityRule[] = [];
+	source.showIf.forEach((candidate) => {
+		const rule = candidate && typeof candidate === 'object' ? candidate : null;
+		const field = typeof rule?.field === 'string' ? rule.field.trim() : '';
+		const operator = rule?.operator;
+
+		if (!field || !operator || !VISIBILITY_OPERATORS.includes(operator)) {
+			if (options.strict) {
+				throw new Error(`字段格式无效：显示条件 "${String(operator)}" 不完整或不受支持`);
+			}
+			return;
+		}
+
+		const sanitizedRule: FieldVisibilityRule = { field, operator };
+		if (operatorRequiresValue(operator) && rule?.value !== undefined && rule.value !== null) {
+			sanitizedRule.value = String(rule.value).trim();
+		}
+		rules.push(sanitizedRule);
+	});
+
+	if (rules.length > 0) {
+		target.showIf = rules;
+	}
+}
+
+/**
+ * 复制选择类字段的动态选项来源，非 select/multi-select 字段不保留。
+ * @throws 如果 strict 为 true 且来源配置无效
+ */
+function applyOptionSource(
+	source: Partial<FrontmatterField>,
+	target: FrontmatterField,
+	options: { strict?: boolean } = {},
+): void {
+	const candidate = source.optionSource;
+	if (!candidate || (target.type !== 'select' && target.type !== 'multi-select')) {
+		return;
+	}
+
+	const type = typeof candidate === 'object' ? candidate.type : undefined;
+	if (!type || !VALID_OPTION_SOURCE_TYPES.includes(type)) {
+		if (options.strict) {
+			throw new Error(`字段格式无效：选项来源 "${String(type)}" 不受支持`);
+		}
+		return;
+	}
+
+	const sanitizedSource: FieldOptionSource = { type };
+	if (type === 'folder') {
+		const folder = typeof candidate.folder === 'string' ? candidate.folder.trim().replace(/^\/+|\/+$/g, '') : '';
+		if (!folder) {
+			if (options.strict) {
+				throw new Error('字段格式无效：目录选项来源缺少目录路径');
+			}
+			return;
+		}
+		sanitizedSource.folder = folder;
+	}
+
+	if (type === 'tag') {
+		const tag = typeof candidate.tag === 'string' ? candidate.tag.trim().replace(/^#+/, '') : '';
+		if (!tag) {
+			if (options.strict) {
+				throw new Error('字段格式无效：标签选项来源缺少标签');
+			}
+			return;
+		}
+		sanitizedSource.tag = tag;
+	}
+
+	target.optionSource = sanitizedSource;
+}
+
+/**
+ * 复制级联选项配置（dependsOn/optionsByParent）。
+ * 提供同预设的字段列表时，会校验父字段存在且每个映射的父值都是父字段的有效选项。
+ * @throws 如果 strict 为 true 且配置无效
+ */
+function applyDependentOptions(
+	source: Partial<FrontmatterField>,
+	target: FrontmatterField,
+	options: SanitizeFieldOptions = {},
+): void {
+	if (source.dependsOn === undefined && source.optionsByParent === undefined) {
+		return;
+	}
+	if (target.type !== 'select' && target.type !== 'multi-select') {
+		return;
+	}
+
+	const fail = (message: string): void => {
+		if (options.strict) {
+			throw new Error(`字段格式无效：${message}`);
+		}
+	};
+
+	const parentKey = typeof source.dependsOn === 'string' ? source.dependsOn.trim() : '';
+	const rawMapping = source.optionsByParent;
+	if (!parentKey || !rawMapping || typeof rawMapping !== 'object' || Array.isArray(rawMapping)) {
+		fail('级联选项需要同时提供父字段与选项映射');
+		return;
+	}
+	if (parentKey === target.key) {
+		fail('级联选项不能依赖字段自身');
+		return;
+	}
+
+	let parentOptions: Set<string> | null = null;
+	if (options.siblingFields) {
+		const parent = options.siblingFields.find(
+			(candidate): candidate is Partial<FrontmatterField> =>
+				Boolean(candidate) &&
+				typeof candidate === 'object' &&
+				typeof (candidate as Partial<FrontmatterField>).key === 'string' &&
+				(candidate as Partial<FrontmatterField>).key?.trim() === parentKey,
+		);
+		if (!parent) {
+			fail(`级联选项引用的父字段 "${parentKey}" 不存在`);
+			return;
+		}
+		// 父字段使用动态来源时无法静态校验映射
+		if (!parent.optionSource && Array.isArray(parent.options)) {
+			parentOptions = new Set(parent.options.map((option) => String(option).trim()).filter(Boolean));
+		}
+	}
+
+	const mapping: Record<string, string[]> = {};
+	for (const [rawParentValue, rawOptions] of Object.entries(rawMapping)) {
+		const parentValue = rawParentValue.trim();
+		if (!parentValue) {
+			continue;
+		}
+		if (parentOptions && !parentOptions.has(parentValue)) {
+			fail(`级联选项映射的父值 "${parentValue}" 不是父字段 "${parentKey}" 的选项`);
+			continue;
+		}
+		mapping[parentValue] = normalizeStringArray(rawOptions);
+	}
+
+	if (Object.keys(mapping).length > 0) {
+		target.dependsOn = parentKey;
+		target.optionsByParent = mapping;
+	}
+}
+
 /**
  * 验证和清理单个 FrontmatterField 对象
  * @param field 原始字段数据
@@ -48,7 +522,7 @@ export function normalizeFieldDefault(
  */
 export function sanitizeFrontmatterField(
 	field: unknown,
-	options: { strict?: boolean } = {},
+	options: SanitizeFieldOptions = {},
 ): FrontmatterField | null {
 	const candidate = field && typeof field === 'object' ? (field as Partial<FrontmatterField>) : null;
 
@@ -99,6 +573,15 @@ export function sanitizeFrontmatterField(
 		sanitizedField.useTemplaterTimestamp = true;
 	}
 
+	applyDateFormat(candidate, sanitizedField);
+	applyNumberConstraints(candidate, sanitizedField, options);
+	applyLinkConstraints(candidate, sanitizedField, options);
+	applyValidationRules(candidate, sanitizedField, options);
+	applyVisibilityRules(candidate, sanitizedField, options);
+	applyOptionSource(candidate, sanitizedField, options);
+	applyDependentOptions(candidate, sanitizedField, options);
+	applyMergeStrategy(candidate, sanitizedField, options);
+
 	return sanitizedField;
 }
 
@@ -138,6 +621,15 @@ export function sanitizeFrontmatterFields(fields: FrontmatterField[]): Frontmatt
 				sanitized.useTemplaterTimestamp = true;
 			}
 
+			applyDateFormat(field, sanitized);
+			applyNumberConstraints(field, sanitized);
+			applyLinkConstraints(field, sanitized);
+			applyValidationRules(field, sanitized);
+			applyVisibilityRules(field, sanitized);
+			applyOptionSource(field, sanitized);
+			applyDependentOptions(field, sanitized, { siblingFields: fields });
+			applyMergeStrategy(field, sanitized);
+
 			return sanitized;
 		});
 }
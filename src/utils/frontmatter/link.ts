@@ -0,0 +1,60 @@
+import { normalizeStringArray } from '@utils/data-transformer';
+
+const WIKILINK_PATTERN = /^\[\[([^\]]*)\]\]$/;
+
+/**
+ * 从链接值中提取链接路径，兼容 `[[Note|别名]]`、`[[Note#标题]]` 与纯文本写法。
+ */
+export function extractLinkpath(rawValue: unknown): string {
+	if (typeof rawValue !== 'string') {
+		return '';
+	}
+
+	const trimmed = rawValue.trim();
+	const match = WIKILINK_PATTERN.exec(trimmed);
+	const inner = match ? match[1] : trimmed;
+	return inner.split('|')[0].split('#')[0].trim();
+}
+
+/**
+ * 将链接文本格式化为 `[[...]]` 形式，已是 wikilink 时保持原样。
+ */
+export function formatWikilink(rawValue: unknown): string {
+	if (typeof rawValue !== 'string') {
+		return '';
+	}
+
+	const trimmed = rawValue.trim();
+	if (!trimmed) {
+		return '';
+	}
+
+	if (WIKILINK_PATTERN.test(trimmed)) {
+		return trimmed;
+	}
+
+	return `[[${trimmed}]]`;
+}
+
+/**
+ * 将任意输入规范化为去重的 wikilink 数组，忽略空值。
+ */
+export function normalizeWikilinks(rawValue: unknown): string[] {
+	const links = normalizeStringArray(rawValue)
+		.map((value) => formatWikilink(value))
+		.filter((value) => extractLinkpath(value).length > 0);
+	return Array.from(new Set(links));
+}
+
+/**
+ * 去除 wikilink 的方括号，供表单输入框展示。
+ */
+export function stripWikilink(rawValue: unknown): string {
+	if (typeof rawValue !== 'string') {
+		return '';
+	}
+
+	const trimmed = rawValue.trim();
+	const match = WIKILINK_PATTERN.exec(trimmed);
+	return match ? match[1].trim() : trimmed;
+}
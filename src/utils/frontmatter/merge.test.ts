@@ -0,0 +1,89 @@
+import type { FrontmatterField } from '@types';
+import { collectMergeStrategies, mergeFieldValue, mergeFrontmatters } from './merge';
+
+describe('mergeFrontmatters', () => {
+	it('keeps the default rules when no strategy is declared', () => {
+		const merged = mergeFrontmatters(
+			{ tags: ['a'], status: 'draft', title: 'Old' },
+			{ tags: ['b', 'a'], status: 'done' },
+		);
+
+		expect(merged).toEqual({ tags: ['a', 'b'], status: 'done', title: 'Old' });
+	});
+
+	it('applies the declared strategy per key', () => {
+		const merged = mergeFrontmatters(
+			{ tags: ['a'], status: 'draft', owner: '', aliases: ['Old'], related: ['[[A]]'] },
+			{ tags: ['b'], status: 'done', owner: 'me', aliases: ['New'], related: ['[[B]]'], created: '2024-01-01' },
+			{
+				tags: 'overwrite',
+				status: 'keep-existing',
+				owner: 'fill-if-empty',
+				aliases: 'prepend',
+				created: 'keep-existing',
+			},
+		);
+
+		expect(merged).toEqual({
+			tags: ['b'],
+			status: 'draft',
+			owner: 'me',
+			aliases: ['New', 'Old'],
+			related: ['[[B]]'],
+			created: '2024-01-01',
+		});
+	});
+
+	it('chains merges so each layer honors the strategies', () => {
+		const strategies = collectMergeStrategies([
+			{ key: 'status', type: 'select', label: 'Status', default: '', mergeStrategy: 'fill-if-empty' },
+			{ key: 'reviewers', type: 'multi-select', label: 'Reviewers', default: [], mergeStrategy: 'append-unique' },
+		] as FrontmatterField[]);
+
+		const first = mergeFrontmatters({ status: '' }, { status: 'open', reviewers: 'ann' }, strategies);
+		const second = mergeFrontmatters(first, { status: 'closed', reviewers: ['bob', 'ann'] }, strategies);
+
+		expect(second).toEqual({ status: 'open', reviewers: ['ann', 'bob'] });
+	});
+});
+
+describe('mergeFieldValue', () => {
+	it('distinguishes keep-existing from fill-if-empty for empty values', () => {
+		expect(mergeFieldValue('', 'new', 'keep-existing')).toBe('');
+		expect(mergeFieldValue('', 'new', 'fill-if-empty')).toBe('new');
+		expect(mergeFieldValue([], ['x'], 'fill-if-empty')).toEqual(['x']);
+		expect(mergeFieldValue(undefined, 'new', 'keep-existing', false)).toBe('new');
+	});
+
+	it('treats scalars as single-item lists for list strategies', () => {
+		expect(mergeFieldValue('a', 'b', 'append-unique')).toEqual(['a', 'b']);
+		expect(mergeFieldValue('a', ['b'], 'append-unique')).toEqual(['a', 'b']);
+		expect(mergeFieldValue(['a', 'b'], 'b', 'prepend')).toEqual(['b', 'a']);
+		expect(mergeFieldValue(null, ['a'], 'append-unique')).toEqual(['a']);
+	});
+
+});
+
+describe('collectMergeStrategies', () => {
+	it('only includes fields with a supported strategy', () => {
+		const fields = [
+			{ key: 'a', type: 'text', label: 'A', default: '', mergeStrategy: 'keep-existing' },
+			{ key: 'b', type: 'text', label: 'B', default: '' },
+			{ key: 'c', type: 'text', label: 'C', default: '', mergeStrategy: 'unknown' },
+		] as unknown as FrontmatterField[];
+
+		expect(collectMergeStrategies(fields)).toEqual({ a: 'keep-existing' });
+	});
+
+	it('uses overwrite for list strategies declared on scalar fields', () => {
+		const fields = [
+			{ key: 'status', type: 'select', label: 'Status', default: '', mergeStrategy: 'append-unique' },
+			{ key: 'related', type: 'link', label: 'Related', default: '', multiple: true, mergeStrategy: 'prepend' },
+		] as FrontmatterField[];
+
+		expect(collectMergeStrategies(fields)).toEqual({ status: 'overwrite', related: 'prepend' });
+		expect(mergeFrontmatters({ status: 'draft' }, { status: 'done' }, collectMergeStrategies(fields))).toEqual({
+			status: 'done',
+		});
+	});
+});
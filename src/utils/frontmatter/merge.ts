@@ -1,23 +1,102 @@
+import type { FieldMergeStrategy, FrontmatterField } from '@types';
+import { FIELD_MERGE_STRATEGIES, LIST_MERGE_STRATEGIES } from '@core/constants';
+import { isListValuedField } from './field';
+
+export type FieldMergeStrategies = Record<string, FieldMergeStrategy>;
+
+/**
+ * 字段可选的合并方式：追加与插入到开头只适用于列表字段（多选、多值链接与 tags）
+ */
+export function getApplicableMergeStrategies(
+	field: Pick<FrontmatterField, 'key' | 'type' | 'multiple'>,
+): FieldMergeStrategy[] {
+	if (field.key === 'tags' || isListValuedField(field)) {
+		return [...FIELD_MERGE_STRATEGIES];
+	}
+	return FIELD_MERGE_STRATEGIES.filter((strategy) => !LIST_MERGE_STRATEGIES.includes(strategy));
+}
+
+function toList(value: unknown): unknown[] {
+	if (Array.isArray(value)) {
+		return value;
+	}
+	return value === undefined || value === null || value === '' ? [] : [value];
+}
+
+/**
+ * 判断值是否视为空：缺失、空字符串或空列表
+ */
+export function isEmptyMergeValue(value: unknown): boolean {
+	return (
+		value === undefined ||
+		value === null ||
+		(typeof value === 'string' && value.trim() === '') ||
+		(Array.isArray(value) && value.length === 0)
+	);
+}
+
+/**
+ * 未声明合并方式时的默认规则：tags 合并去重，其余覆盖
+ */
+export function getDefaultMergeStrategy(key: string): FieldMergeStrategy {
+	return key === 'tags' ? 'append-unique' : 'overwrite';
+}
+
+/**
+ * 收集字段声明的合并方式，未声明的字段不包含在结果中；单值字段上的列表合并方式按覆盖处理
+ */
+export function collectMergeStrategies(fields: FrontmatterField[]): FieldMergeStrategies {
+	return fields.reduce<FieldMergeStrategies>((strategies, field) => {
+		if (field.mergeStrategy && FIELD_MERGE_STRATEGIES.includes(field.mergeStrategy)) {
+			strategies[field.key] = getApplicableMergeStrategies(field).includes(field.mergeStrategy)
+				? field.mergeStrategy
+				: 'overwrite';
+		}
+		return strategies;
+	}, {});
+}
+
+/**
+ * 按合并方式计算单个键的结果；列表合并方式会把单值视为单项列表
+ * @param hasExisting 旧 frontmatter 中是否存在该键
+ */
+export function mergeFieldValue(
+	existingValue: unknown,
+	incomingValue: unknown,
+	strategy: FieldMergeStrategy,
+	hasExisting = existingValue !== undefined,
+): unknown {
+	switch (strategy) {
+		case 'keep-existing':
+			return hasExisting ? existingValue : incomingValue;
+		case 'fill-if-empty':
+			return isEmptyMergeValue(existingValue) ? incomingValue : existingValue;
+		case 'append-unique':
+			return [...new Set([...toList(existingValue), ...toList(incomingValue)])];
+		case 'prepend':
+			return [...new Set([...toList(incomingValue), ...toList(existingValue)])];
+		default:
+			return incomingValue;
+	}
+}
+
+/**
+ * 将 override 合并到 base 上，每个键按 strategies 中声明的方式合并，未声明时使用默认规则
+ */
 export function mergeFrontmatters(
 	baseFrontmatter: Record<string, unknown>,
 	overrideFrontmatter: Record<string, unknown>,
+	strategies: FieldMergeStrategies = {},
 ): Record<string, unknown> {
 	const merged: Record<string, unknown> = { ...baseFrontmatter };
 
 	for (const [key, overrideValue] of Object.entries(overrideFrontmatter)) {
-		if (key === 'tags') {
-			const baseTags = Array.isArray(merged[key])
-				? merged[key] as unknown[]
-				: (merged[key] ? [merged[key]] : []);
-			const overrideTags = Array.isArray(overrideValue)
-				? overrideValue as unknown[]
-				: (overrideValue ? [overrideValue] : []);
-			const allTags = [...baseTags, ...overrideTags];
-			merged[key] = [...new Set(allTags)];
-			continue;
-		}
-
-		merged[key] = overrideValue;
+		merged[key] = mergeFieldValue(
+			merged[key],
+			overrideValue,
+			strategies[key] ?? getDefaultMergeStrategy(key),
+			Object.prototype.hasOwnProperty.call(merged, key),
+		);
 	}
 
 	return merged;
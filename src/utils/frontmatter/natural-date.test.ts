@@ -0,0 +1,69 @@
+import { parseNaturalDate } from './natural-date';
+
+// 2026-10-19 为周一
+const NOW = new Date(2026, 9, 19, 10, 30);
+
+const dateOf = (input: string) => parseNaturalDate(input, NOW)?.date;
+
+describe('parseNaturalDate', () => {
+	it('resolves relative day keywords in English and Chinese', () => {
+		expect(dateOf('today')).toEqual(new Date(2026, 9, 19));
+		expect(dateOf('Tomorrow')).toEqual(new Date(2026, 9, 20));
+		expect(dateOf('day after tomorrow')).toEqual(new Date(2026, 9, 21));
+		expect(dateOf('yesterday')).toEqual(new Date(2026, 9, 18));
+		expect(dateOf('明天')).toEqual(new Date(2026, 9, 20));
+		expect(dateOf('前天')).toEqual(new Date(2026, 9, 17));
+		expect(parseNaturalDate('now', NOW)).toEqual({ date: NOW, hasTime: true });
+	});
+
+	it('applies signed and worded offsets', () => {
+		expect(dateOf('+3d')).toEqual(new Date(2026, 9, 22));
+		expect(dateOf('-2w')).toEqual(new Date(2026, 9, 5));
+		expect(dateOf('in 2 weeks')).toEqual(new Date(2026, 10, 2));
+		expect(dateOf('10 days ago')).toEqual(new Date(2026, 9, 9));
+		expect(dateOf('3天后')).toEqual(new Date(2026, 9, 22));
+		expect(dateOf('1个月前')).toEqual(new Date(2026, 8, 19));
+		expect(parseNaturalDate('+3h', NOW)).toEqual({ date: new Date(2026, 9, 19, 13, 30), hasTime: true });
+	});
+
+	it('clamps month offsets to the end of the target month', () => {
+		expect(parseNaturalDate('+1m', new Date(2026, 0, 31))?.date).toEqual(new Date(2026, 1, 28));
+		expect(parseNaturalDate('next year', new Date(2028, 1, 29))?.date).toEqual(new Date(2029, 1, 28));
+	});
+
+	it('resolves weekdays using Monday-based weeks', () => {
+		expect(dateOf('friday')).toEqual(new Date(2026, 9, 23));
+		expect(dateOf('monday')).toEqual(new Date(2026, 9, 19));
+		expect(dateOf('next friday')).toEqual(new Date(2026, 9, 30));
+		expect(dateOf('last sunday')).toEqual(new Date(2026, 9, 18));
+		expect(dateOf('this sun')).toEqual(new Date(2026, 9, 25));
+		expect(dateOf('下周五')).toEqual(new Date(2026, 9, 30));
+		expect(dateOf('上星期一')).toEqual(new Date(2026, 9, 12));
+		expect(dateOf('周日')).toEqual(new Date(2026, 9, 25));
+	});
+
+	it('shifts whole periods', () => {
+		expect(dateOf('next week')).toEqual(new Date(2026, 9, 26));
+		expect(dateOf('last month')).toEqual(new Date(2026, 8, 19));
+		expect(dateOf('明年')).toEqual(new Date(2027, 9, 19));
+	});
+
+	it('reads a trailing time of day', () => {
+		expect(parseNaturalDate('tomorrow 14:30', NOW)).toEqual({
+			date: new Date(2026, 9, 20, 14, 30),
+			hasTime: true,
+		});
+		expect(dateOf('next friday at 9am')).toEqual(new Date(2026, 9, 30, 9, 0));
+		expect(dateOf('12am')).toEqual(new Date(2026, 9, 19, 0, 0));
+		expect(dateOf('明天下午3点半')).toEqual(new Date(2026, 9, 20, 15, 30));
+		expect(dateOf('后天9点15分')).toEqual(new Date(2026, 9, 21, 9, 15));
+	});
+
+	it('returns null for unrecognised input', () => {
+		expect(parseNaturalDate('', NOW)).toBeNull();
+		expect(parseNaturalDate('someday', NOW)).toBeNull();
+		expect(parseNaturalDate('next blursday', NOW)).toBeNull();
+		expect(parseNaturalDate('tomorrow 25:00', NOW)).toBeNull();
+		expect(parseNaturalDate('13pm', NOW)).toBeNull();
+	});
+});
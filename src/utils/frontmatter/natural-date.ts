@@ -0,0 +1,312 @@
+/**
+ * 自然语言日期解析（纯本地规则，不依赖外部服务）
+ *
+ * 支持的写法（英文不区分大小写）：
+ * - today / tomorrow / yesterday / now，今天 / 明天 / 后天 / 昨天 / 前天
+ * - +3d、-2w、+1m、+1y、+4h，in 3 days / 3 days ago，3天后 / 2周前 / 1个月后
+ * - friday（今天或之后最近的周五），this/next/last friday（本周/下周/上周，按周一为一周开始）
+ * - 周五、本周五、下周五、上星期一
+ * - next week / last month / next year，下周 / 上个月 / 明年 / 去年
+ * - 以上写法后可跟时间：tomorrow 14:30、next friday at 9am、明天下午3点
+ */
+
+export interface NaturalDateResult {
+	date: Date;
+	/** 输入中是否包含时间（或按小时偏移），未包含时为当天 00:00 */
+	hasTime: boolean;
+}
+
+type OffsetUnit = 'h' | 'd' | 'w' | 'm' | 'y';
+
+const UNIT_ALIASES: Record<string, OffsetUnit> = {
+	h: 'h',
+	hour: 'h',
+	hours: 'h',
+	小时: 'h',
+	个小时: 'h',
+	d: 'd',
+	day: 'd',
+	days: 'd',
+	天: 'd',
+	w: 'w',
+	week: 'w',
+	weeks: 'w',
+	周: 'w',
+	星期: 'w',
+	个星期: 'w',
+	个礼拜: 'w',
+	m: 'm',
+	month: 'm',
+	months: 'm',
+	月: 'm',
+	个月: 'm',
+	y: 'y',
+	year: 'y',
+	years: 'y',
+	年: 'y',
+};
+
+/** 0 为周一 */
+const EN_WEEKDAYS: Record<string, number> = {
+	mon: 0,
+	monday: 0,
+	tue: 1,
+	tues: 1,
+	tuesday: 1,
+	wed: 2,
+	wednesday: 2,
+	thu: 3,
+	thur: 3,
+	thurs: 3,
+	thursday: 3,
+	fri: 4,
+	friday: 4,
+	sat: 5,
+	saturday: 5,
+	sun: 6,
+	sunday: 6,
+};
+
+const ZH_WEEKDAYS: Record<string, number> = { 一: 0, 二: 1, 三: 2, 四: 3, 五: 4, 六: 5, 日: 6, 天: 6 };
+
+const RELATIVE_DAYS: Record<string, number> = {
+	today: 0,
+	tomorrow: 1,
+	yesterday: -1,
+	'day after tomorrow': 2,
+	'day before yesterday': -2,
+	今天: 0,
+	今日: 0,
+	明天: 1,
+	明日: 1,
+	后天: 2,
+	大后天: 3,
+	昨天: -1,
+	昨日: -1,
+	前天: -2,
+};
+
+const PERIOD_SHIFTS: Record<string, { unit: OffsetUnit; amount: number }> = {
+	'next week': { unit: 'w', amount: 1 },
+	'last week': { unit: 'w', amount: -1 },
+	'next month': { unit: 'm', amount: 1 },
+	'last month': { unit: 'm', amount: -1 },
+	'next year': { unit: 'y', amount: 1 },
+	'last year': { unit: 'y', amount: -1 },
+	下周: { unit: 'w', amount: 1 },
+	下星期: { unit: 'w', amount: 1 },
+	上周: { unit: 'w', amount: -1 },
+	上星期: { unit: 'w', amount: -1 },
+	下个月: { unit: 'm', amount: 1 },
+	下月: { unit: 'm', amount: 1 },
+	上个月: { unit: 'm', amount: -1 },
+	上月: { unit: 'm', amount: -1 },
+	明年: { unit: 'y', amount: 1 },
+	去年: { unit: 'y', amount: -1 },
+};
+
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES)
+	.sort((a, b) => b.length - a.length)
+	.join('|');
+
+const SIGNED_OFFSET = new RegExp(`^([+-])\\s*(\\d+)\\s*(${UNIT_PATTERN})$`);
+const IN_OFFSET = new RegExp(`^in\\s+(\\d+)\\s*(${UNIT_PATTERN})$`);
+const AGO_OFFSET = new RegExp(`^(\\d+)\\s*(${UNIT_PATTERN})\\s+ago$`);
+const ZH_OFFSET = new RegExp(`^(\\d+)\\s*(${UNIT_PATTERN})(后|以后|之后|前|以前|之前)$`);
+const EN_WEEKDAY = /^(?:(this|next|last)\s+)?([a-z]+)$/;
+const ZH_WEEKDAY = /^(本|这|下|上)?(?:周|星期|礼拜)([一二三四五六日天])$/;
+
+const CLOCK_TIME = /^(.*?)(?:\s+at)?\s*(\d{1,2}):(\d{2})\s*(am|pm)?$/;
+const MERIDIEM_TIME = /^(.*?)(?:\s+at)?\s*(\d{1,2})\s*(am|pm)$/;
+const ZH_TIME = /^(.*?)\s*(早上|上午|中午|下午|晚上)?(\d{1,2})[点點](?:(\d{1,2})分?|(半))?$/;
+
+function startOfDay(date: Date): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes());
+}
+
+/**
+ * 按单位平移日期；按月/年平移时日期超出目标月份天数则取月末
+ */
+function shiftDate(date: Date, unit: OffsetUnit, amount: number): Date {
+	switch (unit) {
+		case 'h':
+			return new Date(date.getTime() + amount * 3600 * 1000);
+		case 'd':
+			return addDays(date, amount);
+		case 'w':
+			return addDays(date, amount * 7);
+		case 'm':
+		case 'y': {
+			const months = unit === 'm' ? amount : amount * 12;
+			const target = new Date(date.getFullYear(), date.getMonth() + months, 1, date.getHours(), date.getMinutes());
+			const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+			target.setDate(Math.min(date.getDate(), lastDay));
+			return target;
+		}
+	}
+}
+
+function weekdayIndex(date: Date): number {
+	return (date.getDay() + 6) % 7;
+}
+
+/**
+ * 计算星期几：无修饰时取今天或之后最近的一天，其余按周一开始的自然周计算
+ */
+function resolveWeekday(today: Date, weekday: number, modifier: 'upcoming' | 'this' | 'next' | 'last'): Date {
+	const current = weekdayIndex(today);
+	if (modifier === 'upcoming') {
+		return addDays(today, (weekday - current + 7) % 7);
+	}
+	const weekShift = modifier === 'next' ? 7 : modifier === 'last' ? -7 : 0;
+	return addDays(today, weekday - current + weekShift);
+}
+
+function parseOffset(amount: string, unit: string, sign: number): { unit: OffsetUnit; amount: number } | null {
+	const normalizedUnit = UNIT_ALIASES[unit];
+	const value = Number.parseInt(amount, 10);
+	if (!normalizedUnit || !Number.isFinite(value)) {
+		return null;
+	}
+	return { unit: normalizedUnit, amount: sign * value };
+}
+
+/**
+ * 匹配 +3d、in 3 days、3 days ago、3天后 等相对偏移
+ */
+function matchOffset(text: string): { unit: OffsetUnit; amount: number } | null {
+	const signed = SIGNED_OFFSET.exec(text);
+	if (signed) {
+		return parseOffset(signed[2], signed[3], signed[1] === '-' ? -1 : 1);
+	}
+	const inOffset = IN_OFFSET.exec(text);
+	if (inOffset) {
+		return parseOffset(inOffset[1], inOffset[2], 1);
+	}
+	const ago = AGO_OFFSET.exec(text);
+	if (ago) {
+		return parseOffset(ago[1], ago[2], -1);
+	}
+	const zh = ZH_OFFSET.exec(text);
+	if (zh) {
+		return parseOffset(zh[1], zh[2], zh[3].endsWith('前') ? -1 : 1);
+	}
+	return null;
+}
+
+/**
+ * 解析不含时间的日期部分，空字符串表示今天
+ */
+function parseDatePart(text: string, now: Date): NaturalDateResult | null {
+	const today = startOfDay(now);
+
+	if (text === '') {
+		return { date: today, hasTime: false };
+	}
+	if (text === 'now' || text === '现在') {
+		return { date: new Date(now.getTime()), hasTime: true };
+	}
+	if (Object.prototype.hasOwnProperty.call(RELATIVE_DAYS, text)) {
+		return { date: addDays(today, RELATIVE_DAYS[text]), hasTime: false };
+	}
+	if (Object.prototype.hasOwnProperty.call(PERIOD_SHIFTS, text)) {
+		const { unit, amount } = PERIOD_SHIFTS[text];
+		return { date: shiftDate(today, unit, amount), hasTime: false };
+	}
+
+	const offset = matchOffset(text);
+	if (offset) {
+		const base = offset.unit === 'h' ? now : today;
+		return { date: shiftDate(base, offset.unit, offset.amount), hasTime: offset.unit === 'h' };
+	}
+
+	const enWeekday = EN_WEEKDAY.exec(text);
+	if (enWeekday && Object.prototype.hasOwnProperty.call(EN_WEEKDAYS, enWeekday[2])) {
+		const modifier = (enWeekday[1] as 'this' | 'next' | 'last' | undefined) ?? 'upcoming';
+		return { date: resolveWeekday(today, EN_WEEKDAYS[enWeekday[2]], modifier), hasTime: false };
+	}
+
+	const zhWeekday = ZH_WEEKDAY.exec(text);
+	if (zhWeekday) {
+		const prefix = zhWeekday[1];
+		const modifier = prefix === '下' ? 'next' : prefix === '上' ? 'last' : prefix ? 'this' : 'upcoming';
+		return { date: resolveWeekday(today, ZH_WEEKDAYS[zhWeekday[2]], modifier), hasTime: false };
+	}
+
+	return null;
+}
+
+function to24Hour(hour: number, meridiem: string | undefined): number | null {
+	if (!meridiem) {
+		return hour;
+	}
+	if (meridiem === 'am' || meridiem === 'pm') {
+		if (hour < 1 || hour > 12) {
+			return null;
+		}
+		return (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+	}
+	// 中文时段：下午/晚上的 1-11 点视为 13-23 点，中午 1-2 点同理
+	if ((meridiem === '下午' || meridiem === '晚上' || meridiem === '中午') && hour >= 1 && hour < 12) {
+		return meridiem === '中午' && hour > 2 ? hour : hour + 12;
+	}
+	return hour;
+}
+
+/**
+ * 拆分末尾的时间（14:30、9am、下午3点半），返回日期部分与时、分
+ */
+function splitTime(text: string): { rest: string; hour: number; minute: number } | null {
+	const clock = CLOCK_TIME.exec(text);
+	if (clock) {
+		const hour = to24Hour(Number(clock[2]), clock[4]);
+		return hour === null ? null : { rest: clock[1], hour, minute: Number(clock[3]) };
+	}
+	const meridiem = MERIDIEM_TIME.exec(text);
+	if (meridiem) {
+		const hour = to24Hour(Number(meridiem[2]), meridiem[3]);
+		return hour === null ? null : { rest: meridiem[1], hour, minute: 0 };
+	}
+	const zh = ZH_TIME.exec(text);
+	if (zh) {
+		const hour = to24Hour(Number(zh[3]), zh[2]);
+		const minute = zh[5] ? 30 : zh[4] ? Number(zh[4]) : 0;
+		return hour === null ? null : { rest: zh[1], hour, minute };
+	}
+	return null;
+}
+
+/**
+ * 解析自然语言日期
+ * @param input 用户输入，如 "next friday"、"+3d"、"明天下午3点"
+ * @param now 解析时使用的当前时间，默认为调用时刻
+ * @returns 解析结果（本地时间），无法识别时返回 null
+ */
+export function parseNaturalDate(input: string, now: Date = new Date()): NaturalDateResult | null {
+	const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+	if (!text) {
+		return null;
+	}
+
+	const time = splitTime(text);
+	if (time) {
+		if (time.hour > 23 || time.minute > 59) {
+			return null;
+		}
+		const datePart = parseDatePart(time.rest.trim(), now);
+		if (!datePart) {
+			return null;
+		}
+		const { date } = datePart;
+		return {
+			date: new Date(date.getFullYear(), date.getMonth(), date.getDate(), time.hour, time.minute),
+			hasTime: true,
+		};
+	}
+
+	return parseDatePart(text, now);
+}
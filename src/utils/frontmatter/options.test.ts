@@ -0,0 +1,35 @@
+import type { FrontmatterField } from '@types';
+import { getAllFieldOptions, getDependentFields, resolveFieldOptions } from './options';
+
+describe('级联选项解析', () => {
+	const fields: FrontmatterField[] = [
+		{ key: 'area', label: '领域', type: 'select', default: '', options: ['work', 'life'] },
+		{
+			key: 'project',
+			label: '项目',
+			type: 'select',
+			default: '',
+			options: ['inbox'],
+			dependsOn: 'area',
+			optionsByParent: { work: ['alpha', 'beta'], life: ['garden'] },
+		},
+	];
+	const [area, project] = fields;
+
+	it('父字段取值命中映射时返回对应选项', () => {
+		expect(resolveFieldOptions(project, { area: 'work' })).toEqual(['alpha', 'beta']);
+		expect(resolveFieldOptions(project, { area: ['life'] })).toEqual(['garden']);
+	});
+
+	it('父字段为空或未映射时回退到静态选项', () => {
+		expect(resolveFieldOptions(project, {})).toEqual(['inbox']);
+		expect(resolveFieldOptions(project, { area: 'other' })).toEqual(['inbox']);
+		expect(resolveFieldOptions(area, { area: 'work' })).toEqual(['work', 'life']);
+	});
+
+	it('汇总全部分支选项并查找子字段', () => {
+		expect(getAllFieldOptions(project)).toEqual(['inbox', 'alpha', 'beta', 'garden']);
+		expect(getDependentFields(fields, 'area')).toEqual([project]);
+		expect(getDependentFields(fields, 'project')).toEqual([]);
+	});
+});
@@ -0,0 +1,63 @@
+import type { FrontmatterField } from '@types';
+
+/**
+ * 判断字段是否配置了级联选项
+ */
+export function isDependentField(field: FrontmatterField): boolean {
+	return Boolean(field.dependsOn && field.optionsByParent);
+}
+
+/**
+ * 汇总字段的全部候选选项（静态选项与所有级联分支），用于默认值过滤等与父值无关的场景
+ */
+export function getAllFieldOptions(field: FrontmatterField): string[] {
+	const options = new Set<string>();
+	(field.options ?? []).forEach((option) => {
+		const normalized = option.trim();
+		if (normalized) {
+			options.add(normalized);
+		}
+	});
+	Object.values(field.optionsByParent ?? {}).forEach((list) => {
+		list.forEach((option) => {
+			const normalized = option.trim();
+			if (normalized) {
+				options.add(normalized);
+			}
+		});
+	});
+	return Array.from(options);
+}
+
+/**
+ * 读取父字段当前取值（多值时取第一个）
+ */
+function getParentValue(field: FrontmatterField, data: Record<string, unknown>): string {
+	if (!field.dependsOn) {
+		return '';
+	}
+	const rawValue = data[field.dependsOn];
+	const candidate = Array.isArray(rawValue) ? rawValue[0] : rawValue;
+	return candidate === undefined || candidate === null ? '' : String(candidate).trim();
+}
+
+/**
+ * 根据当前表单数据计算字段的可选项：父字段取值命中映射时使用对应列表，否则回退到静态选项
+ */
+export function resolveFieldOptions(field: FrontmatterField, data: Record<string, unknown>): string[] {
+	if (isDependentField(field)) {
+		const parentValue = getParentValue(field, data);
+		const mapped = parentValue ? field.optionsByParent?.[parentValue] : undefined;
+		if (mapped) {
+			return mapped.map((option) => option.trim()).filter(Boolean);
+		}
+	}
+	return (field.options ?? []).map((option) => option.trim()).filter(Boolean);
+}
+
+/**
+ * 获取直接依赖指定父字段的子字段
+ */
+export function getDependentFields(fields: FrontmatterField[], parentKey: string): FrontmatterField[] {
+	return fields.filter((field) => isDependentField(field) && field.dependsOn === parentKey);
+}
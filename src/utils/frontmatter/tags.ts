@@ -0,0 +1,38 @@
+import type { FrontmatterField } from '@types';
+
+/**
+ * 将 tags 字段升级为 multi-select，并复制必要属性避免修改原始预设
+ */
+export function upgradeTagsToMultiSelect(field: FrontmatterField): FrontmatterField {
+	return {
+		...field,
+		type: 'multi-select',
+		options: field.options ? [...field.options] : [],
+	};
+}
+
+/**
+ * 合并 tags 字段的选项并去重，保留原始顺序
+ */
+export function mergeTagsOptions(
+	existingOptions: string[] | undefined,
+	incomingOptions: string[] | undefined,
+): string[] {
+	const result: string[] = [];
+	const seen = new Set<string>();
+
+	const append = (options?: string[]) => {
+		if (!options) return;
+		for (const option of options) {
+			const trimmed = option.trim();
+			if (!trimmed || seen.has(trimmed)) continue;
+			seen.add(trimmed);
+			result.push(trimmed);
+		}
+	};
+
+	append(existingOptions);
+	append(incomingOptions);
+
+	return result;
+}
@@ -0,0 +1,92 @@
+import { composeContent, parseFrontmatter, patchFrontmatterYaml } from './text';
+import { updateFrontmatter } from '@utils/frontmatter-editor';
+
+const NOTE = [
+	'---',
+	'# 项目笔记',
+	'title: "Weekly Sync"   # 标题保持双引号',
+	"owner: 'Ann'",
+	'tags: [meeting, team]',
+	'',
+	'# 审阅',
+	'reviewers:',
+	'  - Bob',
+	'  - Cara',
+	'summary: |',
+	'  第一行',
+	'  第二行',
+	'status: draft',
+	'---',
+	'',
+	'正文',
+	'',
+].join('\n');
+
+describe('patchFrontmatterYaml round trips', () => {
+	it('leaves the note byte-identical when nothing changes', () => {
+		const result = updateFrontmatter(NOTE, (frontmatter) => frontmatter);
+
+		expect(result.changed).toBe(false);
+		expect(composeContent(result.frontmatter, parseFrontmatter(NOTE))).toBe(NOTE);
+	});
+
+	it('edits changed keys in place and keeps comments, quoting and flow lists', () => {
+		const result = updateFrontmatter(NOTE, (frontmatter) => ({
+			...frontmatter,
+			title: 'Weekly Review',
+			tags: ['meeting', 'team', 'review'],
+			status: 'done',
+		}));
+
+		expect(result.content).toBe(
+			NOTE.replace('"Weekly Sync"', '"Weekly Review"')
+				.replace('[meeting, team]', '[ meeting, team, review ]')
+				.replace('status: draft', 'status: done'),
+		);
+	});
+
+	it('removes deleted keys and appends new keys at the end', () => {
+		const result = updateFrontmatter(NOTE, (frontmatter) => {
+			const next: Record<string, unknown> = { ...frontmatter, due: '2024-05-01', reviewers: ['Bob'] };
+			delete next.owner;
+			delete next.summary;
+			return next;
+		});
+
+		expect(result.content).toBe(
+			[
+				'---',
+				'# 项目笔记',
+				'title: "Weekly Sync"   # 标题保持双引号',
+				'tags: [meeting, team]',
+				'',
+				'# 审阅',
+				'reviewers:',
+				'  - Bob',
+				'status: draft',
+				'due: 2024-05-01',
+				'---',
+				'',
+				'正文',
+				'',
+			].join('\n'),
+		);
+	});
+
+	it('renders a block value when a scalar becomes a list', () => {
+		expect(patchFrontmatterYaml('status: draft # 注释\nowner:\n', { status: 'draft', owner: ['Ann', 'Bob'] })).toBe(
+			'status: draft # 注释\nowner:\n  - Ann\n  - Bob\n',
+		);
+	});
+
+	it('keeps CRLF line endings', () => {
+		const content = '---\r\n# 注释\r\nstatus: draft\r\n---\r\n\r\nbody\r\n';
+		const result = updateFrontmatter(content, (frontmatter) => ({ ...frontmatter, status: 'done' }));
+
+		expect(result.content).toBe('---\r\n# 注释\r\nstatus: done\r\n---\r\n\r\nbody\r\n');
+	});
+
+	it('falls back to full serialization for invalid YAML', () => {
+		expect(patchFrontmatterYaml('a: 1\na: 2', { a: 3 })).toBe('a: 3\n');
+	});
+});
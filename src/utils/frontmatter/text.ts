@@ -1,12 +1,29 @@
-import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+	Document,
+	isMap,
+	isScalar,
+	isSeq,
+	parse as parseYaml,
+	parseDocument,
+	stringify as stringifyYaml,
+	type Node as YamlNode,
+} from 'yaml';
 
 export interface ParsedFrontmatter {
 	frontmatter: Record<string, unknown>;
 	body: string;
 	hasFrontmatter: boolean;
 	newline: string;
+	/** 原始 frontmatter 文本（不含分隔线），用于保留注释与格式 */
+	frontmatterText?: string;
 }
 
+const YAML_STRINGIFY_OPTIONS = {
+	indent: 2,
+	lineWidth: 0,
+	aliasDuplicateObjects: false,
+} as const;
+
 const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
 
 export function parseFrontmatter(content: string): ParsedFrontmatter {
@@ -32,6 +49,7 @@ export function parseFrontmatter(content: string): ParsedFrontmatter {
 			body,
 			hasFrontmatter: true,
 			newline,
+			frontmatterText,
 		};
 	} catch (error) {
 		console.warn('Note Architect: Frontmatter 解析失败，已返回空对象以继续处理', error);
@@ -58,12 +76,11 @@ export function composeContent(frontmatter: Record<string, unknown>, parsed: Par
 		return parsed.body;
 	}
 
-	const yamlText = stringifyYaml(frontmatter, {
-		indent: 2,
-		lineWidth: 0,
-		aliasDuplicateObjects: false,
-	});
-	const normalizedYaml = yamlText.endsWith('\n') ? yamlText : `${yamlText}\n`;
+	const yamlText =
+		parsed.frontmatterText !== undefined
+			? patchFrontmatterYaml(parsed.frontmatterText, frontmatter)
+			: stringifyYaml(frontmatter, YAML_STRINGIFY_OPTIONS);
+	const normalizedYaml = yamlText.endsWith('\n') ? yamlText : `${yamlText}${newline}`;
 	const header = `---${newline}${normalizedYaml}---${newline}`;
 
 	let bodySection = parsed.body;
@@ -74,6 +91,94 @@ export function composeContent(frontmatter: Record<string, unknown>, parsed: Par
 	return `${header}${bodySection}`;
 }
 
+interface YamlTextEdit {
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * 以默认格式渲染一个顶层键的取值部分（自冒号起的文本），尽量沿用旧节点的引号与流式风格
+ */
+function renderYamlValue(value: unknown, previousNode: unknown): string {
+	const document = new Document({ value }, YAML_STRINGIFY_OPTIONS);
+	const node = document.get('value', true);
+	if (isScalar(node) && isScalar(previousNode) && typeof node.value === 'string' && typeof previousNode.value === 'string') {
+		node.type = previousNode.type;
+	}
+	if (isSeq(node) && isSeq(previousNode) && previousNode.flow) {
+		node.flow = true;
+	}
+	return document.toString(YAML_STRINGIFY_OPTIONS).replace(/\n$/, '').slice('value'.length);
+}
+
+/**
+ * 在原始 YAML 文本上应用新的 frontmatter：
+ * 取值变化的键原地替换，删除的键整行移除，新增的键追加到末尾，其余内容（注释、引号、空行、流式列表）保持原样。
+ * 原文无法安全定位时（语法错误、重复键、非映射结构）退回整体序列化。
+ */
+export function patchFrontmatterYaml(yamlText: string, frontmatter: Record<string, unknown>): string {
+	const source = yamlText.replace(/\r\n/g, '\n');
+	const document = parseDocument(source, { uniqueKeys: true });
+	const contents = document.contents;
+	if (document.errors.length > 0 || (contents !== null && !isMap(contents))) {
+		return stringifyYaml(frontmatter, YAML_STRINGIFY_OPTIONS);
+	}
+
+	const previous = (document.toJS() ?? {}) as Record<string, unknown>;
+	const edits: YamlTextEdit[] = [];
+	const existingKeys = new Set<string>();
+
+	for (const pair of contents?.items ?? []) {
+		const keyNode = pair.key as YamlNode | null;
+		if (!isScalar(keyNode) || !keyNode.range) {
+			return stringifyYaml(frontmatter, YAML_STRINGIFY_OPTIONS);
+		}
+		const key = String(keyNode.value);
+		existingKeys.add(key);
+
+		const valueNode = pair.value as YamlNode | null;
+		let end = valueNode?.range ? valueNode.range[1] : keyNode.range[1];
+		if (source[end - 1] === '\n') {
+			end -= 1;
+		}
+
+		if (!Object.prototype.hasOwnProperty.call(frontmatter, key)) {
+			const lineStart = source.lastIndexOf('\n', keyNode.range[0] - 1) + 1;
+			const lineEnd = source.indexOf('\n', end);
+			edits.push({ start: lineStart, end: lineEnd < 0 ? source.length : lineEnd + 1, text: '' });
+			continue;
+		}
+		if (areFrontmattersEqual({ value: previous[key] }, { value: frontmatter[key] })) {
+			continue;
+		}
+		const colon = source.indexOf(':', keyNode.range[1]);
+		if (colon < 0 || colon > end) {
+			return stringifyYaml(frontmatter, YAML_STRINGIFY_OPTIONS);
+		}
+		edits.push({ start: colon, end, text: renderYamlValue(frontmatter[key], valueNode) });
+	}
+
+	let result = edits
+		.sort((a, b) => b.start - a.start)
+		.reduce((text, edit) => `${text.slice(0, edit.start)}${edit.text}${text.slice(edit.end)}`, source);
+
+	const added = Object.keys(frontmatter).reduce<Record<string, unknown>>((acc, key) => {
+		if (!existingKeys.has(key)) {
+			acc[key] = frontmatter[key];
+		}
+		return acc;
+	}, {});
+	if (Object.keys(added).length > 0) {
+		if (result.length > 0 && !result.endsWith('\n')) {
+			result += '\n';
+		}
+		result += stringifyYaml(added, YAML_STRINGIFY_OPTIONS);
+	}
+
+	return yamlText.includes('\r\n') ? result.replace(/\n/g, '\r\n') : result;
+}
+
 export function sanitizeFrontmatter(frontmatter: Record<string, unknown> | null | undefined): Record<string, unknown> {
 	if (!frontmatter) {
 		return {};
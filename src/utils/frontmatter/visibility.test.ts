@@ -0,0 +1,52 @@
+import type { FrontmatterField } from '@types';
+import { evaluateVisibilityRule, getVisibleFieldKeys } from './visibility';
+
+describe('evaluateVisibilityRule', () => {
+	it('equals / not-equals 比较标量值', () => {
+		const data = { type: 'decision' };
+		expect(evaluateVisibilityRule({ field: 'type', operator: 'equals', value: 'decision' }, data)).toBe(true);
+		expect(evaluateVisibilityRule({ field: 'type', operator: 'not-equals', value: 'decision' }, data)).toBe(false);
+	});
+
+	it('includes 对列表检查成员，对字符串检查子串', () => {
+		expect(evaluateVisibilityRule({ field: 'tags', operator: 'includes', value: 'a' }, { tags: ['a', 'b'] })).toBe(true);
+		expect(evaluateVisibilityRule({ field: 'tags', operator: 'includes', value: 'ab' }, { tags: ['a', 'b'] })).toBe(false);
+		expect(evaluateVisibilityRule({ field: 'title', operator: 'includes', value: 'sync' }, { title: 'weekly sync' })).toBe(true);
+	});
+
+	it('is-empty / is-not-empty 识别空字符串与空列表', () => {
+		expect(evaluateVisibilityRule({ field: 'owner', operator: 'is-empty' }, { owner: '  ' })).toBe(true);
+		expect(evaluateVisibilityRule({ field: 'tags', operator: 'is-empty' }, { tags: [] })).toBe(true);
+		expect(evaluateVisibilityRule({ field: 'done', operator: 'is-not-empty' }, { done: false })).toBe(true);
+	});
+});
+
+describe('getVisibleFieldKeys', () => {
+	const fields: FrontmatterField[] = [
+		{ key: 'type', label: '类型', type: 'select', default: '', options: ['decision', 'note'] },
+		{
+			key: 'owner',
+			label: '负责人',
+			type: 'text',
+			default: '',
+			showIf: [{ field: 'type', operator: 'equals', value: 'decision' }],
+		},
+		{
+			key: 'due',
+			label: '截止',
+			type: 'date',
+			default: '',
+			showIf: [{ field: 'owner', operator: 'is-not-empty' }],
+		},
+	];
+
+	it('满足条件时显示字段', () => {
+		const keys = getVisibleFieldKeys(fields, { type: 'decision', owner: 'Ann' });
+		expect(Array.from(keys)).toEqual(['type', 'owner', 'due']);
+	});
+
+	it('隐藏字段的值不参与其他字段的条件判断', () => {
+		const keys = getVisibleFieldKeys(fields, { type: 'note', owner: 'Ann' });
+		expect(Array.from(keys)).toEqual(['type']);
+	});
+});
@@ -0,0 +1,91 @@
+import type { FieldVisibilityOperator, FieldVisibilityRule, FrontmatterField } from '@types';
+
+export const VISIBILITY_OPERATORS: FieldVisibilityOperator[] = [
+	'equals',
+	'not-equals',
+	'includes',
+	'is-empty',
+	'is-not-empty',
+];
+
+/**
+ * 判断操作符是否需要比较值
+ */
+export function operatorRequiresValue(operator: FieldVisibilityOperator): boolean {
+	return operator === 'equals' || operator === 'not-equals' || operator === 'includes';
+}
+
+/**
+ * 将字段值展开为字符串列表，便于统一比较标量与多值字段
+ */
+function toComparableValues(rawValue: unknown): string[] {
+	if (Array.isArray(rawValue)) {
+		return rawValue.map((item) => String(item).trim()).filter(Boolean);
+	}
+
+	if (rawValue === undefined || rawValue === null) {
+		return [];
+	}
+
+	const normalized = String(rawValue).trim();
+	return normalized ? [normalized] : [];
+}
+
+/**
+ * 针对给定数据计算单条显示条件
+ */
+export function evaluateVisibilityRule(rule: FieldVisibilityRule, data: Record<string, unknown>): boolean {
+	const actualValue = data[rule.field];
+	const values = toComparableValues(actualValue);
+	const expected = (rule.value ?? '').trim();
+
+	switch (rule.operator) {
+		case 'equals':
+			return expected === '' ? values.length === 0 : values.length === 1 && values[0] === expected;
+		case 'not-equals':
+			return !evaluateVisibilityRule({ ...rule, operator: 'equals' }, data);
+		case 'includes':
+			if (Array.isArray(actualValue)) {
+				return values.includes(expected);
+			}
+			return values.length > 0 && values[0].includes(expected);
+		case 'is-empty':
+			return values.length === 0;
+		case 'is-not-empty':
+			return values.length > 0;
+		default:
+			return true;
+	}
+}
+
+/**
+ * 计算当前数据下可见的字段键集合。
+ * 隐藏字段的值不参与其他条件的判断，因此迭代至结果稳定为止。
+ */
+export function getVisibleFieldKeys(fields: FrontmatterField[], data: Record<string, unknown>): Set<string> {
+	let visibleKeys = new Set(fields.map((field) => field.key));
+
+	for (let pass = 0; pass <= fields.length; pass++) {
+		const effectiveData: Record<string, unknown> = {};
+		Object.entries(data).forEach(([key, value]) => {
+			if (visibleKeys.has(key) || !fields.some((field) => field.key === key)) {
+				effectiveData[key] = value;
+			}
+		});
+
+		const nextKeys = new Set(
+			fields
+				.filter((field) => (field.showIf ?? []).every((rule) => evaluateVisibilityRule(rule, effectiveData)))
+				.map((field) => field.key),
+		);
+
+		const isStable =
+			nextKeys.size === visibleKeys.size && Array.from(nextKeys).every((key) => visibleKeys.has(key));
+		visibleKeys = nextKeys;
+		if (isStable) {
+			break;
+		}
+	}
+
+	return visibleKeys;
+}
@@ -1,4 +1,4 @@
-import { PRESET_CONFIG_KEY } from '@core/constants';
+import { NEW_NOTE_FILENAME_KEY, NEW_NOTE_FOLDER_KEY, PRESET_CONFIG_KEY } from '@core/constants';
 import type { FrontmatterPreset } from '@types';
 
 /**
@@ -115,3 +115,13 @@ export function stripPresetConfigKeys(frontmatter: Record<string, unknown>): Rec
   }
   return next;
 }
+
+/**
+ * 移除所有模板專用的設定欄位（預設綁定與新建筆記位置），這些欄位不應寫入目標筆記
+ */
+export function stripTemplateConfigKeys(frontmatter: Record<string, unknown>): Record<string, unknown> {
+  const next = stripPresetConfigKeys(frontmatter);
+  delete next[NEW_NOTE_FOLDER_KEY];
+  delete next[NEW_NOTE_FILENAME_KEY];
+  return next;
+}
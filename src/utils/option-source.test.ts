@@ -0,0 +1,81 @@
+import type { App } from 'obsidian';
+import type { FrontmatterField, FrontmatterPreset } from '@types';
+import { OptionSourceResolver } from './option-source';
+
+interface FakeFile {
+	path: string;
+	basename: string;
+	frontmatter?: Record<string, unknown>;
+	tags?: string[];
+}
+
+const createApp = (files: FakeFile[]) => {
+	const getMarkdownFiles = jest.fn(() => files);
+	const app = {
+		vault: { getMarkdownFiles },
+		metadataCache: {
+			getFileCache: (file: FakeFile) => ({ frontmatter: file.frontmatter, tags: file.tags }),
+		},
+	} as unknown as App;
+	return { app, getMarkdownFiles };
+};
+
+const files: FakeFile[] = [
+	{ path: 'Projects/Alpha.md', basename: 'Alpha', frontmatter: { status: 'active' }, tags: ['#project'] },
+	{ path: 'Projects/Beta.md', basename: 'Beta', frontmatter: { status: ['done', 'active'] } },
+	{ path: 'Templates/Meeting.md', basename: 'Meeting', frontmatter: { status: '<% tp.date.now() %>' } },
+	{ path: 'People/Ann.md', basename: 'Ann', tags: ['#project/alpha'] },
+];
+
+const buildField = (overrides: Partial<FrontmatterField>): FrontmatterField => ({
+	key: 'status',
+	label: '状态',
+	type: 'select',
+	default: '',
+	...overrides,
+});
+
+describe('OptionSourceResolver', () => {
+	it('收集库中该属性已使用的值并忽略 Templater 表达式', () => {
+		const { app } = createApp(files);
+		const resolver = new OptionSourceResolver(app);
+		expect(resolver.resolve(buildField({ optionSource: { type: 'property-values' } }))).toEqual([
+			'active',
+			'done',
+		]);
+	});
+
+	it('按目录或标签收集笔记名', () => {
+		const { app } = createApp(files);
+		const resolver = new OptionSourceResolver(app);
+		expect(resolver.resolve(buildField({ optionSource: { type: 'folder', folder: 'Projects' } }))).toEqual([
+			'Alpha',
+			'Beta',
+		]);
+		expect(resolver.resolve(buildField({ optionSource: { type: 'tag', tag: 'project' } }))).toEqual([
+			'Alpha',
+			'Ann',
+		]);
+	});
+
+	it('同一会话内相同来源只解析一次', () => {
+		const { app, getMarkdownFiles } = createApp(files);
+		const resolver = new OptionSourceResolver(app);
+		const field = buildField({ optionSource: { type: 'property-values' } });
+		resolver.resolve(field);
+		resolver.resolve(field);
+		expect(getMarkdownFiles).toHaveBeenCalledTimes(1);
+	});
+
+	it('applyToPreset 将动态选项追加在静态选项之后', () => {
+		const { app } = createApp(files);
+		const resolver = new OptionSourceResolver(app);
+		const preset: FrontmatterPreset = {
+			id: 'p',
+			name: 'P',
+			fields: [buildField({ options: ['planned', 'active'], optionSource: { type: 'property-values' } })],
+		};
+		expect(resolver.applyToPreset(preset).fields[0].options).toEqual(['planned', 'active', 'done']);
+		expect(preset.fields[0].options).toEqual(['planned', 'active']);
+	});
+});
@@ -0,0 +1,118 @@
+import type { App, TFile } from 'obsidian';
+import type { FieldOptionSource, FrontmatterField, FrontmatterPreset } from '@types';
+import { fileHasTag, isFileInFolder } from '@utils/vault';
+
+/**
+ * 将 frontmatter 属性值展开为可用作选项的字符串
+ */
+function collectPropertyValues(rawValue: unknown, target: Set<string>): void {
+	if (Array.isArray(rawValue)) {
+		rawValue.forEach((item) => collectPropertyValues(item, target));
+		return;
+	}
+
+	if (typeof rawValue === 'string' || typeof rawValue === 'number' || typeof rawValue === 'boolean') {
+		const normalized = String(rawValue).trim();
+		// 模板中的 Templater 表达式不是真实取值
+		if (normalized && !normalized.includes('<%')) {
+			target.add(normalized);
+		}
+	}
+}
+
+/**
+ * OptionSourceResolver - 根据字段的 optionSource 从库中生成选项
+ *
+ * 每个实例对应一次表单会话，相同来源只解析一次。
+ */
+export class OptionSourceResolver {
+	private readonly cache = new Map<string, string[]>();
+
+	constructor(private readonly app: App) {}
+
+	/**
+	 * 解析字段的动态选项，未配置来源时返回空数组
+	 */
+	resolve(field: FrontmatterField): string[] {
+		const source = field.optionSource;
+		if (!source) {
+			return [];
+		}
+
+		const cacheKey = this.buildCacheKey(field.key, source);
+		const cached = this.cache.get(cacheKey);
+		if (cached) {
+			return [...cached];
+		}
+
+		const options = this.collect(field.key, source);
+		this.cache.set(cacheKey, options);
+		return [...options];
+	}
+
+	/**
+	 * 返回合并了动态选项的预设副本，静态选项排在前面
+	 */
+	applyToPreset(preset: FrontmatterPreset): FrontmatterPreset {
+		return {
+			...preset,
+			fields: preset.fields.map((field) => {
+				if (!field.optionSource || (field.type !== 'select' && field.type !== 'multi-select')) {
+					return field;
+				}
+				const staticOptions = (field.options ?? []).map((option) => option.trim()).filter(Boolean);
+				const merged = Array.from(new Set([...staticOptions, ...this.resolve(field)]));
+				return { ...field, options: merged };
+			}),
+		};
+	}
+
+	private buildCacheKey(fieldKey: string, source: FieldOptionSource): string {
+		switch (source.type) {
+			case 'property-values':
+				return `property:${fieldKey}`;
+			case 'folder':
+				return `folder:${source.folder ?? ''}`;
+			case 'tag':
+				return `tag:${source.tag ?? ''}`;
+			default:
+				return `unknown:${fieldKey}`;
+		}
+	}
+
+	private collect(fieldKey: string, source: FieldOptionSource): string[] {
+		const files = this.app.vault.getMarkdownFiles();
+		const values = new Set<string>();
+
+		switch (source.type) {
+			case 'property-values':
+				files.forEach((file) => {
+					const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+					if (frontmatter) {
+						collectPropertyValues(frontmatter[fieldKey], values);
+					}
+				});
+				break;
+			case 'folder':
+				if (source.folder) {
+					const folder = source.folder;
+					this.collectBasenames(files.filter((file) => isFileInFolder(file, folder)), values);
+				}
+				break;
+			case 'tag':
+				if (source.tag) {
+					const tag = source.tag;
+					this.collectBasenames(files.filter((file) => fileHasTag(this.app, file, tag)), values);
+				}
+				break;
+			default:
+				break;
+		}
+
+		return Array.from(values).sort((a, b) => a.localeCompare(b));
+	}
+
+	private collectBasenames(files: TFile[], target: Set<string>): void {
+		files.forEach((file) => target.add(file.basename));
+	}
+}
@@ -0,0 +1,78 @@
+import { NOTE_PROVENANCE_KEY } from '@core/constants';
+import type { FrontmatterPreset } from '@types';
+import {
+	buildNoteProvenance,
+	matchesNoteProvenance,
+	readNoteProvenance,
+	withNoteProvenance,
+} from './provenance';
+
+const buildPreset = (id: string, version?: number): FrontmatterPreset => ({ id, name: id, fields: [], version });
+
+describe('buildNoteProvenance', () => {
+	it('records the template path and unique preset ids with their versions', () => {
+		expect(
+			buildNoteProvenance('Templates/meeting.md', [buildPreset('meeting', 3), buildPreset('base'), buildPreset('meeting')]),
+		).toEqual({
+			template: 'Templates/meeting.md',
+			presets: ['meeting', 'base'],
+			versions: { meeting: 3, base: 1 },
+		});
+	});
+
+	it('omits the template when updating frontmatter only', () => {
+		expect(buildNoteProvenance(undefined, [buildPreset('base')])).toEqual({
+			presets: ['base'],
+			versions: { base: 1 },
+		});
+	});
+});
+
+describe('readNoteProvenance', () => {
+	it('normalizes the stored record and ignores invalid values', () => {
+		const frontmatter = {
+			[NOTE_PROVENANCE_KEY]: {
+				template: ' Templates/meeting.md ',
+				presets: ['meeting', 'meeting', 42],
+				versions: { meeting: '2', stale: 5 },
+			},
+		};
+
+		expect(readNoteProvenance(frontmatter)).toEqual({
+			template: 'Templates/meeting.md',
+			presets: ['meeting'],
+			versions: { meeting: 2 },
+		});
+		expect(readNoteProvenance({ [NOTE_PROVENANCE_KEY]: 'meeting' })).toBeNull();
+		expect(readNoteProvenance({})).toBeNull();
+	});
+});
+
+describe('withNoteProvenance', () => {
+	it('merges with the existing record, keeping the original template', () => {
+		const frontmatter = {
+			status: 'draft',
+			[NOTE_PROVENANCE_KEY]: { template: 'Templates/meeting.md', presets: ['meeting'], versions: { meeting: 1 } },
+		};
+
+		expect(withNoteProvenance(frontmatter, buildNoteProvenance(undefined, [buildPreset('meeting', 2), buildPreset('base')]))).toEqual({
+			status: 'draft',
+			[NOTE_PROVENANCE_KEY]: {
+				template: 'Templates/meeting.md',
+				presets: ['meeting', 'base'],
+				versions: { meeting: 2, base: 1 },
+			},
+		});
+	});
+});
+
+describe('matchesNoteProvenance', () => {
+	const provenance = buildNoteProvenance('Templates/meeting.md', [buildPreset('meeting')]);
+
+	it('matches by template and by preset', () => {
+		expect(matchesNoteProvenance(provenance, { templatePath: 'Templates/meeting.md' })).toBe(true);
+		expect(matchesNoteProvenance(provenance, { presetId: 'meeting' })).toBe(true);
+		expect(matchesNoteProvenance(provenance, { presetId: 'base' })).toBe(false);
+		expect(matchesNoteProvenance(provenance, {})).toBe(false);
+	});
+});
@@ -0,0 +1,105 @@
+import { NOTE_PROVENANCE_KEY } from '@core/constants';
+import type { FrontmatterPreset, NoteProvenance, NoteProvenanceQuery } from '@types';
+import { normalizeConfigIds } from './note-architect-config';
+
+/**
+ * 预设版本，未设置或无效时视为 1
+ */
+export function getPresetVersion(preset: Pick<FrontmatterPreset, 'version'>): number {
+	const { version } = preset;
+	return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 1;
+}
+
+/**
+ * 根据模板与预设生成来源记录
+ * @param templatePath 模板路径，更新 frontmatter 时不传
+ * @param presets 参与生成的预设（按合并顺序）
+ */
+export function buildNoteProvenance(templatePath: string | undefined, presets: FrontmatterPreset[]): NoteProvenance {
+	const ids: string[] = [];
+	const versions: Record<string, number> = {};
+	presets.forEach((preset) => {
+		if (!preset.id || preset.id in versions) {
+			return;
+		}
+		ids.push(preset.id);
+		versions[preset.id] = getPresetVersion(preset);
+	});
+
+	const template = templatePath?.trim();
+	return { ...(template ? { template } : {}), presets: ids, versions };
+}
+
+/**
+ * 读取笔记 frontmatter 中的来源记录，格式无效时返回 null
+ */
+export function readNoteProvenance(frontmatter: Record<string, unknown> | null | undefined): NoteProvenance | null {
+	const raw = frontmatter?.[NOTE_PROVENANCE_KEY];
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+		return null;
+	}
+
+	const record = raw as Record<string, unknown>;
+	const template = typeof record.template === 'string' ? record.template.trim() : '';
+	const presets = normalizeConfigIds(record.presets);
+	const versions: Record<string, number> = {};
+	if (record.versions && typeof record.versions === 'object' && !Array.isArray(record.versions)) {
+		Object.entries(record.versions as Record<string, unknown>).forEach(([id, version]) => {
+			if (presets.includes(id)) {
+				versions[id] = getPresetVersion({ version: Number(version) });
+			}
+		});
+	}
+	presets.forEach((id) => {
+		versions[id] = versions[id] ?? 1;
+	});
+
+	if (!template && presets.length === 0) {
+		return null;
+	}
+	return { ...(template ? { template } : {}), presets, versions };
+}
+
+/**
+ * 合并来源记录：新模板覆盖旧模板，预设取并集，版本以新记录为准
+ */
+export function mergeNoteProvenance(previous: NoteProvenance | null, next: NoteProvenance): NoteProvenance {
+	if (!previous) {
+		return next;
+	}
+	const presets = [...previous.presets, ...next.presets.filter((id) => !previous.presets.includes(id))];
+	const template = next.template ?? previous.template;
+	return {
+		...(template ? { template } : {}),
+		presets,
+		versions: { ...previous.versions, ...next.versions },
+	};
+}
+
+/**
+ * 将来源记录写入 frontmatter，与已有记录合并
+ * @param frontmatter 要写入的 frontmatter
+ * @param provenance 本次操作的来源记录
+ * @param previous 笔记中已有的记录，默认从 frontmatter 中读取
+ */
+export function withNoteProvenance(
+	frontmatter: Record<string, unknown>,
+	provenance: NoteProvenance,
+	previous: NoteProvenance | null = readNoteProvenance(frontmatter),
+): Record<string, unknown> {
+	const merged = mergeNoteProvenance(previous, provenance);
+	return { ...frontmatter, [NOTE_PROVENANCE_KEY]: merged };
+}
+
+/**
+ * 判断来源记录是否符合查询条件（条件之间为“且”）
+ */
+export function matchesNoteProvenance(provenance: NoteProvenance, query: NoteProvenanceQuery): boolean {
+	if (query.templatePath && provenance.template !== query.templatePath) {
+		return false;
+	}
+	if (query.presetId && !provenance.presets.includes(query.presetId)) {
+		return false;
+	}
+	return Boolean(query.templatePath || query.presetId);
+}
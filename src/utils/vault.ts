@@ -1,4 +1,4 @@
-import { App, TFolder } from 'obsidian';
+import { App, TFile, TFolder, getAllTags } from 'obsidian';
 import { normalizePath } from '@utils/path';
 
 export interface SafeFolderResult {
@@ -26,3 +26,49 @@ export function safeGetFolder(app: App, rawPath: string | null | undefined): Saf
 
 	return null;
 }
+
+/**
+ * 判断文件是否位于指定目录（含子目录）下
+ */
+export function isFileInFolder(file: TFile, folderPath: string): boolean {
+	if (!folderPath.trim()) {
+		return true;
+	}
+	const normalizedFolder = normalizePath(folderPath);
+	return file.path.startsWith(`${normalizedFolder}/`);
+}
+
+/**
+ * 判断文件是否带有指定标签（含嵌套子标签，如 #project/alpha 匹配 project）
+ */
+export function fileHasTag(app: App, file: TFile, tag: string): boolean {
+	const cache = app.metadataCache.getFileCache(file);
+	const tags = cache ? getAllTags(cache) ?? [] : [];
+	const expected = `#${tag.replace(/^#+/, '')}`.toLowerCase();
+	return tags.some((candidate) => {
+		const normalized = candidate.toLowerCase();
+		return normalized === expected || normalized.startsWith(`${expected}/`);
+	});
+}
+
+/**
+ * 确保目录存在，缺失时逐级创建
+ * @throws 如果路径已被同名文件占用
+ */
+export async function ensureFolder(app: App, folderPath: string): Promise<void> {
+	const normalizedPath = normalizePath(folderPath);
+	if (!normalizedPath) {
+		return;
+	}
+
+	let currentPath = '';
+	for (const segment of normalizedPath.split('/')) {
+		currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+		const existing = app.vault.getAbstractFileByPath(currentPath);
+		if (!existing) {
+			await app.vault.createFolder(currentPath);
+		} else if (!(existing instanceof TFolder)) {
+			throw new Error(`路径 "${currentPath}" 已存在同名文件，无法创建文件夹`);
+		}
+	}
+}